@@ -0,0 +1,6 @@
+#!/usr/bin/env node
+// Runs the TypeScript CLI entry point through tsx (no separate build step)
+import { register } from 'tsx/esm/api'
+
+register()
+await import('../src/cli/sentimentomatic.ts')
@@ -5,6 +5,8 @@ import { defineConfig, devices } from '@playwright/test';
  */
 export default defineConfig({
   testDir: './tests',
+  /* Unit tests run under Node with npm test */
+  testIgnore: 'unit/**',
   /* Run tests in files in parallel */
   fullyParallel: false, // Set to false for model size testing to avoid conflicts
   /* Fail the build on CI if you accidentally left test.only in the source code. */
@@ -0,0 +1,119 @@
+/**
+ * NodeModelRunner - Runs transformers.js models in-process under Node.js
+ *
+ * Stands in for WorkerModelManager when MultiModelAnalyzer is driven from the CLI.
+ * There is no worker to terminate, so "terminating" disposes every pipeline instead.
+ */
+
+import type { ModelWorker } from '../core/models/WorkerModelManager';
+import { getPipelineOverrides, type PipelineOverrides } from '../core/models/pipelineOptions';
+import { runChunkedInference, type InferenceOutput } from '../core/models/textChunking';
+import { computeOcclusionAttributions, type TokenAttributions } from '../core/models/occlusion';
+import { asTextClassifier, checkZeroShotConfig, type ZeroShotConfig } from '../core/models/zeroShot';
+
+export class NodeModelRunner implements ModelWorker {
+  private transformersModule: any = null;
+  private loadedPipelines = new Map<string, any>();
+  private zeroShotConfigs = new Map<string, ZeroShotConfig>();
+  private active = false;
+
+  constructor(private cacheDir?: string) {}
+
+  async initializeWorker(): Promise<void> {
+    if (!this.transformersModule) {
+      this.transformersModule = await import('@huggingface/transformers');
+
+      const { env } = this.transformersModule;
+      env.allowRemoteModels = true;
+      env.allowLocalModels = false;
+      // Same variable the web build reads, e.g. VITE_MODEL_HOST=https://models.example.com
+      if (process.env.VITE_MODEL_HOST) {
+        env.remoteHost = `${process.env.VITE_MODEL_HOST.replace(/\/+$/, '')}/`;
+      }
+      if (this.cacheDir) {
+        env.cacheDir = this.cacheDir;
+      }
+    }
+    this.active = true;
+  }
+
+  async terminateWorker(): Promise<void> {
+    await this.disposeAll();
+    this.active = false;
+  }
+
+  async loadModel(
+    modelId: string,
+    huggingFaceId: string,
+    task: string = 'text-classification',
+    overrides?: PipelineOverrides,
+    _localPath?: string,
+    zeroShot?: ZeroShotConfig
+  ): Promise<void> {
+    if (!this.transformersModule) {
+      throw new Error('Runner not initialized');
+    }
+
+    if (zeroShot) {
+      checkZeroShotConfig(zeroShot);
+      this.zeroShotConfigs.set(modelId, zeroShot);
+    }
+
+    if (this.loadedPipelines.has(modelId)) {
+      return;
+    }
+
+    const { pipeline } = this.transformersModule;
+    const options = {
+      dtype: 'q8',
+      ...(overrides ?? getPipelineOverrides(huggingFaceId))
+    };
+
+    const pipelineInstance = await pipeline(task, huggingFaceId, options);
+    this.loadedPipelines.set(modelId, pipelineInstance);
+  }
+
+  async runInference(modelId: string, text: string): Promise<InferenceOutput> {
+    const [output] = await this.runInferenceBatch(modelId, [text], 1);
+    return output;
+  }
+
+  async runInferenceBatch(modelId: string, texts: string[], batchSize: number = 8): Promise<InferenceOutput[]> {
+    return runChunkedInference(this.classifierFor(modelId), texts, batchSize, { top_k: null });
+  }
+
+  async explain(modelId: string, text: string, label?: string, batchSize: number = 8): Promise<TokenAttributions> {
+    return computeOcclusionAttributions(this.classifierFor(modelId), text, label, batchSize, { top_k: null });
+  }
+
+  private classifierFor(modelId: string): any {
+    const pipeline = this.loadedPipelines.get(modelId);
+    if (!pipeline) {
+      throw new Error(`Model ${modelId} not loaded`);
+    }
+
+    const zeroShot = this.zeroShotConfigs.get(modelId);
+    return zeroShot ? asTextClassifier(pipeline, zeroShot) : pipeline;
+  }
+
+  async disposeModel(modelId: string): Promise<void> {
+    const pipeline = this.loadedPipelines.get(modelId);
+    if (pipeline) {
+      if (typeof pipeline.dispose === 'function') {
+        await pipeline.dispose();
+      }
+      this.loadedPipelines.delete(modelId);
+    }
+    this.zeroShotConfigs.delete(modelId);
+  }
+
+  async disposeAll(): Promise<void> {
+    for (const modelId of Array.from(this.loadedPipelines.keys())) {
+      await this.disposeModel(modelId);
+    }
+  }
+
+  isWorkerActive(): boolean {
+    return this.active;
+  }
+}
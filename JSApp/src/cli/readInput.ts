@@ -0,0 +1,156 @@
+import { readFileSync } from 'node:fs';
+import { extname } from 'node:path';
+import * as XLSX from 'xlsx';
+
+const TEXT_COLUMN_KEYWORDS = ['comment', 'text', 'feedback', 'review', 'description', 'message', 'content', 'note'];
+
+/**
+ * Read the lines to analyze from a .txt, .csv, .tsv, .xlsx or .xls file.
+ * Plain text files use one line per entry (like the text box); tabular files
+ * use a single text column, chosen by name/1-based index or by header keywords.
+ */
+export function readInputLines(filePath: string, column?: string): string[] {
+  const extension = extname(filePath).toLowerCase();
+
+  if (extension === '.txt' || extension === '') {
+    return readFileSync(filePath, 'utf8')
+      .split('\n')
+      .map(line => line.trim())
+      .filter(line => line.length > 0);
+  }
+
+  if (!['.csv', '.tsv', '.xlsx', '.xls'].includes(extension)) {
+    throw new Error(`Unsupported input format "${extension}". Use TXT, CSV, TSV or Excel files.`);
+  }
+
+  const { headers, rows } = readTable(filePath);
+  const columnIndex = resolveColumnIndex(headers, column);
+
+  return rows
+    .map(row => cleanCell(row[columnIndex]))
+    .filter(value => value.length > 0);
+}
+
+/**
+ * Read the text column together with a gold label column of a tabular file,
+ * row by row, for evaluating models against human labels.
+ */
+export function readGoldColumn(
+  filePath: string,
+  goldColumn: string,
+  textColumn?: string
+): { column: string; texts: string[]; labels: string[] } {
+  if (!isTabular(filePath)) {
+    throw new Error('Gold labels need a CSV, TSV or Excel input with a label column');
+  }
+
+  const { column, texts, values } = readPairedColumn(filePath, goldColumn, textColumn);
+  return { column, texts, labels: values };
+}
+
+/**
+ * Read the text column together with a timestamp column of a tabular file,
+ * row by row, for charting results over time.
+ */
+export function readTimestampColumn(
+  filePath: string,
+  timestampColumn: string,
+  textColumn?: string
+): { column: string; texts: string[]; values: string[] } {
+  if (!isTabular(filePath)) {
+    throw new Error('Timestamps need a CSV, TSV or Excel input with a date column');
+  }
+
+  return readPairedColumn(filePath, timestampColumn, textColumn);
+}
+
+/**
+ * Read columns to carry through to the output, one row of values per text
+ * (lined up with readInputLines for the same text column).
+ */
+export function readKeptColumns(
+  filePath: string,
+  columns: string[],
+  textColumn?: string
+): { columns: string[]; rows: string[][] } {
+  if (!isTabular(filePath)) {
+    throw new Error('Kept columns need a CSV, TSV or Excel input');
+  }
+
+  const { headers, rows } = readTable(filePath);
+  const textIndex = resolveColumnIndex(headers, textColumn);
+  const indices = columns.map(column => resolveColumnIndex(headers, column));
+
+  return {
+    columns: indices.map(index => headers[index]),
+    rows: rows
+      .filter(row => cleanCell(row[textIndex]).length > 0)
+      .map(row => indices.map(index => (row[index] ?? '').toString().trim()))
+  };
+}
+
+function isTabular(filePath: string): boolean {
+  return ['.csv', '.tsv', '.xlsx', '.xls'].includes(extname(filePath).toLowerCase());
+}
+
+// Values of a second column for every row with text
+function readPairedColumn(
+  filePath: string,
+  column: string,
+  textColumn?: string
+): { column: string; texts: string[]; values: string[] } {
+  const { headers, rows } = readTable(filePath);
+  const textIndex = resolveColumnIndex(headers, textColumn);
+  const index = resolveColumnIndex(headers, column);
+
+  const texts: string[] = [];
+  const values: string[] = [];
+  for (const row of rows) {
+    const text = cleanCell(row[textIndex]);
+    if (text.length === 0) continue;
+    texts.push(text);
+    values.push(cleanCell(row[index]));
+  }
+  return { column: headers[index], texts, values };
+}
+
+function readTable(filePath: string): { headers: string[]; rows: any[][] } {
+  const workbook = XLSX.read(readFileSync(filePath), { type: 'buffer', raw: true });
+  const worksheet = workbook.Sheets[workbook.SheetNames[0]];
+  const rawData = XLSX.utils.sheet_to_json(worksheet, {
+    header: 1,
+    defval: '',
+    raw: false
+  }) as any[][];
+
+  if (rawData.length < 2) {
+    throw new Error('File must have at least one header row and one data row');
+  }
+
+  const headers = rawData[0].map((header: any, index: number) => String(header || `Column ${index + 1}`));
+  return { headers, rows: rawData.slice(1) };
+}
+
+// Same cleanup as the import modal's "remove newlines within cells" default
+function cleanCell(value: any): string {
+  return (value ?? '').toString().replace(/\r?\n|\r/g, ' ').replace(/\s+/g, ' ').trim();
+}
+
+function resolveColumnIndex(headers: string[], column?: string): number {
+  if (column) {
+    const byName = headers.findIndex(header => header.toLowerCase() === column.toLowerCase());
+    if (byName !== -1) return byName;
+
+    const byPosition = parseInt(column, 10);
+    if (!isNaN(byPosition) && byPosition >= 1 && byPosition <= headers.length) {
+      return byPosition - 1;
+    }
+
+    throw new Error(`Column "${column}" not found. Available columns: ${headers.join(', ')}`);
+  }
+
+  const byKeyword = headers.findIndex(header =>
+    TEXT_COLUMN_KEYWORDS.some(keyword => header.toLowerCase().includes(keyword))
+  );
+  return byKeyword !== -1 ? byKeyword : 0;
+}
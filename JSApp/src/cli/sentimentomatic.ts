@@ -0,0 +1,549 @@
+/**
+ * sentimentomatic - headless batch analysis CLI
+ *
+ * Runs the same AnalyzerRegistry / MultiModelAnalyzer pipeline as the web app
+ * without Vue, Pinia or the DOM. Neural models run in-process through
+ * NodeModelRunner instead of a web worker.
+ *
+ *   sentimentomatic analyze input.csv --models vader,afinn,go-emotions --out results.json
+ */
+
+import { parseArgs } from 'node:util';
+import { readFileSync, writeFileSync } from 'node:fs';
+import { basename, extname } from 'node:path';
+import { AnalyzerRegistry } from '../core/analyzers';
+import { parseLexicon, type CustomLexicon, type CustomLexiconAnalyzer } from '../core/analyzers/CustomLexiconAnalyzer';
+import type { AfinnAnalyzer, VaderAnalyzer } from '../core/analyzers';
+import { normalizeOverrideWord, validateOverrideWord, type LexiconOverrideAnalyzer, type LexiconOverrides } from '../core/analyzers/lexiconOverrides';
+import {
+  formatSentimentThresholds,
+  isThresholdAnalyzer,
+  validateSentimentThresholds,
+  type SentimentThresholds,
+  type ThresholdAnalyzer
+} from '../core/analyzers/scoreThresholds';
+import { MultiModelAnalyzer } from '../core/analyzers/MultiModelAnalyzer';
+import { MODEL_CATALOG, getCatalogModel } from '../core/models/catalog';
+import { parseCandidateLabels, type ZeroShotConfig } from '../core/models/zeroShot';
+import { AnalysisEngine } from '../core/analysis/AnalysisEngine';
+import type { MultiModalAnalysisResult } from '../core/analysis/AnalysisStrategy';
+import type { AnalysisUnit } from '../core/analysis/DocumentAggregator';
+import { hasConsensus, type ConsensusWeights } from '../core/analysis/Consensus';
+import { computeAgreementReport } from '../core/analysis/AgreementReport';
+import { DEFAULT_ASPECT_WINDOW_WORDS, parseAspectTerms, type AspectConfig } from '../core/analysis/AspectAnalysis';
+import type { PassthroughValues } from '../core/analysis/Passthrough';
+import { buildGoldLabels, evaluateAgainstGold, type GoldLabels } from '../core/analysis/GoldEvaluation';
+import {
+  calibrationTargets,
+  classScoreSamples,
+  sentimentScoreSamples,
+  suggestMultiLabelThreshold,
+  suggestSentimentThresholds
+} from '../core/analysis/ThresholdCalibration';
+import {
+  buildTimestamps,
+  computeTimeline,
+  rowTimestamps,
+  suggestBucket,
+  TIMELINE_BUCKETS,
+  type TimelineBucket
+} from '../core/analysis/Timeline';
+import { buildAgreementCSV, buildCSVContent, buildEvaluationCSV, buildJSONExport, buildTimelineCSV } from '../utils/exportUtils';
+import { NodeModelRunner } from './NodeModelRunner';
+import { readGoldColumn, readInputLines, readKeptColumns, readTimestampColumn } from './readInput';
+
+const USAGE = `Usage:
+  sentimentomatic analyze <input> [options]
+  sentimentomatic models
+
+Input may be .txt (one text per line), .csv, .tsv, .xlsx or .xls.
+
+Options:
+  -m, --models <ids>     Comma-separated model IDs (default: vader)
+  -o, --out <file>       Write results to a .json or .csv file (default: JSON on stdout)
+  -c, --column <col>     Text column name or 1-based index for tabular input
+      --keep <cols>      Comma-separated columns (names or 1-based indexes) copied into the output, e.g. "id,author"
+      --format <fmt>     JSON layout: "export" (same as Export JSON, default) or "result"
+      --expand-classes   Include every class score for classification models
+      --batch-size <n>   Texts per neural inference batch (default: 8)
+      --sentences        Analyze each sentence and aggregate per input line (document)
+      --lexicon <file>   Word/score list (CSV, TSV or "word score") for the "custom" model
+      --overrides <file> JSON word score overrides, e.g. {"vader": {"sick": 2.5}, "afinn": {"sick": 3}}
+      --labels <list>    Comma-separated candidate labels for the "zero-shot" model
+      --multi-label      Score zero-shot labels independently instead of picking one
+      --aspects <list>   Comma-separated aspect terms, each scored on the words around its mentions
+      --aspect-window <n> Words kept on each side of an aspect mention (default: ${DEFAULT_ASPECT_WINDOW_WORDS})
+      --thresholds <list> Score cutoffs, e.g. "vader=0.3/-0.1,afinn=0.1/-0.1,go-emotions=0.2"
+                         (positive/negative for vader, afinn and custom; minimum likelihood for multi-label models)
+      --weights <list>   Consensus weights per model, e.g. "vader=2,afinn=0.5" (default 1 each)
+      --agreement <file> Write the inter-model agreement report (CSV) for 2+ sentiment models
+      --gold <col>       Gold label column (name or 1-based index) to score every model against and suggest thresholds from
+      --gold-map <list>  Gold value mapping, e.g. "POS=positive,NEG=negative,0=" (empty leaves rows out)
+      --evaluation <file> Write accuracy, macro-F1, per-class metrics and confusion matrices (CSV; needs --gold)
+      --timestamp <col>  Date/time column (name or 1-based index) to bucket sentiment over time and report spikes
+      --bucket <unit>    Timeline bucket: hour, day or week (default: the finest that fits the date range)
+      --timeline <file>  Write per-bucket counts, mean polarity, rolling averages and spikes (CSV; needs --timestamp)
+      --cache-dir <dir>  Directory for downloaded model files
+  -v, --verbose          Show analyzer and model logs on stderr
+  -h, --help             Show this help`;
+
+class UsageError extends Error {}
+
+interface ThresholdOptions {
+  sentiment: Partial<Record<ThresholdAnalyzer, SentimentThresholds>>;
+  /** Minimum likelihood per multi-label model ID */
+  multiLabel: Record<string, number>;
+}
+
+interface AnalyzeOptions {
+  modelIds: string[];
+  batchSize: number;
+  analysisUnit: AnalysisUnit;
+  lexicon: CustomLexicon | null;
+  overrides: Partial<Record<LexiconOverrideAnalyzer, LexiconOverrides>>;
+  zeroShot: ZeroShotConfig | null;
+  aspects: AspectConfig | null;
+  thresholds: ThresholdOptions;
+  /** Imported columns copied into the output, one row of values per line */
+  passthrough: PassthroughValues | null;
+  /** Directory for downloaded model files */
+  cacheDir?: string;
+}
+
+type CommandLineValues = ReturnType<typeof parseCommandLine>['values'];
+
+function writeStatus(message: string): void {
+  process.stderr.write(`${message}\n`);
+}
+
+async function analyzeLines(lines: string[], options: AnalyzeOptions): Promise<MultiModalAnalysisResult> {
+  const { modelIds, batchSize, analysisUnit, lexicon, overrides, zeroShot, aspects, thresholds, passthrough, cacheDir } = options;
+  const analyzerRegistry = new AnalyzerRegistry();
+  if (lexicon) {
+    (analyzerRegistry.getAnalyzer('custom') as CustomLexiconAnalyzer).setLexicon(lexicon, false);
+  }
+  for (const [analyzerId, words] of Object.entries(overrides)) {
+    (analyzerRegistry.getAnalyzer(analyzerId) as AfinnAnalyzer | VaderAnalyzer).setOverrides(words, false);
+  }
+  for (const [analyzerId, cutoffs] of Object.entries(thresholds.sentiment)) {
+    (analyzerRegistry.getAnalyzer(analyzerId) as AfinnAnalyzer | VaderAnalyzer | CustomLexiconAnalyzer).setThresholds(cutoffs, false);
+  }
+  const multiModelAnalyzer = new MultiModelAnalyzer(
+    analyzerRegistry.getModelManager(),
+    () => new NodeModelRunner(cacheDir),
+    () => new NodeModelRunner(cacheDir)
+  );
+
+  const models = modelIds.map(id => getCatalogModel(id)!);
+  const ruleBased = models.filter(model => model.type === 'rule-based');
+  const neural = models.filter(model => model.type === 'neural');
+
+  for (const model of neural) {
+    multiModelAnalyzer.addModel(model.id, model.huggingFaceId, model.displayName, {
+      task: model.task,
+      pipelineOverrides: model.pipelineOverrides,
+      labelMap: model.labelMap,
+      zeroShot: model.task === 'zero-shot-classification' ? zeroShot ?? undefined : undefined,
+      multiLabelThreshold: thresholds.multiLabel[model.id]
+    });
+  }
+
+  const engine = new AnalysisEngine(analyzerRegistry, multiModelAnalyzer);
+
+  engine.on('modelStarted', ({ modelName, lineCount }) => {
+    writeStatus(`Running ${modelName} on ${lineCount} texts...`);
+  });
+
+  engine.on('progress', ({ phase, modelName, detail }) => {
+    if (phase === 'loading-model' && !detail) {
+      writeStatus(`Loading ${modelName}...`);
+    }
+  });
+
+  engine.on('error', ({ modelName, lineIndex, error }) => {
+    // Per-line failures already show up as error cells; report whole-model failures
+    if (lineIndex === undefined) {
+      writeStatus(`Failed to process ${modelName}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  });
+
+  return engine.run(lines, {
+    selectedRuleBasedAnalyzers: ruleBased.map(model => model.id),
+    selectedHuggingFaceModels: neural.map(model => model.id),
+    inferenceBatchSize: batchSize,
+    analysisUnit,
+    aspects: aspects ?? undefined,
+    passthrough: passthrough ?? undefined
+  });
+}
+
+async function runAnalyzeCommand(positionals: string[], values: CommandLineValues): Promise<void> {
+  const inputPath = positionals[1];
+  if (!inputPath) {
+    throw new UsageError('Missing input file');
+  }
+
+  const modelIds = String(values.models || 'vader')
+    .split(',')
+    .map(id => id.trim())
+    .filter(id => id.length > 0);
+  const unknown = modelIds.filter(id => !getCatalogModel(id));
+  if (unknown.length > 0) {
+    throw new UsageError(`Unknown model(s): ${unknown.join(', ')}. Run "sentimentomatic models" to list them.`);
+  }
+
+  const format = values.format || 'export';
+  if (format !== 'export' && format !== 'result') {
+    throw new UsageError(`Unknown format "${format}"`);
+  }
+
+  const batchSize = values['batch-size'] === undefined ? 8 : parseInt(values['batch-size'], 10);
+  if (isNaN(batchSize) || batchSize < 1) {
+    throw new UsageError(`Invalid batch size "${values['batch-size']}"`);
+  }
+
+  if (modelIds.includes('custom') && !values.lexicon) {
+    throw new UsageError('The "custom" model needs a word list: pass --lexicon <file>');
+  }
+  const lexicon = values.lexicon ? readLexicon(values.lexicon) : null;
+  const overrides = values.overrides ? readOverrides(values.overrides) : {};
+
+  const zeroShotLabels = parseCandidateLabels(values.labels ?? '');
+  if (modelIds.some(id => getCatalogModel(id)?.task === 'zero-shot-classification') && zeroShotLabels.length === 0) {
+    throw new UsageError('The "zero-shot" model needs candidate labels: pass --labels "billing,shipping"');
+  }
+  const zeroShot = zeroShotLabels.length > 0
+    ? { candidateLabels: zeroShotLabels, multiLabel: Boolean(values['multi-label']) }
+    : null;
+
+  const aspectWindow = values['aspect-window'] === undefined ? DEFAULT_ASPECT_WINDOW_WORDS : parseInt(values['aspect-window'], 10);
+  if (isNaN(aspectWindow) || aspectWindow < 1) {
+    throw new UsageError(`Invalid aspect window "${values['aspect-window']}"`);
+  }
+  const aspectTerms = parseAspectTerms(values.aspects ?? '');
+  const aspects = aspectTerms.length > 0 ? { terms: aspectTerms, windowWords: aspectWindow } : null;
+
+  const consensusWeights = values.weights ? parseConsensusWeights(values.weights, modelIds) : {};
+  const thresholds = values.thresholds ? parseThresholds(values.thresholds, modelIds) : { sentiment: {}, multiLabel: {} };
+
+  if (values.evaluation && !values.gold) {
+    throw new UsageError('--evaluation needs a gold label column: pass --gold <column>');
+  }
+  const goldMapping = values['gold-map'] ? parseGoldMapping(values['gold-map']) : {};
+
+  if (values.timeline && !values.timestamp) {
+    throw new UsageError('--timeline needs a timestamp column: pass --timestamp <column>');
+  }
+  const bucketOption = values.bucket as TimelineBucket | undefined;
+  if (bucketOption && !TIMELINE_BUCKETS.includes(bucketOption)) {
+    throw new UsageError(`Unknown bucket "${bucketOption}": use ${TIMELINE_BUCKETS.join(', ')}`);
+  }
+
+  const lines = readInputLines(inputPath, values.column);
+  if (lines.length === 0) {
+    throw new Error('No text to analyze');
+  }
+  const keptColumns = String(values.keep ?? '').split(',').map(column => column.trim()).filter(column => column.length > 0);
+  const passthrough = keptColumns.length > 0 ? readKeptColumns(inputPath, keptColumns, values.column) : null;
+  writeStatus(`Analyzing ${lines.length} texts with ${modelIds.join(', ')}`);
+
+  const analysisUnit: AnalysisUnit = values.sentences ? 'sentence' : 'line';
+  const result = await analyzeLines(lines, {
+    modelIds,
+    batchSize,
+    analysisUnit,
+    lexicon,
+    overrides,
+    zeroShot,
+    aspects,
+    thresholds,
+    passthrough,
+    cacheDir: values['cache-dir']
+  });
+  const expandClasses = Boolean(values['expand-classes']);
+  const outPath: string | undefined = values.out;
+
+  if (outPath && extname(outPath).toLowerCase() === '.csv') {
+    writeFileSync(outPath, buildCSVContent(result, expandClasses, consensusWeights)!);
+  } else {
+    const output = format === 'result' ? result : buildJSONExport(result, expandClasses, consensusWeights);
+    const json = JSON.stringify(output, null, 2);
+    if (outPath) {
+      writeFileSync(outPath, json);
+    } else {
+      process.stdout.write(json + '\n');
+    }
+  }
+
+  if (outPath) {
+    writeStatus(`Wrote ${result.lines.length} results to ${outPath}`);
+  }
+
+  if (values.agreement) {
+    if (!hasConsensus(result)) {
+      writeStatus('Skipped the agreement report: it needs at least two sentiment models');
+    } else {
+      writeFileSync(values.agreement, buildAgreementCSV(computeAgreementReport(result)));
+      writeStatus(`Wrote the agreement report to ${values.agreement}`);
+    }
+  }
+
+  if (values.gold) {
+    const { column, texts, labels } = readGoldColumn(inputPath, values.gold, values.column);
+    const gold = buildGoldLabels(column, texts, labels, goldMapping);
+    const evaluation = evaluateAgainstGold(result, gold);
+    for (const model of evaluation.models) {
+      const accuracy = model.accuracy === null ? 'n/a' : `${(model.accuracy * 100).toFixed(1)}%`;
+      const macroF1 = model.macroF1 === null ? 'n/a' : model.macroF1.toFixed(3);
+      writeStatus(`${model.model}: accuracy ${accuracy}, macro-F1 ${macroF1} over ${model.count} ${evaluation.unit}s`);
+    }
+    if (values.evaluation) {
+      writeFileSync(values.evaluation, buildEvaluationCSV(evaluation));
+      writeStatus(`Wrote the evaluation report to ${values.evaluation}`);
+    }
+    reportSuggestedThresholds(result, gold);
+  }
+
+  if (values.timestamp) {
+    const { column, texts, values: dates } = readTimestampColumn(inputPath, values.timestamp, values.column);
+    const timestamps = buildTimestamps(column, texts, dates);
+    if (timestamps.unparsed > 0) {
+      writeStatus(`${timestamps.unparsed} values in "${column}" are not dates and were left out of the timeline`);
+    }
+    const bucket = bucketOption
+      ?? suggestBucket(rowTimestamps(result, timestamps).filter((time): time is number => time !== null));
+    const timeline = computeTimeline(result, timestamps, bucket);
+    const spikes = [timeline.volume, ...timeline.series].reduce(
+      (count, series) => count + series.points.filter(point => point.spike).length, 0);
+    const bucketCount = timeline.volume.points.length;
+    writeStatus(`Timeline: ${timeline.matched} of ${timeline.total} rows in ${bucketCount} ${bucket}${bucketCount === 1 ? '' : 's'}, `
+      + `${spikes} spike${spikes === 1 ? '' : 's'}`);
+    if (values.timeline) {
+      writeFileSync(values.timeline, buildTimelineCSV(timeline));
+      writeStatus(`Wrote the timeline to ${values.timeline}`);
+    }
+  }
+}
+
+/**
+ * Cutoffs calibrated on the gold labels, in --thresholds form
+ */
+function reportSuggestedThresholds(result: MultiModalAnalysisResult, gold: GoldLabels): void {
+  for (const target of calibrationTargets(result)) {
+    if (target.kind === 'sentiment') {
+      const suggestion = suggestSentimentThresholds(sentimentScoreSamples(result, target.column, gold));
+      if (suggestion) {
+        const { positive, negative } = suggestion.thresholds;
+        writeStatus(`${target.column}: suggested thresholds ${formatSentimentThresholds(suggestion.thresholds)} (macro-F1 ${suggestion.macroF1?.toFixed(3) ?? 'n/a'}): --thresholds "${target.analyzer}=${positive}/${negative}"`);
+      }
+    } else {
+      const suggestion = suggestMultiLabelThreshold(classScoreSamples(result, target.column, gold));
+      if (suggestion) {
+        writeStatus(`${target.column}: suggested minimum likelihood ${suggestion.threshold} (F1 ${suggestion.f1?.toFixed(3) ?? 'n/a'}): --thresholds "${target.modelId}=${suggestion.threshold}"`);
+      }
+    }
+  }
+}
+
+/**
+ * "vader=0.3/-0.1,go-emotions=0.2" → positive/negative cutoffs per rule-based analyzer,
+ * minimum likelihood per multi-label model
+ */
+function parseThresholds(value: string, modelIds: string[]): ThresholdOptions {
+  const thresholds: ThresholdOptions = { sentiment: {}, multiLabel: {} };
+  for (const entry of value.split(',').map(part => part.trim()).filter(Boolean)) {
+    const [id, rawCutoffs = ''] = entry.split('=').map(part => part.trim());
+    if (!modelIds.includes(id)) {
+      throw new UsageError(`Thresholds for "${id}", which is not in --models`);
+    }
+
+    if (isThresholdAnalyzer(id)) {
+      const [positive, negative] = rawCutoffs.split('/').map(part => part.trim() === '' ? NaN : Number(part));
+      const cutoffs = { positive, negative };
+      const problem = validateSentimentThresholds(cutoffs);
+      if (problem) {
+        throw new UsageError(`Invalid thresholds "${entry}": ${problem} (use ${id}=positive/negative)`);
+      }
+      thresholds.sentiment[id] = cutoffs;
+    } else if (getCatalogModel(id)?.type === 'neural') {
+      const threshold = rawCutoffs === '' ? NaN : Number(rawCutoffs);
+      if (isNaN(threshold) || threshold <= 0 || threshold > 1) {
+        throw new UsageError(`Invalid threshold "${entry}": use a minimum likelihood above 0 and at most 1`);
+      }
+      thresholds.multiLabel[id] = threshold;
+    } else {
+      throw new UsageError(`"${id}" has no score thresholds`);
+    }
+  }
+  return thresholds;
+}
+
+/**
+ * "POS=positive,NEG=negative,0=" → raw gold value to compared label ('' leaves those rows out)
+ */
+function parseGoldMapping(value: string): Record<string, string> {
+  const mapping: Record<string, string> = {};
+  for (const entry of value.split(',').map(part => part.trim()).filter(Boolean)) {
+    const separator = entry.indexOf('=');
+    if (separator <= 0) {
+      throw new UsageError(`Invalid gold mapping "${entry}": use value=label`);
+    }
+    mapping[entry.slice(0, separator).trim()] = entry.slice(separator + 1).trim();
+  }
+  return mapping;
+}
+
+/**
+ * "vader=2,distilbert-sst2=0.5" → weights keyed by the models' column names
+ */
+function parseConsensusWeights(value: string, modelIds: string[]): ConsensusWeights {
+  const weights: ConsensusWeights = {};
+  for (const entry of value.split(',').map(part => part.trim()).filter(Boolean)) {
+    const [id, rawWeight] = entry.split('=').map(part => part.trim());
+    const weight = Number(rawWeight);
+    if (!modelIds.includes(id)) {
+      throw new UsageError(`Consensus weight for "${id}", which is not in --models`);
+    }
+    if (rawWeight === undefined || rawWeight === '' || isNaN(weight) || weight < 0) {
+      throw new UsageError(`Invalid consensus weight "${entry}"`);
+    }
+    const model = getCatalogModel(id)!;
+    weights[model.type === 'rule-based' ? id.toUpperCase() : model.displayName] = weight;
+  }
+  return weights;
+}
+
+function readLexicon(path: string): CustomLexicon {
+  const { entries, skippedLines } = parseLexicon(readFileSync(path, 'utf8'));
+  if (Object.keys(entries).length === 0) {
+    throw new UsageError(`No "word,score" entries found in lexicon ${path}`);
+  }
+  if (skippedLines.length > 0) {
+    writeStatus(`Skipped ${skippedLines.length} lexicon line(s) without a score`);
+  }
+  return { name: basename(path, extname(path)), entries, updatedAt: Date.now() };
+}
+
+function readOverrides(path: string): Partial<Record<LexiconOverrideAnalyzer, LexiconOverrides>> {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(readFileSync(path, 'utf8'));
+  } catch (error) {
+    throw new UsageError(`Could not read overrides ${path}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const overrides: Partial<Record<LexiconOverrideAnalyzer, LexiconOverrides>> = {};
+  for (const [analyzerId, words] of Object.entries(parsed ?? {})) {
+    if (analyzerId !== 'afinn' && analyzerId !== 'vader') {
+      throw new UsageError(`Overrides are only supported for afinn and vader, not "${analyzerId}"`);
+    }
+    const normalized: LexiconOverrides = {};
+    for (const [word, score] of Object.entries(words as Record<string, unknown>)) {
+      if (typeof score !== 'number') {
+        throw new UsageError(`Override score for "${word}" must be a number`);
+      }
+      const normalizedWord = normalizeOverrideWord(word);
+      const problem = validateOverrideWord(normalizedWord);
+      if (problem) {
+        throw new UsageError(`Invalid ${analyzerId} override: ${problem}`);
+      }
+      normalized[normalizedWord] = score;
+    }
+    overrides[analyzerId] = normalized;
+  }
+  return overrides;
+}
+
+function listModels(): void {
+  for (const model of MODEL_CATALOG) {
+    const source = model.type === 'neural' ? model.huggingFaceId : 'rule-based';
+    process.stdout.write(`${model.id.padEnd(26)}${model.category.padEnd(16)}${source}\n`);
+  }
+}
+
+function parseCommandLine(argv: string[]) {
+  return parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      models: { type: 'string', short: 'm' },
+      out: { type: 'string', short: 'o' },
+      column: { type: 'string', short: 'c' },
+      keep: { type: 'string' },
+      format: { type: 'string' },
+      'expand-classes': { type: 'boolean' },
+      'batch-size': { type: 'string' },
+      sentences: { type: 'boolean' },
+      lexicon: { type: 'string' },
+      overrides: { type: 'string' },
+      labels: { type: 'string' },
+      'multi-label': { type: 'boolean' },
+      aspects: { type: 'string' },
+      'aspect-window': { type: 'string' },
+      thresholds: { type: 'string' },
+      weights: { type: 'string' },
+      agreement: { type: 'string' },
+      gold: { type: 'string' },
+      'gold-map': { type: 'string' },
+      evaluation: { type: 'string' },
+      timestamp: { type: 'string' },
+      bucket: { type: 'string' },
+      timeline: { type: 'string' },
+      'cache-dir': { type: 'string' },
+      verbose: { type: 'boolean', short: 'v' },
+      help: { type: 'boolean', short: 'h' }
+    }
+  });
+}
+
+async function main(argv: string[]): Promise<number> {
+  let parsed: ReturnType<typeof parseCommandLine>;
+  try {
+    parsed = parseCommandLine(argv);
+  } catch (error) {
+    writeStatus(`Error: ${error instanceof Error ? error.message : String(error)}`);
+    writeStatus(USAGE);
+    return 2;
+  }
+  const { values, positionals } = parsed;
+
+  if (values.help || positionals.length === 0) {
+    process.stdout.write(USAGE + '\n');
+    return values.help ? 0 : 2;
+  }
+
+  // Analyzer internals log freely; keep stdout clean for JSON output
+  if (values.verbose) {
+    console.log = console.error;
+    console.info = console.error;
+  } else {
+    console.log = () => {};
+    console.info = () => {};
+    console.warn = () => {};
+    console.error = () => {};
+  }
+
+  try {
+    switch (positionals[0]) {
+      case 'analyze':
+        await runAnalyzeCommand(positionals, values);
+        return 0;
+      case 'models':
+        listModels();
+        return 0;
+      default:
+        throw new UsageError(`Unknown command "${positionals[0]}"`);
+    }
+  } catch (error) {
+    writeStatus(`Error: ${error instanceof Error ? error.message : String(error)}`);
+    if (error instanceof UsageError) {
+      writeStatus(USAGE);
+      return 2;
+    }
+    return 1;
+  }
+}
+
+main(process.argv.slice(2)).then(code => {
+  process.exitCode = code;
+});
@@ -0,0 +1,160 @@
+/**
+ * AgreementReport - How much the selected sentiment models agree over a whole run
+ *
+ * For every pair of sentiment columns: percent agreement and Cohen's kappa on
+ * the positive/neutral/negative labels, and Pearson's r on the −1..+1
+ * polarities from Consensus. Lines are ranked by how far apart the models'
+ * polarities are, so the most contested texts can be read first.
+ */
+
+import type { MultiModalAnalysisResult } from './AnalysisStrategy';
+import {
+  SENTIMENT_LABELS,
+  cellSentimentLabel,
+  consensusColumns,
+  normalizedPolarity,
+  type ConsensusLabel
+} from './Consensus';
+
+export interface PairwiseAgreement {
+  modelA: string;
+  modelB: string;
+  /** Lines both models have a result for */
+  count: number;
+  percentAgreement: number | null;
+  cohensKappa: number | null;
+  pearson: number | null;
+}
+
+export interface ModelRating {
+  model: string;
+  polarity: number;
+  sentiment: ConsensusLabel;
+}
+
+export interface LineDisagreement {
+  lineIndex: number;
+  text: string;
+  /** Standard deviation of the models' polarities; 1 when two models sit at −1 and +1 */
+  disagreement: number;
+  ratings: ModelRating[];
+}
+
+export interface AgreementReport {
+  models: string[];
+  pairs: PairwiseAgreement[];
+  /** Lines ranked by disagreement, most contested first */
+  topDisagreements: LineDisagreement[];
+}
+
+export const DEFAULT_TOP_DISAGREEMENTS = 10;
+
+function cohensKappa(pairs: Array<[ConsensusLabel, ConsensusLabel]>): number | null {
+  if (pairs.length === 0) return null;
+
+  const observed = pairs.filter(([a, b]) => a === b).length / pairs.length;
+  const expected = SENTIMENT_LABELS.reduce((sum, label) => {
+    const shareA = pairs.filter(([a]) => a === label).length / pairs.length;
+    const shareB = pairs.filter(([, b]) => b === label).length / pairs.length;
+    return sum + shareA * shareB;
+  }, 0);
+
+  // Both models used one and the same label throughout: kappa is undefined
+  if (expected === 1) return null;
+  return (observed - expected) / (1 - expected);
+}
+
+/**
+ * Pearson's r of paired values; null for fewer than two pairs or a constant side
+ */
+export function pearson(pairs: Array<[number, number]>): number | null {
+  if (pairs.length < 2) return null;
+
+  const meanA = pairs.reduce((sum, [a]) => sum + a, 0) / pairs.length;
+  const meanB = pairs.reduce((sum, [, b]) => sum + b, 0) / pairs.length;
+  let covariance = 0;
+  let varianceA = 0;
+  let varianceB = 0;
+  for (const [a, b] of pairs) {
+    covariance += (a - meanA) * (b - meanB);
+    varianceA += (a - meanA) ** 2;
+    varianceB += (b - meanB) ** 2;
+  }
+
+  // A model with a constant score has no correlation to speak of
+  if (varianceA === 0 || varianceB === 0) return null;
+  return covariance / Math.sqrt(varianceA * varianceB);
+}
+
+function standardDeviation(values: number[]): number {
+  const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+  return Math.sqrt(values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / values.length);
+}
+
+/**
+ * Pairwise agreement between all sentiment columns and the most contested lines
+ */
+export function computeAgreementReport(
+  result: MultiModalAnalysisResult,
+  topCount: number = DEFAULT_TOP_DISAGREEMENTS
+): AgreementReport {
+  const columns = consensusColumns(result);
+
+  // Usable ratings per line, in column order (null where a model has no result)
+  const ratings = result.data.map(item => columns.map((column): ModelRating | null => {
+    const cell = item.results.find(r => r.analyzer === column.name);
+    const polarity = cell ? normalizedPolarity(cell, column) : null;
+    if (!cell || polarity === null) return null;
+    return { model: column.name, polarity, sentiment: cellSentimentLabel(cell, polarity) };
+  }));
+
+  const pairs: PairwiseAgreement[] = [];
+  for (let a = 0; a < columns.length; a++) {
+    for (let b = a + 1; b < columns.length; b++) {
+      const both: Array<[ModelRating, ModelRating]> = [];
+      for (const line of ratings) {
+        const [ratingA, ratingB] = [line[a], line[b]];
+        if (ratingA && ratingB) both.push([ratingA, ratingB]);
+      }
+
+      const labels = both.map(([ratingA, ratingB]): [ConsensusLabel, ConsensusLabel] => [ratingA.sentiment, ratingB.sentiment]);
+      pairs.push({
+        modelA: columns[a].name,
+        modelB: columns[b].name,
+        count: both.length,
+        percentAgreement: both.length > 0 ? labels.filter(([labelA, labelB]) => labelA === labelB).length / both.length : null,
+        cohensKappa: cohensKappa(labels),
+        pearson: pearson(both.map(([ratingA, ratingB]): [number, number] => [ratingA.polarity, ratingB.polarity]))
+      });
+    }
+  }
+
+  const disagreements: LineDisagreement[] = [];
+  ratings.forEach((line, lineIndex) => {
+    const rated = line.filter((rating): rating is ModelRating => rating !== null);
+    if (rated.length < 2) return;
+    disagreements.push({
+      lineIndex,
+      text: result.data[lineIndex].text,
+      disagreement: standardDeviation(rated.map(rating => rating.polarity)),
+      ratings: rated
+    });
+  });
+  disagreements.sort((a, b) => b.disagreement - a.disagreement);
+
+  return {
+    models: columns.map(column => column.name),
+    pairs,
+    topDisagreements: disagreements.slice(0, topCount).filter(line => line.disagreement > 0)
+  };
+}
+
+/**
+ * Agreement between two models, in either order
+ */
+export function findPair(report: AgreementReport, modelA: string, modelB: string): PairwiseAgreement | undefined {
+  return report.pairs.find(pair =>
+    (pair.modelA === modelA && pair.modelB === modelB) ||
+    (pair.modelA === modelB && pair.modelB === modelA)
+  );
+}
@@ -0,0 +1,622 @@
+/**
+ * AnalysisEngine - Framework-agnostic column-by-column analysis loop
+ *
+ * Runs every selected analyzer/model over all lines, one column at a time,
+ * and reports what happens through typed events. The Pinia store, the legacy
+ * DOM controller and the CLI subscribe to these events instead of each
+ * carrying their own copy of the loop.
+ */
+
+import type { AnalyzerRegistry } from '../analyzers';
+import type { MultiModelAnalyzer } from '../analyzers/MultiModelAnalyzer';
+import { getCatalogModel } from '../models/catalog';
+import { WorkerPool, estimateWorkerMemoryMB, type WorkerPoolOptions } from '../models/WorkerPool';
+import type { MultiModalAnalysisResult, UnifiedAnalysisResult } from './AnalysisStrategy';
+import { segmentDocuments, type AnalysisUnit } from './DocumentAggregator';
+import { extractAspectWindows, withAspectColumns, type AspectConfig } from './AspectAnalysis';
+import { attachPassthrough, type PassthroughValues } from './Passthrough';
+
+export type AnalysisColumn = MultiModalAnalysisResult['columns'][number];
+export type AnalysisCellResult = UnifiedAnalysisResult['results'][number];
+
+export interface AnalysisEngineConfig {
+  selectedRuleBasedAnalyzers?: string[];
+  selectedHuggingFaceModels?: string[];
+  /** Delete each model's files from the browser cache once it has run */
+  clearCacheAfterEachModel?: boolean;
+  /** Texts sent to the model worker per inference message (default 8) */
+  inferenceBatchSize?: number;
+  /** 'sentence' splits each line into sentences and analyzes those (default 'line') */
+  analysisUnit?: AnalysisUnit;
+  /** Also score the words around each mention of these terms, in per-aspect sub-columns */
+  aspects?: AspectConfig;
+  /** Imported columns to carry through, one row of values per input line */
+  passthrough?: PassthroughValues;
+  /** Run several neural models at once; omit for one model at a time */
+  workerPool?: WorkerPoolOptions;
+  /** Cells restored from a checkpoint; these (line, column) pairs are not re-analyzed.
+   * In sentence mode lineIndex is the sentence index. */
+  completedCells?: Array<{ lineIndex: number; column: string; cell: AnalysisCellResult }>;
+}
+
+export type AnalysisPhase =
+  | 'initializing'
+  | 'loaded'
+  | 'loading-worker'
+  | 'loading-model'
+  | 'running'
+  | 'cleanup'
+  | 'paused'
+  | 'complete'
+  | 'cancelled';
+
+export interface AnalysisProgressEvent {
+  phase: AnalysisPhase;
+  modelId?: string;
+  modelName?: string;
+  /** Each model contributes 3 units: worker, model load, inference */
+  completedUnits: number;
+  totalUnits: number;
+  lineCount: number;
+  /** Free-form status reported by the model loader */
+  detail?: string;
+}
+
+export interface AnalysisEngineEvents {
+  /** Fired once all columns and rows exist, before any cell is analyzed */
+  tableReady: { result: MultiModalAnalysisResult };
+  modelStarted: { modelId: string; modelName: string; kind: 'rule-based' | 'neural'; lineCount: number };
+  cellResult: { lineIndex: number; column: AnalysisColumn; cell: AnalysisCellResult };
+  modelFinished: { modelId: string; modelName: string; success: boolean };
+  progress: AnalysisProgressEvent;
+  error: { modelId: string; modelName: string; lineIndex?: number; error: unknown };
+}
+
+const DEFAULT_INFERENCE_BATCH_SIZE = 8;
+const YIELD_EVERY_CELLS = 25;
+
+// One text to analyze: a row, or the aspect window of a row for an aspect sub-column
+interface AnalysisItem {
+  lineIndex: number;
+  column: AnalysisColumn;
+  text: string;
+}
+
+interface NeuralModelRun {
+  modelId: string;
+  huggingFaceId: string;
+  modelName: string;
+  pending: AnalysisItem[];
+}
+
+interface NeuralRunContext {
+  batchSize: number;
+  clearCache: boolean;
+  addCell: (lineIndex: number, column: AnalysisColumn, cell: AnalysisCellResult) => Promise<void>;
+}
+
+type AnalysisEventListener<K extends keyof AnalysisEngineEvents> = (payload: AnalysisEngineEvents[K]) => void;
+
+// Model type detection from a neural result's metadata
+export function isClassificationResult(metadata: any): boolean {
+  // Check model type in metadata
+  if (metadata?.modelType) {
+    return metadata.modelType !== 'sentiment';
+  }
+  // Fallback: if there are multiple classes in fullRawOutput, it's classification
+  if (metadata?.fullRawOutput && Array.isArray(metadata.fullRawOutput)) {
+    return metadata.fullRawOutput.length > 3; // More than 3 classes = classification
+  }
+  return false;
+}
+
+export class AnalysisEngine {
+  private listeners = new Map<keyof AnalysisEngineEvents, Set<AnalysisEventListener<any>>>();
+  private completedUnits = 0;
+  private totalUnits = 0;
+  private lineCount = 0;
+  private cancelled = false;
+  private paused = false;
+  private resumeWaiters: Array<() => void> = [];
+  // Analyzers with a live worker, so cancel() can reach pooled workers too
+  private activeAnalyzers = new Set<MultiModelAnalyzer>();
+
+  constructor(
+    private analyzerRegistry: AnalyzerRegistry,
+    private multiModelAnalyzer: MultiModelAnalyzer
+  ) {}
+
+  /**
+   * Subscribe to an engine event; returns an unsubscribe function
+   */
+  on<K extends keyof AnalysisEngineEvents>(event: K, listener: AnalysisEventListener<K>): () => void {
+    if (!this.listeners.has(event)) {
+      this.listeners.set(event, new Set());
+    }
+    this.listeners.get(event)!.add(listener);
+    return () => this.off(event, listener);
+  }
+
+  /**
+   * Remove a listener added with on()
+   */
+  off<K extends keyof AnalysisEngineEvents>(event: K, listener: AnalysisEventListener<K>): void {
+    this.listeners.get(event)?.delete(listener);
+  }
+
+  /**
+   * Stop after the current cell; results so far stay in the returned result
+   */
+  cancel(): void {
+    if (this.cancelled) return;
+    this.cancelled = true;
+    this.releasePausedRun();
+
+    // Terminate right away so an in-flight model load or inference rejects instead of finishing
+    for (const analyzer of new Set([this.multiModelAnalyzer, ...this.activeAnalyzers])) {
+      analyzer.terminateWorker().catch(error => {
+        console.warn('⚠️ Failed to terminate worker on cancel:', error);
+      });
+    }
+  }
+
+  /**
+   * Hold the run before the next cell until resume() or cancel()
+   */
+  pause(): void {
+    if (this.cancelled || this.paused) return;
+    this.paused = true;
+    this.emitProgress('paused');
+  }
+
+  resume(): void {
+    if (!this.paused) return;
+    this.releasePausedRun();
+  }
+
+  isPaused(): boolean {
+    return this.paused;
+  }
+
+  isCancelled(): boolean {
+    return this.cancelled;
+  }
+
+  private releasePausedRun(): void {
+    this.paused = false;
+    const waiters = this.resumeWaiters;
+    this.resumeWaiters = [];
+    waiters.forEach(resolve => resolve());
+  }
+
+  /**
+   * Wait while paused; returns false once the run has been cancelled
+   */
+  private async waitUntilRunnable(): Promise<boolean> {
+    while (this.paused && !this.cancelled) {
+      await new Promise<void>(resolve => this.resumeWaiters.push(resolve));
+    }
+    return !this.cancelled;
+  }
+
+  private emit<K extends keyof AnalysisEngineEvents>(event: K, payload: AnalysisEngineEvents[K]): void {
+    for (const listener of this.listeners.get(event) ?? []) {
+      try {
+        listener(payload);
+      } catch (error) {
+        console.error(`❌ AnalysisEngine ${event} listener failed:`, error);
+      }
+    }
+  }
+
+  private emitProgress(phase: AnalysisPhase, modelId?: string, modelName?: string, detail?: string): void {
+    this.emit('progress', {
+      phase,
+      modelId,
+      modelName,
+      completedUnits: this.completedUnits,
+      totalUnits: this.totalUnits,
+      lineCount: this.lineCount,
+      detail
+    });
+  }
+
+  /**
+   * Build the result skeleton: every line as a row, every selected model as a column
+   */
+  private createResult(lines: string[], ruleBased: string[], neural: string[], aspectTerms: string[]): MultiModalAnalysisResult {
+    const columns: AnalysisColumn[] = [];
+
+    // Rule-based analyzers are always sentiment
+    for (const analyzer of ruleBased) {
+      columns.push({ name: analyzer.toUpperCase(), type: 'sentiment' });
+    }
+
+    // Neural models start with their catalogue type; corrected from actual output later
+    for (const modelId of neural) {
+      const modelInfo = this.multiModelAnalyzer.getEnabledModels().get(modelId);
+      if (modelInfo) {
+        columns.push({
+          name: modelInfo.displayName,
+          type: getCatalogModel(modelId)?.category ?? 'sentiment',
+          modelId
+        });
+      }
+    }
+
+    return {
+      type: 'multimodal',
+      lines,
+      data: lines.map((text, lineIndex) => ({ lineIndex, text, results: [] })),
+      columns: aspectTerms.length > 0 ? withAspectColumns(columns, aspectTerms) : columns
+    };
+  }
+
+  /**
+   * Run all selected analyzers and models over the lines, column by column
+   */
+  async run(inputLines: string[], config: AnalysisEngineConfig): Promise<MultiModalAnalysisResult> {
+    // In sentence mode the sentences become the rows; documents map them back to input lines
+    const segmentation = config.analysisUnit === 'sentence' ? segmentDocuments(inputLines) : null;
+    const lines = segmentation ? segmentation.sentences : inputLines;
+
+    const ruleBased = config.selectedRuleBasedAnalyzers || [];
+    const neural = config.selectedHuggingFaceModels || [];
+    const batchSize = Math.max(1, Math.floor(config.inferenceBatchSize ?? DEFAULT_INFERENCE_BATCH_SIZE));
+
+    this.completedUnits = 0;
+    this.cancelled = false;
+    this.paused = false;
+    this.totalUnits = (ruleBased.length + neural.length) * 3;
+    this.lineCount = lines.length;
+
+    // Aspect mode: rows mentioning a term are also scored on the words around the mention
+    const aspects = config.aspects && config.aspects.terms.length > 0 ? config.aspects : null;
+    const aspectWindows = aspects ? extractAspectWindows(lines, aspects) : [];
+
+    const result = this.createResult(lines, ruleBased, neural, aspects?.terms ?? []);
+    if (segmentation) {
+      result.documents = segmentation.documents;
+    }
+    if (aspects) {
+      result.aspects = aspects;
+    }
+    if (config.passthrough) {
+      attachPassthrough(result, config.passthrough);
+    }
+
+    // Restore checkpointed cells before the table is shown
+    const done = new Set<string>();
+    const cellKey = (lineIndex: number, columnName: string) => `${lineIndex}:${columnName}`;
+    for (const { lineIndex, column: columnName, cell } of config.completedCells || []) {
+      const column = result.columns.find(col => col.name === columnName);
+      if (!column || !result.data[lineIndex]) continue;
+
+      result.data[lineIndex].results.push(cell);
+      done.add(cellKey(lineIndex, columnName));
+      if (cell.type === 'classification') {
+        column.type = 'classification';
+      }
+    }
+
+    // Texts still to analyze for an analyzer column and its aspect sub-columns
+    const pendingItems = (baseColumn: AnalysisColumn): AnalysisItem[] => {
+      const items = lines
+        .map((text, lineIndex) => ({ lineIndex, column: baseColumn, text }))
+        .filter(item => !done.has(cellKey(item.lineIndex, baseColumn.name)));
+
+      for (const column of result.columns.filter(col => col.aspect?.baseColumn === baseColumn.name)) {
+        for (const window of aspectWindows) {
+          if (window.term === column.aspect!.term && !done.has(cellKey(window.lineIndex, column.name))) {
+            items.push({ lineIndex: window.lineIndex, column, text: window.text });
+          }
+        }
+      }
+      return items;
+    };
+
+    this.emit('tableReady', { result });
+    this.emitProgress('initializing');
+
+    let cellsSinceYield = 0;
+    const addCell = async (lineIndex: number, column: AnalysisColumn, cell: AnalysisCellResult) => {
+      result.data[lineIndex].results.push(cell);
+      this.emit('cellResult', { lineIndex, column, cell });
+
+      // Rule-based analyzers never leave the main thread; let the UI paint now and then
+      if (++cellsSinceYield >= YIELD_EVERY_CELLS) {
+        cellsSinceYield = 0;
+        await new Promise(resolve => setTimeout(resolve, 0));
+      }
+    };
+
+    // Initialize rule-based analyzers
+    for (const analyzerName of ruleBased) {
+      if (!this.analyzerRegistry.isAnalyzerReady(analyzerName)) {
+        await this.analyzerRegistry.initializeAnalyzer(analyzerName);
+      }
+    }
+
+    // Process rule-based analyzers - ONE ANALYZER FOR ALL LINES
+    for (const analyzerName of ruleBased) {
+      if (!(await this.waitUntilRunnable())) break;
+
+      const columnName = analyzerName.toUpperCase();
+      const column = result.columns.find(col => col.name === columnName && !col.modelId)!;
+      const analyzer = this.analyzerRegistry.getAnalyzer(analyzerName);
+
+      const pending = pendingItems(column);
+
+      if (pending.length === 0) {
+        // Fully restored from a checkpoint
+        this.completedUnits += 3;
+        this.emit('modelFinished', { modelId: analyzerName, modelName: columnName, success: true });
+        continue;
+      }
+
+      if (!analyzer?.isReady()) {
+        this.emit('error', { modelId: analyzerName, modelName: columnName, error: new Error(`${columnName} is not ready`) });
+        this.completedUnits += 3;
+        this.emit('modelFinished', { modelId: analyzerName, modelName: columnName, success: false });
+        continue;
+      }
+
+      this.emit('modelStarted', { modelId: analyzerName, modelName: columnName, kind: 'rule-based', lineCount: pending.length });
+
+      // Rule-based analyzers have nothing to download or load
+      this.completedUnits += 2;
+      this.emitProgress('loaded', analyzerName, columnName);
+      this.emitProgress('running', analyzerName, columnName);
+
+      for (const item of pending) {
+        if (!(await this.waitUntilRunnable())) break;
+
+        let cell: AnalysisCellResult;
+        try {
+          const analyzed = await analyzer.analyze(item.text);
+          const processedResult = Array.isArray(analyzed) ? analyzed[0] : analyzed;
+
+          cell = {
+            analyzer: item.column.name,
+            type: 'sentiment',
+            score: processedResult.score,
+            sentiment: processedResult.sentiment,
+            metadata: this.cellMetadata(processedResult.metadata, item),
+            rawOutput: processedResult
+          };
+        } catch (error) {
+          console.warn(`Failed to analyze with ${analyzerName} on line ${item.lineIndex + 1}:`, error);
+          this.emit('error', { modelId: analyzerName, modelName: columnName, lineIndex: item.lineIndex, error });
+          cell = this.createErrorCell(item.column.name, 'sentiment', error);
+        }
+        await addCell(item.lineIndex, item.column, cell);
+      }
+
+      if (this.cancelled) break;
+
+      this.completedUnits++;
+      this.emitProgress('running', analyzerName, columnName);
+      this.emit('modelFinished', { modelId: analyzerName, modelName: columnName, success: true });
+    }
+
+    // Process ML models - one fresh worker per model, freed as soon as the model is done
+    const neuralRuns: NeuralModelRun[] = [];
+    for (const modelId of neural) {
+      const modelInfo = this.multiModelAnalyzer.getEnabledModels().get(modelId);
+      const column = result.columns.find(col => col.modelId === modelId && !col.aspect);
+      if (!modelInfo || !column) continue;
+
+      const pending = pendingItems(column);
+      if (pending.length === 0) {
+        // Fully restored from a checkpoint - no need to load the model at all
+        this.completedUnits += 3;
+        this.emit('modelFinished', { modelId, modelName: modelInfo.displayName, success: true });
+        continue;
+      }
+
+      neuralRuns.push({
+        modelId,
+        huggingFaceId: modelInfo.huggingFaceId,
+        modelName: modelInfo.displayName,
+        pending
+      });
+    }
+
+    const context: NeuralRunContext = {
+      batchSize,
+      clearCache: Boolean(config.clearCacheAfterEachModel),
+      addCell
+    };
+
+    const usePool = config.workerPool && config.workerPool.maxWorkers > 1 && neuralRuns.length > 1;
+    if (usePool) {
+      // Several models side by side, each in its own worker, within the memory budget
+      const cacheManager = this.multiModelAnalyzer.getCacheManager();
+      const pool = new WorkerPool(config.workerPool!);
+      await pool.runAll(
+        neuralRuns.map(run => ({
+          id: run.modelId,
+          memoryMB: estimateWorkerMemoryMB(cacheManager.estimateModelSize(run.huggingFaceId)),
+          run: () => this.runNeuralModel(run, this.multiModelAnalyzer.forkForModel(run.modelId), context)
+        })),
+        () => this.waitUntilRunnable()
+      );
+    } else {
+      // ONE MODEL AT A TIME FOR ALL LINES
+      for (const run of neuralRuns) {
+        if (!(await this.waitUntilRunnable())) break;
+        await this.runNeuralModel(run, this.multiModelAnalyzer, context);
+      }
+    }
+
+    if (this.cancelled) {
+      // Make sure nothing is left running (cancel() may have raced a fresh worker)
+      await this.multiModelAnalyzer.terminateWorker();
+      this.emitProgress('cancelled');
+    } else {
+      this.emitProgress('complete');
+    }
+    return result;
+  }
+
+  /**
+   * Load one neural model in a fresh worker, run it over its pending lines
+   * in batches, then terminate the worker to free all of its memory
+   */
+  private async runNeuralModel(run: NeuralModelRun, analyzer: MultiModelAnalyzer, context: NeuralRunContext): Promise<void> {
+    const { modelId, modelName, pending } = run;
+    const { batchSize } = context;
+    let unitsDone = 0;
+
+    this.activeAnalyzers.add(analyzer);
+    try {
+      this.emit('modelStarted', { modelId, modelName, kind: 'neural', lineCount: pending.length });
+
+      // Unit 1: Create worker
+      this.emitProgress('loading-worker', modelId, modelName);
+      await analyzer.initializeWorker();
+      this.completedUnits++;
+      unitsDone++;
+
+      // Unit 2: Load model
+      this.emitProgress('loading-model', modelId, modelName);
+      await analyzer.initializeSingleModel(modelId, (status) => {
+        this.emitProgress('loading-model', modelId, modelName, status);
+      });
+      this.completedUnits++;
+      unitsDone++;
+
+      // Unit 3: Process all lines
+      this.emitProgress('running', modelId, modelName);
+
+      for (let start = 0; start < pending.length; start += batchSize) {
+        if (!(await this.waitUntilRunnable())) break;
+
+        const batch = pending.slice(start, start + batchSize);
+        let cells: AnalysisCellResult[];
+        try {
+          const analyzed = await analyzer.analyzeBatchWithModel(
+            batch.map(item => item.text),
+            modelId,
+            batchSize
+          );
+          cells = analyzed.map((output, i) => this.createNeuralCell(output, batch[i]));
+        } catch (error) {
+          // The worker was terminated by cancel(); this batch was never analyzed
+          if (this.cancelled) break;
+
+          console.warn(`Model ${modelName} failed on lines ${batch[0].lineIndex + 1}-${batch[batch.length - 1].lineIndex + 1}:`, error);
+          for (const item of batch) {
+            this.emit('error', { modelId, modelName, lineIndex: item.lineIndex, error });
+          }
+          cells = batch.map(item => this.createErrorCell(item.column.name, item.column.type, error));
+        }
+
+        for (let i = 0; i < batch.length; i++) {
+          await context.addCell(batch[i].lineIndex, batch[i].column, cells[i]);
+        }
+      }
+
+      if (this.cancelled) return;
+
+      this.completedUnits++;
+      unitsDone++;
+
+      // Cleanup: TERMINATE WORKER to completely free ALL memory for this model
+      this.emitProgress('cleanup', modelId, modelName);
+      await analyzer.terminateWorker();
+      console.log(`✅ Worker terminated - ALL memory freed for ${modelName}`);
+
+      if (context.clearCache) {
+        console.log(`🗑️ Clearing browser cache for ${modelName}...`);
+        await analyzer.getCacheManager().clearModelCache(run.huggingFaceId);
+      }
+
+      this.emit('modelFinished', { modelId, modelName, success: true });
+    } catch (error) {
+      // Cancelled mid-load: cancel() already terminated the worker
+      if (this.cancelled) return;
+
+      console.error(`❌ Failed to process model ${modelName}:`, error);
+      this.emit('error', { modelId, modelName, error });
+
+      // ALWAYS terminate worker on error to free memory
+      try {
+        await analyzer.terminateWorker();
+        console.log(`🗑️ Terminated worker after error for ${modelName}`);
+        if (context.clearCache) {
+          await analyzer.getCacheManager().clearModelCache(run.huggingFaceId);
+        }
+      } catch (terminateError) {
+        console.warn(`⚠️ Failed to terminate worker for ${modelName}:`, terminateError);
+      }
+
+      // A failed model still counts as done for progress
+      this.completedUnits += 3 - unitsDone;
+      this.emitProgress('cleanup', modelId, modelName);
+      this.emit('modelFinished', { modelId, modelName, success: false });
+    } finally {
+      this.activeAnalyzers.delete(analyzer);
+    }
+  }
+
+  /**
+   * Shape a MultiModelAnalyzer result as a table cell, switching the column
+   * to classification the first time a model's output turns out multi-class
+   */
+  private createNeuralCell(analyzed: any, item: AnalysisItem): AnalysisCellResult {
+    const { column } = item;
+    const metadata = this.cellMetadata(analyzed.metadata, item);
+
+    if (isClassificationResult(analyzed.metadata)) {
+      if (column.type === 'sentiment') {
+        column.type = 'classification';
+        console.log(`📊 Updated column type for ${column.name} to 'classification'`);
+      }
+
+      return {
+        analyzer: column.name,
+        type: 'classification',
+        topClass: analyzed.metadata?.topLabel || analyzed.metadata?.rawPrediction?.label || 'Unknown',
+        confidence: analyzed.score, // Already 0-1
+        allClasses: analyzed.metadata?.fullRawOutput?.reduce((acc: Record<string, number>, pred: any) => {
+          acc[pred.label] = pred.score;
+          return acc;
+        }, {}) || {},
+        metadata,
+        rawOutput: analyzed
+      };
+    }
+
+    return {
+      analyzer: column.name,
+      type: 'sentiment',
+      score: analyzed.score,
+      sentiment: analyzed.sentiment,
+      metadata,
+      rawOutput: analyzed
+    };
+  }
+
+  /**
+   * Aspect cells record which term they scored and the window of text that was analyzed
+   */
+  private cellMetadata(metadata: any, item: AnalysisItem): any {
+    if (!item.column.aspect) return metadata;
+    return { ...metadata, aspect: { term: item.column.aspect.term, window: item.text } };
+  }
+
+  private createErrorCell(analyzer: string, type: AnalysisColumn['type'], error: unknown): AnalysisCellResult {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return {
+      analyzer,
+      type,
+      score: 0,
+      sentiment: 'neutral',
+      topClass: 'ERROR',
+      confidence: 0,
+      metadata: { error: true, errorMessage },
+      rawOutput: { error: errorMessage }
+    };
+  }
+}
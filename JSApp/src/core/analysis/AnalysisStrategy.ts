@@ -1,3 +1,5 @@
+import type { AspectConfig } from './AspectAnalysis';
+
 export interface AnalysisResult {
   type: 'sentiment' | 'classification';
   lines: string[];
@@ -16,14 +18,35 @@ export interface UnifiedAnalysisResult {
     confidence?: number;
     allClasses?: {[key: string]: number};
     metadata?: any;
+    rawOutput?: any;
   }>;
+  // Values of the imported columns kept alongside the text, in passthroughColumns order
+  passthrough?: string[];
 }
 
 export interface MultiModalAnalysisResult {
   type: 'multimodal';
   lines: string[];
   data: UnifiedAnalysisResult[];
-  columns: Array<{name: string, type: 'sentiment' | 'classification', modelId?: string}>;
+  columns: Array<{
+    name: string,
+    type: 'sentiment' | 'classification',
+    modelId?: string,
+    // Aspect mode: sub-column scoring the words around mentions of one term
+    aspect?: {term: string, baseColumn: string}
+  }>;
+  // Sentence mode: lines/data hold sentences, grouped back into the original documents here
+  documents?: DocumentSegment[];
+  // Aspect mode: the terms and window the aspect sub-columns were scored with
+  aspects?: AspectConfig;
+  // Headers of the imported columns carried through with each row
+  passthroughColumns?: string[];
+}
+
+export interface DocumentSegment {
+  documentIndex: number;
+  text: string;
+  sentenceIndices: number[];
 }
 
 export interface SentimentResult {
@@ -0,0 +1,136 @@
+/**
+ * AspectAnalysis - Sentiment toward specific targets ("battery", "customer service")
+ *
+ * In aspect mode every line that mentions an aspect term is also scored on the
+ * words around each mention. Each analyzer gets one sub-column per aspect, e.g.
+ * "VADER [battery]"; lines that don't mention the aspect leave it empty.
+ */
+
+import type { MultiModalAnalysisResult } from './AnalysisStrategy';
+
+export interface AspectConfig {
+  terms: string[];
+  /** Words kept on each side of a mention */
+  windowWords: number;
+}
+
+export interface AspectWindow {
+  lineIndex: number;
+  term: string;
+  /** Words around every mention in the line, joined with " … " where they don't touch */
+  text: string;
+}
+
+type AnalysisColumn = MultiModalAnalysisResult['columns'][number];
+
+export const DEFAULT_ASPECT_WINDOW_WORDS = 6;
+
+const STORAGE_KEY = 'sentimentomatic_aspects';
+
+/**
+ * Terms from "battery, customer service" or one per line, lowercased without duplicates
+ */
+export function parseAspectTerms(input: string): string[] {
+  const terms = input.split(/[,\n]/).map(term => term.trim().toLowerCase().replace(/\s+/g, ' ')).filter(Boolean);
+  return Array.from(new Set(terms));
+}
+
+export function loadAspectConfig(): AspectConfig {
+  const empty: AspectConfig = { terms: [], windowWords: DEFAULT_ASPECT_WINDOW_WORDS };
+  if (typeof localStorage === 'undefined') return empty;
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? { ...empty, ...JSON.parse(stored) as AspectConfig } : empty;
+  } catch (error) {
+    console.warn('⚠️ Failed to read aspect terms:', error);
+    return empty;
+  }
+}
+
+export function saveAspectConfig(config: AspectConfig): void {
+  if (typeof localStorage === 'undefined') return;
+  if (config.terms.length === 0) {
+    localStorage.removeItem(STORAGE_KEY);
+  } else {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(config));
+  }
+}
+
+/**
+ * Case-insensitive whole-word match that also accepts a plural "s"/"es"
+ */
+function termPattern(term: string): RegExp {
+  const escaped = term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/ /g, '\\s+');
+  return new RegExp(`(?<![\\p{L}\\p{N}])${escaped}(?:e?s)?(?![\\p{L}\\p{N}])`, 'giu');
+}
+
+export function mentionsAspect(text: string, term: string): boolean {
+  return termPattern(term).test(text);
+}
+
+/**
+ * The words around each mention of a term, or null when the text doesn't mention it
+ */
+export function extractAspectWindow(text: string, term: string, windowWords: number): string | null {
+  const words = Array.from(text.matchAll(/\S+/g), match => ({ start: match.index!, end: match.index! + match[0].length }));
+  const ranges: Array<[number, number]> = [];
+
+  for (const mention of text.matchAll(termPattern(term))) {
+    const mentionStart = mention.index!;
+    const mentionEnd = mentionStart + mention[0].length;
+    const first = words.findIndex(word => word.end > mentionStart);
+    let last = first;
+    while (last + 1 < words.length && words[last + 1].start < mentionEnd) last++;
+
+    const from = Math.max(0, first - windowWords);
+    const to = Math.min(words.length - 1, last + windowWords);
+    const previous = ranges[ranges.length - 1];
+    if (previous && from <= previous[1] + 1) {
+      previous[1] = Math.max(previous[1], to);
+    } else {
+      ranges.push([from, to]);
+    }
+  }
+
+  if (ranges.length === 0) return null;
+  return ranges.map(([from, to]) => text.slice(words[from].start, words[to].end)).join(' … ');
+}
+
+/**
+ * One window per (line, term) for every line that mentions the term
+ */
+export function extractAspectWindows(lines: string[], config: AspectConfig): AspectWindow[] {
+  const windows: AspectWindow[] = [];
+  for (const term of config.terms) {
+    lines.forEach((line, lineIndex) => {
+      const text = extractAspectWindow(line, term, config.windowWords);
+      if (text !== null) windows.push({ lineIndex, term, text });
+    });
+  }
+  return windows;
+}
+
+export function aspectColumnName(baseColumn: string, term: string): string {
+  return `${baseColumn} [${term}]`;
+}
+
+/**
+ * Column an aspect sub-column belongs to, e.g. "GoEmotions [battery]" → "GoEmotions"
+ */
+export function aspectBaseColumnName(columnName: string): string {
+  return columnName.replace(/ \[[^\]]+\]$/, '');
+}
+
+/**
+ * Per-aspect sub-columns for each analyzer column, placed right after it
+ */
+export function withAspectColumns(columns: AnalysisColumn[], terms: string[]): AnalysisColumn[] {
+  return columns.flatMap(column => [
+    column,
+    ...terms.map(term => ({
+      ...column,
+      name: aspectColumnName(column.name, term),
+      aspect: { term, baseColumn: column.name }
+    }))
+  ]);
+}
@@ -0,0 +1,294 @@
+/**
+ * CheckpointStore - Persists completed analysis cells to IndexedDB
+ *
+ * Every finished (line, model) cell of a run is written under a run key derived
+ * from the input lines, the model list and the settings the models score with,
+ * so a run interrupted by a crash or a closed tab can be resumed on reload
+ * without redoing finished cells, and never with cells scored differently.
+ */
+
+import type { AnalysisCellResult } from './AnalysisEngine';
+import type { AnalysisUnit } from './DocumentAggregator';
+import type { AspectConfig } from './AspectAnalysis';
+import type { CustomLexicon } from '../analyzers/CustomLexiconAnalyzer';
+import type { LexiconOverrides } from '../analyzers/lexiconOverrides';
+import type { SentimentThresholds } from '../analyzers/scoreThresholds';
+import type { PipelineOverrides } from '../models/pipelineOptions';
+import type { ZeroShotConfig } from '../models/zeroShot';
+
+const DB_NAME = 'sentimentomatic-checkpoints';
+const DB_VERSION = 1;
+const RUNS_STORE = 'runs';
+const CELLS_STORE = 'cells';
+
+// Cells are buffered and written in batches to keep IndexedDB transactions cheap
+const FLUSH_BATCH_SIZE = 50;
+const FLUSH_INTERVAL_MS = 2000;
+
+export interface CompletedCell {
+  lineIndex: number;
+  column: string;
+  cell: AnalysisCellResult;
+}
+
+/**
+ * Settings one model scores with, each left out while at its default
+ */
+export interface ModelScoringSettings {
+  overrides?: LexiconOverrides;
+  lexicon?: CustomLexicon | null;
+  thresholds?: SentimentThresholds;
+  /** Where a user-added model comes from; the same ID can be re-added pointing elsewhere */
+  huggingFaceId?: string;
+  task?: string;
+  pipelineOverrides?: PipelineOverrides;
+  localPath?: string;
+  zeroShot?: ZeroShotConfig;
+  multiLabelThreshold?: number;
+}
+
+/** Scoring settings by model ID; models at their defaults are left out */
+export type ScoringSettings = Record<string, ModelScoringSettings>;
+
+export interface CheckpointRun {
+  runKey: string;
+  lines: string[];
+  ruleBasedAnalyzers: string[];
+  huggingFaceModels: string[];
+  /** Missing on runs saved before sentence mode existed, which were all line mode */
+  analysisUnit?: AnalysisUnit;
+  /** Aspect terms the run scored, no terms for none (runs saved before this left it out for none) */
+  aspects?: AspectConfig;
+  /** Settings the models scored with; missing on runs saved before they were kept */
+  scoring?: ScoringSettings;
+  completedCells: number;
+  totalCells: number;
+  updatedAt: number;
+}
+
+interface StoredCell extends CompletedCell {
+  runKey: string;
+}
+
+/**
+ * 53-bit string hash (cyrb53); stable across sessions and needs no secure context
+ */
+function hashString(value: string, seed = 0): string {
+  let h1 = 0xdeadbeef ^ seed;
+  let h2 = 0x41c6ce57 ^ seed;
+  for (let i = 0; i < value.length; i++) {
+    const ch = value.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(16).padStart(14, '0');
+}
+
+/**
+ * Run key for a set of input lines analyzed by an ordered list of models.
+ * scoring holds each model's non-default settings (lexicon overrides, custom
+ * lexicon, score thresholds, zero-shot labels...) by model ID; changing any of them starts a new run.
+ */
+export function computeRunKey(
+  lines: string[],
+  modelIds: string[],
+  analysisUnit: AnalysisUnit = 'line',
+  aspects?: AspectConfig,
+  scoring: ScoringSettings = {}
+): string {
+  // Line-mode keys leave the unit out so they match checkpoints saved before it existed
+  const hashed = {
+    lines,
+    modelIds,
+    ...(analysisUnit !== 'line' && { analysisUnit }),
+    ...(aspects && aspects.terms.length > 0 && { aspects }),
+    ...(Object.keys(scoring).length > 0 && { scoring })
+  };
+  return `${lines.length}-${hashString(JSON.stringify(hashed))}`;
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+export class CheckpointStore {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+  private pending: StoredCell[] = [];
+  private flushTimer: ReturnType<typeof setTimeout> | null = null;
+  private flushChain: Promise<void> = Promise.resolve();
+
+  /**
+   * Check if IndexedDB is usable in this environment
+   */
+  isAvailable(): boolean {
+    return typeof indexedDB !== 'undefined';
+  }
+
+  private openDatabase(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          if (!db.objectStoreNames.contains(RUNS_STORE)) {
+            db.createObjectStore(RUNS_STORE, { keyPath: 'runKey' });
+          }
+          if (!db.objectStoreNames.contains(CELLS_STORE)) {
+            const cells = db.createObjectStore(CELLS_STORE, { keyPath: ['runKey', 'lineIndex', 'column'] });
+            cells.createIndex('runKey', 'runKey', { unique: false });
+          }
+        };
+
+        request.onsuccess = () => {
+          const db = request.result;
+          // Let "Clear Cache" delete the database instead of blocking on this connection
+          db.onversionchange = () => {
+            db.close();
+            this.dbPromise = null;
+          };
+          resolve(db);
+        };
+        request.onerror = () => {
+          this.dbPromise = null;
+          reject(request.error);
+        };
+      });
+    }
+    return this.dbPromise;
+  }
+
+  /**
+   * Register a run, keeping the existing record (and its cells) when resuming
+   */
+  async startRun(run: Omit<CheckpointRun, 'completedCells' | 'updatedAt'>): Promise<void> {
+    const db = await this.openDatabase();
+    const transaction = db.transaction(RUNS_STORE, 'readwrite');
+    const runs = transaction.objectStore(RUNS_STORE);
+
+    const existing = await requestToPromise<CheckpointRun | undefined>(runs.get(run.runKey));
+    const record: CheckpointRun = {
+      ...run,
+      completedCells: existing?.completedCells ?? 0,
+      updatedAt: Date.now()
+    };
+    runs.put(record);
+
+    await transactionDone(transaction);
+  }
+
+  /**
+   * All cells already checkpointed for a run
+   */
+  async loadCells(runKey: string): Promise<CompletedCell[]> {
+    const db = await this.openDatabase();
+    const transaction = db.transaction(CELLS_STORE, 'readonly');
+    const stored = await requestToPromise<StoredCell[]>(
+      transaction.objectStore(CELLS_STORE).index('runKey').getAll(runKey)
+    );
+    return stored.map(({ lineIndex, column, cell }) => ({ lineIndex, column, cell }));
+  }
+
+  /**
+   * Queue a finished cell; written in the next batch
+   */
+  saveCell(runKey: string, completed: CompletedCell): void {
+    this.pending.push({ runKey, ...completed });
+
+    if (this.pending.length >= FLUSH_BATCH_SIZE) {
+      this.flush();
+    } else if (!this.flushTimer) {
+      this.flushTimer = setTimeout(() => this.flush(), FLUSH_INTERVAL_MS);
+    }
+  }
+
+  /**
+   * Write all queued cells now
+   */
+  flush(): Promise<void> {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+
+    const batch = this.pending;
+    this.pending = [];
+    if (batch.length === 0) {
+      return this.flushChain;
+    }
+
+    this.flushChain = this.flushChain
+      .then(() => this.writeBatch(batch))
+      .catch(error => {
+        console.warn('⚠️ Failed to write analysis checkpoint:', error);
+      });
+    return this.flushChain;
+  }
+
+  private async writeBatch(batch: StoredCell[]): Promise<void> {
+    const db = await this.openDatabase();
+    const transaction = db.transaction([RUNS_STORE, CELLS_STORE], 'readwrite');
+    const cells = transaction.objectStore(CELLS_STORE);
+    const runs = transaction.objectStore(RUNS_STORE);
+
+    for (const cell of batch) {
+      cells.put(cell);
+    }
+
+    // Keep per-run counters in step with the cells just written
+    const countsByRun = new Map<string, number>();
+    for (const cell of batch) {
+      countsByRun.set(cell.runKey, (countsByRun.get(cell.runKey) ?? 0) + 1);
+    }
+    for (const [runKey, count] of countsByRun) {
+      const run = await requestToPromise<CheckpointRun | undefined>(runs.get(runKey));
+      if (run) {
+        runs.put({ ...run, completedCells: run.completedCells + count, updatedAt: Date.now() });
+      }
+    }
+
+    await transactionDone(transaction);
+  }
+
+  /**
+   * Most recently updated unfinished run, if any
+   */
+  async getLatestRun(): Promise<CheckpointRun | null> {
+    const db = await this.openDatabase();
+    const transaction = db.transaction(RUNS_STORE, 'readonly');
+    const runs = await requestToPromise<CheckpointRun[]>(transaction.objectStore(RUNS_STORE).getAll());
+
+    const resumable = runs.filter(run => run.completedCells > 0 && run.completedCells < run.totalCells);
+    resumable.sort((a, b) => b.updatedAt - a.updatedAt);
+    return resumable[0] ?? null;
+  }
+
+  /**
+   * Remove a run and all of its cells
+   */
+  async deleteRun(runKey: string): Promise<void> {
+    // Drop anything still queued for this run so it is not written back afterwards
+    this.pending = this.pending.filter(cell => cell.runKey !== runKey);
+    await this.flushChain;
+
+    const db = await this.openDatabase();
+    const transaction = db.transaction([RUNS_STORE, CELLS_STORE], 'readwrite');
+    transaction.objectStore(RUNS_STORE).delete(runKey);
+    // [runKey] sorts before and [runKey, []] after every [runKey, lineIndex, column] key
+    transaction.objectStore(CELLS_STORE).delete(IDBKeyRange.bound([runKey], [runKey, []]));
+    await transactionDone(transaction);
+  }
+}
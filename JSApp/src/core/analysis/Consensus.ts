@@ -0,0 +1,209 @@
+/**
+ * Consensus - One verdict across several sentiment models
+ *
+ * Every sentiment column is normalized to a signed −1..+1 polarity (VADER's
+ * compound score as is, AFINN's per-word comparative score divided by its ±5
+ * word range, transformer confidence signed by the predicted label). Each line
+ * then gets the weighted majority label, the weighted mean polarity and an
+ * entropy-based agreement score; Fleiss' kappa summarizes agreement over the
+ * whole run. Classification and aspect columns are left out.
+ */
+
+import type { MultiModalAnalysisResult, UnifiedAnalysisResult } from './AnalysisStrategy';
+import { cellPolarity } from './DocumentAggregator';
+
+export type ConsensusLabel = 'positive' | 'negative' | 'neutral';
+
+/** Per-column weights keyed by column name; missing columns weigh 1, 0 leaves a model out */
+export type ConsensusWeights = Record<string, number>;
+
+export interface ConsensusRow {
+  lineIndex: number;
+  /** Models with a usable result for this line */
+  count: number;
+  /** Weighted majority label; a tie goes to the sign of the mean */
+  sentiment: ConsensusLabel | null;
+  /** Weighted mean of the normalized polarities */
+  meanPolarity: number | null;
+  /** 1 when every model picks the same label, 0 when votes are spread evenly over all three */
+  agreement: number | null;
+  /** Weighted votes per label */
+  votes: Record<ConsensusLabel, number>;
+}
+
+export interface ConsensusResult {
+  /** Sentiment columns that take part, with their weights */
+  models: Array<{ name: string; weight: number }>;
+  rows: ConsensusRow[];
+  /** Fleiss' kappa over the lines every model has labelled (unweighted) */
+  fleissKappa: number | null;
+}
+
+type AnalysisCell = UnifiedAnalysisResult['results'][number];
+type AnalysisColumn = MultiModalAnalysisResult['columns'][number];
+
+export const SENTIMENT_LABELS: ConsensusLabel[] = ['positive', 'neutral', 'negative'];
+
+// Rule-based scores that are not already on a −1..+1 scale
+const RULE_BASED_SCORE_RANGE: Record<string, number> = {
+  AFINN: 5
+};
+
+const STORAGE_KEY = 'sentimentomatic_consensus_weights';
+
+export function loadConsensusWeights(): ConsensusWeights {
+  if (typeof localStorage === 'undefined') return {};
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? JSON.parse(stored) as ConsensusWeights : {};
+  } catch (error) {
+    console.warn('⚠️ Failed to read consensus weights:', error);
+    return {};
+  }
+}
+
+export function saveConsensusWeights(weights: ConsensusWeights): void {
+  if (typeof localStorage === 'undefined') return;
+  // Default weights are not worth keeping
+  const changed = Object.fromEntries(Object.entries(weights).filter(([, weight]) => weight !== 1));
+  if (Object.keys(changed).length === 0) {
+    localStorage.removeItem(STORAGE_KEY);
+  } else {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(changed));
+  }
+}
+
+export function consensusWeight(weights: ConsensusWeights, columnName: string): number {
+  const weight = weights[columnName];
+  return typeof weight === 'number' && weight >= 0 ? weight : 1;
+}
+
+/**
+ * Sentiment columns a consensus is built from (whatever their weight)
+ */
+export function consensusColumns(result: MultiModalAnalysisResult): AnalysisColumn[] {
+  return result.columns.filter(column => column.type === 'sentiment' && !column.aspect);
+}
+
+/**
+ * A consensus needs at least two sentiment models to compare
+ */
+export function hasConsensus(result: MultiModalAnalysisResult): boolean {
+  return consensusColumns(result).length >= 2;
+}
+
+/**
+ * A sentiment cell's polarity on a common −1..+1 scale
+ */
+export function normalizedPolarity(cell: AnalysisCell, column: AnalysisColumn): number | null {
+  const polarity = cellPolarity(cell, column);
+  if (polarity === null) return null;
+
+  const range = column.modelId ? 1 : RULE_BASED_SCORE_RANGE[column.name] ?? 1;
+  return Math.max(-1, Math.min(1, polarity / range));
+}
+
+/**
+ * Positive/neutral/negative label of a sentiment cell, from its polarity when the model gave none
+ */
+export function cellSentimentLabel(cell: AnalysisCell, polarity: number): ConsensusLabel {
+  const sentiment = cell.sentiment as ConsensusLabel | undefined;
+  if (sentiment && SENTIMENT_LABELS.includes(sentiment)) return sentiment;
+  return polarity > 0 ? 'positive' : polarity < 0 ? 'negative' : 'neutral';
+}
+
+// Normalized Shannon entropy of the vote distribution, turned into agreement
+function entropyAgreement(votes: Record<ConsensusLabel, number>): number {
+  const total = SENTIMENT_LABELS.reduce((sum, label) => sum + votes[label], 0);
+  let entropy = 0;
+  for (const label of SENTIMENT_LABELS) {
+    const share = votes[label] / total;
+    if (share > 0) entropy -= share * Math.log(share);
+  }
+  return 1 - entropy / Math.log(SENTIMENT_LABELS.length);
+}
+
+/**
+ * Fleiss' kappa for lines rated by the same number of models
+ */
+function fleissKappa(ratings: Array<Record<ConsensusLabel, number>>, raters: number): number | null {
+  if (ratings.length === 0 || raters < 2) return null;
+
+  const labelTotals: Record<ConsensusLabel, number> = { positive: 0, neutral: 0, negative: 0 };
+  let observed = 0;
+  for (const counts of ratings) {
+    let agreeingPairs = 0;
+    for (const label of SENTIMENT_LABELS) {
+      agreeingPairs += counts[label] * (counts[label] - 1);
+      labelTotals[label] += counts[label];
+    }
+    observed += agreeingPairs / (raters * (raters - 1));
+  }
+  observed /= ratings.length;
+
+  const expected = SENTIMENT_LABELS.reduce((sum, label) => sum + (labelTotals[label] / (ratings.length * raters)) ** 2, 0);
+  // Every model always gave the same single label: agreement is perfect but kappa is undefined
+  if (expected === 1) return null;
+  return (observed - expected) / (1 - expected);
+}
+
+/**
+ * Consensus for every line; lines without results yet are skipped so this can
+ * run while analysis is in progress
+ */
+export function computeConsensus(result: MultiModalAnalysisResult, weights: ConsensusWeights = {}): ConsensusResult {
+  const columns = consensusColumns(result)
+    .map(column => ({ column, weight: consensusWeight(weights, column.name) }))
+    .filter(({ weight }) => weight > 0);
+
+  const ratings: Array<Record<ConsensusLabel, number>> = [];
+  const rows = result.data.map(item => {
+    const votes: Record<ConsensusLabel, number> = { positive: 0, neutral: 0, negative: 0 };
+    const counts: Record<ConsensusLabel, number> = { positive: 0, neutral: 0, negative: 0 };
+    let count = 0;
+    let weightedSum = 0;
+    let totalWeight = 0;
+
+    for (const { column, weight } of columns) {
+      const cell = item.results.find(r => r.analyzer === column.name);
+      const polarity = cell ? normalizedPolarity(cell, column) : null;
+      if (!cell || polarity === null) continue;
+
+      const label = cellSentimentLabel(cell, polarity);
+      votes[label] += weight;
+      counts[label]++;
+      count++;
+      weightedSum += polarity * weight;
+      totalWeight += weight;
+    }
+
+    if (count === columns.length) ratings.push(counts);
+
+    const row: ConsensusRow = {
+      lineIndex: item.lineIndex,
+      count,
+      sentiment: null,
+      meanPolarity: null,
+      agreement: null,
+      votes
+    };
+    if (count === 0) return row;
+
+    const meanPolarity = weightedSum / totalWeight;
+    const ranked = [...SENTIMENT_LABELS].sort((a, b) => votes[b] - votes[a]);
+    const tied = votes[ranked[0]] === votes[ranked[1]];
+
+    row.meanPolarity = meanPolarity;
+    row.sentiment = tied
+      ? meanPolarity > 0 ? 'positive' : meanPolarity < 0 ? 'negative' : 'neutral'
+      : ranked[0];
+    row.agreement = count >= 2 ? entropyAgreement(votes) : null;
+    return row;
+  });
+
+  return {
+    models: columns.map(({ column, weight }) => ({ name: column.name, weight })),
+    rows,
+    fleissKappa: fleissKappa(ratings, columns.length)
+  };
+}
@@ -0,0 +1,156 @@
+/**
+ * Dashboard - Chart data computed from a result, one row per analyzed line (or sentence)
+ *
+ * Sentiment columns are compared on the common −1..+1 polarity scale from
+ * Consensus: a histogram per model and a scatter of any two models. Label
+ * charts count each row's predicted label: the sentiment for sentiment
+ * columns, the top class for classification columns.
+ */
+
+import type { MultiModalAnalysisResult } from './AnalysisStrategy';
+import { cellSentimentLabel, consensusColumns, normalizedPolarity, SENTIMENT_LABELS, type ConsensusLabel } from './Consensus';
+import { pearson } from './AgreementReport';
+import { scoreHistogram, type HistogramBin } from './ThresholdCalibration';
+
+export interface PolarityHistogram {
+  column: string;
+  /** Rows per polarity bin, grouped by sentiment label */
+  bins: HistogramBin[];
+  count: number;
+  mean: number | null;
+}
+
+export interface LabelCount {
+  label: string;
+  count: number;
+}
+
+export interface LabelDistribution {
+  column: string;
+  type: 'sentiment' | 'classification';
+  /** Rows with a prediction */
+  total: number;
+  /** Sentiment labels in positive/neutral/negative order, classes most frequent first */
+  labels: LabelCount[];
+}
+
+export interface ScatterPoint {
+  lineIndex: number;
+  x: number;
+  y: number;
+  /** Both models gave the row the same positive/neutral/negative label */
+  agree: boolean;
+}
+
+export interface SentimentScatter {
+  columnX: string;
+  columnY: string;
+  points: ScatterPoint[];
+  pearson: number | null;
+}
+
+export const DEFAULT_HISTOGRAM_BINS = 20;
+export const OTHER_LABEL = 'Other';
+
+// Label charts: the model's own columns, not its aspect sub-columns
+function labelColumns(result: MultiModalAnalysisResult) {
+  return result.columns.filter(column => !column.aspect);
+}
+
+/**
+ * Polarity histogram of every sentiment column, bars stacked by the rows' labels
+ */
+export function polarityHistograms(result: MultiModalAnalysisResult, binCount: number = DEFAULT_HISTOGRAM_BINS): PolarityHistogram[] {
+  return consensusColumns(result).map(column => {
+    const values: Array<{ score: number; group: ConsensusLabel }> = [];
+    for (const item of result.data) {
+      const cell = item.results.find(r => r.analyzer === column.name);
+      const polarity = cell ? normalizedPolarity(cell, column) : null;
+      if (!cell || polarity === null) continue;
+      values.push({ score: polarity, group: cellSentimentLabel(cell, polarity) });
+    }
+
+    return {
+      column: column.name,
+      bins: scoreHistogram(values, -1, 1, binCount),
+      count: values.length,
+      mean: values.length > 0 ? values.reduce((sum, value) => sum + value.score, 0) / values.length : null
+    };
+  });
+}
+
+/**
+ * How often each column predicted each label
+ */
+export function labelDistributions(result: MultiModalAnalysisResult): LabelDistribution[] {
+  return labelColumns(result).map(column => {
+    const counts = new Map<string, number>();
+    for (const item of result.data) {
+      const cell = item.results.find(r => r.analyzer === column.name);
+      if (!cell || cell.metadata?.error) continue;
+
+      // Multi-label top classes carry a "+" marker in the grid
+      const label = column.type === 'sentiment' ? cell.sentiment : cell.topClass?.replace(/\+$/, '');
+      if (!label) continue;
+      counts.set(label, (counts.get(label) ?? 0) + 1);
+    }
+
+    const labels = Array.from(counts, ([label, count]) => ({ label, count }));
+    // Sentiment labels keep their natural order; classes go by frequency
+    labels.sort((a, b) => column.type === 'sentiment'
+      ? SENTIMENT_LABELS.indexOf(a.label as ConsensusLabel) - SENTIMENT_LABELS.indexOf(b.label as ConsensusLabel)
+      : b.count - a.count || a.label.localeCompare(b.label));
+
+    return {
+      column: column.name,
+      type: column.type,
+      total: labels.reduce((sum, label) => sum + label.count, 0),
+      labels
+    };
+  });
+}
+
+/**
+ * The n most frequent labels, with the rest folded into "Other"
+ */
+export function topLabels(distribution: LabelDistribution, n: number): LabelCount[] {
+  const sorted = [...distribution.labels].sort((a, b) => b.count - a.count || a.label.localeCompare(b.label));
+  if (sorted.length <= n) return sorted;
+
+  const rest = sorted.slice(n).reduce((sum, label) => sum + label.count, 0);
+  return [...sorted.slice(0, n), { label: OTHER_LABEL, count: rest }];
+}
+
+/**
+ * Polarities of two sentiment columns on the rows both scored
+ */
+export function sentimentScatter(result: MultiModalAnalysisResult, columnX: string, columnY: string): SentimentScatter {
+  const columns = consensusColumns(result);
+  const x = columns.find(column => column.name === columnX);
+  const y = columns.find(column => column.name === columnY);
+
+  const points: ScatterPoint[] = [];
+  if (x && y) {
+    result.data.forEach((item, lineIndex) => {
+      const cellX = item.results.find(r => r.analyzer === x.name);
+      const cellY = item.results.find(r => r.analyzer === y.name);
+      const polarityX = cellX ? normalizedPolarity(cellX, x) : null;
+      const polarityY = cellY ? normalizedPolarity(cellY, y) : null;
+      if (!cellX || !cellY || polarityX === null || polarityY === null) return;
+
+      points.push({
+        lineIndex,
+        x: polarityX,
+        y: polarityY,
+        agree: cellSentimentLabel(cellX, polarityX) === cellSentimentLabel(cellY, polarityY)
+      });
+    });
+  }
+
+  return {
+    columnX,
+    columnY,
+    points,
+    pearson: pearson(points.map((point): [number, number] => [point.x, point.y]))
+  };
+}
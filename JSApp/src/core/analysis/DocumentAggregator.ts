@@ -0,0 +1,180 @@
+/**
+ * DocumentAggregator - Sentence-level analysis of longer documents
+ *
+ * In sentence mode every input line is treated as a document and split into
+ * sentences; each sentence is analyzed as its own row and the per-sentence
+ * results are rolled back up to the document (mean, max, min, share negative).
+ */
+
+import type { DocumentSegment, MultiModalAnalysisResult, UnifiedAnalysisResult } from './AnalysisStrategy';
+
+export type AnalysisUnit = 'line' | 'sentence';
+
+type AnalysisCell = UnifiedAnalysisResult['results'][number];
+type AnalysisColumn = MultiModalAnalysisResult['columns'][number];
+
+export interface DocumentColumnAggregate {
+  analyzer: string;
+  type: 'sentiment' | 'classification';
+  /** Sentences with a usable result so far */
+  count: number;
+  /** Signed polarity for sentiment columns, confidence for classification columns */
+  mean: number | null;
+  max: number | null;
+  min: number | null;
+  /** Share of sentences labelled negative (sentiment columns only) */
+  negativeShare: number | null;
+  sentiment?: 'positive' | 'negative' | 'neutral';
+  /** Most frequent top class across sentences (classification columns only) */
+  topClass?: string;
+}
+
+export interface DocumentAggregate {
+  documentIndex: number;
+  text: string;
+  sentenceIndices: number[];
+  columns: DocumentColumnAggregate[];
+}
+
+// Closing quotes/brackets that belong to the sentence they end
+const SENTENCE_PATTERN = /[^.!?…]+(?:[.!?…]+["'”’)\]]*|$)/g;
+
+/**
+ * Split a document into trimmed, non-empty sentences
+ */
+export function splitIntoSentences(text: string): string[] {
+  const Segmenter = (Intl as any).Segmenter;
+  let sentences: string[];
+
+  if (typeof Segmenter === 'function') {
+    const segmenter = new Segmenter(undefined, { granularity: 'sentence' });
+    sentences = Array.from(segmenter.segment(text) as Iterable<{ segment: string }>, part => part.segment);
+  } else {
+    sentences = text.match(SENTENCE_PATTERN) || [];
+  }
+
+  const trimmed = sentences.map(sentence => sentence.trim()).filter(sentence => sentence.length > 0);
+  return trimmed.length > 0 ? trimmed : [text.trim()];
+}
+
+/**
+ * Split every document into sentences, flattened in document order
+ */
+export function segmentDocuments(documents: string[]): { sentences: string[]; documents: DocumentSegment[] } {
+  const sentences: string[] = [];
+  const segments = documents.map((text, documentIndex) => {
+    const sentenceIndices: number[] = [];
+    for (const sentence of splitIntoSentences(text)) {
+      sentenceIndices.push(sentences.length);
+      sentences.push(sentence);
+    }
+    return { documentIndex, text, sentenceIndices };
+  });
+
+  return { sentences, documents: segments };
+}
+
+/**
+ * Signed polarity of a sentiment cell: rule-based scores are already signed,
+ * neural models report confidence in the predicted label
+ */
+export function cellPolarity(cell: AnalysisCell, column: AnalysisColumn): number | null {
+  if (cell.metadata?.error) return null;
+
+  if (!column.modelId) {
+    return typeof cell.score === 'number' ? cell.score : null;
+  }
+
+  const confidence = cell.confidence ?? cell.score ?? 0;
+  if (cell.sentiment === 'positive') return confidence;
+  if (cell.sentiment === 'negative') return -confidence;
+  return 0;
+}
+
+function mostFrequent<T extends string>(values: T[]): { value: T; count: number; tied: boolean } | null {
+  const counts = new Map<T, number>();
+  for (const value of values) {
+    counts.set(value, (counts.get(value) ?? 0) + 1);
+  }
+
+  let best: { value: T; count: number; tied: boolean } | null = null;
+  for (const [value, count] of counts) {
+    if (!best || count > best.count) {
+      best = { value, count, tied: false };
+    } else if (count === best.count) {
+      best.tied = true;
+    }
+  }
+  return best;
+}
+
+function aggregateColumn(cells: AnalysisCell[], column: AnalysisColumn): DocumentColumnAggregate {
+  const aggregate: DocumentColumnAggregate = {
+    analyzer: column.name,
+    type: column.type,
+    count: 0,
+    mean: null,
+    max: null,
+    min: null,
+    negativeShare: null
+  };
+
+  const usable = cells.filter(cell => !cell.metadata?.error);
+  const values = column.type === 'sentiment'
+    ? usable.map(cell => cellPolarity(cell, column)).filter((value): value is number => value !== null)
+    : usable.map(cell => cell.confidence ?? 0);
+
+  aggregate.count = values.length;
+  if (values.length === 0) return aggregate;
+
+  aggregate.mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+  aggregate.max = Math.max(...values);
+  aggregate.min = Math.min(...values);
+
+  if (column.type === 'sentiment') {
+    const labels = usable.map(cell => (cell.sentiment || 'neutral') as 'positive' | 'negative' | 'neutral');
+    aggregate.negativeShare = labels.filter(label => label === 'negative').length / labels.length;
+
+    // Majority sentence label; a tie goes to the sign of the mean
+    const majority = mostFrequent(labels);
+    if (majority && !majority.tied) {
+      aggregate.sentiment = majority.value;
+    } else {
+      aggregate.sentiment = aggregate.mean > 0 ? 'positive' : aggregate.mean < 0 ? 'negative' : 'neutral';
+    }
+  } else {
+    const labels = usable.map(cell => String(cell.metadata?.exportLabel || cell.topClass || 'Unknown'));
+    aggregate.topClass = mostFrequent(labels)?.value;
+  }
+
+  return aggregate;
+}
+
+/**
+ * Roll the sentence results of one document up per column; sentences without
+ * a result yet are skipped so this can run while analysis is in progress
+ */
+export function aggregateDocument(result: MultiModalAnalysisResult, document: DocumentSegment): DocumentAggregate {
+  const columns = result.columns.map(column => {
+    const cells: AnalysisCell[] = [];
+    for (const sentenceIndex of document.sentenceIndices) {
+      const cell = result.data[sentenceIndex]?.results.find(r => r.analyzer === column.name);
+      if (cell) cells.push(cell);
+    }
+    return aggregateColumn(cells, column);
+  });
+
+  return {
+    documentIndex: document.documentIndex,
+    text: document.text,
+    sentenceIndices: document.sentenceIndices,
+    columns
+  };
+}
+
+/**
+ * Document aggregates for a sentence-mode result (empty in line mode)
+ */
+export function aggregateDocuments(result: MultiModalAnalysisResult): DocumentAggregate[] {
+  return (result.documents || []).map(document => aggregateDocument(result, document));
+}
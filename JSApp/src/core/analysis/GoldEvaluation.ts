@@ -0,0 +1,249 @@
+/**
+ * GoldEvaluation - Score every model column against human "gold" labels
+ *
+ * Gold labels come from a second column of an imported file and are kept
+ * with the text they belong to, so they still line up after the text box is
+ * edited or appended to. Raw gold values ("POS", "1", "Negative") are mapped
+ * to the labels the models predict; each column then gets accuracy, macro-F1,
+ * per-class precision/recall and a confusion matrix. In sentence mode the
+ * documents' aggregate labels are compared, since the gold labels belong to
+ * the original lines.
+ */
+
+import type { MultiModalAnalysisResult, UnifiedAnalysisResult } from './AnalysisStrategy';
+import { aggregateDocuments } from './DocumentAggregator';
+import { cellSentimentLabel, normalizedPolarity } from './Consensus';
+
+export interface GoldEntry {
+  text: string;
+  label: string;
+}
+
+export interface GoldLabels {
+  /** Header of the imported column the labels came from */
+  column: string;
+  entries: GoldEntry[];
+  /** Raw gold value → label compared with predictions; '' leaves those rows out */
+  mapping: Record<string, string>;
+}
+
+export interface ClassMetrics {
+  label: string;
+  precision: number | null;
+  recall: number | null;
+  f1: number | null;
+  /** Rows with this gold label */
+  support: number;
+}
+
+export interface ModelEvaluation {
+  model: string;
+  /** Rows with both a gold label and a prediction */
+  count: number;
+  accuracy: number | null;
+  macroF1: number | null;
+  classes: ClassMetrics[];
+  /** Row and column order of the confusion matrix */
+  labels: string[];
+  /** confusion[gold][predicted] counts, indexed like labels */
+  confusion: number[][];
+}
+
+export interface GoldEvaluation {
+  unit: 'line' | 'document';
+  /** Rows that found a mapped gold label */
+  matched: number;
+  total: number;
+  models: ModelEvaluation[];
+}
+
+type AnalysisCell = UnifiedAnalysisResult['results'][number];
+type AnalysisColumn = MultiModalAnalysisResult['columns'][number];
+
+const STORAGE_KEY = 'sentimentomatic_gold_labels';
+
+// Common spellings of the three sentiment labels
+const SENTIMENT_SYNONYMS: Record<string, string> = {
+  pos: 'positive',
+  positive: 'positive',
+  '+': 'positive',
+  neg: 'negative',
+  negative: 'negative',
+  '-': 'negative',
+  neu: 'neutral',
+  neutral: 'neutral'
+};
+
+export function loadGoldLabels(): GoldLabels | null {
+  if (typeof localStorage === 'undefined') return null;
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? JSON.parse(stored) as GoldLabels : null;
+  } catch (error) {
+    console.warn('⚠️ Failed to read gold labels:', error);
+    return null;
+  }
+}
+
+export function saveGoldLabels(gold: GoldLabels | null): void {
+  if (typeof localStorage === 'undefined') return;
+  try {
+    if (gold) {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(gold));
+    } else {
+      localStorage.removeItem(STORAGE_KEY);
+    }
+  } catch (error) {
+    console.warn('⚠️ Failed to save gold labels:', error);
+  }
+}
+
+/**
+ * Distinct raw gold values, most frequent first
+ */
+export function goldLabelValues(gold: GoldLabels): Array<{ value: string; count: number }> {
+  const counts = new Map<string, number>();
+  for (const entry of gold.entries) {
+    counts.set(entry.label, (counts.get(entry.label) ?? 0) + 1);
+  }
+  return Array.from(counts, ([value, count]) => ({ value, count })).sort((a, b) => b.count - a.count);
+}
+
+/**
+ * Starting mapping: sentiment spellings to positive/neutral/negative, anything else lowercased
+ */
+export function suggestGoldMapping(values: string[]): Record<string, string> {
+  return Object.fromEntries(values.map(value => {
+    const normalized = value.trim().toLowerCase();
+    return [value, SENTIMENT_SYNONYMS[normalized] ?? normalized];
+  }));
+}
+
+/**
+ * Pair imported texts with the values of the gold column, skipping rows without a label
+ */
+export function buildGoldLabels(column: string, texts: string[], labels: string[], mapping: Record<string, string> = {}): GoldLabels {
+  const entries: GoldEntry[] = [];
+  texts.forEach((text, index) => {
+    const label = (labels[index] ?? '').toString().trim();
+    if (text && label) entries.push({ text, label });
+  });
+
+  const suggested = suggestGoldMapping(Array.from(new Set(entries.map(entry => entry.label))));
+  return { column, entries, mapping: { ...suggested, ...mapping } };
+}
+
+function predictedLabel(cell: AnalysisCell, column: AnalysisColumn): string | null {
+  if (cell.metadata?.error) return null;
+  if (column.type === 'sentiment') {
+    const polarity = normalizedPolarity(cell, column);
+    return polarity === null ? null : cellSentimentLabel(cell, polarity);
+  }
+  const label = cell.metadata?.exportLabel || cell.topClass;
+  return label ? String(label) : null;
+}
+
+function ratio(numerator: number, denominator: number): number | null {
+  return denominator > 0 ? numerator / denominator : null;
+}
+
+function evaluateModel(model: string, pairs: Array<[string, string]>): ModelEvaluation {
+  // Gold labels first in order of appearance, then labels only the model used
+  const labels: string[] = [];
+  for (const [gold] of pairs) if (!labels.includes(gold)) labels.push(gold);
+  for (const [, predicted] of pairs) if (!labels.includes(predicted)) labels.push(predicted);
+
+  const confusion = labels.map(() => labels.map(() => 0));
+  for (const [gold, predicted] of pairs) {
+    confusion[labels.indexOf(gold)][labels.indexOf(predicted)]++;
+  }
+
+  const classes = labels.map((label, index) => {
+    const truePositives = confusion[index][index];
+    const support = confusion[index].reduce((sum, count) => sum + count, 0);
+    const predictedCount = confusion.reduce((sum, row) => sum + row[index], 0);
+    const precision = ratio(truePositives, predictedCount);
+    const recall = ratio(truePositives, support);
+    const f1 = precision !== null && recall !== null
+      ? (precision + recall > 0 ? 2 * precision * recall / (precision + recall) : 0)
+      : null;
+    return { label, precision, recall, f1, support };
+  });
+
+  // Undefined precision/recall (label never predicted or never gold) counts as 0
+  const scored = classes.map(metrics => metrics.f1 ?? 0);
+  const correct = labels.reduce((sum, _, index) => sum + confusion[index][index], 0);
+
+  return {
+    model,
+    count: pairs.length,
+    accuracy: ratio(correct, pairs.length),
+    macroF1: classes.length > 0 ? scored.reduce((sum, f1) => sum + f1, 0) / classes.length : null,
+    classes,
+    labels,
+    confusion
+  };
+}
+
+/**
+ * Mapped, lowercased gold label for each text, or null when it has none or
+ * its value is mapped to nothing. Duplicate texts take their labels in order.
+ */
+export function matchGoldLabels(texts: string[], gold: GoldLabels): Array<string | null> {
+  const queues = new Map<string, string[]>();
+  for (const entry of gold.entries) {
+    const target = gold.mapping[entry.label] ?? entry.label;
+    const text = entry.text.trim();
+    const queue = queues.get(text) ?? [];
+    queue.push(target);
+    queues.set(text, queue);
+  }
+
+  return texts.map(text => queues.get(text.trim())?.shift()?.toLowerCase() || null);
+}
+
+/**
+ * Evaluate every non-aspect column of a result against the gold labels
+ */
+export function evaluateAgainstGold(result: MultiModalAnalysisResult, gold: GoldLabels): GoldEvaluation {
+  const columns = result.columns.filter(column => !column.aspect);
+
+  // Rows compared with the gold labels: lines, or documents in sentence mode
+  const unit = result.documents ? 'document' : 'line';
+  const rows: Array<{ text: string; predictions: Array<string | null> }> = result.documents
+    ? aggregateDocuments(result).map(document => ({
+        text: document.text,
+        predictions: document.columns
+          .filter(aggregate => columns.some(column => column.name === aggregate.analyzer))
+          .map(aggregate => aggregate.count === 0 ? null : (aggregate.type === 'sentiment' ? aggregate.sentiment : aggregate.topClass) ?? null)
+      }))
+    : result.data.map(item => ({
+        text: item.text,
+        predictions: columns.map(column => {
+          const cell = item.results.find(r => r.analyzer === column.name);
+          return cell ? predictedLabel(cell, column) : null;
+        })
+      }));
+
+  const targets = matchGoldLabels(rows.map(row => row.text), gold);
+  const pairsByColumn: Array<Array<[string, string]>> = columns.map(() => []);
+  let matched = 0;
+  rows.forEach((row, rowIndex) => {
+    const target = targets[rowIndex];
+    if (!target) return;
+    matched++;
+
+    row.predictions.forEach((predicted, index) => {
+      if (predicted !== null) {
+        pairsByColumn[index].push([target, predicted.toLowerCase()]);
+      }
+    });
+  });
+
+  return {
+    unit,
+    matched,
+    total: rows.length,
+    models: columns.map((column, index) => evaluateModel(column.name, pairsByColumn[index]))
+  };
+}
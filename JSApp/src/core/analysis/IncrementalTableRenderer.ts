@@ -1,4 +1,5 @@
 import { SentimentResult, ClassificationResult } from './AnalysisStrategy';
+import { getColumnModel, mapModelLabel } from '../models/catalog';
 
 interface UnifiedColumn {
   name: string;
@@ -409,28 +410,7 @@ export class IncrementalTableRenderer {
    * Get URL for a model based on its name
    */
   private getModelUrl(modelName: string): string | null {
-    const name = modelName.toLowerCase();
-
-    // Rule-based models
-    if (name.includes('vader')) return 'https://github.com/vaderSentiment/vaderSentiment-js';
-    if (name.includes('afinn')) return 'https://github.com/thisandagain/sentiment';
-
-    // Neural network sentiment models
-    if (name.includes('distilbert') && name.includes('sst')) return 'https://huggingface.co/Xenova/distilbert-base-uncased-finetuned-sst-2-english';
-    if (name.includes('twitter') && name.includes('roberta')) return 'https://huggingface.co/Xenova/twitter-roberta-base-sentiment-latest';
-    if (name.includes('financial') || name.includes('finbert')) return 'https://huggingface.co/Xenova/finbert';
-    if (name.includes('multilingual') && name.includes('distilbert')) return 'https://huggingface.co/Xenova/distilbert-base-multilingual-cased-sentiments-student';
-
-    // Classification models
-    if (name.includes('goemotions') || name.includes('go emotions')) return 'https://huggingface.co/SamLowe/roberta-base-go_emotions-onnx';
-    if (name.includes('jigsaw') && name.includes('toxicity')) return 'https://huggingface.co/minuva/MiniLMv2-toxic-jigsaw-onnx';
-    if (name.includes('koala') || name.includes('moderation')) return 'https://huggingface.co/KoalaAI/Text-Moderation';
-    if (name.includes('toxic') && name.includes('bert')) return 'https://huggingface.co/Xenova/toxic-bert';
-    if (name.includes('iptc') || name.includes('news')) return 'https://huggingface.co/onnx-community/multilingual-IPTC-news-topic-classifier-ONNX';
-    if (name.includes('language') && name.includes('detection')) return 'https://huggingface.co/protectai/xlm-roberta-base-language-detection-onnx';
-    if (name.includes('industry') && name.includes('classification')) return 'https://huggingface.co/sabatale/industry-classification-api-onnx';
-
-    return null;
+    return getColumnModel(modelName)?.url ?? null;
   }
 
   /**
@@ -440,6 +420,7 @@ export class IncrementalTableRenderer {
     const name = col.name.toLowerCase();
     if (name.includes('afinn')) return '📊';
     if (name.includes('vader')) return '🎭';
+    if (name === 'custom') return '📖';
     if (name.includes('emotion')) return '😊';
     if (name.includes('koala') || name.includes('moderation')) return '🛡️';
     if (name.includes('iptc') || name.includes('news')) return '📰';
@@ -465,6 +446,10 @@ export class IncrementalTableRenderer {
       // VADER uses compound score (-1 to +1)
       return { class: 'Prediction', score: 'How Strong?<br>(-1 to +1)' };
     }
+    if (name === 'custom') {
+      // Custom lexicons are normalized like VADER's compound score
+      return { class: 'Prediction', score: 'How Strong?<br>(-1 to +1)' };
+    }
 
     // All ML models use "How Certain?" (always 0-100%)
     return { class: 'Prediction', score: 'How Certain?<br>(0% to 100%)' };
@@ -512,6 +497,7 @@ export class IncrementalTableRenderer {
     const lowerAnalyzer = analyzer.toLowerCase();
     if (lowerAnalyzer.includes('afinn')) return '📊';
     if (lowerAnalyzer.includes('vader')) return '🎭';
+    if (lowerAnalyzer === 'custom') return '📖';
     if (lowerAnalyzer.includes('bert')) return '🤖';
     if (lowerAnalyzer.includes('roberta')) return '🧠';
     return '🔬';
@@ -598,22 +584,6 @@ export class IncrementalTableRenderer {
 
     if (!analyzer) return;
 
-    // KoalaAI label mapping for moderation model
-    const koalaLabelMap: Record<string, string> = {
-      'S': 'Sexual',
-      'H': 'Hate',
-      'V': 'Violence',
-      'HR': 'Harassment',
-      'SH': 'Self-harm',
-      'S3': 'Sexual/minors',
-      'H2': 'Hate/threatening',
-      'V2': 'Violence/graphic',
-      'OK': 'Safe'
-    };
-
-    // Check if this is a KoalaAI model
-    const isKoalaAI = analyzer.includes('KoalaAI') || analyzer.includes('Moderation');
-
     try {
       let outputArray: any[] = [];
 
@@ -629,13 +599,11 @@ export class IncrementalTableRenderer {
         return;
       }
 
-      // Apply KoalaAI label mapping if needed
-      if (isKoalaAI) {
-        outputArray = outputArray.map(item => ({
-          ...item,
-          label: koalaLabelMap[item.label] || item.label
-        }));
-      }
+      // Apply the model's label mapping (e.g. KoalaAI)
+      outputArray = outputArray.map(item => ({
+        ...item,
+        label: mapModelLabel(analyzer, item.label)
+      }));
 
       // Sort outputs by score (descending)
       const sortedOutputs = outputArray
@@ -909,7 +877,8 @@ export class IncrementalTableRenderer {
 
     // Display as percentage for ML models, raw value for rule-based
     const isRuleBased = columnName.toLowerCase().includes('afinn') ||
-                       columnName.toLowerCase().includes('vader');
+                       columnName.toLowerCase().includes('vader') ||
+                       columnName === 'CUSTOM';
 
     let displayValue: string;
     if (isRuleBased) {
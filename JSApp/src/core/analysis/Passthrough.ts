@@ -0,0 +1,130 @@
+/**
+ * Passthrough - Columns of an imported file carried through to the results
+ *
+ * Columns the user keeps at import (IDs, authors, dates, ratings...) are
+ * stored with the text of their row, like gold labels and timestamps, so they
+ * still line up after the text box is edited or appended to. When an analysis
+ * starts, every input line picks up its row's values; the result keeps them
+ * on each row (each sentence in sentence mode) for the grid and the exports.
+ */
+
+import type { MultiModalAnalysisResult } from './AnalysisStrategy';
+
+export interface PassthroughEntry {
+  text: string;
+  /** One value per column, in column order */
+  values: string[];
+}
+
+export interface PassthroughColumns {
+  /** Headers of the imported columns */
+  columns: string[];
+  entries: PassthroughEntry[];
+}
+
+/** Values lined up with the lines about to be analyzed */
+export interface PassthroughValues {
+  columns: string[];
+  rows: string[][];
+}
+
+const STORAGE_KEY = 'sentimentomatic_passthrough_columns';
+
+export function loadPassthroughColumns(): PassthroughColumns | null {
+  if (typeof localStorage === 'undefined') return null;
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? JSON.parse(stored) as PassthroughColumns : null;
+  } catch (error) {
+    console.warn('⚠️ Failed to read passthrough columns:', error);
+    return null;
+  }
+}
+
+export function savePassthroughColumns(passthrough: PassthroughColumns | null): void {
+  if (typeof localStorage === 'undefined') return;
+  try {
+    if (passthrough) {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(passthrough));
+    } else {
+      localStorage.removeItem(STORAGE_KEY);
+    }
+  } catch (error) {
+    console.warn('⚠️ Failed to save passthrough columns:', error);
+  }
+}
+
+/**
+ * Pair imported texts with their rows' values of the kept columns
+ */
+export function buildPassthroughColumns(columns: string[], texts: string[], rows: string[][]): PassthroughColumns {
+  const entries: PassthroughEntry[] = [];
+  texts.forEach((text, index) => {
+    if (text) entries.push({ text, values: columns.map((_, column) => (rows[index]?.[column] ?? '').toString().trim()) });
+  });
+  return { columns, entries };
+}
+
+/**
+ * Add appended rows to the ones already imported; columns missing on either side are left empty
+ */
+export function mergePassthroughColumns(existing: PassthroughColumns, appended: PassthroughColumns): PassthroughColumns {
+  const columns = [...existing.columns, ...appended.columns.filter(column => !existing.columns.includes(column))];
+  const remap = (passthrough: PassthroughColumns) => passthrough.entries.map(entry => ({
+    text: entry.text,
+    values: columns.map(column => {
+      const index = passthrough.columns.indexOf(column);
+      return index === -1 ? '' : entry.values[index] ?? '';
+    })
+  }));
+  return { columns, entries: [...remap(existing), ...remap(appended)] };
+}
+
+/**
+ * Values of every line, matched by text in import order; lines without a row get empty values
+ */
+export function matchPassthrough(lines: string[], passthrough: PassthroughColumns): PassthroughValues {
+  const queues = new Map<string, string[][]>();
+  for (const entry of passthrough.entries) {
+    const text = entry.text.trim();
+    const queue = queues.get(text) ?? [];
+    queue.push(entry.values);
+    queues.set(text, queue);
+  }
+
+  const empty = passthrough.columns.map(() => '');
+  return {
+    columns: passthrough.columns,
+    rows: lines.map(line => queues.get(line.trim())?.shift() ?? empty)
+  };
+}
+
+/**
+ * Attach the input lines' values to a result's rows; in sentence mode every sentence takes its document's values
+ */
+export function attachPassthrough(result: MultiModalAnalysisResult, passthrough: PassthroughValues): void {
+  if (passthrough.columns.length === 0) return;
+
+  const empty = passthrough.columns.map(() => '');
+  result.passthroughColumns = passthrough.columns;
+  if (result.documents) {
+    for (const document of result.documents) {
+      for (const index of document.sentenceIndices) {
+        result.data[index].passthrough = passthrough.rows[document.documentIndex] ?? empty;
+      }
+    }
+  } else {
+    result.data.forEach((item, index) => {
+      item.passthrough = passthrough.rows[index] ?? empty;
+    });
+  }
+}
+
+/**
+ * A row's values in column order, empty strings when it has none
+ */
+export function rowPassthrough(result: MultiModalAnalysisResult, rowIndex: number): string[] {
+  const columns = result.passthroughColumns ?? [];
+  const values = result.data[rowIndex]?.passthrough;
+  return columns.map((_, index) => values?.[index] ?? '');
+}
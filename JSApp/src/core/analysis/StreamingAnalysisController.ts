@@ -1,13 +1,12 @@
 import { AnalyzerRegistry } from '../analyzers';
 import { MultiModelAnalyzer } from '../analyzers/MultiModelAnalyzer';
 import { IncrementalTableRenderer } from './IncrementalTableRenderer';
-import { CacheManager } from '../models/CacheManager';
-import type { MultiModalAnalysisResult, UnifiedAnalysisResult } from './AnalysisStrategy';
+import { AnalysisEngine } from './AnalysisEngine';
+import type { MultiModalAnalysisResult } from './AnalysisStrategy';
 
 export class StreamingAnalysisController {
   private incrementalRenderer: IncrementalTableRenderer;
   private collectedResults: MultiModalAnalysisResult | null = null;
-  private cacheManager: CacheManager;
 
   constructor(
     private analyzerRegistry: AnalyzerRegistry,
@@ -15,7 +14,6 @@ export class StreamingAnalysisController {
     resultsContainer: HTMLElement
   ) {
     this.incrementalRenderer = new IncrementalTableRenderer(resultsContainer);
-    this.cacheManager = new CacheManager();
   }
 
   // No more modes - all models work together
@@ -66,264 +64,58 @@ export class StreamingAnalysisController {
     progressCallback?: (status: string, progress: number) => void,
     tableReadyCallback?: () => void
   ): Promise<void> {
-    const selectedAnalyzers = config.selectedRuleBasedAnalyzers || [];
-    const selectedModels = config.selectedHuggingFaceModels || [];
-
-    // DO NOT initialize worker here - we'll create/destroy for EACH model
-
-    // Helper function to determine if a model result is classification
-    const isClassificationResult = (metadata: any): boolean => {
-      // Check model type in metadata
-      if (metadata?.modelType) {
-        return metadata.modelType !== 'sentiment';
-      }
-      // Fallback: if there are multiple classes in fullRawOutput, it's classification
-      if (metadata?.fullRawOutput && Array.isArray(metadata.fullRawOutput)) {
-        return metadata.fullRawOutput.length > 3; // More than 3 classes = classification
-      }
-      return false;
-    };
-
-    // Initialize unified results storage - use proper type
-    const unifiedResults: UnifiedAnalysisResult[] = [];
-    
-    // Build list of all columns with their types
-    const columns: Array<{name: string, type: 'sentiment' | 'classification', modelId?: string}> = [];
-    
-    // Add rule-based analyzers (all sentiment)
-    for (const analyzer of selectedAnalyzers) {
-      columns.push({ name: analyzer.toUpperCase(), type: 'sentiment' });
-    }
-    
-    // Add ML models (type will be determined dynamically during analysis)
-    for (const modelId of selectedModels) {
-      const modelInfo = this.multiModelAnalyzer.getEnabledModels().get(modelId);
-      const displayName = modelInfo ? modelInfo.displayName : modelId;
-      // Default to sentiment, will be updated based on actual results
-      columns.push({ name: displayName, type: 'sentiment', modelId });
-    }
-    
-    // Initialize table with all text rows upfront
-    this.incrementalRenderer.initializeTableWithAllText(columns, lines);
-
-    // Notify that table is ready for interaction (toggle button can now be set up)
-    tableReadyCallback?.();
-
-    // Initialize rule-based analyzers only (no ML models yet)
-    progressCallback?.('Initializing rule-based analyzers...', 0);
-
-    for (const analyzerName of selectedAnalyzers) {
-      if (!this.analyzerRegistry.isAnalyzerReady(analyzerName)) {
-        await this.analyzerRegistry.initializeAnalyzer(analyzerName);
-      }
-    }
-
-    // Initialize unified results storage for export
-    for (let i = 0; i < lines.length; i++) {
-      unifiedResults.push({
-        lineIndex: i,
-        text: lines[i],
-        results: []
-      });
-    }
-
-    // Process ANALYZER BY ANALYZER across all lines
-    const totalAnalyzers = selectedAnalyzers.length + selectedModels.length;
-    let completedAnalyzers = 0;
-
-    // Process rule-based analyzers
-    for (const analyzerName of selectedAnalyzers) {
-      const analyzer = this.analyzerRegistry.getAnalyzer(analyzerName);
-      if (!analyzer?.isReady()) continue;
-
-      progressCallback?.(`Running ${analyzerName.toUpperCase()} on all lines...`, 30 + (completedAnalyzers / totalAnalyzers) * 70);
-
-      for (let lineIndex = 0; lineIndex < lines.length; lineIndex++) {
-        const text = lines[lineIndex];
-
-        try {
-          const result = await analyzer.analyze(text);
-          const processedResult = Array.isArray(result) ? result[0] : result;
-
-          const cellResult = {
-            analyzer: processedResult.analyzer,
-            type: 'sentiment' as const,
-            score: processedResult.score,
-            sentiment: processedResult.sentiment,
-            metadata: processedResult.metadata
-          };
-
-          // Update cell in table
-          this.incrementalRenderer.updateAnalysisCell(lineIndex, analyzerName.toUpperCase(), cellResult);
-
-          // Store for export
-          unifiedResults[lineIndex].results.push(cellResult);
-
-        } catch (error) {
-          console.warn(`Failed to analyze with ${analyzerName} on line ${lineIndex + 1}:`, error);
-          const errorResult = {
-            analyzer: analyzerName.toUpperCase(),
-            type: 'sentiment' as const,
-            score: 0,
-            sentiment: 'neutral' as const,
-            metadata: { error: true }
-          };
-
-          this.incrementalRenderer.updateAnalysisCell(lineIndex, analyzerName.toUpperCase(), errorResult);
-          unifiedResults[lineIndex].results.push(errorResult);
-        }
-
-        // Small delay for visual effect
-        await new Promise(resolve => setTimeout(resolve, 50));
+    const engine = new AnalysisEngine(this.analyzerRegistry, this.multiModelAnalyzer);
+
+    engine.on('tableReady', ({ result }) => {
+      // Initialize table with all text rows upfront
+      this.incrementalRenderer.initializeTableWithAllText(result.columns, lines);
+
+      // Notify that table is ready for interaction (toggle button can now be set up)
+      tableReadyCallback?.();
+    });
+
+    engine.on('cellResult', ({ lineIndex, column, cell }) => {
+      this.incrementalRenderer.updateAnalysisCell(lineIndex, column.name, cell);
+    });
+
+    engine.on('progress', (event) => {
+      const percent = event.totalUnits > 0 ? (event.completedUnits / event.totalUnits) * 100 : 0;
+      const name = event.modelName;
+
+      switch (event.phase) {
+        case 'initializing':
+          progressCallback?.('Initializing rule-based analyzers...', percent);
+          break;
+        case 'loading-worker':
+          progressCallback?.(`🚀 Creating worker for ${name}...`, percent);
+          break;
+        case 'loading-model':
+          progressCallback?.(event.detail || `📥 Loading ${name}...`, percent);
+          break;
+        case 'running':
+          progressCallback?.(`🔍 Running ${name} on all lines...`, percent);
+          break;
+        case 'cleanup':
+          progressCallback?.(`💥 Terminating worker to free ALL memory for ${name}...`, percent);
+          break;
       }
+    });
 
-      completedAnalyzers++;
-    }
-
-    // Process ML models with download-run-clear pattern for memory efficiency
-    if (selectedModels.length > 0) {
-      for (const modelId of selectedModels) {
-        const modelInfo = this.multiModelAnalyzer.getEnabledModels().get(modelId);
-        if (!modelInfo) continue;
-
-        try {
-          // STEP 1: Create NEW worker for THIS model
-          progressCallback?.(`🚀 Creating worker for ${modelInfo.displayName}...`, 30 + (completedAnalyzers / totalAnalyzers) * 70);
-          await this.multiModelAnalyzer.initializeWorker();
-
-          // STEP 2: Load this specific model in the NEW worker
-          progressCallback?.(`📥 Loading ${modelInfo.displayName}...`, 30 + (completedAnalyzers / totalAnalyzers) * 70);
-          await this.multiModelAnalyzer.initializeSingleModel(modelId, (status) => {
-            progressCallback?.(`${status}`, 30 + (completedAnalyzers / totalAnalyzers) * 70);
-          });
-
-          // STEP 3: Run this model on all lines
-          progressCallback?.(`🔍 Running ${modelInfo.displayName} on all lines...`, 30 + ((completedAnalyzers + 0.5) / totalAnalyzers) * 70);
-
-          for (let lineIndex = 0; lineIndex < lines.length; lineIndex++) {
-            const text = lines[lineIndex];
-
-            try {
-              // Use analyzeWithModel for everything - it now handles all model types
-              const result = await this.multiModelAnalyzer.analyzeWithModel(text, modelId);
-              if (result) {
-                // Determine if this is a classification or sentiment model from metadata
-                const isClassification = isClassificationResult(result.metadata);
-
-                if (isClassification) {
-                  // Update column type to classification if this is the first time we've seen this model
-                  const columnToUpdate = columns.find(col => col.modelId === modelId);
-                  if (columnToUpdate && columnToUpdate.type === 'sentiment') {
-                    columnToUpdate.type = 'classification';
-                    console.log(`📊 Updated column type for ${modelInfo.displayName} to 'classification'`);
-                  }
-
-                  // Handle as classification model
-                  const cellResult = {
-                    analyzer: result.analyzer,
-                    type: 'classification' as const,
-                    topClass: result.metadata?.topLabel || result.metadata?.rawPrediction?.label || 'Unknown',
-                    confidence: result.score, // Already 0-1 from our fix
-                    allClasses: result.metadata?.fullRawOutput?.reduce((acc: any, pred: any) => {
-                      acc[pred.label] = pred.score;
-                      return acc;
-                    }, {}) || {},
-                    metadata: result.metadata
-                  };
-
-                  this.incrementalRenderer.updateAnalysisCell(lineIndex, modelInfo.displayName, cellResult);
-                  unifiedResults[lineIndex].results.push(cellResult);
-                } else {
-                  // Handle as sentiment model
-                  const cellResult = {
-                    analyzer: result.analyzer,
-                    type: 'sentiment' as const,
-                    score: result.score,
-                    sentiment: result.sentiment,
-                    metadata: result.metadata
-                  };
+    // DO NOT initialize worker here - the engine creates/destroys one for EACH model
+    const result = await engine.run(lines, {
+      selectedRuleBasedAnalyzers: config.selectedRuleBasedAnalyzers,
+      selectedHuggingFaceModels: config.selectedHuggingFaceModels,
+      clearCacheAfterEachModel: config.keepModelsCached === false
+    });
 
-                  this.incrementalRenderer.updateAnalysisCell(lineIndex, modelInfo.displayName, cellResult);
-                  unifiedResults[lineIndex].results.push(cellResult);
-                }
-              }
-            } catch (error) {
-              console.warn(`Model ${modelInfo.displayName} failed on line ${lineIndex + 1}:`, error);
-              // Default to sentiment type for errors
-              const errorResult = {
-                analyzer: modelInfo.displayName,
-                type: 'sentiment' as const,
-                score: 0,
-                sentiment: 'neutral' as const, // Fix: use valid sentiment value
-                topClass: 'ERROR',
-                confidence: 0,
-                metadata: { error: true, errorMessage: String(error) }
-              };
-
-              this.incrementalRenderer.updateAnalysisCell(lineIndex, modelInfo.displayName, errorResult);
-              unifiedResults[lineIndex].results.push(errorResult);
-            }
-
-            // Small delay for visual effect
-            await new Promise(resolve => setTimeout(resolve, 50));
-          }
-
-          // STEP 4: TERMINATE WORKER to completely free ALL memory for this model
-          // This is the KEY - we kill the worker after EACH model, not at the end
-          progressCallback?.(`💥 Terminating worker to free ALL memory for ${modelInfo.displayName}...`, 30 + ((completedAnalyzers + 0.9) / totalAnalyzers) * 70);
-          await this.multiModelAnalyzer.terminateWorker();
-          console.log(`✅ Worker terminated - ALL memory freed for ${modelInfo.displayName}`);
-
-          // STEP 5: Clear browser cache for this model if not keeping cached
-          if (config.keepModelsCached === false) {
-            console.log(`🗑️ Clearing browser cache for ${modelInfo.displayName} (keepModelsCached=false)...`);
-            await this.cacheManager.clearModelCache(modelInfo.huggingFaceId);
-            progressCallback?.(`🗑️ Cleared cache for ${modelInfo.displayName}`, 30 + ((completedAnalyzers + 0.95) / totalAnalyzers) * 70);
-          } else {
-            console.log(`📦 Keeping ${modelInfo.displayName} in browser cache for faster next run`);
-          }
-
-        } catch (error) {
-          console.error(`❌ Failed to process model ${modelInfo.displayName}:`, error);
-          // ALWAYS terminate worker on error to free memory
-          try {
-            await this.multiModelAnalyzer.terminateWorker();
-            console.log(`🗑️ Terminated worker after error for ${modelInfo.displayName}`);
-
-            // Also clear cache on error if not keeping cached
-            if (config.keepModelsCached === false) {
-              console.log(`🗑️ Clearing cache for failed model ${modelInfo.displayName}...`);
-              await this.cacheManager.clearModelCache(modelInfo.huggingFaceId);
-            }
-          } catch (terminateError) {
-            console.warn(`⚠️ Failed to terminate worker for ${modelInfo.displayName}:`, terminateError);
-          }
-        }
-
-        completedAnalyzers++;
-      }
-    }
-    
     // Mark complete
     this.incrementalRenderer.complete();
     progressCallback?.('Analysis complete!', 100);
 
-    // Store unified results for export - clean type-safe approach
-    if (unifiedResults.length > 0) {
-      this.collectedResults = {
-        type: 'multimodal',
-        lines,
-        data: unifiedResults,
-        columns
-      };
-    } else {
-      this.collectedResults = null;
-    }
+    // Store unified results for export
+    this.collectedResults = result.data.length > 0 ? result : null;
 
-    // No need for final cleanup - we terminated the worker after EACH model
-    // This ensures memory is freed progressively, not accumulated until the end
+    // No need for final cleanup - the worker was terminated after EACH model
     console.log('✅ All models processed - memory was freed after each model');
   }
-
-  // Removed analyzeClassificationWithStreaming - all models are handled together now
-}
\ No newline at end of file
+}
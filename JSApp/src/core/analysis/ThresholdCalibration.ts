@@ -0,0 +1,262 @@
+/**
+ * ThresholdCalibration - Suggest score cutoffs from a labelled sample
+ *
+ * A column's scores are paired with the gold labels of their rows. For
+ * VADER, AFINN and the custom lexicon every pair of cutoffs drawn from the
+ * observed scores is tried, and the pair with the best macro-F1 over
+ * positive/neutral/negative is suggested. For multi-label classifiers the
+ * minimum likelihood that best separates each row's gold class from its other
+ * classes (by F1) is suggested. The histogram feeds the calibration view.
+ * In sentence mode the cutoffs are fitted on the sentences, each labelled
+ * with its document's gold label.
+ */
+
+import type { MultiModalAnalysisResult } from './AnalysisStrategy';
+import { matchGoldLabels, type GoldLabels } from './GoldEvaluation';
+import { SENTIMENT_LABELS, type ConsensusLabel } from './Consensus';
+import { isThresholdAnalyzer, sentimentFromScore, type SentimentThresholds, type ThresholdAnalyzer } from '../analyzers/scoreThresholds';
+
+export type CalibrationTarget =
+  | { kind: 'sentiment'; column: string; analyzer: ThresholdAnalyzer }
+  | { kind: 'multi-label'; column: string; modelId: string };
+
+export interface ScoreSample {
+  score: number;
+  /** The row's mapped gold label; null when it has none */
+  gold: string | null;
+}
+
+export interface ClassScoreSample {
+  score: number;
+  /** Whether this class is the row's gold label; null when the row has none */
+  active: boolean | null;
+}
+
+export interface SentimentFit {
+  counts: Record<ConsensusLabel, number>;
+  /** Rows with a positive/neutral/negative gold label */
+  labelled: number;
+  accuracy: number | null;
+  macroF1: number | null;
+}
+
+export interface MultiLabelFit {
+  /** Class scores at or above the cutoff, over all rows */
+  activeCount: number;
+  /** Rows whose gold label is one of the model's classes */
+  labelled: number;
+  f1: number | null;
+}
+
+export interface HistogramBin {
+  from: number;
+  to: number;
+  /** Scores per group, e.g. per gold label */
+  counts: Record<string, number>;
+  total: number;
+}
+
+// Cutoffs tried per side; more distinct scores are thinned out evenly
+const MAX_CANDIDATES = 60;
+
+/**
+ * Columns of a result whose cutoffs can be tuned: the rule-based sentiment
+ * analyzers and classifiers that ran as multi-label models
+ */
+export function calibrationTargets(result: MultiModalAnalysisResult): CalibrationTarget[] {
+  const targets: CalibrationTarget[] = [];
+  for (const column of result.columns) {
+    if (column.aspect) continue;
+
+    const analyzer = column.name.toLowerCase();
+    if (column.type === 'sentiment' && !column.modelId && isThresholdAnalyzer(analyzer)) {
+      targets.push({ kind: 'sentiment', column: column.name, analyzer });
+    } else if (column.type === 'classification' && column.modelId && result.data.some(item =>
+      item.results.some(r => r.analyzer === column.name && r.metadata?.modelType === 'multi-label')
+    )) {
+      targets.push({ kind: 'multi-label', column: column.name, modelId: column.modelId });
+    }
+  }
+  return targets;
+}
+
+function isSentimentLabel(label: string | null): label is ConsensusLabel {
+  return label !== null && (SENTIMENT_LABELS as string[]).includes(label);
+}
+
+/**
+ * Gold label of every row. In sentence mode the labels belong to the documents,
+ * as in evaluateAgainstGold, and every sentence takes its document's label.
+ */
+function columnGoldLabels(result: MultiModalAnalysisResult, gold: GoldLabels | null): Array<string | null> {
+  const labels: Array<string | null> = result.data.map(() => null);
+  if (!gold) return labels;
+  if (!result.documents) return matchGoldLabels(result.data.map(item => item.text), gold);
+
+  const documentLabels = matchGoldLabels(result.documents.map(document => document.text), gold);
+  result.documents.forEach((document, index) => {
+    for (const sentenceIndex of document.sentenceIndices) {
+      labels[sentenceIndex] = documentLabels[index];
+    }
+  });
+  return labels;
+}
+
+/**
+ * Scores of a sentiment column with each row's gold label
+ */
+export function sentimentScoreSamples(result: MultiModalAnalysisResult, columnName: string, gold: GoldLabels | null): ScoreSample[] {
+  const labels = columnGoldLabels(result, gold);
+  const samples: ScoreSample[] = [];
+  result.data.forEach((item, index) => {
+    const cell = item.results.find(r => r.analyzer === columnName);
+    if (!cell || cell.metadata?.error || typeof cell.score !== 'number') return;
+    samples.push({ score: cell.score, gold: labels[index] });
+  });
+  return samples;
+}
+
+/**
+ * Every class likelihood of a classification column, marked by whether it is the row's gold class
+ */
+export function classScoreSamples(result: MultiModalAnalysisResult, columnName: string, gold: GoldLabels | null): ClassScoreSample[] {
+  const labels = columnGoldLabels(result, gold);
+  const samples: ClassScoreSample[] = [];
+  result.data.forEach((item, index) => {
+    const cell = item.results.find(r => r.analyzer === columnName);
+    if (!cell || cell.metadata?.error || !cell.allClasses) return;
+    const goldLabel = labels[index];
+    for (const [label, score] of Object.entries(cell.allClasses)) {
+      samples.push({ score, active: goldLabel === null ? null : label.toLowerCase() === goldLabel });
+    }
+  });
+  return samples;
+}
+
+function macroF1(pairs: Array<[ConsensusLabel, ConsensusLabel]>): number | null {
+  const scores: number[] = [];
+  for (const label of SENTIMENT_LABELS) {
+    let truePositives = 0;
+    let falsePositives = 0;
+    let falseNegatives = 0;
+    for (const [gold, predicted] of pairs) {
+      if (gold === label && predicted === label) truePositives++;
+      else if (predicted === label) falsePositives++;
+      else if (gold === label) falseNegatives++;
+    }
+    // Labels neither in the sample nor predicted don't count
+    if (truePositives + falsePositives + falseNegatives > 0) {
+      scores.push(2 * truePositives / (2 * truePositives + falsePositives + falseNegatives));
+    }
+  }
+  return scores.length > 0 ? scores.reduce((sum, f1) => sum + f1, 0) / scores.length : null;
+}
+
+/**
+ * Label counts at the given cutoffs and, for labelled rows, how well they match
+ */
+export function sentimentFit(samples: ScoreSample[], thresholds: SentimentThresholds): SentimentFit {
+  const counts: Record<ConsensusLabel, number> = { positive: 0, neutral: 0, negative: 0 };
+  const pairs: Array<[ConsensusLabel, ConsensusLabel]> = [];
+  for (const sample of samples) {
+    const predicted = sentimentFromScore(sample.score, thresholds);
+    counts[predicted]++;
+    if (isSentimentLabel(sample.gold)) pairs.push([sample.gold, predicted]);
+  }
+
+  return {
+    counts,
+    labelled: pairs.length,
+    accuracy: pairs.length > 0 ? pairs.filter(([gold, predicted]) => gold === predicted).length / pairs.length : null,
+    macroF1: macroF1(pairs)
+  };
+}
+
+function thinOut(values: number[]): number[] {
+  const sorted = Array.from(new Set(values)).sort((a, b) => a - b);
+  if (sorted.length <= MAX_CANDIDATES) return sorted;
+  return Array.from({ length: MAX_CANDIDATES }, (_, i) => sorted[Math.round(i * (sorted.length - 1) / (MAX_CANDIDATES - 1))]);
+}
+
+/**
+ * Cutoffs with the best macro-F1 on the labelled rows; null without at least two different gold labels
+ */
+export function suggestSentimentThresholds(samples: ScoreSample[]): (SentimentFit & { thresholds: SentimentThresholds }) | null {
+  const labelled = samples.filter(sample => isSentimentLabel(sample.gold));
+  if (new Set(labelled.map(sample => sample.gold)).size < 2) return null;
+
+  const positives = thinOut([0, ...labelled.map(sample => sample.score).filter(score => score > 0)]);
+  const negatives = thinOut([0, ...labelled.map(sample => sample.score).filter(score => score < 0)]);
+
+  let best: (SentimentFit & { thresholds: SentimentThresholds }) | null = null;
+  for (const positive of positives) {
+    for (const negative of negatives) {
+      const thresholds = { positive, negative };
+      const fit = sentimentFit(labelled, thresholds);
+      if (!best || (fit.macroF1 ?? 0) > (best.macroF1 ?? 0)) {
+        best = { ...fit, thresholds };
+      }
+    }
+  }
+  return best && { ...sentimentFit(samples, best.thresholds), thresholds: best.thresholds };
+}
+
+/**
+ * Active class count at the cutoff and, for labelled rows, the F1 of "active" against "is the gold class"
+ */
+export function multiLabelFit(samples: ClassScoreSample[], threshold: number): MultiLabelFit {
+  let activeCount = 0;
+  let truePositives = 0;
+  let falsePositives = 0;
+  let falseNegatives = 0;
+  let labelled = 0;
+  for (const sample of samples) {
+    const predicted = sample.score >= threshold;
+    if (predicted) activeCount++;
+    if (sample.active === null) continue;
+    if (sample.active) labelled++;
+    if (predicted && sample.active) truePositives++;
+    else if (predicted) falsePositives++;
+    else if (sample.active) falseNegatives++;
+  }
+
+  const denominator = 2 * truePositives + falsePositives + falseNegatives;
+  return { activeCount, labelled, f1: labelled > 0 && denominator > 0 ? 2 * truePositives / denominator : null };
+}
+
+/**
+ * Minimum likelihood with the best F1; null when no row's gold label matches one of the model's classes
+ */
+export function suggestMultiLabelThreshold(samples: ClassScoreSample[]): (MultiLabelFit & { threshold: number }) | null {
+  const labelled = samples.filter(sample => sample.active !== null);
+  if (!labelled.some(sample => sample.active)) return null;
+
+  let best: (MultiLabelFit & { threshold: number }) | null = null;
+  for (const threshold of thinOut(labelled.map(sample => sample.score).filter(score => score > 0))) {
+    const fit = multiLabelFit(samples, threshold);
+    if (!best || (fit.f1 ?? 0) > (best.f1 ?? 0)) {
+      best = { ...fit, threshold };
+    }
+  }
+  return best;
+}
+
+/**
+ * Equal-width bins over [min, max]; scores outside the range go to the outermost bins
+ */
+export function scoreHistogram(values: Array<{ score: number; group: string }>, min: number, max: number, binCount: number): HistogramBin[] {
+  const width = (max - min) / binCount;
+  const bins: HistogramBin[] = Array.from({ length: binCount }, (_, i) => ({
+    from: min + i * width,
+    to: min + (i + 1) * width,
+    counts: {},
+    total: 0
+  }));
+
+  for (const { score, group } of values) {
+    const index = Math.max(0, Math.min(binCount - 1, Math.floor((score - min) / width)));
+    bins[index].counts[group] = (bins[index].counts[group] ?? 0) + 1;
+    bins[index].total++;
+  }
+  return bins;
+}
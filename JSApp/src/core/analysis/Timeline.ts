@@ -0,0 +1,331 @@
+/**
+ * Timeline - Sentiment over time from an imported timestamp column
+ *
+ * Like gold labels, timestamps are kept with the text they belong to, so
+ * they still line up after the text box is edited or appended to. Rows are
+ * grouped into hour, day or week buckets (local time, weeks from Monday);
+ * each sentiment model gets the mean −1..+1 polarity per bucket, a trailing
+ * rolling average and spikes: buckets whose mean is far from the buckets
+ * before it. The number of rows per bucket is tracked the same way.
+ */
+
+import type { MultiModalAnalysisResult } from './AnalysisStrategy';
+import { consensusColumns, normalizedPolarity } from './Consensus';
+
+export type TimelineBucket = 'hour' | 'day' | 'week';
+
+export interface TimestampEntry {
+  text: string;
+  /** Milliseconds since the epoch */
+  time: number;
+}
+
+export interface Timestamps {
+  /** Header of the imported column the timestamps came from */
+  column: string;
+  entries: TimestampEntry[];
+  /** Rows whose value couldn't be read as a date */
+  unparsed: number;
+}
+
+export interface TimelinePoint {
+  /** Start of the bucket, milliseconds since the epoch */
+  start: number;
+  /** Rows in the bucket */
+  count: number;
+  /** Mean polarity, or the row count for the volume series; null for empty buckets */
+  value: number | null;
+  /** Trailing average over the rolling window, this bucket included */
+  rolling: number | null;
+  spike: 'up' | 'down' | null;
+}
+
+export interface TimelineSeries {
+  column: string;
+  points: TimelinePoint[];
+}
+
+export interface Timeline {
+  bucket: TimelineBucket;
+  window: number;
+  /** Rows per bucket */
+  volume: TimelineSeries;
+  /** Mean polarity per bucket for every sentiment column */
+  series: TimelineSeries[];
+  /** Rows that found a timestamp */
+  matched: number;
+  total: number;
+}
+
+export const TIMELINE_BUCKETS: TimelineBucket[] = ['hour', 'day', 'week'];
+export const DEFAULT_ROLLING_WINDOW: Record<TimelineBucket, number> = { hour: 24, day: 7, week: 4 };
+/** Standard deviations from the preceding buckets that make a spike */
+export const DEFAULT_SPIKE_THRESHOLD = 2.5;
+
+export const MAX_TIMELINE_BUCKETS = 2000;
+/** Rows a bucket needs before its mean polarity can be a spike */
+export const MIN_SPIKE_ROWS = 3;
+
+// Spikes need a few earlier buckets to compare with
+const MIN_BASELINE_BUCKETS = 3;
+// Smallest spread assumed, so a flat baseline doesn't turn every wobble into a spike
+const MIN_POLARITY_SPREAD = 0.05;
+const MIN_VOLUME_SPREAD = 1;
+
+const STORAGE_KEY = 'sentimentomatic_timestamps';
+
+export function loadTimestamps(): Timestamps | null {
+  if (typeof localStorage === 'undefined') return null;
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? JSON.parse(stored) as Timestamps : null;
+  } catch (error) {
+    console.warn('⚠️ Failed to read timestamps:', error);
+    return null;
+  }
+}
+
+export function saveTimestamps(timestamps: Timestamps | null): void {
+  if (typeof localStorage === 'undefined') return;
+  try {
+    if (timestamps) {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(timestamps));
+    } else {
+      localStorage.removeItem(STORAGE_KEY);
+    }
+  } catch (error) {
+    console.warn('⚠️ Failed to save timestamps:', error);
+  }
+}
+
+/**
+ * Read a date, date-time or Unix time (seconds or milliseconds); null when it isn't one
+ */
+export function parseTimestamp(value: string): number | null {
+  const trimmed = value.trim();
+  if (!trimmed) return null;
+
+  if (/^\d{10}(\.\d+)?$/.test(trimmed)) return Math.round(parseFloat(trimmed) * 1000);
+  if (/^\d{13}$/.test(trimmed)) return parseInt(trimmed, 10);
+
+  // A bare ISO date means that day here, not midnight UTC
+  const date = trimmed.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (date) return new Date(Number(date[1]), Number(date[2]) - 1, Number(date[3])).getTime();
+
+  const parsed = Date.parse(trimmed);
+  return isNaN(parsed) ? null : parsed;
+}
+
+/**
+ * Pair imported texts with the values of the timestamp column, skipping rows without a readable date
+ */
+export function buildTimestamps(column: string, texts: string[], values: string[]): Timestamps {
+  const entries: TimestampEntry[] = [];
+  let unparsed = 0;
+  texts.forEach((text, index) => {
+    const value = (values[index] ?? '').toString();
+    const time = parseTimestamp(value);
+    if (text && time !== null) {
+      entries.push({ text, time });
+    } else if (text && value.trim()) {
+      unparsed++;
+    }
+  });
+  return { column, entries, unparsed };
+}
+
+/**
+ * Timestamp of every result row, matched by text in import order.
+ * In sentence mode each sentence gets the timestamp of its document.
+ */
+export function rowTimestamps(result: MultiModalAnalysisResult, timestamps: Timestamps): Array<number | null> {
+  const queues = new Map<string, number[]>();
+  for (const entry of timestamps.entries) {
+    const text = entry.text.trim();
+    const queue = queues.get(text) ?? [];
+    queue.push(entry.time);
+    queues.set(text, queue);
+  }
+  const take = (text: string) => queues.get(text.trim())?.shift() ?? null;
+
+  if (!result.documents) {
+    return result.data.map(item => take(item.text));
+  }
+
+  const times: Array<number | null> = result.data.map(() => null);
+  for (const document of result.documents) {
+    const time = take(document.text);
+    for (const index of document.sentenceIndices) times[index] = time;
+  }
+  return times;
+}
+
+/**
+ * Start of the bucket a time falls in
+ */
+export function bucketStart(time: number, bucket: TimelineBucket): number {
+  const date = new Date(time);
+  if (bucket === 'hour') {
+    return new Date(date.getFullYear(), date.getMonth(), date.getDate(), date.getHours()).getTime();
+  }
+  // Weeks start on Monday
+  const daysBack = bucket === 'week' ? (date.getDay() + 6) % 7 : 0;
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() - daysBack).getTime();
+}
+
+function nextBucket(start: number, bucket: TimelineBucket): number {
+  const date = new Date(start);
+  if (bucket === 'hour') {
+    date.setHours(date.getHours() + 1);
+  } else {
+    date.setDate(date.getDate() + (bucket === 'week' ? 7 : 1));
+  }
+  return date.getTime();
+}
+
+/**
+ * Earliest and latest of the times, looped rather than spread so long files don't overflow the call stack
+ */
+function timeRange(times: number[]): [number, number] {
+  let earliest = times[0];
+  let latest = times[0];
+  for (const time of times) {
+    if (time < earliest) earliest = time;
+    if (time > latest) latest = time;
+  }
+  return [earliest, latest];
+}
+
+/**
+ * Buckets between the earliest and latest time, the empty ones included
+ */
+export function countBuckets(times: number[], bucket: TimelineBucket): number {
+  if (times.length === 0) return 0;
+  const [earliest, latest] = timeRange(times);
+  const first = bucketStart(earliest, bucket);
+  const last = bucketStart(latest, bucket);
+  const size = { hour: 3600000, day: 86400000, week: 604800000 }[bucket];
+  return Math.round((last - first) / size) + 1;
+}
+
+/**
+ * The finest bucket that spans the times in at most 500 buckets with enough rows per bucket for spikes.
+ * Too few rows for any of them falls back to the coarsest bucket within 500.
+ */
+export function suggestBucket(times: number[]): TimelineBucket {
+  const fitting = TIMELINE_BUCKETS.filter(bucket => countBuckets(times, bucket) <= 500);
+  return fitting.find(bucket => times.length >= countBuckets(times, bucket) * MIN_SPIKE_ROWS)
+    ?? fitting[fitting.length - 1]
+    ?? TIMELINE_BUCKETS[TIMELINE_BUCKETS.length - 1];
+}
+
+function mean(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+function spread(values: number[], center: number): number {
+  return Math.sqrt(values.reduce((sum, value) => sum + (value - center) ** 2, 0) / values.length);
+}
+
+/**
+ * Rolling averages and spikes of a series of bucket values.
+ * Polarity averages weigh each bucket by its rows; volume counts every bucket, empty ones as 0.
+ */
+function buildSeries(
+  column: string,
+  starts: number[],
+  buckets: Array<{ count: number; value: number | null }>,
+  window: number,
+  threshold: number,
+  volume: boolean
+): TimelineSeries {
+  const points = buckets.map((bucket, index): TimelinePoint => {
+    const trailing = buckets.slice(Math.max(0, index - window + 1), index + 1);
+    let rolling: number | null;
+    if (volume) {
+      rolling = mean(trailing.map(b => b.count));
+    } else {
+      const rows = trailing.reduce((sum, b) => sum + (b.value === null ? 0 : b.count), 0);
+      rolling = rows > 0 ? trailing.reduce((sum, b) => sum + (b.value ?? 0) * b.count, 0) / rows : null;
+    }
+
+    let spike: TimelinePoint['spike'] = null;
+    const baseline = buckets.slice(Math.max(0, index - window), index)
+      .filter(b => volume || b.value !== null)
+      .map(b => b.value as number);
+    if (bucket.value !== null && baseline.length >= MIN_BASELINE_BUCKETS && (volume || bucket.count >= MIN_SPIKE_ROWS)) {
+      const center = mean(baseline);
+      const deviation = (bucket.value - center) / Math.max(spread(baseline, center), volume ? MIN_VOLUME_SPREAD : MIN_POLARITY_SPREAD);
+      if (deviation >= threshold) spike = 'up';
+      // A drop in volume is not news; a drop in sentiment is
+      else if (!volume && deviation <= -threshold) spike = 'down';
+    }
+
+    return { start: starts[index], count: bucket.count, value: bucket.value, rolling, spike };
+  });
+
+  return { column, points };
+}
+
+/**
+ * Bucket a result's rows by their timestamps.
+ * Throws when the span needs more than MAX_TIMELINE_BUCKETS buckets.
+ */
+export function computeTimeline(
+  result: MultiModalAnalysisResult,
+  timestamps: Timestamps,
+  bucket: TimelineBucket,
+  window: number = DEFAULT_ROLLING_WINDOW[bucket],
+  threshold: number = DEFAULT_SPIKE_THRESHOLD
+): Timeline {
+  const times = rowTimestamps(result, timestamps);
+  const matchedTimes = times.filter((time): time is number => time !== null);
+
+  const bucketCount = countBuckets(matchedTimes, bucket);
+  if (bucketCount > MAX_TIMELINE_BUCKETS) {
+    throw new RangeError(`${bucketCount} ${bucket}s between the first and last timestamp; pick a longer bucket`);
+  }
+
+  const starts: number[] = [];
+  if (matchedTimes.length > 0) {
+    const [earliest, latest] = timeRange(matchedTimes);
+    const last = bucketStart(latest, bucket);
+    for (let start = bucketStart(earliest, bucket); start <= last; start = nextBucket(start, bucket)) {
+      starts.push(start);
+    }
+  }
+  const bucketIndex = new Map(starts.map((start, index) => [start, index]));
+  const rowBuckets = times.map(time => time === null ? null : bucketIndex.get(bucketStart(time, bucket)) ?? null);
+
+  const counts = starts.map(() => 0);
+  for (const index of rowBuckets) {
+    if (index !== null) counts[index]++;
+  }
+  const volume = buildSeries('Rows', starts, counts.map(count => ({ count, value: count })), window, threshold, true);
+
+  const series = consensusColumns(result).map(column => {
+    const sums = starts.map(() => ({ count: 0, total: 0 }));
+    result.data.forEach((item, row) => {
+      const index = rowBuckets[row];
+      const cell = item.results.find(r => r.analyzer === column.name);
+      const polarity = cell ? normalizedPolarity(cell, column) : null;
+      if (index === null || polarity === null) return;
+      sums[index].count++;
+      sums[index].total += polarity;
+    });
+    const buckets = sums.map(sum => ({ count: sum.count, value: sum.count > 0 ? sum.total / sum.count : null }));
+    return buildSeries(column.name, starts, buckets, window, threshold, false);
+  });
+
+  return { bucket, window, volume, series, matched: matchedTimes.length, total: times.length };
+}
+
+/**
+ * Bucket start as local time: "2024-03-05 14:00" for hours, "2024-03-05" for days and weeks
+ */
+export function formatBucket(start: number, bucket: TimelineBucket): string {
+  const date = new Date(start);
+  const pad = (value: number) => String(value).padStart(2, '0');
+  const day = `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+  return bucket === 'hour' ? `${day} ${pad(date.getHours())}:00` : day;
+}
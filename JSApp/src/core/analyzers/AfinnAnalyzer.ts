@@ -1,4 +1,11 @@
 import type { SentimentAnalyzer, SentimentResult } from '../../types/types';
+import { loadLexiconOverrides, saveLexiconOverrides, type LexiconOverrides } from './lexiconOverrides';
+import { loadSentimentThresholds, saveSentimentThresholds, sentimentFromScore, type SentimentThresholds } from './scoreThresholds';
+import { formatValence, locateWords, type WordContribution } from './wordContributions';
+
+// The sentiment library merges extras into its shared AFINN labels for good,
+// so each overridden word's original score is kept to restore it later
+const afinnDefaults = new Map<string, number>();
 
 export class AfinnAnalyzer implements SentimentAnalyzer {
   readonly name = 'AFINN';
@@ -6,6 +13,9 @@ export class AfinnAnalyzer implements SentimentAnalyzer {
   
   private sentiment: any = null;
   private ready = false;
+  private overrides: LexiconOverrides = loadLexiconOverrides('afinn');
+  private extras: LexiconOverrides = { ...this.overrides };
+  private thresholds: SentimentThresholds = loadSentimentThresholds('afinn');
 
   constructor() {
     this.initialize();
@@ -15,6 +25,7 @@ export class AfinnAnalyzer implements SentimentAnalyzer {
     try {
       const { default: Sentiment } = await import('sentiment');
       this.sentiment = new Sentiment();
+      this.rememberDefaults(Object.keys(this.overrides));
       this.ready = true;
     } catch (error) {
       console.error('Failed to initialize AFINN analyzer:', error);
@@ -26,24 +37,102 @@ export class AfinnAnalyzer implements SentimentAnalyzer {
     return this.ready;
   }
 
+  getOverrides(): LexiconOverrides {
+    return this.overrides;
+  }
+
+  /**
+   * Add, change or (with 0) remove AFINN words; persist=false keeps them out of localStorage
+   */
+  setOverrides(overrides: LexiconOverrides, persist: boolean = true): void {
+    if (this.sentiment) {
+      this.rememberDefaults(Object.keys(overrides));
+    }
+
+    // Words that are no longer overridden go back to their AFINN score
+    const restored: LexiconOverrides = {};
+    for (const word of Object.keys(this.overrides)) {
+      if (!(word in overrides)) {
+        restored[word] = afinnDefaults.get(word) ?? 0;
+      }
+    }
+
+    this.overrides = { ...overrides };
+    this.extras = { ...restored, ...overrides };
+    if (persist) {
+      saveLexiconOverrides('afinn', overrides);
+    }
+  }
+
+  getThresholds(): SentimentThresholds {
+    return this.thresholds;
+  }
+
+  /**
+   * Change the comparative score cutoffs; persist=false keeps them out of localStorage
+   */
+  setThresholds(thresholds: SentimentThresholds, persist: boolean = true): void {
+    this.thresholds = { ...thresholds };
+    if (persist) {
+      saveSentimentThresholds('afinn', thresholds);
+    }
+  }
+
+  private rememberDefaults(words: string[]): void {
+    for (const word of words) {
+      if (afinnDefaults.has(word)) continue;
+      const probe = this.sentiment.analyze(word);
+      afinnDefaults.set(word, probe.words.length === 1 && probe.words[0] === word ? probe.calculation[0][word] : 0);
+    }
+  }
+
+  /**
+   * Each scored token with its AFINN score, and the negators ("not", "don't"...)
+   * that flipped the word after them
+   */
+  private wordContributions(text: string, result: any): WordContribution[] {
+    const tokens: string[] = result.tokens;
+    const positions = locateWords(text, tokens, true);
+    // The library walks the tokens back to front, so its calculation is in reverse order
+    const scored: Array<Record<string, number>> = [...result.calculation].reverse();
+    const contributions = new Map<number, WordContribution>();
+    const contributionAt = (index: number): WordContribution => {
+      if (!contributions.has(index)) {
+        contributions.set(index, { word: tokens[index], ...positions[index], score: 0, rules: [] });
+      }
+      return contributions.get(index)!;
+    };
+
+    let next = 0;
+    tokens.forEach((token, index) => {
+      if (next >= scored.length || !Object.prototype.hasOwnProperty.call(scored[next], token)) return;
+      const score = scored[next++][token];
+      const base = this.sentiment.analyze(token, { extras: this.extras }).calculation[0]?.[token] ?? score;
+
+      const contribution = contributionAt(index);
+      contribution.score = score;
+      contribution.rules.push(`${token in this.overrides ? 'Your override' : 'AFINN'} ${formatValence(base)}`);
+      if (base !== 0 && score === -base && index > 0) {
+        contribution.rules.push(`Negated by "${tokens[index - 1]}" → ${formatValence(score)}`);
+        contributionAt(index - 1).rules.push(`Negates "${token}"`);
+      }
+    });
+
+    return Array.from(contributions.keys()).sort((a, b) => a - b).map(index => contributions.get(index)!);
+  }
+
   async analyze(text: string): Promise<SentimentResult> {
     if (!this.isReady()) {
       throw new Error('AFINN analyzer not ready');
     }
 
     const startTime = performance.now();
-    const result = this.sentiment.analyze(text);
+    const result = this.sentiment.analyze(text, { extras: this.extras });
     const processingTime = performance.now() - startTime;
 
-    // Determine sentiment based on score
-    let sentiment: 'positive' | 'negative' | 'neutral';
-    if (result.score > 0) {
-      sentiment = 'positive';
-    } else if (result.score < 0) {
-      sentiment = 'negative';
-    } else {
-      sentiment = 'neutral';
-    }
+    // Determine sentiment based on the comparative score; the default 0 cutoffs
+    // amount to the sign of the summed word scores
+    const sentiment = sentimentFromScore(result.comparative, this.thresholds);
 
     return {
       analyzer: this.name,
@@ -63,6 +152,9 @@ export class AfinnAnalyzer implements SentimentAnalyzer {
         positiveWords: result.positive,
         negativeWords: result.negative,
         calculation: result.calculation,
+        wordContributions: this.wordContributions(text, result),
+        thresholds: { ...this.thresholds },
+        ...(Object.keys(this.overrides).length > 0 && { lexiconOverrides: { ...this.overrides } }),
         fullRawOutput: result,  // Store complete raw output
         topLabel: sentiment,    // For consistent display
         topScore: result.comparative  // The comparative score
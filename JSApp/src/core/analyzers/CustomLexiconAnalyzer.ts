@@ -0,0 +1,258 @@
+import type { SentimentAnalyzer, SentimentResult } from '../../types/types';
+import { loadSentimentThresholds, saveSentimentThresholds, sentimentFromScore, type SentimentThresholds } from './scoreThresholds';
+
+/**
+ * A user-supplied word → score list, e.g. a finance, moderation or healthcare vocabulary.
+ * Scores work best on VADER's -4..+4 scale; AFINN-style -5..+5 lists work too.
+ */
+export interface CustomLexicon {
+  name: string;
+  entries: Record<string, number>;
+  updatedAt: number;
+}
+
+export interface LexiconParseResult {
+  entries: Record<string, number>;
+  skippedLines: number[];
+}
+
+const STORAGE_KEY = 'sentimentomatic_custom_lexicon';
+
+// VADER constants (vaderSentiment.py): negation dampens and flips, boosters nudge by ±0.293
+const NEGATION_SCALAR = -0.74;
+const BOOSTER_INCREMENT = 0.293;
+const NORMALIZATION_ALPHA = 15;
+// Boosters/negations up to three words back, with less effect the further away they are
+const LOOKBACK_WEIGHTS = [1, 0.95, 0.9];
+
+const NEGATIONS = new Set([
+  'not', 'no', 'never', 'none', 'nobody', 'nothing', 'neither', 'nor', 'nowhere', 'without', 'hardly',
+  'cannot', "can't", 'cant', "don't", 'dont', "doesn't", 'doesnt', "didn't", 'didnt', "isn't", 'isnt',
+  "aren't", 'arent', "wasn't", 'wasnt', "weren't", 'werent', "won't", 'wont', "wouldn't", 'wouldnt',
+  "shouldn't", 'shouldnt', "couldn't", 'couldnt', "hasn't", 'hasnt', "haven't", 'havent', "ain't", 'aint'
+]);
+
+const BOOSTERS = new Map<string, number>(Object.entries({
+  absolutely: BOOSTER_INCREMENT, completely: BOOSTER_INCREMENT, extremely: BOOSTER_INCREMENT,
+  highly: BOOSTER_INCREMENT, hugely: BOOSTER_INCREMENT, incredibly: BOOSTER_INCREMENT,
+  really: BOOSTER_INCREMENT, remarkably: BOOSTER_INCREMENT, so: BOOSTER_INCREMENT,
+  strongly: BOOSTER_INCREMENT, totally: BOOSTER_INCREMENT, tremendously: BOOSTER_INCREMENT,
+  utterly: BOOSTER_INCREMENT, very: BOOSTER_INCREMENT, most: BOOSTER_INCREMENT, more: BOOSTER_INCREMENT,
+  barely: -BOOSTER_INCREMENT, slightly: -BOOSTER_INCREMENT, somewhat: -BOOSTER_INCREMENT,
+  marginally: -BOOSTER_INCREMENT, partly: -BOOSTER_INCREMENT, less: -BOOSTER_INCREMENT,
+  little: -BOOSTER_INCREMENT, 'kind of': -BOOSTER_INCREMENT, 'sort of': -BOOSTER_INCREMENT
+}));
+
+function parseLexiconLine(line: string): [string, number] | null {
+  const separated = line.match(/^(?:"((?:[^"]|"")*)"|([^,\t;]+?))\s*[,\t;]\s*([-+]?\d*\.?\d+)$/);
+  if (separated) {
+    const word = separated[1] !== undefined ? separated[1].replace(/""/g, '"') : separated[2];
+    return [word, parseFloat(separated[3])];
+  }
+
+  const spaced = line.match(/^(.+?)\s+([-+]?\d*\.?\d+)$/);
+  return spaced ? [spaced[1], parseFloat(spaced[2])] : null;
+}
+
+/**
+ * Parse CSV, TSV or "word score" lines into a lexicon.
+ * A header row, blank lines and # comments are ignored; quoted words may contain separators.
+ */
+export function parseLexicon(text: string): LexiconParseResult {
+  const entries: Record<string, number> = {};
+  const skippedLines: number[] = [];
+  let firstContentLine = true;
+
+  text.split(/\r?\n/).forEach((rawLine, index) => {
+    const line = rawLine.trim();
+    if (!line || line.startsWith('#')) return;
+
+    const parsed = parseLexiconLine(line);
+    // The first line may be a header such as "word,score"
+    if (!parsed) {
+      if (!firstContentLine) skippedLines.push(index + 1);
+    } else {
+      // Tokenized the same way as analyzed text, so "sell-off" and "sell off" both match
+      const word = tokenize(parsed[0]).join(' ');
+      if (word) entries[word] = parsed[1];
+    }
+    firstContentLine = false;
+  });
+
+  return { entries, skippedLines };
+}
+
+/**
+ * Lexicon saved in this browser, if any
+ */
+export function loadStoredLexicon(): CustomLexicon | null {
+  if (typeof localStorage === 'undefined') return null;
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? JSON.parse(stored) as CustomLexicon : null;
+  } catch (error) {
+    console.warn('⚠️ Failed to read custom lexicon:', error);
+    return null;
+  }
+}
+
+function tokenize(text: string): string[] {
+  return text.toLowerCase().match(/[\p{L}\p{N}]+(?:['’][\p{L}]+)*/gu)?.map(token => token.replace(/’/g, "'")) || [];
+}
+
+export class CustomLexiconAnalyzer implements SentimentAnalyzer {
+  readonly name = 'CUSTOM';
+  readonly type = 'lexicon' as const;
+
+  private lexicon: CustomLexicon | null = null;
+  private longestPhrase = 1;
+  private thresholds: SentimentThresholds = loadSentimentThresholds('custom');
+
+  constructor() {
+    this.initialize();
+  }
+
+  async initialize(): Promise<void> {
+    if (!this.lexicon) {
+      const stored = loadStoredLexicon();
+      if (stored) {
+        this.applyLexicon(stored);
+      }
+    }
+  }
+
+  isReady(): boolean {
+    return this.lexicon !== null && Object.keys(this.lexicon.entries).length > 0;
+  }
+
+  getLexicon(): CustomLexicon | null {
+    return this.lexicon;
+  }
+
+  /**
+   * Use a lexicon from now on; persist=false keeps it out of localStorage (CLI)
+   */
+  setLexicon(lexicon: CustomLexicon, persist: boolean = true): void {
+    this.applyLexicon(lexicon);
+    if (persist && typeof localStorage !== 'undefined') {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(lexicon));
+    }
+  }
+
+  getThresholds(): SentimentThresholds {
+    return this.thresholds;
+  }
+
+  /**
+   * Change the compound score cutoffs; persist=false keeps them out of localStorage
+   */
+  setThresholds(thresholds: SentimentThresholds, persist: boolean = true): void {
+    this.thresholds = { ...thresholds };
+    if (persist) {
+      saveSentimentThresholds('custom', thresholds);
+    }
+  }
+
+  clearLexicon(): void {
+    this.lexicon = null;
+    this.longestPhrase = 1;
+    if (typeof localStorage !== 'undefined') {
+      localStorage.removeItem(STORAGE_KEY);
+    }
+  }
+
+  private applyLexicon(lexicon: CustomLexicon): void {
+    this.lexicon = lexicon;
+    this.longestPhrase = 1;
+    for (const entry of Object.keys(lexicon.entries)) {
+      this.longestPhrase = Math.max(this.longestPhrase, entry.split(' ').length);
+    }
+  }
+
+  async analyze(text: string): Promise<SentimentResult> {
+    if (!this.isReady()) {
+      throw new Error('Custom lexicon analyzer has no lexicon loaded');
+    }
+
+    const startTime = performance.now();
+    const entries = this.lexicon!.entries;
+    const tokens = tokenize(text);
+    const matches: Array<{ term: string; valence: number; adjusted: number; negated: boolean; booster: string | null }> = [];
+
+    let sum = 0;
+    let position = 0;
+    while (position < tokens.length) {
+      // Longest phrase first, so "not bad at all" style entries win over single words
+      let term: string | null = null;
+      let length = 0;
+      for (let words = Math.min(this.longestPhrase, tokens.length - position); words >= 1; words--) {
+        const candidate = tokens.slice(position, position + words).join(' ');
+        if (Object.prototype.hasOwnProperty.call(entries, candidate)) {
+          term = candidate;
+          length = words;
+          break;
+        }
+      }
+
+      if (!term) {
+        position++;
+        continue;
+      }
+
+      const valence = entries[term];
+      let adjusted = valence;
+      let negated = false;
+      let booster: string | null = null;
+
+      for (let back = 1; back <= LOOKBACK_WEIGHTS.length && position - back >= 0; back++) {
+        const previous = tokens[position - back];
+        const previousPair = position - back - 1 >= 0 ? `${tokens[position - back - 1]} ${previous}` : '';
+        const boostWord = BOOSTERS.has(previousPair) ? previousPair : previous;
+        const boost = BOOSTERS.get(boostWord);
+        if (boost !== undefined && adjusted !== 0) {
+          adjusted += Math.sign(adjusted) * boost * LOOKBACK_WEIGHTS[back - 1];
+          booster = booster || boostWord;
+        }
+        if (NEGATIONS.has(previous) && !negated) {
+          negated = true;
+        }
+      }
+      if (negated) {
+        adjusted *= NEGATION_SCALAR;
+      }
+
+      sum += adjusted;
+      matches.push({ term, valence, adjusted, negated, booster });
+      position += length;
+    }
+
+    // Same normalization as VADER's compound score: -1..+1
+    const compound = sum === 0 ? 0 : sum / Math.sqrt(sum * sum + NORMALIZATION_ALPHA);
+    const processingTime = performance.now() - startTime;
+
+    const sentiment = sentimentFromScore(compound, this.thresholds);
+
+    return {
+      analyzer: this.name,
+      text,
+      sentiment,
+      score: compound,
+      scores: {
+        compound,
+        positive: matches.filter(match => match.adjusted > 0).length,
+        negative: matches.filter(match => match.adjusted < 0).length
+      },
+      processingTime,
+      metadata: {
+        lexiconName: this.lexicon!.name,
+        lexiconSize: Object.keys(entries).length,
+        matches,
+        rawSum: sum,
+        thresholds: { ...this.thresholds },
+        fullRawOutput: { compound, sum, matches },
+        topLabel: sentiment,
+        topScore: compound
+      }
+    };
+  }
+}
@@ -1,14 +1,38 @@
 import type { SentimentAnalyzer, SentimentResult } from '../../types/types';
 import { ModelManager } from '../models/ModelManager';
 import { CacheManager } from '../models/CacheManager';
-import { WorkerModelManager, getWorkerModelManager } from '../models/WorkerModelManager';
+import { getWorkerModelManager, WorkerModelManager } from '../models/WorkerModelManager';
+import type { ModelWorker } from '../models/WorkerModelManager';
+import type { ChunkingInfo } from '../models/textChunking';
+import type { TokenAttributions } from '../models/occlusion';
+import type { PipelineOverrides } from '../models/pipelineOptions';
+import type { ZeroShotConfig } from '../models/zeroShot';
+import { DEFAULT_MULTI_LABEL_THRESHOLD } from './scoreThresholds';
 
 interface HuggingFaceModel {
   id: string;
   huggingFaceId: string;
   displayName: string;
+  /** Pipeline task and ONNX location from the model manifest; inferred when missing */
+  task?: string;
+  pipelineOverrides?: PipelineOverrides;
+  /** Human-readable names for raw labels, e.g. KoalaAI's "HR" → "Harassment" */
+  labelMap?: Record<string, string>;
+  /** Folder in the origin private file system for models loaded from disk */
+  localPath?: string;
+  /** Show plain top class + likelihood whatever the labels look like (user-added models) */
+  genericClassification?: boolean;
+  /** Candidate labels for zero-shot-classification models */
+  zeroShot?: ZeroShotConfig;
+  /** Minimum likelihood for a class of a multi-label model to count as active */
+  multiLabelThreshold?: number;
 }
 
+export type HuggingFaceModelOptions = Pick<
+  HuggingFaceModel,
+  'task' | 'pipelineOverrides' | 'labelMap' | 'localPath' | 'genericClassification' | 'zeroShot' | 'multiLabelThreshold'
+>;
+
 export class MultiModelAnalyzer implements SentimentAnalyzer {
   readonly name = 'HuggingFace Models';
   readonly type = 'ml' as const;
@@ -16,11 +40,23 @@ export class MultiModelAnalyzer implements SentimentAnalyzer {
   private cacheManager: CacheManager;
   private enabledModels: Map<string, HuggingFaceModel> = new Map();
   private loadedPipelines: Map<string, any> = new Map();
-  private workerManager: WorkerModelManager | null = null;
-
-  constructor(_modelManager: ModelManager) {
+  private workerManager: ModelWorker | null = null;
+  private workerFactory: () => ModelWorker;
+  private isolatedWorkerFactory: () => ModelWorker;
+  private modelManager: ModelManager;
+
+  constructor(
+    _modelManager: ModelManager,
+    workerFactory: () => ModelWorker = getWorkerModelManager,
+    isolatedWorkerFactory: () => ModelWorker = () => new WorkerModelManager()
+  ) {
     // ModelManager passed for compatibility but NOT USED - worker handles everything
+    this.modelManager = _modelManager;
     this.cacheManager = new CacheManager();
+    // Outside the browser (CLI) a different runner is injected in place of the web worker
+    this.workerFactory = workerFactory;
+    // Forks for parallel runs each need a worker of their own, not the shared singleton
+    this.isolatedWorkerFactory = isolatedWorkerFactory;
     // ALWAYS use worker - it's the ONLY way to free memory
     console.log('🔧 MultiModelAnalyzer: Worker mode ENABLED (mandatory for memory management)');
   }
@@ -28,11 +64,12 @@ export class MultiModelAnalyzer implements SentimentAnalyzer {
   /**
    * Add a HuggingFace model to the enabled set
    */
-  addModel(id: string, huggingFaceId: string, displayName?: string): void {
+  addModel(id: string, huggingFaceId: string, displayName?: string, options: HuggingFaceModelOptions = {}): void {
     this.enabledModels.set(id, {
       id,
       huggingFaceId,
-      displayName: displayName || id
+      displayName: displayName || id,
+      ...options
     });
     console.log(`➕ Added model: ${displayName || id} (${huggingFaceId})`);
   }
@@ -73,6 +110,29 @@ export class MultiModelAnalyzer implements SentimentAnalyzer {
     return new Map(this.enabledModels);
   }
 
+  /**
+   * Create an analyzer for a single enabled model that runs in its own dedicated worker,
+   * so several models can load and infer side by side
+   */
+  forkForModel(modelId: string): MultiModelAnalyzer {
+    const model = this.enabledModels.get(modelId);
+    if (!model) {
+      throw new Error(`Model ${modelId} not found in enabled models`);
+    }
+
+    const fork = new MultiModelAnalyzer(this.modelManager, this.isolatedWorkerFactory, this.isolatedWorkerFactory);
+    fork.addModel(model.id, model.huggingFaceId, model.displayName, {
+      task: model.task,
+      pipelineOverrides: model.pipelineOverrides,
+      labelMap: model.labelMap,
+      localPath: model.localPath,
+      genericClassification: model.genericClassification,
+      zeroShot: model.zeroShot,
+      multiLabelThreshold: model.multiLabelThreshold
+    });
+    return fork;
+  }
+
   /**
    * Initialize worker for memory-efficient processing
    * MUST be called before any model operations
@@ -84,7 +144,7 @@ export class MultiModelAnalyzer implements SentimentAnalyzer {
     }
 
     console.log('🚀 Initializing transformers.js worker for complete memory management...');
-    this.workerManager = getWorkerModelManager();
+    this.workerManager = this.workerFactory();
     await this.workerManager.initializeWorker();
     console.log('✅ Worker initialized - models will run in isolated context');
   }
@@ -132,8 +192,8 @@ export class MultiModelAnalyzer implements SentimentAnalyzer {
       }
 
       // Determine task type for the model
-      const task = this.getTaskForModel(model.huggingFaceId);
-      await this.workerManager!.loadModel(model.id, model.huggingFaceId, task);
+      const task = this.getTaskForModel(model);
+      await this.workerManager!.loadModel(model.id, model.huggingFaceId, task, model.pipelineOverrides, model.localPath, model.zeroShot);
       this.loadedPipelines.set(model.id, 'worker'); // Mark as loaded in worker
 
       console.log(`✅ ${model.displayName} loaded successfully`);
@@ -148,7 +208,11 @@ export class MultiModelAnalyzer implements SentimentAnalyzer {
   /**
    * Determine the task type for a model
    */
-  private getTaskForModel(huggingFaceId: string): string {
+  private getTaskForModel(model: HuggingFaceModel): string {
+    if (model.task) {
+      return model.task;
+    }
+    const huggingFaceId = model.huggingFaceId;
     if (huggingFaceId.includes('sentiment') || huggingFaceId.includes('sst') || huggingFaceId.includes('imdb')) {
       return 'sentiment-analysis';
     }
@@ -210,6 +274,16 @@ export class MultiModelAnalyzer implements SentimentAnalyzer {
     console.log('✅ All models unloaded');
   }
 
+  /**
+   * Model type from the model's own settings, or detected from its labels
+   */
+  private getModelType(model: HuggingFaceModel, output: Array<{label: string, score: number}>): 'sentiment' | 'multi-label' | 'multi-class' | 'moderation' {
+    if (model.zeroShot) {
+      return model.zeroShot.multiLabel ? 'multi-label' : 'multi-class';
+    }
+    return model.genericClassification ? 'multi-class' : this.detectModelType(output);
+  }
+
   /**
    * Detect model type based on output labels and structure
    */
@@ -274,35 +348,24 @@ export class MultiModelAnalyzer implements SentimentAnalyzer {
       // Load model in worker if not already loaded
       let pipeline = this.loadedPipelines.get(model.id);
       if (!pipeline) {
-        const task = this.getTaskForModel(model.huggingFaceId);
-        await this.workerManager!.loadModel(model.id, model.huggingFaceId, task);
+        const task = this.getTaskForModel(model);
+        await this.workerManager!.loadModel(model.id, model.huggingFaceId, task, model.pipelineOverrides, model.localPath, model.zeroShot);
         this.loadedPipelines.set(model.id, 'worker');
       }
 
       // Get raw result using WORKER
-      const result = await this.workerManager!.runInference(model.id, text);
+      const { labels: result } = await this.workerManager!.runInference(model.id, text);
 
-      // Apply KoalaAI label mapping if needed
+      // Apply the model's label mapping if it has one (e.g. KoalaAI)
       let processedResult = Array.isArray(result) ? result : [result];
 
-      if (model.displayName.includes('KoalaAI') || model.huggingFaceId.includes('KoalaAI')) {
-        const koalaLabelMap: Record<string, string> = {
-          'S': 'Sexual',
-          'H': 'Hate',
-          'V': 'Violence',
-          'HR': 'Harassment',
-          'SH': 'Self-harm',
-          'S3': 'Sexual/minors',
-          'H2': 'Hate/threatening',
-          'V2': 'Violence/graphic',
-          'OK': 'OK'
-        };
-
+      const labelMap = model.labelMap;
+      if (labelMap) {
         processedResult = processedResult.map(prediction => ({
           ...prediction,
-          label: koalaLabelMap[prediction.label] || prediction.label
+          label: labelMap[prediction.label] || prediction.label
         }));
-        console.log(`🛡️ KoalaAI getAllPredictions label mapping applied`);
+        console.log(`🏷️ ${model.displayName} getAllPredictions label mapping applied`);
       }
 
       return processedResult;
@@ -339,8 +402,8 @@ export class MultiModelAnalyzer implements SentimentAnalyzer {
         console.log(`📦 Loading ${model.displayName} (${i + 1}/${models.length}) in worker...`);
 
         // Load model in worker
-        const task = this.getTaskForModel(model.huggingFaceId);
-        await this.workerManager!.loadModel(model.id, model.huggingFaceId, task);
+        const task = this.getTaskForModel(model);
+        await this.workerManager!.loadModel(model.id, model.huggingFaceId, task, model.pipelineOverrides, model.localPath, model.zeroShot);
         this.loadedPipelines.set(model.id, 'worker');
 
         console.log(`✅ ${model.displayName} loaded successfully in worker`);
@@ -372,6 +435,146 @@ export class MultiModelAnalyzer implements SentimentAnalyzer {
     return this.loadedPipelines.size > 0;
   }
 
+  /**
+   * Load a model in the worker unless it is already loaded
+   */
+  private async ensureModelLoaded(model: HuggingFaceModel): Promise<void> {
+    if (this.loadedPipelines.has(model.id)) {
+      return;
+    }
+
+    // ALWAYS use worker - it's mandatory
+    // Ensure worker is initialized
+    if (!this.workerManager) {
+      console.log('🔧 Worker not initialized, initializing now...');
+      await this.initializeWorker();
+    }
+
+    const task = this.getTaskForModel(model);
+    await this.workerManager!.loadModel(model.id, model.huggingFaceId, task, model.pipelineOverrides, model.localPath, model.zeroShot);
+    this.loadedPipelines.set(model.id, 'worker');
+  }
+
+  /**
+   * Turn a model's raw label/score output into a SentimentResult
+   */
+  private buildResult(
+    model: HuggingFaceModel,
+    text: string,
+    rawResult: any[],
+    processingTime: number,
+    chunking?: ChunkingInfo
+  ): SentimentResult {
+    // Store the FULL raw output
+    const fullRawOutput = Array.isArray(rawResult) ? rawResult : [rawResult];
+
+    // Get the top prediction for display
+    const prediction = Array.isArray(rawResult)
+      ? rawResult.reduce((max, current) => current.score > max.score ? current : max)
+      : rawResult;
+
+    // Detect model type from output
+    const modelType = this.getModelType(model, fullRawOutput);
+    console.log(`🔍 Model ${model.displayName}: Type=${modelType}, ${fullRawOutput.length} outputs, top: ${prediction.label} (${prediction.score.toFixed(3)})`);
+
+    let sentiment: 'positive' | 'negative' | 'neutral' | null = null;
+    let displayScore = prediction.score; // Default to raw confidence
+    let displayLabel = prediction.label;
+    let exportLabel = prediction.label; // Clean label for exports (no visual indicators)
+    let rawScores: Record<string, number> = {};
+    const multiLabelThreshold = model.multiLabelThreshold ?? DEFAULT_MULTI_LABEL_THRESHOLD;
+
+    // Process based on detected model type
+    switch (modelType) {
+      case 'sentiment': {
+        // Sentiment models: determine sentiment from label
+        const label = prediction.label.toLowerCase();
+        if (label.includes('pos')) {
+          sentiment = 'positive';
+        } else if (label.includes('neg')) {
+          sentiment = 'negative';
+        } else if (label.includes('neutral')) {
+          sentiment = 'neutral';
+        }
+        displayLabel = sentiment || prediction.label;
+        exportLabel = sentiment || prediction.label;
+        displayScore = prediction.score; // Keep as confidence 0-1
+        break;
+      }
+
+      case 'multi-label': {
+        // Multi-label models: show top prediction with indicator if others are significant
+        const significant = fullRawOutput.filter(p => p.score >= multiLabelThreshold);
+        exportLabel = prediction.label; // Clean label for exports
+        displayLabel = prediction.label;
+        if (significant.length > 1) {
+          displayLabel += '+'; // Visual indicator for HTML table only
+        }
+        displayScore = prediction.score;
+        break;
+      }
+
+      case 'moderation': {
+        // KoalaAI moderation model
+        displayLabel = model.labelMap?.[prediction.label] || prediction.label;
+        exportLabel = model.labelMap?.[prediction.label] || prediction.label;
+        displayScore = prediction.score;
+        sentiment = prediction.label === 'OK' ? 'positive' : 'negative'; // For backwards compatibility
+        break;
+      }
+
+      case 'multi-class':
+      default: {
+        // Multi-class models: just show top class and confidence
+        displayLabel = prediction.label;
+        exportLabel = prediction.label;
+        displayScore = prediction.score;
+        break;
+      }
+    }
+
+    // Populate raw scores for metadata
+    rawScores = {
+      [prediction.label]: prediction.score,
+      modelType: modelType as any,
+      displayLabel: displayLabel,
+      displayScore: displayScore
+    };
+
+    // Add multi-label indicators to metadata if applicable
+    if (modelType === 'multi-label') {
+      const significant = fullRawOutput.filter(p => p.score >= multiLabelThreshold);
+      if (significant.length > 1) {
+        rawScores.multipleActive = 1; // Use 1 for true as rawScores is Record<string, number>
+        rawScores.activeCount = significant.length;
+      }
+    }
+
+    const analysisResult: SentimentResult = {
+      analyzer: model.displayName,
+      text,
+      sentiment: sentiment || 'neutral', // Default for non-sentiment models
+      score: displayScore, // Use the display score (always 0-1)
+      scores: rawScores,
+      processingTime,
+      metadata: {
+        modelId: model.id,
+        huggingFaceId: model.huggingFaceId,
+        modelType: modelType,
+        rawPrediction: prediction,  // Top prediction
+        fullRawOutput: fullRawOutput,  // FULL raw output array
+        topLabel: displayLabel,  // Use the processed display label (with + for HTML)
+        exportLabel: exportLabel,  // Clean label for exports (no + indicator)
+        topScore: displayScore,  // Use the display score
+        ...(modelType === 'multi-label' && { multiLabelThreshold }),
+        framework: 'transformers.js',
+        chunking  // Token windows used; wouldTruncate marks texts a single pass would have cut off
+      }
+    };
+
+    return analysisResult;
+  }
+
   /**
    * Analyze text with a specific model
    */
@@ -389,20 +592,7 @@ export class MultiModelAnalyzer implements SentimentAnalyzer {
       console.log(`🔍 Analyzing with ${model.displayName}...`);
 
       // Load model if not already loaded
-      let pipeline = this.loadedPipelines.get(model.id);
-      if (!pipeline) {
-        // ALWAYS use worker - it's mandatory
-        // Ensure worker is initialized
-        if (!this.workerManager) {
-          console.log('🔧 Worker not initialized, initializing now...');
-          await this.initializeWorker();
-        }
-
-        const task = this.getTaskForModel(model.huggingFaceId);
-        await this.workerManager!.loadModel(model.id, model.huggingFaceId, task);
-        pipeline = 'worker';
-        this.loadedPipelines.set(model.id, 'worker');
-      }
+      await this.ensureModelLoaded(model);
 
       // Perform analysis
       const startTime = performance.now();
@@ -412,124 +602,9 @@ export class MultiModelAnalyzer implements SentimentAnalyzer {
         throw new Error('Worker not initialized for inference');
       }
 
-      const rawResult = await this.workerManager.runInference(model.id, text);
-
-      const processingTime = performance.now() - startTime;
-
-      // Store the FULL raw output
-      const fullRawOutput = Array.isArray(rawResult) ? rawResult : [rawResult];
-
-      // Get the top prediction for display
-      const prediction = Array.isArray(rawResult)
-        ? rawResult.reduce((max, current) => current.score > max.score ? current : max)
-        : rawResult;
-
-      // Detect model type from output
-      const modelType = this.detectModelType(fullRawOutput);
-      console.log(`🔍 Model ${model.displayName}: Type=${modelType}, ${fullRawOutput.length} outputs, top: ${prediction.label} (${prediction.score.toFixed(3)})`);
-
-      let sentiment: 'positive' | 'negative' | 'neutral' | null = null;
-      let displayScore = prediction.score; // Default to raw confidence
-      let displayLabel = prediction.label;
-      let exportLabel = prediction.label; // Clean label for exports (no visual indicators)
-      let rawScores: Record<string, number> = {};
-
-      // Process based on detected model type
-      switch (modelType) {
-        case 'sentiment': {
-          // Sentiment models: determine sentiment from label
-          const label = prediction.label.toLowerCase();
-          if (label.includes('pos')) {
-            sentiment = 'positive';
-          } else if (label.includes('neg')) {
-            sentiment = 'negative';
-          } else if (label.includes('neutral')) {
-            sentiment = 'neutral';
-          }
-          displayLabel = sentiment || prediction.label;
-          exportLabel = sentiment || prediction.label;
-          displayScore = prediction.score; // Keep as confidence 0-1
-          break;
-        }
-
-        case 'multi-label': {
-          // Multi-label models: show top prediction with indicator if others are significant
-          const significant = fullRawOutput.filter(p => p.score > 0.1);
-          exportLabel = prediction.label; // Clean label for exports
-          displayLabel = prediction.label;
-          if (significant.length > 1) {
-            displayLabel += '+'; // Visual indicator for HTML table only
-          }
-          displayScore = prediction.score;
-          break;
-        }
-
-        case 'moderation': {
-          // KoalaAI moderation model
-          const koalaLabelMap: Record<string, string> = {
-            'S': 'Sexual',
-            'H': 'Hate',
-            'V': 'Violence',
-            'HR': 'Harassment',
-            'SH': 'Self-harm',
-            'S3': 'Sexual/minors',
-            'H2': 'Hate/threatening',
-            'V2': 'Violence/graphic',
-            'OK': 'Safe'
-          };
-          displayLabel = koalaLabelMap[prediction.label] || prediction.label;
-          exportLabel = koalaLabelMap[prediction.label] || prediction.label;
-          displayScore = prediction.score;
-          sentiment = prediction.label === 'OK' ? 'positive' : 'negative'; // For backwards compatibility
-          break;
-        }
-
-        case 'multi-class':
-        default: {
-          // Multi-class models: just show top class and confidence
-          displayLabel = prediction.label;
-          exportLabel = prediction.label;
-          displayScore = prediction.score;
-          break;
-        }
-      }
-
-      // Populate raw scores for metadata
-      rawScores = {
-        [prediction.label]: prediction.score,
-        modelType: modelType as any,
-        displayLabel: displayLabel,
-        displayScore: displayScore
-      };
-
-      // Add multi-label indicators to metadata if applicable
-      if (modelType === 'multi-label') {
-        const significant = fullRawOutput.filter(p => p.score > 0.1);
-        if (significant.length > 1) {
-          rawScores.multipleActive = 1; // Use 1 for true as rawScores is Record<string, number>
-          rawScores.activeCount = significant.length;
-        }
-      }
+      const output = await this.workerManager.runInference(model.id, text);
 
-      const analysisResult: SentimentResult = {
-        analyzer: model.displayName,
-        text,
-        sentiment: sentiment || 'neutral', // Default for non-sentiment models
-        score: displayScore, // Use the display score (always 0-1)
-        scores: rawScores,
-        processingTime,
-        metadata: {
-          modelId: model.id,
-          huggingFaceId: model.huggingFaceId,
-          modelType: modelType,
-          rawPrediction: prediction,  // Top prediction
-          fullRawOutput: fullRawOutput,  // FULL raw output array
-          topLabel: displayLabel,  // Use the processed display label (with + for HTML)
-          exportLabel: exportLabel,  // Clean label for exports (no + indicator)
-          topScore: displayScore,  // Use the display score
-          framework: 'transformers.js'
-        }
-      };
+      const analysisResult = this.buildResult(model, text, output.labels, performance.now() - startTime, output.chunking);
 
       if (progressCallback) {
         progressCallback(`Analysis complete`, 100);
@@ -544,6 +619,55 @@ export class MultiModelAnalyzer implements SentimentAnalyzer {
     }
   }
 
+  /**
+   * Analyze many texts with a specific model in one worker round-trip.
+   * Unlike analyzeWithModel this throws when the batch fails, so callers
+   * can mark every text in it as failed.
+   */
+  async analyzeBatchWithModel(texts: string[], modelId: string, batchSize?: number): Promise<SentimentResult[]> {
+    const model = this.enabledModels.get(modelId);
+    if (!model) {
+      throw new Error(`Model ${modelId} not found in enabled models`);
+    }
+
+    await this.ensureModelLoaded(model);
+
+    if (!this.workerManager) {
+      throw new Error('Worker not initialized for inference');
+    }
+
+    const startTime = performance.now();
+    const rawResults = await this.workerManager.runInferenceBatch(model.id, texts, batchSize);
+    // Spread the batch time evenly across its texts
+    const processingTime = (performance.now() - startTime) / Math.max(texts.length, 1);
+
+    console.log(`✅ ${model.displayName} batch of ${texts.length} complete`);
+    return texts.map((text, index) =>
+      this.buildResult(model, text, rawResults[index].labels, processingTime, rawResults[index].chunking)
+    );
+  }
+
+  /**
+   * Per-token attributions for one text, computed in the worker by leaving
+   * each token out in turn. Explains the top label unless a raw model label is given.
+   */
+  async explainWithModel(text: string, modelId: string, label?: string): Promise<TokenAttributions> {
+    const model = this.enabledModels.get(modelId);
+    if (!model) {
+      throw new Error(`Model ${modelId} not found in enabled models`);
+    }
+
+    await this.ensureModelLoaded(model);
+
+    if (!this.workerManager) {
+      throw new Error('Worker not initialized for inference');
+    }
+
+    const explanation = await this.workerManager.explain(model.id, text, label);
+    console.log(`✅ ${model.displayName} explained ${explanation.tokens.length} tokens`);
+    return explanation;
+  }
+
   async analyze(text: string, progressCallback?: (status: string, progress: number) => void): Promise<SentimentResult[]> {
     const results: SentimentResult[] = [];
 
@@ -575,15 +699,15 @@ export class MultiModelAnalyzer implements SentimentAnalyzer {
         // Load model in worker if not already loaded
         let pipeline = this.loadedPipelines.get(model.id);
         if (!pipeline) {
-          const task = this.getTaskForModel(model.huggingFaceId);
-          await this.workerManager!.loadModel(model.id, model.huggingFaceId, task);
+          const task = this.getTaskForModel(model);
+          await this.workerManager!.loadModel(model.id, model.huggingFaceId, task, model.pipelineOverrides, model.localPath, model.zeroShot);
           pipeline = 'worker';
           this.loadedPipelines.set(model.id, 'worker');
         }
 
         // Perform analysis with full output using WORKER
         const startTime = performance.now();
-        const result = await this.workerManager!.runInference(model.id, text);
+        const { labels: result, chunking } = await this.workerManager!.runInference(model.id, text);
         const processingTime = performance.now() - startTime;
 
         // Get full output array and top prediction
@@ -593,7 +717,7 @@ export class MultiModelAnalyzer implements SentimentAnalyzer {
           : result;
 
         // Detect model type
-        const modelType = this.detectModelType(fullRawOutput);
+        const modelType = this.getModelType(model, fullRawOutput);
 
         let sentiment: 'positive' | 'negative' | 'neutral' | null = null;
         let displayScore = prediction.score;
@@ -615,20 +739,14 @@ export class MultiModelAnalyzer implements SentimentAnalyzer {
             break;
 
           case 'multi-label':
-            const significant = fullRawOutput.filter(p => p.score > 0.1);
+            const significant = fullRawOutput.filter(p => p.score >= (model.multiLabelThreshold ?? DEFAULT_MULTI_LABEL_THRESHOLD));
             if (significant.length > 1) {
               displayLabel = prediction.label + ' +';
             }
             break;
 
           case 'moderation':
-            const koalaMap: Record<string, string> = {
-              'S': 'Sexual', 'H': 'Hate', 'V': 'Violence',
-              'HR': 'Harassment', 'SH': 'Self-harm',
-              'S3': 'Sexual/minors', 'H2': 'Hate/threatening',
-              'V2': 'Violence/graphic', 'OK': 'Safe'
-            };
-            displayLabel = koalaMap[prediction.label] || prediction.label;
+            displayLabel = model.labelMap?.[prediction.label] || prediction.label;
             sentiment = prediction.label === 'OK' ? 'positive' : 'negative';
             break;
         }
@@ -655,7 +773,8 @@ export class MultiModelAnalyzer implements SentimentAnalyzer {
             fullRawOutput: fullRawOutput,
             topLabel: displayLabel,
             topScore: displayScore,
-            framework: 'transformers.js'
+            framework: 'transformers.js',
+            chunking
           }
         };
 
@@ -13,7 +13,7 @@ export class TransformersAnalyzer implements SentimentAnalyzer {
   private modelManager: ModelManager;
   private currentModelId: string;
 
-  constructor(modelManager: ModelManager, modelId: string = 'distilbert-sst2') {
+  constructor(modelManager: ModelManager, modelId: string = 'distilbert') {
     this.modelManager = modelManager;
     this.currentModelId = modelId;
   }
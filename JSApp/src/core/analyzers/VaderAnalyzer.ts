@@ -1,4 +1,17 @@
 import type { SentimentAnalyzer, SentimentResult } from '../../types/types';
+import { loadLexiconOverrides, saveLexiconOverrides, type LexiconOverrides } from './lexiconOverrides';
+import { loadSentimentThresholds, saveSentimentThresholds, sentimentFromScore, type SentimentThresholds } from './scoreThresholds';
+import { vaderContributions } from './vaderContributions';
+
+// Lexicon words of known valence, one pair per polarity, that stand in for overridden words
+const PROXY_WORDS = {
+  positive: [{ word: 'good', valence: 1.9 }, { word: 'great', valence: 3.1 }],
+  negative: [{ word: 'awful', valence: -2.0 }, { word: 'horrible', valence: -2.5 }]
+};
+
+function isUpperCase(word: string): boolean {
+  return /[A-Z]/.test(word) && word === word.toUpperCase();
+}
 
 export class VaderAnalyzer implements SentimentAnalyzer {
   readonly name = 'VADER';
@@ -6,6 +19,8 @@ export class VaderAnalyzer implements SentimentAnalyzer {
   
   private analyzer: any = null;
   private ready = false;
+  private overrides: LexiconOverrides = loadLexiconOverrides('vader');
+  private thresholds: SentimentThresholds = loadSentimentThresholds('vader');
 
   constructor() {
     this.initialize();
@@ -26,25 +41,142 @@ export class VaderAnalyzer implements SentimentAnalyzer {
     return this.ready;
   }
 
+  getOverrides(): LexiconOverrides {
+    return this.overrides;
+  }
+
+  /**
+   * Add, change or (with 0) remove VADER words; persist=false keeps them out of localStorage
+   */
+  setOverrides(overrides: LexiconOverrides, persist: boolean = true): void {
+    this.overrides = { ...overrides };
+    if (persist) {
+      saveLexiconOverrides('vader', overrides);
+    }
+  }
+
+  getThresholds(): SentimentThresholds {
+    return this.thresholds;
+  }
+
+  /**
+   * Change the compound score cutoffs; persist=false keeps them out of localStorage
+   */
+  setThresholds(thresholds: SentimentThresholds, persist: boolean = true): void {
+    this.thresholds = { ...thresholds };
+    if (persist) {
+      saveSentimentThresholds('vader', thresholds);
+    }
+  }
+
+  /**
+   * vader-sentiment keeps its lexicon private, so overridden words are scored
+   * by temporarily wrapping its per-word valence step. The word is scored as two
+   * proxy words of the same polarity and interpolated: caps emphasis, boosters,
+   * negation and "least" are all linear in the looked-up valence.
+   * Booster words ("very", "kind of") are skipped by VADER and can't be overridden.
+   */
+  private polarityScoresWithOverrides(text: string): any {
+    const analyzerClass = this.analyzer;
+    const originalValence = analyzerClass.sentiment_valence;
+    const overrides = this.overrides;
+
+    const proxyValence = (sentiText: any, item: string, index: number, proxy: string): number => {
+      const words = sentiText.words_and_emoticons;
+      const original = words[index];
+      words[index] = isUpperCase(item) ? proxy.toUpperCase() : proxy;
+      try {
+        return originalValence.call(analyzerClass, 0, sentiText, words[index], index, [])[0];
+      } finally {
+        words[index] = original;
+      }
+    };
+
+    analyzerClass.sentiment_valence = function (valence: number, sentiText: any, item: string, index: number, sentiments: number[]) {
+      const override = overrides[item.toLowerCase()];
+      if (override === undefined) {
+        return originalValence.call(analyzerClass, valence, sentiText, item, index, sentiments);
+      }
+      if (override === 0) {
+        sentiments.push(0);
+        return sentiments;
+      }
+
+      const [low, high] = override > 0 ? PROXY_WORDS.positive : PROXY_WORDS.negative;
+      const lowValence = proxyValence(sentiText, item, index, low.word);
+      const highValence = proxyValence(sentiText, item, index, high.word);
+      const slope = (highValence - lowValence) / (high.valence - low.valence);
+      sentiments.push(lowValence + slope * (override - low.valence));
+      return sentiments;
+    };
+
+    try {
+      return analyzerClass.polarity_scores(text);
+    } finally {
+      analyzerClass.sentiment_valence = originalValence;
+    }
+  }
+
+  /**
+   * Run VADER and capture each token's final valence, which it hands to its
+   * "but" check after boosters, negation and caps have been applied
+   */
+  private withWordValences(run: () => any): { scores: any; words: string[]; valences: number[] } {
+    const analyzerClass = this.analyzer;
+    const originalButCheck = analyzerClass.but_check;
+    let words: string[] = [];
+    let valences: number[] = [];
+
+    analyzerClass.but_check = function (wordsAndEmoticons: string[], sentiments: number[]) {
+      const checked = originalButCheck.call(analyzerClass, wordsAndEmoticons, sentiments);
+      words = [...wordsAndEmoticons];
+      valences = [...checked];
+      return checked;
+    };
+
+    try {
+      return { scores: run(), words, valences };
+    } finally {
+      analyzerClass.but_check = originalButCheck;
+    }
+  }
+
+  /**
+   * A word's valence on its own: the override if there is one, else VADER's lexicon entry (0 if none)
+   */
+  private lexiconValence(word: string): number {
+    const lower = word.toLowerCase();
+    const override = this.overrides[lower];
+    if (override !== undefined) {
+      return override;
+    }
+    const sentiText = { words_and_emoticons: [lower], is_cap_diff: false };
+    return this.analyzer.sentiment_valence(0, sentiText, lower, 0, [])[0] ?? 0;
+  }
+
   async analyze(text: string): Promise<SentimentResult> {
     if (!this.isReady()) {
       throw new Error('VADER analyzer not ready');
     }
 
     const startTime = performance.now();
-    const scores = this.analyzer.polarity_scores(text);
+    const hasOverrides = Object.keys(this.overrides).length > 0;
+    const { scores, words, valences } = this.withWordValences(() =>
+      hasOverrides ? this.polarityScoresWithOverrides(text) : this.analyzer.polarity_scores(text)
+    );
     const processingTime = performance.now() - startTime;
 
+    const wordContributions = vaderContributions(
+      text,
+      words,
+      valences,
+      word => this.lexiconValence(word),
+      word => this.overrides[word.toLowerCase()] !== undefined
+    );
+
     // Determine sentiment based on compound score
-    // VADER thresholds: >= 0.05 positive, <= -0.05 negative, else neutral
-    let sentiment: 'positive' | 'negative' | 'neutral';
-    if (scores.compound >= 0.05) {
-      sentiment = 'positive';
-    } else if (scores.compound <= -0.05) {
-      sentiment = 'negative';
-    } else {
-      sentiment = 'neutral';
-    }
+    // VADER's own thresholds (the default): >= 0.05 positive, <= -0.05 negative, else neutral
+    const sentiment = sentimentFromScore(scores.compound, this.thresholds);
 
     return {
       analyzer: this.name,
@@ -59,11 +191,9 @@ export class VaderAnalyzer implements SentimentAnalyzer {
       },
       processingTime,
       metadata: {
-        thresholds: {
-          positive: '>=0.05',
-          negative: '<=-0.05',
-          neutral: '-0.05 to 0.05'
-        },
+        thresholds: { ...this.thresholds },
+        ...(hasOverrides && { lexiconOverrides: { ...this.overrides } }),
+        wordContributions,
         fullRawOutput: scores,  // Store complete raw output
         topLabel: sentiment,    // For consistent display
         topScore: scores.compound  // The compound score
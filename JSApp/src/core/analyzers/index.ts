@@ -1,5 +1,6 @@
 import { AfinnAnalyzer } from './AfinnAnalyzer';
 import { VaderAnalyzer } from './VaderAnalyzer';
+import { CustomLexiconAnalyzer } from './CustomLexiconAnalyzer';
 import { TransformersAnalyzer } from './TransformersAnalyzer';
 import { ModelManager } from '../models/ModelManager';
 import { PresetManager } from '../models/PresetManager';
@@ -17,6 +18,7 @@ export class AnalyzerRegistry {
     // Register available analyzers (lazy initialization)
     this.analyzers.set('afinn', new AfinnAnalyzer());
     this.analyzers.set('vader', new VaderAnalyzer());
+    this.analyzers.set('custom', new CustomLexiconAnalyzer());
     // Don't initialize Transformers until requested
   }
 
@@ -39,7 +41,7 @@ export class AnalyzerRegistry {
     
     // Lazy initialize Transformers analyzer with current preset model
     if (lowerName === 'transformers' && !this.analyzers.has('transformers')) {
-      const modelId = this.presetManager.getModelForAnalyzer('transformers') || 'distilbert-sst2';
+      const modelId = this.presetManager.getModelForAnalyzer('transformers') || 'distilbert';
       this.analyzers.set('transformers', new TransformersAnalyzer(this.modelManager, modelId));
     }
     
@@ -101,4 +103,4 @@ export class AnalyzerRegistry {
 }
 
 // Export analyzer classes for direct use
-export { AfinnAnalyzer, VaderAnalyzer, TransformersAnalyzer };
\ No newline at end of file
+export { AfinnAnalyzer, VaderAnalyzer, CustomLexiconAnalyzer, TransformersAnalyzer };
\ No newline at end of file
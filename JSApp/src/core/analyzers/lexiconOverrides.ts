@@ -0,0 +1,66 @@
+/**
+ * User overrides for the built-in AFINN and VADER word lists, e.g. making
+ * "sick" positive for a gaming community. A score of 0 removes a word.
+ */
+
+export type LexiconOverrideAnalyzer = 'afinn' | 'vader';
+
+export type LexiconOverrides = Record<string, number>;
+
+export const LEXICON_OVERRIDE_RANGES: Record<LexiconOverrideAnalyzer, { min: number; max: number }> = {
+  afinn: { min: -5, max: 5 },
+  vader: { min: -4, max: 4 }
+};
+
+const STORAGE_KEY_PREFIX = 'sentimentomatic_lexicon_overrides_';
+
+/**
+ * Lexicon entries are matched lowercase
+ */
+export function normalizeOverrideWord(word: string): string {
+  return word.trim().toLowerCase();
+}
+
+/**
+ * Problem with a normalized override word, or null if it can be used.
+ * Both analyzers score one token at a time, so an entry with a space would never match.
+ */
+export function validateOverrideWord(word: string): string | null {
+  if (!word) return 'Enter a word';
+  if (/\s/.test(word)) return `"${word}" is more than one word; overrides apply to single words`;
+  return null;
+}
+
+export function loadLexiconOverrides(analyzer: LexiconOverrideAnalyzer): LexiconOverrides {
+  if (typeof localStorage === 'undefined') return {};
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY_PREFIX + analyzer);
+    return stored ? JSON.parse(stored) as LexiconOverrides : {};
+  } catch (error) {
+    console.warn(`⚠️ Failed to read ${analyzer} lexicon overrides:`, error);
+    return {};
+  }
+}
+
+export function saveLexiconOverrides(analyzer: LexiconOverrideAnalyzer, overrides: LexiconOverrides): void {
+  if (typeof localStorage === 'undefined') return;
+  try {
+    if (Object.keys(overrides).length === 0) {
+      localStorage.removeItem(STORAGE_KEY_PREFIX + analyzer);
+    } else {
+      localStorage.setItem(STORAGE_KEY_PREFIX + analyzer, JSON.stringify(overrides));
+    }
+  } catch (error) {
+    console.warn(`⚠️ Failed to save ${analyzer} lexicon overrides:`, error);
+  }
+}
+
+/**
+ * Compact "word=score; word=score" form used in export headers
+ */
+export function formatLexiconOverrides(overrides: LexiconOverrides): string {
+  return Object.entries(overrides)
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([word, score]) => `${word}=${score}`)
+    .join('; ');
+}
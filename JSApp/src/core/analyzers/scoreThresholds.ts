@@ -0,0 +1,109 @@
+/**
+ * Per-model score cutoffs. VADER's and the custom lexicon's compound score
+ * and AFINN's per-word comparative score become positive/neutral/negative
+ * through a pair of cutoffs; multi-label classifiers count every class at or
+ * above a minimum likelihood as active.
+ */
+
+export type ThresholdAnalyzer = 'vader' | 'afinn' | 'custom';
+
+export interface SentimentThresholds {
+  /** Scores at or above this are positive (above it when 0) */
+  positive: number;
+  /** Scores at or below this are negative (below it when 0) */
+  negative: number;
+}
+
+export const THRESHOLD_ANALYZERS: ThresholdAnalyzer[] = ['vader', 'afinn', 'custom'];
+
+export const DEFAULT_SENTIMENT_THRESHOLDS: Record<ThresholdAnalyzer, SentimentThresholds> = {
+  vader: { positive: 0.05, negative: -0.05 },
+  afinn: { positive: 0, negative: 0 },
+  custom: { positive: 0.05, negative: -0.05 }
+};
+
+export const DEFAULT_MULTI_LABEL_THRESHOLD = 0.1;
+
+const STORAGE_KEY_PREFIX = 'sentimentomatic_thresholds_';
+const MULTI_LABEL_STORAGE_KEY = STORAGE_KEY_PREFIX + 'multi_label';
+
+export function isThresholdAnalyzer(id: string): id is ThresholdAnalyzer {
+  return (THRESHOLD_ANALYZERS as string[]).includes(id);
+}
+
+export function loadSentimentThresholds(analyzer: ThresholdAnalyzer): SentimentThresholds {
+  if (typeof localStorage === 'undefined') return { ...DEFAULT_SENTIMENT_THRESHOLDS[analyzer] };
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY_PREFIX + analyzer);
+    return stored ? JSON.parse(stored) as SentimentThresholds : { ...DEFAULT_SENTIMENT_THRESHOLDS[analyzer] };
+  } catch (error) {
+    console.warn(`⚠️ Failed to read ${analyzer} thresholds:`, error);
+    return { ...DEFAULT_SENTIMENT_THRESHOLDS[analyzer] };
+  }
+}
+
+export function saveSentimentThresholds(analyzer: ThresholdAnalyzer, thresholds: SentimentThresholds): void {
+  if (typeof localStorage === 'undefined') return;
+  if (isDefaultSentimentThresholds(analyzer, thresholds)) {
+    localStorage.removeItem(STORAGE_KEY_PREFIX + analyzer);
+  } else {
+    localStorage.setItem(STORAGE_KEY_PREFIX + analyzer, JSON.stringify(thresholds));
+  }
+}
+
+/**
+ * Minimum likelihood per multi-label model ID; models not listed use the default
+ */
+export function loadMultiLabelThresholds(): Record<string, number> {
+  if (typeof localStorage === 'undefined') return {};
+  try {
+    const stored = localStorage.getItem(MULTI_LABEL_STORAGE_KEY);
+    return stored ? JSON.parse(stored) as Record<string, number> : {};
+  } catch (error) {
+    console.warn('⚠️ Failed to read multi-label thresholds:', error);
+    return {};
+  }
+}
+
+export function saveMultiLabelThresholds(thresholds: Record<string, number>): void {
+  if (typeof localStorage === 'undefined') return;
+  const changed = Object.fromEntries(Object.entries(thresholds).filter(([, threshold]) => threshold !== DEFAULT_MULTI_LABEL_THRESHOLD));
+  if (Object.keys(changed).length === 0) {
+    localStorage.removeItem(MULTI_LABEL_STORAGE_KEY);
+  } else {
+    localStorage.setItem(MULTI_LABEL_STORAGE_KEY, JSON.stringify(changed));
+  }
+}
+
+export function isDefaultSentimentThresholds(analyzer: ThresholdAnalyzer, thresholds: SentimentThresholds): boolean {
+  const defaults = DEFAULT_SENTIMENT_THRESHOLDS[analyzer];
+  return thresholds.positive === defaults.positive && thresholds.negative === defaults.negative;
+}
+
+/**
+ * Cutoffs must leave 0 neutral: negative ≤ 0 ≤ positive
+ */
+export function validateSentimentThresholds(thresholds: SentimentThresholds): string | null {
+  if (!Number.isFinite(thresholds.positive) || !Number.isFinite(thresholds.negative)) {
+    return 'Both cutoffs must be numbers';
+  }
+  if (thresholds.positive < 0) return 'The positive cutoff must be 0 or more';
+  if (thresholds.negative > 0) return 'The negative cutoff must be 0 or less';
+  return null;
+}
+
+export function sentimentFromScore(score: number, thresholds: SentimentThresholds): 'positive' | 'negative' | 'neutral' {
+  // A cutoff of 0 means "any positive/negative score", so 0 itself stays neutral
+  if (score > 0 && score >= thresholds.positive) return 'positive';
+  if (score < 0 && score <= thresholds.negative) return 'negative';
+  return 'neutral';
+}
+
+/**
+ * Compact ">=0.05 / <=-0.05" form used in metadata and export headers
+ */
+export function formatSentimentThresholds(thresholds: SentimentThresholds): string {
+  const positive = thresholds.positive === 0 ? '>0' : `>=${thresholds.positive}`;
+  const negative = thresholds.negative === 0 ? '<0' : `<=${thresholds.negative}`;
+  return `${positive} / ${negative}`;
+}
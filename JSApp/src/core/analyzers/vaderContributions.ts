@@ -0,0 +1,170 @@
+/**
+ * Explain VADER's per-word valences
+ *
+ * vader-sentiment keeps its rules private, so the valences themselves are
+ * captured from the library (see VaderAnalyzer) and the rules that produced
+ * them are re-derived here from the same word lists and constants as
+ * vader-sentiment 1.x: ALL CAPS emphasis, boosters and dampeners up to three
+ * words back, negation, "least", idioms and the "but" shift.
+ */
+
+import { formatValence, locateWords, type WordContribution } from './wordContributions';
+
+const B_INCR = 0.293;
+const B_DECR = -0.293;
+const C_INCR = 0.733;
+const N_SCALAR = -0.74;
+
+const BOOSTERS: Record<string, number> = {
+  absolutely: B_INCR, amazingly: B_INCR, awfully: B_INCR, completely: B_INCR, considerably: B_INCR,
+  decidedly: B_INCR, deeply: B_INCR, effing: B_INCR, enormously: B_INCR, entirely: B_INCR,
+  especially: B_INCR, exceptionally: B_INCR, extremely: B_INCR, fabulously: B_INCR, flipping: B_INCR,
+  flippin: B_INCR, fricking: B_INCR, frickin: B_INCR, frigging: B_INCR, friggin: B_INCR,
+  fully: B_INCR, fucking: B_INCR, greatly: B_INCR, hella: B_INCR, highly: B_INCR,
+  hugely: B_INCR, incredibly: B_INCR, intensely: B_INCR, majorly: B_INCR, more: B_INCR,
+  most: B_INCR, particularly: B_INCR, purely: B_INCR, quite: B_INCR, really: B_INCR,
+  remarkably: B_INCR, so: B_INCR, substantially: B_INCR, thoroughly: B_INCR, totally: B_INCR,
+  tremendously: B_INCR, uber: B_INCR, unbelievably: B_INCR, unusually: B_INCR, utterly: B_INCR,
+  very: B_INCR,
+  almost: B_DECR, barely: B_DECR, hardly: B_DECR, kinda: B_DECR, kindof: B_DECR,
+  less: B_DECR, little: B_DECR, marginally: B_DECR, occasionally: B_DECR, partly: B_DECR,
+  scarcely: B_DECR, slightly: B_DECR, somewhat: B_DECR, sorta: B_DECR, sortof: B_DECR,
+  'just enough': B_DECR, 'kind of': B_DECR, 'kind-of': B_DECR, 'sort of': B_DECR, 'sort-of': B_DECR
+};
+
+const NEGATIONS = new Set([
+  'aint', 'arent', 'cannot', 'cant', 'couldnt', 'darent', 'didnt', 'doesnt', "ain't", "aren't", "can't",
+  "couldn't", "daren't", "didn't", "doesn't", 'dont', 'hadnt', 'hasnt', 'havent', 'isnt', 'mightnt',
+  'mustnt', 'neither', "don't", "hadn't", "hasn't", "haven't", "isn't", "mightn't", "mustn't", 'neednt',
+  "needn't", 'never', 'none', 'nope', 'nor', 'not', 'nothing', 'nowhere', 'oughtnt', 'shant', 'shouldnt',
+  'uhuh', 'wasnt', 'werent', "oughtn't", "shan't", "shouldn't", 'uh-uh', "wasn't", "weren't", 'without',
+  'wont', 'wouldnt', "won't", "wouldn't", 'rarely', 'seldom', 'despite'
+]);
+
+const IDIOMS: Record<string, number> = {
+  'the shit': 3,
+  'the bomb': 3,
+  'bad ass': 1.5,
+  'yeah right': -2,
+  'cut the mustard': 2,
+  'kiss of death': -1.5,
+  'hand to mouth': -2
+};
+
+// VADER's "isupper": letters, all of them capitals
+function isUpper(word: string): boolean {
+  return /^[^a-z]*[A-Z]+[^a-z]*$/.test(word);
+}
+
+// Negation is case-sensitive in VADER, apart from any "n't"
+function isNegation(word: string): boolean {
+  return NEGATIONS.has(word) || word.includes("n't");
+}
+
+// The idiom VADER's idioms_check settles on for the word at index (3 or more words in)
+function findIdiom(words: string[], index: number): string | undefined {
+  const phrase = (from: number, to: number) => words.slice(from, to + 1).join(' ');
+  const preceding = [
+    phrase(index - 1, index), phrase(index - 2, index), phrase(index - 2, index - 1),
+    phrase(index - 3, index - 1), phrase(index - 3, index - 2)
+  ].find(sequence => sequence in IDIOMS);
+  // Idioms starting at the word win over the ones before it
+  const following = [
+    index + 1 < words.length ? phrase(index, index + 1) : '',
+    index + 2 < words.length ? phrase(index, index + 2) : ''
+  ].filter(sequence => sequence in IDIOMS).pop();
+  return following ?? preceding;
+}
+
+/**
+ * Contributions of VADER's tokens (words_and_emoticons) given the valences
+ * the library assigned them after its "but" check.
+ * lexiconValence: a word's valence on its own (0 when not in the lexicon)
+ */
+export function vaderContributions(
+  text: string,
+  words: string[],
+  valences: number[],
+  lexiconValence: (word: string) => number,
+  isOverridden: (word: string) => boolean
+): WordContribution[] {
+  const bases = words.map(word => lexiconValence(word));
+  const rules: string[][] = words.map(() => []);
+  const capDifferential = words.some(isUpper) && !words.every(isUpper);
+  let butIndex = words.indexOf('but');
+  if (butIndex === -1) butIndex = words.indexOf('BUT');
+
+  words.forEach((word, index) => {
+    const base = bases[index];
+    // VADER gives boosters (and "kind" in "kind of") no valence of their own
+    const skipped = word.toLowerCase() in BOOSTERS ||
+      (word.toLowerCase() === 'kind' && words[index + 1]?.toLowerCase() === 'of');
+    if (base === 0 || skipped) return;
+    const sign = base > 0 ? 1 : -1;
+
+    rules[index].push(`${isOverridden(word) ? 'Your override' : 'Lexicon'} ${formatValence(base)}`);
+    if (capDifferential && isUpper(word)) {
+      rules[index].push(`ALL CAPS ${formatValence(sign * C_INCR)}`);
+    }
+
+    for (let back = 0; back < 3; back++) {
+      const previous = index - (back + 1);
+      // Preceding sentiment words don't modify this one
+      if (previous < 0 || bases[previous] !== 0) continue;
+      const modifier = words[previous];
+
+      const booster = BOOSTERS[modifier.toLowerCase()];
+      if (booster !== undefined) {
+        let shift = booster * sign;
+        if (capDifferential && isUpper(modifier)) shift += sign * C_INCR;
+        shift *= [1, 0.95, 0.9][back];
+        rules[index].push(`${booster > 0 ? 'Boosted' : 'Dampened'} by "${modifier}" ${formatValence(shift)}`);
+        rules[previous].push(`${booster > 0 ? 'Boosts' : 'Dampens'} "${word}"`);
+      }
+
+      const neverSo = back > 0 && words[index - back - 1] === 'never' && ['so', 'this'].includes(words[index - back]);
+      if (neverSo) {
+        rules[index].push(`"never ${words[index - back]}" ×${back === 1 ? 1.5 : 1.25}`);
+      } else if (back === 2 && ['so', 'this'].includes(words[index - 1])) {
+        rules[index].push(`After "${words[index - 1]}" ×1.25`);
+      } else if (isNegation(modifier)) {
+        rules[index].push(`Negated by "${modifier}" ×${N_SCALAR}`);
+        rules[previous].push(`Negates "${word}"`);
+      }
+
+      if (back === 2) {
+        const idiom = findIdiom(words, index);
+        if (idiom) rules[index].push(`Idiom "${idiom}" sets ${formatValence(IDIOMS[idiom])}`);
+
+        // Two-word dampeners such as "kind of" are added as they are, whatever the word's polarity
+        const bigramStart = [index - 3, index - 2].find(start => `${words[start]} ${words[start + 1]}` in BOOSTERS);
+        if (bigramStart !== undefined) {
+          const bigram = `${words[bigramStart]} ${words[bigramStart + 1]}`;
+          rules[index].push(`"${bigram}" ${formatValence(B_DECR)}`);
+          rules[bigramStart].push(`"${bigram}" modifies "${word}"`);
+        }
+      }
+    }
+
+    if (index > 0 && words[index - 1].toLowerCase() === 'least' && bases[index - 1] === 0 &&
+        (index === 1 || !['at', 'very'].includes(words[index - 2].toLowerCase()))) {
+      rules[index].push(`Negated by "least" ×${N_SCALAR}`);
+    }
+
+    if (butIndex !== -1 && index !== butIndex) {
+      rules[index].push(index < butIndex ? 'Before "but" ×0.5' : 'After "but" ×1.5');
+    }
+  });
+
+  if (butIndex !== -1) {
+    rules[butIndex].push('Halves the words before it, weighs the words after it ×1.5');
+  }
+
+  const positions = locateWords(text, words, false);
+  return words.flatMap((word, index) => rules[index].length === 0 ? [] : [{
+    word,
+    ...positions[index],
+    score: valences[index] ?? 0,
+    rules: rules[index]
+  }]);
+}
@@ -0,0 +1,43 @@
+/**
+ * Per-word contributions of the rule-based analyzers
+ *
+ * VADER and AFINN score a text by adding up word valences after a few rules
+ * (negation, boosters, "but", ALL CAPS) have adjusted them. Each scored or
+ * modifying word is recorded with its position in the text, the valence it
+ * added and the rules that fired, so the grid can colour the text by them.
+ */
+
+export interface WordContribution {
+  /** The word as the analyzer saw it */
+  word: string;
+  /** Character offsets in the analyzed text; -1 when the word could not be found */
+  start: number;
+  end: number;
+  /** Valence the word added to the score; 0 for words that only modify others */
+  score: number;
+  /** Rules that fired for this word, in the order they were applied */
+  rules: string[];
+}
+
+/**
+ * Character offsets of an analyzer's tokens, found in order so repeated words
+ * map to successive occurrences. Every token must be passed, scored or not.
+ */
+export function locateWords(text: string, words: string[], ignoreCase: boolean): Array<{ start: number; end: number }> {
+  const haystack = ignoreCase ? text.toLowerCase() : text;
+  let cursor = 0;
+  return words.map(word => {
+    const start = haystack.indexOf(ignoreCase ? word.toLowerCase() : word, cursor);
+    if (start === -1) return { start: -1, end: -1 };
+    cursor = start + word.length;
+    return { start, end: cursor };
+  });
+}
+
+/**
+ * Signed number for rule descriptions, e.g. "+1.9" or "-0.74"
+ */
+export function formatValence(value: number): string {
+  const rounded = Math.round(value * 1000) / 1000;
+  return rounded > 0 ? `+${rounded}` : String(rounded);
+}
@@ -1,3 +1,7 @@
+import { getManifestEntryByHuggingFaceId } from './manifest';
+import { getPipelineOverrides, onnxFilePath, type PipelineOverrides } from './pipelineOptions';
+import { getModelHost, modelFileUrl } from './modelHosts';
+
 export class CacheManager {
   // localStorage cache metadata removed - now using browser cache directly
 
@@ -84,24 +88,10 @@ export class CacheManager {
    * Estimate model size based on actual cache measurements
    */
   estimateModelSize(huggingFaceId: string): number {
-    // Size estimates in MB based on ACTUAL cached sizes
-    const sizeMap: { [key: string]: number } = {
-      'Xenova/distilbert-base-uncased-finetuned-sst-2-english': 65,
-      'Xenova/twitter-roberta-base-sentiment-latest': 122,
-      'Xenova/finbert': 106,
-      'Xenova/distilbert-base-multilingual-cased-sentiments-student': 132,
-      'SamLowe/roberta-base-go_emotions-onnx': 122,
-      'KoalaAI/Text-Moderation': 140,
-      'onnx-community/multilingual-IPTC-news-topic-classifier-ONNX': 553,
-      'protectai/xlm-roberta-base-language-detection-onnx': 282,
-      'Xenova/toxic-bert': 106,
-      'minuva/MiniLMv2-toxic-jigsaw-onnx': 22,
-      'sabatale/industry-classification-api-onnx': 106
-    };
-
-    // Return exact size if we have it
-    if (sizeMap[huggingFaceId]) {
-      return sizeMap[huggingFaceId];
+    // Return the manifest size if we have it (based on ACTUAL cached sizes)
+    const knownSize = getManifestEntryByHuggingFaceId(huggingFaceId)?.sizeMB;
+    if (knownSize) {
+      return knownSize;
     }
 
     // Otherwise estimate based on model type
@@ -122,9 +112,14 @@ export class CacheManager {
 
   /**
    * Batch check multiple models for cache status - FAST for Safari
-   * Opens cache once and checks all models IN PARALLEL
+   * Opens cache once and checks all models IN PARALLEL.
+   * pipelineOverrides locates each model's ONNX file by Hugging Face ID; models left out are looked up in the manifest,
+   * which doesn't know user-added ones.
    */
-  async batchCheckModelsInCache(huggingFaceIds: string[]): Promise<Map<string, boolean>> {
+  async batchCheckModelsInCache(
+    huggingFaceIds: string[],
+    pipelineOverrides: Record<string, PipelineOverrides | undefined> = {}
+  ): Promise<Map<string, boolean>> {
     const results = new Map<string, boolean>()
 
     try {
@@ -139,27 +134,16 @@ export class CacheManager {
       const cache = await caches.open('transformers-cache')
       console.log(`Cache opened in ${Date.now() - startTime}ms`)
 
-      // Build ALL URLs to check upfront
+      // Build ALL URLs to check upfront, on the host transformers.js downloads from
+      const modelHost = getModelHost()
       const urlChecks: {modelId: string, url: string}[] = []
 
       for (const huggingFaceId of huggingFaceIds) {
         // Just check ONE main ONNX file per model (fastest)
-        if (huggingFaceId === 'protectai/xlm-roberta-base-language-detection-onnx') {
-          urlChecks.push({
-            modelId: huggingFaceId,
-            url: `https://huggingface.co/${huggingFaceId}/resolve/main/model_quantized.onnx`
-          })
-        } else if (huggingFaceId === 'minuva/MiniLMv2-toxic-jigsaw-onnx') {
-          urlChecks.push({
-            modelId: huggingFaceId,
-            url: `https://huggingface.co/${huggingFaceId}/resolve/main/model_optimized_quantized.onnx`
-          })
-        } else {
-          urlChecks.push({
-            modelId: huggingFaceId,
-            url: `https://huggingface.co/${huggingFaceId}/resolve/main/onnx/model_quantized.onnx`
-          })
-        }
+        urlChecks.push({
+          modelId: huggingFaceId,
+          url: modelFileUrl(huggingFaceId, onnxFilePath(pipelineOverrides[huggingFaceId] ?? getPipelineOverrides(huggingFaceId)), modelHost)
+        })
       }
 
       // Check ALL URLs in PARALLEL
@@ -204,28 +188,29 @@ export class CacheManager {
       const cache = await caches.open('transformers-cache');
 
       // Core files that MUST be cached for a model to be considered ready
+      const modelHost = getModelHost();
       const coreFiles = [
         // Essential config files (at least one must be present)
-        `https://huggingface.co/${huggingFaceId}/resolve/main/config.json`,
-        `https://huggingface.co/${huggingFaceId}/resolve/main/tokenizer_config.json`
+        modelFileUrl(huggingFaceId, 'config.json', modelHost),
+        modelFileUrl(huggingFaceId, 'tokenizer_config.json', modelHost)
       ];
 
       // ONNX model files that could be cached (at least one must be present)
       const onnxFiles = [
         // Standard ONNX locations (quantized preferred)
-        `https://huggingface.co/${huggingFaceId}/resolve/main/onnx/model_quantized.onnx`,
-        `https://huggingface.co/${huggingFaceId}/resolve/main/onnx/model.onnx`,
-        `https://huggingface.co/${huggingFaceId}/resolve/main/model_quantized.onnx`,
-        `https://huggingface.co/${huggingFaceId}/resolve/main/model.onnx`,
+        modelFileUrl(huggingFaceId, 'onnx/model_quantized.onnx', modelHost),
+        modelFileUrl(huggingFaceId, 'onnx/model.onnx', modelHost),
+        modelFileUrl(huggingFaceId, 'model_quantized.onnx', modelHost),
+        modelFileUrl(huggingFaceId, 'model.onnx', modelHost),
 
         // Special cases for non-standard model structures
-        `https://huggingface.co/${huggingFaceId}/resolve/main/model_optimized_quantized.onnx`, // minuva models
-        `https://huggingface.co/${huggingFaceId}/resolve/main/model_optimized.onnx`,
+        modelFileUrl(huggingFaceId, 'model_optimized_quantized.onnx', modelHost), // minuva models
+        modelFileUrl(huggingFaceId, 'model_optimized.onnx', modelHost),
 
         // Multi-part models
-        `https://huggingface.co/${huggingFaceId}/resolve/main/onnx/encoder_model.onnx`,
-        `https://huggingface.co/${huggingFaceId}/resolve/main/onnx/decoder_model.onnx`,
-        `https://huggingface.co/${huggingFaceId}/resolve/main/onnx/decoder_model_merged.onnx`
+        modelFileUrl(huggingFaceId, 'onnx/encoder_model.onnx', modelHost),
+        modelFileUrl(huggingFaceId, 'onnx/decoder_model.onnx', modelHost),
+        modelFileUrl(huggingFaceId, 'onnx/decoder_model_merged.onnx', modelHost)
       ];
 
       // Check for at least one core config file
@@ -1,5 +1,7 @@
 import type { ModelConfig, ModelLoadingState, ModelManagerConfig } from './types';
 import { getModelConfig } from './registry';
+import { LOCAL_MODEL_URL_PREFIX, serveLocalModelFiles } from './localModels';
+import { absoluteHost, getModelHost, getModelHosts, modelFileUrl, runtimeUrls } from './modelHosts';
 
 export class ModelManager {
   private loadingStates = new Map<string, ModelLoadingState>();
@@ -146,39 +148,7 @@ export class ModelManager {
     // Setup browser environment once
     this.setupBrowserEnvironment();
 
-    // Load and cache transformers.js module (only once for performance).
-    // v3.7.3 bundles ORT 1.22.0-dev which crashes on WebKit due to a JSEP/WASM
-    // JIT bug (onnxruntime #26827) and OOM on iPadOS 17 (#22086).  The ORT
-    // breakage starts at 1.21 — v3.1.1 bundles ORT 1.20.1, the last pre-1.21
-    // release and the last confirmed working on WebKit 26.  ORT 1.20.1 also
-    // supports opset 19 so all models load.  numThreads=1 is critical per
-    // transformers.js #1242 ("JSC not doing well with multi-threaded WASM").
-    if (!this.transformersModule) {
-      const onWebKit = /AppleWebKit/.test(navigator.userAgent) && !/Chrome|Edg|OPR|Chromium/.test(navigator.userAgent);
-      const vendorBase = new URL('../vendor/', import.meta.url).href;
-      const vendorTransformersUrl = onWebKit
-        ? `${vendorBase}transformers/3.1.1/transformers.min.js`
-        : `${vendorBase}transformers/3.7.3/transformers.min.js`;
-      const cdnTransformersUrl = onWebKit
-        ? 'https://cdn.jsdelivr.net/npm/@huggingface/transformers@3.1.1/dist/transformers.min.js'
-        : 'https://cdn.jsdelivr.net/npm/@huggingface/transformers@3.7.3/dist/transformers.min.js';
-      const ortVersion = onWebKit ? '1.20.1' : '1.22.0-dev.20250409-89f8206ba4';
-      const vendorOrtBase = `${vendorBase}onnxruntime-web/${ortVersion}/dist/`;
-      const cdnOrtBase = `https://cdn.jsdelivr.net/npm/onnxruntime-web@${ortVersion}/dist/`;
-
-      let transformersUrl = vendorTransformersUrl;
-      let ortBase = vendorOrtBase;
-      try {
-        console.log(`🔧 Loading Transformers.js from vendor (${onWebKit ? 'v3.1.1 ORT-1.20.1 WebKit-safe' : 'v3.7.3'})...`);
-        this.transformersModule = await import(/* @vite-ignore */ transformersUrl);
-      } catch (error) {
-        transformersUrl = cdnTransformersUrl;
-        ortBase = cdnOrtBase;
-        console.warn('⚠️ Vendor transformers.js not found, falling back to CDN:', error);
-        this.transformersModule = await import(/* @vite-ignore */ transformersUrl);
-      }
-      (this.transformersModule as any).__ortBase = ortBase;
-    }
+    await this.loadTransformersModule();
     
     const { pipeline, env } = this.transformersModule;
     if (!pipeline || !env) {
@@ -196,6 +166,7 @@ export class ModelManager {
     env.useQuantized = true;
     env.backends.onnx.webgl = false;
     env.backends.onnx.webgpu = false;
+    env.remoteHost = `${absoluteHost(getModelHost())}/`;
     if ((this.transformersModule as any).__ortBase) {
       env.backends.onnx.wasm.wasmPaths = (this.transformersModule as any).__ortBase;
     }
@@ -242,7 +213,7 @@ export class ModelManager {
       const url = args[0] as string;
 
       // Log all transformers.js related requests
-      if (typeof url === 'string' && url.includes('huggingface.co') && url.includes(modelId)) {
+      if (typeof url === 'string' && url.includes(`/${modelId}/resolve/`)) {
         console.log(`🌐 NETWORK: Fetching ${url}`);
       }
 
@@ -272,7 +243,7 @@ export class ModelManager {
         // Jigsaw Toxicity: minuva model - NUCLEAR OPTION
         if (url.includes('minuva/MiniLMv2-toxic-jigsaw-onnx')) {
           // ANY request for an ONNX file gets the one file that exists
-          const actualFile = 'https://huggingface.co/minuva/MiniLMv2-toxic-jigsaw-onnx/resolve/main/model_optimized_quantized.onnx';
+          const actualFile = modelFileUrl('minuva/MiniLMv2-toxic-jigsaw-onnx', 'model_optimized_quantized.onnx');
           console.log(`🔀 NUCLEAR REDIRECT - minuva ANY ONNX → model_optimized_quantized.onnx`);
 
           // Fetch the actual file but return it AS IF it was the requested file
@@ -334,7 +305,7 @@ export class ModelManager {
       const response = await originalFetch(...args);
 
       // Track successful downloads for this model
-      if (typeof url === 'string' && url.includes('huggingface.co') && url.includes(modelId) && response.ok) {
+      if (typeof url === 'string' && url.includes(`/${modelId}/resolve/`) && response.ok) {
         const contentLength = response.headers.get('content-length');
         const size = contentLength ? parseInt(contentLength) : 0;
         const timestamp = Date.now();
@@ -493,7 +464,6 @@ export class ModelManager {
    * Validate that model has required ONNX files
    */
   private async validateModelFiles(modelId: string): Promise<void> {
-    const baseUrl = `https://huggingface.co/${modelId}/resolve/main`;
     const requiredFiles = [
       'config.json',
       'tokenizer.json',
@@ -538,7 +508,7 @@ export class ModelManager {
     // Check config files
     let configFilesFound = 0;
     for (const file of requiredFiles) {
-      const url = `${baseUrl}/${file}`;
+      const url = modelFileUrl(modelId, file);
       try {
         const response = await fetch(url, { method: 'HEAD' });
         if (response.ok) {
@@ -556,7 +526,7 @@ export class ModelManager {
     let foundOnnx = false;
     let foundOnnxFile = '';
     for (const file of onnxFiles) {
-      const url = `${baseUrl}/${file}`;
+      const url = modelFileUrl(modelId, file);
       try {
         const response = await fetch(url, { method: 'HEAD' });
         if (response.ok) {
@@ -581,10 +551,83 @@ export class ModelManager {
   }
 
   /**
-   * Placeholder for local model loading
+   * Import transformers.js once and keep it for later loads
+   */
+  private async loadTransformersModule(): Promise<void> {
+    // Load and cache transformers.js module (only once for performance).
+    // v3.7.3 bundles ORT 1.22.0-dev which crashes on WebKit due to a JSEP/WASM
+    // JIT bug (onnxruntime #26827) and OOM on iPadOS 17 (#22086).  The ORT
+    // breakage starts at 1.21 — v3.1.1 bundles ORT 1.20.1, the last pre-1.21
+    // release and the last confirmed working on WebKit 26.  ORT 1.20.1 also
+    // supports opset 19 so all models load.  numThreads=1 is critical per
+    // transformers.js #1242 ("JSC not doing well with multi-threaded WASM").
+    if (!this.transformersModule) {
+      const onWebKit = /AppleWebKit/.test(navigator.userAgent) && !/Chrome|Edg|OPR|Chromium/.test(navigator.userAgent);
+      const vendorBase = new URL('../vendor/', import.meta.url).href;
+      const vendorTransformersUrl = onWebKit
+        ? `${vendorBase}transformers/3.1.1/transformers.min.js`
+        : `${vendorBase}transformers/3.7.3/transformers.min.js`;
+      const ortVersion = onWebKit ? '1.20.1' : '1.22.0-dev.20250409-89f8206ba4';
+      const vendorOrtBase = `${vendorBase}onnxruntime-web/${ortVersion}/dist/`;
+      const { runtimeHost } = getModelHosts();
+      const cdn = runtimeUrls(runtimeHost, onWebKit ? '3.1.1' : '3.7.3', ortVersion);
+
+      let transformersUrl = vendorTransformersUrl;
+      let ortBase = vendorOrtBase;
+      try {
+        console.log(`🔧 Loading Transformers.js from vendor (${onWebKit ? 'v3.1.1 ORT-1.20.1 WebKit-safe' : 'v3.7.3'})...`);
+        this.transformersModule = await import(/* @vite-ignore */ transformersUrl);
+      } catch (error) {
+        transformersUrl = cdn.transformersUrl;
+        ortBase = cdn.ortBase;
+        console.warn(`⚠️ Vendor transformers.js not found, falling back to ${runtimeHost}:`, error);
+        this.transformersModule = await import(/* @vite-ignore */ transformersUrl);
+      }
+      (this.transformersModule as any).__ortBase = ortBase;
+    }
+  }
+
+  /**
+   * Load a model from a folder the user copied into the origin private file system.
+   * Nothing is fetched from the network.
    */
-  private async loadLocalModel(_config: ModelConfig): Promise<any> {
-    throw new Error('Local model loading not implemented yet');
+  private async loadLocalModel(config: ModelConfig): Promise<any> {
+    if (!config.localPath) {
+      throw new Error('Local path required for local models');
+    }
+
+    console.log(`📁 Loading ${config.name} from local folder ${config.localPath}...`);
+    await this.loadTransformersModule();
+
+    const { pipeline, env } = this.transformersModule;
+    env.allowLocalModels = true;
+    env.allowRemoteModels = false;
+    env.localModelPath = LOCAL_MODEL_URL_PREFIX;
+    env.useBrowserCache = false;
+    env.backends.onnx.wasm.numThreads = 1;
+    if ((this.transformersModule as any).__ortBase) {
+      env.backends.onnx.wasm.wasmPaths = (this.transformersModule as any).__ortBase;
+    }
+
+    const restoreFetch = serveLocalModelFiles(window);
+    try {
+      const model = await pipeline(config.task || 'text-classification', config.localPath, {
+        local_files_only: true,
+        ...config.pipelineOverrides,
+        progress_callback: (progress: any) => {
+          if (progress.status === 'progress') {
+            this.updateModelState(config.id, { status: 'loading', progress: progress.progress || 0 });
+          }
+        }
+      });
+      console.log(`✅ ${config.name} loaded from local folder`);
+      return model;
+    } finally {
+      restoreFetch();
+      env.allowLocalModels = false;
+      env.allowRemoteModels = true;
+      env.useBrowserCache = true;
+    }
   }
 
   /**
@@ -5,13 +5,42 @@
  * This solves the WASM memory limitation where memory can only grow
  */
 
+import type { InferenceOutput } from './textChunking';
+import { MAX_OCCLUDED_TOKENS, splitOcclusionTokens, type TokenAttributions } from './occlusion';
+import type { PipelineOverrides } from './pipelineOptions';
+import { getModelHosts } from './modelHosts';
+import type { ZeroShotConfig } from './zeroShot';
+
 export interface WorkerMessage {
   type: string;
   payload?: any;
   error?: string;
 }
 
-export class WorkerModelManager {
+/**
+ * The operations MultiModelAnalyzer needs from a model runner.
+ * Implemented by WorkerModelManager in the browser and NodeModelRunner in the CLI.
+ */
+export interface ModelWorker {
+  initializeWorker(): Promise<void>;
+  terminateWorker(): Promise<void>;
+  loadModel(
+    modelId: string,
+    huggingFaceId: string,
+    task?: string,
+    overrides?: PipelineOverrides,
+    localPath?: string,
+    zeroShot?: ZeroShotConfig
+  ): Promise<void>;
+  runInference(modelId: string, text: string): Promise<InferenceOutput>;
+  runInferenceBatch(modelId: string, texts: string[], batchSize?: number): Promise<InferenceOutput[]>;
+  explain(modelId: string, text: string, label?: string, batchSize?: number): Promise<TokenAttributions>;
+  disposeModel(modelId: string): Promise<void>;
+  disposeAll(): Promise<void>;
+  isWorkerActive(): boolean;
+}
+
+export class WorkerModelManager implements ModelWorker {
   private worker: Worker | null = null;
   private messageHandlers = new Map<string, (payload: any) => void>();
   private pendingRequests = new Map<string, { resolve: Function, reject: Function }>();
@@ -70,6 +99,7 @@ export class WorkerModelManager {
       reject(new Error('Worker terminated'));
     }
     this.pendingRequests.clear();
+    this.messageHandlers.clear();
 
     // Terminate the worker
     this.worker.terminate();
@@ -79,9 +109,17 @@ export class WorkerModelManager {
   }
 
   /**
-   * Load a model in the worker
+   * Load a model in the worker; overrides locate ONNX files of user-added models,
+   * zeroShot carries the candidate labels of zero-shot classifiers
    */
-  async loadModel(modelId: string, huggingFaceId: string, task?: string): Promise<void> {
+  async loadModel(
+    modelId: string,
+    huggingFaceId: string,
+    task?: string,
+    overrides?: PipelineOverrides,
+    localPath?: string,
+    zeroShot?: ZeroShotConfig
+  ): Promise<void> {
     if (!this.worker) {
       throw new Error('Worker not initialized');
     }
@@ -108,7 +146,7 @@ export class WorkerModelManager {
       // Send message to worker
       this.worker!.postMessage({
         type: 'LOAD_MODEL',
-        payload: { modelId, huggingFaceId, task }
+        payload: { modelId, huggingFaceId, task, overrides, localPath, hosts: getModelHosts(), zeroShot }
       });
 
       // Add timeout to prevent hanging
@@ -125,7 +163,7 @@ export class WorkerModelManager {
   /**
    * Run inference on a model
    */
-  async runInference(modelId: string, text: string): Promise<any[]> {
+  async runInference(modelId: string, text: string): Promise<InferenceOutput> {
     if (!this.worker) {
       throw new Error('Worker not initialized');
     }
@@ -144,7 +182,7 @@ export class WorkerModelManager {
           if (pending) {
             this.pendingRequests.delete(requestId);
             this.messageHandlers.delete(handlerKey); // Clean up handler after use
-            pending.resolve(payload.result);
+            pending.resolve({ labels: payload.result, chunking: payload.chunking });
           }
         }
       };
@@ -168,6 +206,117 @@ export class WorkerModelManager {
     });
   }
 
+  /**
+   * Run inference on many texts in one message; the worker splits them into
+   * pipeline batches of batchSize and returns one label list per text
+   * (texts over the model's token limit are scored in windows and aggregated)
+   */
+  async runInferenceBatch(modelId: string, texts: string[], batchSize: number = 8): Promise<InferenceOutput[]> {
+    if (!this.worker) {
+      throw new Error('Worker not initialized');
+    }
+
+    if (texts.length === 0) {
+      return [];
+    }
+
+    return new Promise((resolve, reject) => {
+      const requestId = `inference-batch-${modelId}-${this.requestIdCounter++}`;
+
+      // Set up response handler
+      this.pendingRequests.set(requestId, { resolve, reject });
+
+      // Same 120 second budget as single inference, per pipeline batch. Long texts
+      // expand into any number of token windows, so rather than a budget for the
+      // whole request the timer restarts every time the worker finishes a batch.
+      let timer: ReturnType<typeof setTimeout> | undefined;
+      const restartTimeout = () => {
+        clearTimeout(timer);
+        timer = setTimeout(() => {
+          if (this.pendingRequests.has(requestId)) {
+            this.pendingRequests.delete(requestId);
+            this.messageHandlers.delete(handlerKey);
+            this.messageHandlers.delete(progressKey);
+            reject(new Error(`Batch inference timeout for ${modelId}`));
+          }
+        }, 120000);
+      };
+
+      // Batch responses echo the requestId, so match on that rather than modelId
+      const handlerKey = `INFERENCE_BATCH_RESULT_${requestId}`;
+      const progressKey = `INFERENCE_BATCH_PROGRESS_${requestId}`;
+      this.messageHandlers.set(handlerKey, (payload: any) => {
+        if (payload.requestId === requestId) {
+          const pending = this.pendingRequests.get(requestId);
+          if (pending) {
+            clearTimeout(timer);
+            this.pendingRequests.delete(requestId);
+            this.messageHandlers.delete(handlerKey); // Clean up handler after use
+            this.messageHandlers.delete(progressKey);
+            pending.resolve(payload.results);
+          }
+        }
+      });
+      this.messageHandlers.set(progressKey, (payload: any) => {
+        if (payload.requestId === requestId && this.pendingRequests.has(requestId)) {
+          restartTimeout();
+        }
+      });
+
+      // Send message to worker
+      this.worker!.postMessage({
+        type: 'RUN_INFERENCE_BATCH',
+        payload: { requestId, modelId, texts, batchSize }
+      });
+
+      restartTimeout();
+    });
+  }
+
+  /**
+   * Per-token attributions for one text, by leaving each token out in turn.
+   * Explains the top label unless another (raw model) label is given.
+   */
+  async explain(modelId: string, text: string, label?: string, batchSize: number = 8): Promise<TokenAttributions> {
+    if (!this.worker) {
+      throw new Error('Worker not initialized');
+    }
+
+    return new Promise((resolve, reject) => {
+      const requestId = `explain-${modelId}-${this.requestIdCounter++}`;
+
+      this.pendingRequests.set(requestId, { resolve, reject });
+
+      const handlerKey = `EXPLANATION_RESULT_${requestId}`;
+      this.messageHandlers.set(handlerKey, (payload: any) => {
+        if (payload.requestId === requestId) {
+          const pending = this.pendingRequests.get(requestId);
+          if (pending) {
+            this.pendingRequests.delete(requestId);
+            this.messageHandlers.delete(handlerKey);
+            pending.resolve(payload.explanation);
+          }
+        }
+      });
+
+      this.worker!.postMessage({
+        type: 'EXPLAIN',
+        payload: { requestId, modelId, text, label, batchSize }
+      });
+
+      // The full text plus one variant per occluded token, batched like any other inference
+      const passes = 1 + Math.min(splitOcclusionTokens(text).length, MAX_OCCLUDED_TOKENS);
+      const timeout = 120000 * Math.ceil(passes / Math.max(1, batchSize));
+      setTimeout(() => {
+        if (this.pendingRequests.has(requestId)) {
+          this.pendingRequests.delete(requestId);
+          this.messageHandlers.delete(handlerKey);
+          reject(new Error(`Explanation timeout for ${modelId}`));
+        }
+      }, timeout);
+    });
+  }
+
   /**
    * Dispose a specific model in the worker
    */
@@ -0,0 +1,119 @@
+/**
+ * WorkerPool - Runs several model tasks at once, each in its own worker
+ *
+ * Every task declares how much memory its worker is expected to need. A task
+ * only starts while the running tasks stay within the memory budget and the
+ * worker limit, so big models wait for a free slot instead of exhausting RAM.
+ */
+
+export interface WorkerPoolOptions {
+  maxWorkers: number;
+  memoryBudgetMB: number;
+}
+
+export interface PoolTask {
+  id: string;
+  memoryMB: number;
+  run: () => Promise<void>;
+}
+
+// A loaded ONNX session plus tokenizer and WASM heap takes roughly twice the download size
+const WORKER_MEMORY_FACTOR = 2;
+
+// Used when the browser does not report navigator.deviceMemory
+const DEFAULT_DEVICE_MEMORY_GB = 4;
+
+// Share of device memory parallel workers may claim; the page and the grid need the rest
+const MEMORY_BUDGET_SHARE = 0.25;
+
+const MAX_PARALLEL_WORKERS = 4;
+
+/**
+ * Expected memory of a worker running a model of the given download size
+ */
+export function estimateWorkerMemoryMB(modelSizeMB: number): number {
+  return Math.ceil(modelSizeMB * WORKER_MEMORY_FACTOR);
+}
+
+/**
+ * Parallel workers each get their own WASM heap; Safari/WebKit handles even one
+ * worker poorly (transformers.js #1242), so it always runs models one at a time
+ */
+export function supportsParallelWorkers(): boolean {
+  if (typeof navigator === 'undefined' || typeof Worker === 'undefined') {
+    return false;
+  }
+  const ua = navigator.userAgent;
+  const onWebKit = /AppleWebKit/.test(ua) && !/Chrome|Edg|OPR|Chromium/.test(ua);
+  return !onWebKit;
+}
+
+/**
+ * Worker limit and memory budget derived from the device
+ */
+export function getDefaultWorkerPoolOptions(): WorkerPoolOptions {
+  const cores = navigator.hardwareConcurrency || 2;
+  const deviceMemoryGB = (navigator as Navigator & { deviceMemory?: number }).deviceMemory || DEFAULT_DEVICE_MEMORY_GB;
+
+  return {
+    maxWorkers: Math.max(1, Math.min(MAX_PARALLEL_WORKERS, Math.floor(cores / 2))),
+    memoryBudgetMB: Math.round(deviceMemoryGB * 1024 * MEMORY_BUDGET_SHARE)
+  };
+}
+
+export class WorkerPool {
+  private options: WorkerPoolOptions;
+
+  constructor(options: WorkerPoolOptions) {
+    this.options = {
+      maxWorkers: Math.max(1, Math.floor(options.maxWorkers)),
+      memoryBudgetMB: Math.max(0, options.memoryBudgetMB)
+    };
+  }
+
+  /**
+   * Run all tasks, starting each one as soon as it fits in the pool.
+   * Tasks start in order where possible; a smaller later task may fill a gap a
+   * larger one cannot. A task bigger than the whole budget runs on its own.
+   * beforeStart is awaited before each task starts; returning false stops
+   * scheduling (running tasks still finish).
+   */
+  async runAll(tasks: PoolTask[], beforeStart?: () => Promise<boolean>): Promise<void> {
+    const queue = [...tasks];
+    const running = new Map<string, Promise<void>>();
+    let usedMB = 0;
+
+    const fits = (task: PoolTask) =>
+      running.size === 0 ||
+      (running.size < this.options.maxWorkers && usedMB + task.memoryMB <= this.options.memoryBudgetMB);
+
+    while (queue.length > 0 || running.size > 0) {
+      const nextIndex = queue.findIndex(fits);
+
+      if (nextIndex !== -1) {
+        if (beforeStart && !(await beforeStart())) {
+          queue.length = 0;
+          continue;
+        }
+
+        const [task] = queue.splice(nextIndex, 1);
+        usedMB += task.memoryMB;
+        console.log(`🧵 Starting ${task.id} in worker pool (${running.size + 1}/${this.options.maxWorkers} workers, ${usedMB}/${this.options.memoryBudgetMB}MB)`);
+
+        const promise = task.run()
+          .catch(error => {
+            console.error(`❌ Worker pool task ${task.id} failed:`, error);
+          })
+          .finally(() => {
+            usedMB -= task.memoryMB;
+            running.delete(task.id);
+          });
+        running.set(task.id, promise);
+        continue;
+      }
+
+      // Nothing fits right now - wait for a running task to free its slot
+      await Promise.race(running.values());
+    }
+  }
+}
@@ -0,0 +1,55 @@
+/**
+ * Catalogue of the models offered in the model selector, generated from
+ * the model manifest.
+ *
+ * Lives outside the Pinia store so that non-Vue consumers (the CLI) can
+ * resolve model IDs to HuggingFace repos and column types.
+ */
+
+import { getCustomModels } from './customModels';
+import { aspectBaseColumnName } from '../analysis/AspectAnalysis';
+import { MODEL_MANIFEST, getManifestEntry, type ModelManifestEntry } from './manifest';
+import type { PipelineOverrides } from './pipelineOptions';
+
+export interface CatalogModel {
+  id: string;
+  huggingFaceId: string;
+  displayName: string;
+  category: 'sentiment' | 'classification';
+  type: 'rule-based' | 'neural';
+  task?: string;
+  labelMap?: Record<string, string>;
+  pipelineOverrides?: PipelineOverrides;
+  url?: string;
+}
+
+export const MODEL_CATALOG: ModelManifestEntry[] = MODEL_MANIFEST.filter(model => !model.hidden);
+
+/**
+ * Built-in model (by ID or alias), or a Hugging Face model the user added in this browser
+ */
+export function getCatalogModel(id: string): CatalogModel | undefined {
+  const builtIn = getManifestEntry(id);
+  if (builtIn && !builtIn.hidden) return builtIn;
+  return getCustomModels().find(model => model.id === id);
+}
+
+/**
+ * Model behind a results column. Rule-based columns are named by the uppercased analyzer ID.
+ */
+export function getColumnModel(columnName: string): CatalogModel | undefined {
+  const models = [...MODEL_CATALOG, ...getCustomModels()];
+  const find = (name: string) => models.find(model =>
+    model.displayName === name ||
+    (model.type === 'rule-based' && model.id.toUpperCase() === name)
+  );
+  // Aspect sub-columns like "VADER [battery]" belong to their analyzer's model
+  return find(columnName) ?? find(aspectBaseColumnName(columnName));
+}
+
+/**
+ * Human-readable name for a raw model label, e.g. KoalaAI's "HR" → "Harassment"
+ */
+export function mapModelLabel(columnName: string, label: string): string {
+  return getColumnModel(columnName)?.labelMap?.[label] ?? label;
+}
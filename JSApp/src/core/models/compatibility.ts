@@ -2,75 +2,26 @@
  * Model compatibility utilities for browser-based inference
  */
 
+import { MODEL_MANIFEST, type ModelManifestEntry } from './manifest';
+
 export interface CompatibleModel {
   id: string;
   name: string;
   description: string;
-  task: 'sentiment-analysis' | 'text-classification' | 'toxicity-detection';
+  task: NonNullable<ModelManifestEntry['task']>;
   verified: boolean;
 }
 
-export const COMPATIBLE_MODELS: CompatibleModel[] = [
-  // Sentiment Analysis Models
-  {
-    id: 'Xenova/distilbert-base-uncased-finetuned-sst-2-english',
-    name: 'DistilBERT SST-2',
-    description: 'Fast sentiment analysis (positive/negative)',
-    task: 'sentiment-analysis',
-    verified: true
-  },
-  {
-    id: 'Xenova/twitter-roberta-base-sentiment-latest',
-    name: 'Twitter RoBERTa',
-    description: 'Sentiment analysis optimized for social media',
-    task: 'sentiment-analysis',
-    verified: true
-  },
-  {
-    id: 'Xenova/distilroberta-finetuned-financial-news-sentiment-analysis',
-    name: 'Financial DistilRoBERTa',
-    description: 'Sentiment analysis for financial news',
-    task: 'sentiment-analysis',
-    verified: true
-  },
-  {
-    id: 'Xenova/bert-base-multilingual-uncased-sentiment',
-    name: 'Multilingual BERT',
-    description: 'Sentiment analysis for multiple languages',
-    task: 'sentiment-analysis',
-    verified: true
-  },
-  {
-    id: 'Xenova/distilbert-base-multilingual-cased-sentiments-student',
-    name: 'Multilingual DistilBERT',
-    description: 'Lightweight multilingual sentiment analysis',
-    task: 'sentiment-analysis',
-    verified: true
-  },
-  
-  // Text Classification Models
-  {
-    id: 'Xenova/toxic-bert',
-    name: 'Toxic BERT',
-    description: 'Detects toxic/offensive content',
-    task: 'toxicity-detection',
-    verified: true
-  },
-  {
-    id: 'Xenova/bert-base-uncased-emotion',
-    name: 'Emotion BERT',
-    description: 'Classifies emotions (joy, sadness, anger, etc.)',
-    task: 'text-classification',
-    verified: true
-  },
-  {
-    id: 'Xenova/distilbert-base-uncased-emotion',
-    name: 'DistilBERT Emotion',
-    description: 'Fast emotion classification',
-    task: 'text-classification',
+// Every neural model in the manifest has been checked to run in the browser
+export const COMPATIBLE_MODELS: CompatibleModel[] = MODEL_MANIFEST
+  .filter(model => model.type === 'neural')
+  .map(model => ({
+    id: model.huggingFaceId,
+    name: model.displayName,
+    description: model.description,
+    task: model.task ?? 'text-classification',
     verified: true
-  }
-];
+  }));
 
 /**
  * Check if a model ID is likely to be compatible
@@ -100,13 +51,13 @@ export function getSuggestedModels(task?: string): CompatibleModel[] {
  * Convert a regular HuggingFace model ID to Xenova version if available
  */
 export function getXenovaEquivalent(modelId: string): string | null {
-  const modelMap: Record<string, string> = {
-    'unitary/toxic-bert': 'Xenova/toxic-bert',
-    'distilbert-base-uncased-finetuned-sst-2-english': 'Xenova/distilbert-base-uncased-finetuned-sst-2-english',
-    'nlptown/bert-base-multilingual-uncased-sentiment': 'Xenova/bert-base-multilingual-uncased-sentiment',
-    'cardiffnlp/twitter-roberta-base-sentiment-latest': 'Xenova/twitter-roberta-base-sentiment-latest',
-  };
-  
+  // Original repo → the ONNX conversion the manifest uses
+  const modelMap: Record<string, string> = Object.fromEntries(
+    MODEL_MANIFEST
+      .filter(model => model.sourceId)
+      .map(model => [model.sourceId!, model.huggingFaceId])
+  );
+
   // Check direct mapping
   if (modelMap[modelId]) {
     return modelMap[modelId];
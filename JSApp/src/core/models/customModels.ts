@@ -0,0 +1,317 @@
+/**
+ * User-added Hugging Face classifiers
+ *
+ * Any repo with ONNX weights and a text-classification head can be added at
+ * runtime: the Hub API tells us which ONNX files exist and what the task is,
+ * the model is test-loaded in a worker, and the result is kept in localStorage.
+ * Models can also come from a folder on disk, for offline use: the folder is
+ * copied into the origin private file system and loaded from there.
+ * Custom models always get a generic classification column.
+ */
+
+import type { CatalogModel } from './catalog';
+import { getXenovaEquivalent, isLikelyCompatible } from './compatibility';
+import { DTYPE_SUFFIXES, type PipelineOverrides } from './pipelineOptions';
+import {
+  localModelPath,
+  localModelStagingPath,
+  moveLocalModelFolder,
+  removeLocalModelFolder,
+  saveLocalModelFolder,
+  type LocalModelFolder
+} from './localModels';
+import { absoluteHost, getModelHost, modelFileUrl } from './modelHosts';
+import type { ModelWorker } from './WorkerModelManager';
+
+export interface CustomModel extends CatalogModel {
+  category: 'classification';
+  type: 'neural';
+  task: 'text-classification';
+  /** ONNX file location when it differs from transformers.js' default onnx/model_quantized.onnx */
+  pipelineOverrides?: PipelineOverrides;
+  /** Class labels from config.json, if it lists them */
+  labels: string[];
+  /** Size of the selected ONNX file, if the Hub reported it */
+  sizeMB: number | null;
+  /** Folder in the origin private file system, for models loaded from disk */
+  localPath?: string;
+  addedAt: number;
+}
+
+export interface ModelInspection {
+  huggingFaceId: string;
+  /** Every .onnx file in the repo */
+  onnxFiles: string[];
+  /** The file that will be loaded */
+  selectedFile: string;
+  pipelineOverrides?: PipelineOverrides;
+  task: 'text-classification';
+  labels: string[];
+  sizeMB: number | null;
+  /** Xenova/ repo or one of the verified models */
+  likelyCompatible: boolean;
+  /** Set when the model was copied from a local folder */
+  localPath?: string;
+  /** Where that copy is until the model is added and it moves to localPath */
+  stagingPath?: string;
+}
+
+const STORAGE_KEY = 'sentimentomatic_custom_models';
+const CUSTOM_MODEL_ID_PREFIX = 'hf:';
+const LOCAL_MODEL_ID_PREFIX = 'local:';
+const TEST_TEXT = 'This is a quick test sentence.';
+
+// Pipeline tags transformers.js runs with a text-classification pipeline
+const CLASSIFICATION_TAGS = new Set(['text-classification', 'sentiment-analysis']);
+
+let customModels: CustomModel[] = loadStoredModels();
+
+function loadStoredModels(): CustomModel[] {
+  if (typeof localStorage === 'undefined') return [];
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? JSON.parse(stored) as CustomModel[] : [];
+  } catch (error) {
+    console.warn('⚠️ Failed to read custom models:', error);
+    return [];
+  }
+}
+
+function saveModels(): void {
+  if (typeof localStorage !== 'undefined') {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(customModels));
+  }
+}
+
+export function getCustomModels(): CustomModel[] {
+  return customModels;
+}
+
+export function addCustomModel(model: CustomModel): void {
+  customModels = [...customModels.filter(existing => existing.id !== model.id), model];
+  saveModels();
+}
+
+export function removeCustomModel(id: string): void {
+  customModels = customModels.filter(model => model.id !== id);
+  saveModels();
+}
+
+/**
+ * Catalog ID for a repo, e.g. "hf:my-org/my-classifier"
+ */
+export function customModelId(huggingFaceId: string): string {
+  return CUSTOM_MODEL_ID_PREFIX + huggingFaceId;
+}
+
+export function isCustomModelId(id: string): boolean {
+  return id.startsWith(CUSTOM_MODEL_ID_PREFIX) || id.startsWith(LOCAL_MODEL_ID_PREFIX);
+}
+
+/**
+ * Catalog ID for an inspected model: "hf:<repo>" or "local:<folder>"
+ */
+export function inspectionModelId(inspection: ModelInspection): string {
+  return inspection.localPath
+    ? LOCAL_MODEL_ID_PREFIX + inspection.localPath
+    : customModelId(inspection.huggingFaceId);
+}
+
+/**
+ * Pipeline options that make transformers.js load a given ONNX file
+ */
+export function pipelineOverridesForFile(path: string): PipelineOverrides | undefined {
+  const slash = path.lastIndexOf('/');
+  const subfolder = slash === -1 ? '' : path.slice(0, slash);
+  let fileName = path.slice(slash + 1).replace(/\.onnx$/, '');
+  let dtype = 'fp32';
+
+  for (const [suffix, suffixDtype] of DTYPE_SUFFIXES) {
+    if (fileName.endsWith(suffix)) {
+      fileName = fileName.slice(0, -suffix.length);
+      dtype = suffixDtype;
+      break;
+    }
+  }
+
+  // transformers.js' defaults need no overrides
+  if (subfolder === 'onnx' && fileName === 'model' && dtype === 'q8') {
+    return undefined;
+  }
+  return { subfolder, model_file_name: fileName, dtype };
+}
+
+/**
+ * Quantized weights first (smaller download), then the onnx/ folder transformers.js expects
+ */
+function pickOnnxFile(files: string[]): string {
+  const rank = (file: string) =>
+    (file.includes('quantized') ? 0 : 2) + (file.startsWith('onnx/') ? 0 : 1);
+  return [...files].sort((a, b) => rank(a) - rank(b) || a.length - b.length)[0];
+}
+
+function notCompatibleError(huggingFaceId: string, reason: string): Error {
+  const equivalent = getXenovaEquivalent(huggingFaceId);
+  return new Error(equivalent ? `${reason} Try ${equivalent} instead.` : reason);
+}
+
+/**
+ * Look a repo up on the Hub: ONNX files, task and labels
+ */
+export async function inspectHuggingFaceModel(huggingFaceId: string): Promise<ModelInspection> {
+  const repoId = huggingFaceId.trim().replace(/^https?:\/\/huggingface\.co\//, '').replace(/\/+$/, '');
+  if (!/^[\w.-]+\/[\w.-]+$/.test(repoId)) {
+    throw new Error('Enter a Hugging Face repo ID such as "my-org/my-classifier"');
+  }
+
+  // Mirrors of the Hub answer the same model API
+  const response = await fetch(`${absoluteHost(getModelHost())}/api/models/${repoId}?blobs=true`);
+  if (response.status === 401 || response.status === 404) {
+    throw new Error(`${repoId} was not found on Hugging Face (private repos are not supported)`);
+  }
+  if (!response.ok) {
+    throw new Error(`Hugging Face returned ${response.status} for ${repoId}`);
+  }
+  const info = await response.json();
+
+  const siblings: Array<{ rfilename: string; size?: number }> = info.siblings || [];
+  const onnxFiles = siblings.map(file => file.rfilename).filter(name => name.endsWith('.onnx'));
+  if (onnxFiles.length === 0) {
+    throw notCompatibleError(repoId, `${repoId} has no ONNX weights, so it can't run in the browser.`);
+  }
+  if (!siblings.some(file => file.rfilename === 'tokenizer.json')) {
+    throw notCompatibleError(repoId, `${repoId} has no tokenizer.json, which transformers.js needs.`);
+  }
+
+  // No pipeline tag: fall back to the architecture, e.g. BertForSequenceClassification
+  const architectures: string[] = info.config?.architectures || [];
+  const isClassifier = CLASSIFICATION_TAGS.has(info.pipeline_tag) ||
+    (!info.pipeline_tag && architectures.some(name => name.endsWith('ForSequenceClassification')));
+  if (!isClassifier) {
+    throw new Error(`${repoId} is a "${info.pipeline_tag || 'unknown'}" model; only text-classification models are supported`);
+  }
+
+  let labels: string[] = [];
+  try {
+    const configResponse = await fetch(modelFileUrl(repoId, 'config.json'));
+    if (configResponse.ok) {
+      const config = await configResponse.json();
+      labels = Object.values(config.id2label || {}).map(String);
+    }
+  } catch (error) {
+    console.warn(`⚠️ Could not read config.json for ${repoId}:`, error);
+  }
+
+  const selectedFile = pickOnnxFile(onnxFiles);
+  const selectedSize = siblings.find(file => file.rfilename === selectedFile)?.size;
+
+  return {
+    huggingFaceId: repoId,
+    onnxFiles,
+    selectedFile,
+    pipelineOverrides: pipelineOverridesForFile(selectedFile),
+    task: 'text-classification',
+    labels,
+    sizeMB: selectedSize ? Math.round(selectedSize / (1024 * 1024)) : null,
+    likelyCompatible: isLikelyCompatible(repoId)
+  };
+}
+
+/**
+ * Check a model folder from disk and copy what transformers.js needs into OPFS
+ */
+export async function inspectLocalModelFolder(folder: LocalModelFolder): Promise<ModelInspection> {
+  const onnxFiles = folder.files.map(file => file.path).filter(path => path.endsWith('.onnx'));
+  if (onnxFiles.length === 0) {
+    throw new Error(`${folder.name} has no .onnx files. Export the model to ONNX first (e.g. with Optimum).`);
+  }
+  const configFile = folder.files.find(file => file.path === 'config.json');
+  if (!configFile || !folder.files.some(file => file.path === 'tokenizer.json')) {
+    throw new Error(`${folder.name} needs config.json and tokenizer.json next to the ONNX weights`);
+  }
+
+  const config = JSON.parse(await configFile.file.text());
+  const architectures: string[] = config.architectures || [];
+  if (architectures.length > 0 && !architectures.some(name => name.endsWith('ForSequenceClassification'))) {
+    throw new Error(`${folder.name} is a ${architectures[0]} model; only text-classification models are supported`);
+  }
+
+  // Copy the tokenizer/config files and the one ONNX file (plus any external weights) that will be loaded
+  const selectedFile = pickOnnxFile(onnxFiles);
+  const files = folder.files.filter(file =>
+    !file.path.includes('.onnx') || file.path === selectedFile || file.path.startsWith(`${selectedFile}_data`) || file.path.startsWith(`${selectedFile}.data`)
+  );
+  // Copied aside until the model is added, so a model added earlier from a folder of the same name keeps its files
+  const path = localModelPath(folder.name);
+  const stagingPath = localModelStagingPath();
+  try {
+    await saveLocalModelFolder(stagingPath, files);
+  } catch (error) {
+    await removeLocalModelFolder(stagingPath).catch(() => undefined);
+    throw error;
+  }
+
+  const selectedSize = folder.files.find(file => file.path === selectedFile)!.file.size;
+  return {
+    huggingFaceId: path,
+    onnxFiles,
+    selectedFile,
+    pipelineOverrides: pipelineOverridesForFile(selectedFile),
+    task: 'text-classification',
+    labels: Object.values(config.id2label || {}).map(String),
+    sizeMB: Math.round(selectedSize / (1024 * 1024)),
+    likelyCompatible: true,
+    localPath: path,
+    stagingPath
+  };
+}
+
+/**
+ * Move an inspected folder's copy to where the added model loads it from
+ */
+export async function keepLocalModelCopy(inspection: ModelInspection): Promise<void> {
+  if (inspection.stagingPath && inspection.localPath) {
+    await moveLocalModelFolder(inspection.stagingPath, inspection.localPath);
+  }
+}
+
+/**
+ * Load the model in a throwaway worker and classify one sentence.
+ * Resolves with the labels it returned; the worker is always terminated.
+ */
+export async function testLoadModel(inspection: ModelInspection, worker: ModelWorker): Promise<Array<{ label: string; score: number }>> {
+  const testId = `test-${inspection.huggingFaceId}`;
+  try {
+    await worker.initializeWorker();
+    await worker.loadModel(
+      testId,
+      inspection.huggingFaceId,
+      inspection.task,
+      inspection.pipelineOverrides,
+      inspection.stagingPath ?? inspection.localPath
+    );
+    const { labels } = await worker.runInference(testId, TEST_TEXT);
+    if (!Array.isArray(labels) || labels.length === 0) {
+      throw new Error('The model loaded but returned no labels');
+    }
+    return labels;
+  } finally {
+    await worker.terminateWorker();
+  }
+}
+
+export function createCustomModel(inspection: ModelInspection, displayName: string, testLabels: string[]): CustomModel {
+  return {
+    id: inspectionModelId(inspection),
+    huggingFaceId: inspection.huggingFaceId,
+    displayName: displayName.trim() || inspection.huggingFaceId.split('/').pop()!,
+    category: 'classification',
+    type: 'neural',
+    task: inspection.task,
+    ...(inspection.pipelineOverrides && { pipelineOverrides: inspection.pipelineOverrides }),
+    labels: inspection.labels.length > 0 ? inspection.labels : testLabels,
+    sizeMB: inspection.sizeMB,
+    ...(inspection.localPath && { localPath: inspection.localPath }),
+    addedAt: Date.now()
+  };
+}
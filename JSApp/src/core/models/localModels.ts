@@ -0,0 +1,275 @@
+/**
+ * Model folders loaded from disk for offline use
+ *
+ * A folder picked with the File System Access API (or a directory upload) is
+ * copied into the origin private file system (OPFS), where the page and the
+ * model workers can read it without network access. transformers.js loads
+ * these as local models: requests under LOCAL_MODEL_URL_PREFIX are answered
+ * from OPFS and never reach the network.
+ */
+
+export const LOCAL_MODEL_URL_PREFIX = '/local-models/';
+
+const OPFS_DIRECTORY = 'local-models';
+
+export interface LocalModelFile {
+  /** Path inside the model folder, e.g. "onnx/model_quantized.onnx" */
+  path: string;
+  file: File;
+}
+
+export interface LocalModelFolder {
+  name: string;
+  files: LocalModelFile[];
+}
+
+type FetchScope = { fetch: typeof fetch };
+
+export function isFolderPickerSupported(): boolean {
+  return typeof window !== 'undefined' && 'showDirectoryPicker' in window;
+}
+
+async function collectFiles(directory: any, prefix: string, files: LocalModelFile[]): Promise<void> {
+  for await (const entry of directory.values()) {
+    if (entry.kind === 'directory') {
+      await collectFiles(entry, `${prefix}${entry.name}/`, files);
+    } else {
+      files.push({ path: `${prefix}${entry.name}`, file: await entry.getFile() });
+    }
+  }
+}
+
+/**
+ * Ask the user for a model folder with the File System Access API.
+ * Resolves with null when the picker is dismissed.
+ */
+export async function pickModelFolder(): Promise<LocalModelFolder | null> {
+  let directory: any;
+  try {
+    directory = await (window as any).showDirectoryPicker({ id: 'sentimentomatic-models', mode: 'read' });
+  } catch (error) {
+    if (error instanceof DOMException && error.name === 'AbortError') return null;
+    throw error;
+  }
+
+  const files: LocalModelFile[] = [];
+  await collectFiles(directory, '', files);
+  return { name: directory.name, files };
+}
+
+/**
+ * Folder chosen with <input type="file" webkitdirectory>, for browsers without the picker
+ */
+export function folderFromUpload(fileList: FileList): LocalModelFolder | null {
+  const uploaded = Array.from(fileList);
+  if (uploaded.length === 0) return null;
+
+  // webkitRelativePath is "<folder>/<path inside it>"
+  const name = uploaded[0].webkitRelativePath.split('/')[0] || 'local-model';
+  const files = uploaded.map(file => ({
+    path: file.webkitRelativePath.split('/').slice(1).join('/') || file.name,
+    file
+  }));
+  return { name, files };
+}
+
+async function getModelsDirectory(create: boolean): Promise<FileSystemDirectoryHandle | null> {
+  if (typeof navigator === 'undefined' || !navigator.storage?.getDirectory) {
+    throw new Error('This browser has no origin private file system, so local models are not available');
+  }
+  const root = await navigator.storage.getDirectory();
+  try {
+    return await root.getDirectoryHandle(OPFS_DIRECTORY, { create });
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Folder name that is safe to use as a path segment and a model ID
+ */
+export function localModelPath(folderName: string): string {
+  return folderName.trim().replace(/[^\w.-]+/g, '-').replace(/^[.-]+/, '') || 'local-model';
+}
+
+/**
+ * Unique folder for a copy that isn't an added model yet. Model folders never
+ * start with a dot, so it can't clash with one.
+ */
+export function localModelStagingPath(): string {
+  return `.staging-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+type FileWriter = (handle: FileSystemFileHandle, file: File) => Promise<void>;
+
+const NO_OPFS_WRITES = 'This browser can\'t save files to its origin private file system, so local models are not available';
+
+async function writeWithWritable(handle: FileSystemFileHandle, file: File): Promise<void> {
+  const writable = await (handle as any).createWritable();
+  await writable.write(file);
+  await writable.close();
+}
+
+// Streamed in chunks so large ONNX files are never held in memory whole
+async function writeWithSyncAccessHandle(handle: FileSystemFileHandle, file: File): Promise<void> {
+  const access = await (handle as any).createSyncAccessHandle();
+  try {
+    access.truncate(0);
+    const reader = file.stream().getReader();
+    let offset = 0;
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      offset += access.write(value, { at: offset });
+    }
+    access.flush();
+  } finally {
+    access.close();
+  }
+}
+
+async function copyModelFolder(path: string, files: LocalModelFile[], writeFile: FileWriter): Promise<void> {
+  const modelsDirectory = (await getModelsDirectory(true))!;
+  await modelsDirectory.removeEntry(path, { recursive: true }).catch(() => undefined);
+  const modelDirectory = await modelsDirectory.getDirectoryHandle(path, { create: true });
+
+  for (const { path: filePath, file } of files) {
+    const segments = filePath.split('/');
+    let directory = modelDirectory;
+    for (const segment of segments.slice(0, -1)) {
+      directory = await directory.getDirectoryHandle(segment, { create: true });
+    }
+    const handle = await directory.getFileHandle(segments[segments.length - 1], { create: true });
+    await writeFile(handle, file);
+  }
+}
+
+/**
+ * Copy the folder from the writer worker, for browsers (Safari) whose page can't write OPFS files
+ */
+function copyInWorker(path: string, files: LocalModelFile[]): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(
+      new URL('../workers/localModelWriter.worker.ts', import.meta.url),
+      { type: 'module' }
+    );
+    worker.addEventListener('message', (event: MessageEvent) => {
+      worker.terminate();
+      if (event.data.type === 'ERROR') {
+        reject(new Error(event.data.error));
+      } else {
+        resolve();
+      }
+    });
+    worker.addEventListener('error', (event: ErrorEvent) => {
+      worker.terminate();
+      reject(new Error(event.message || 'The model files could not be saved'));
+    });
+    worker.postMessage({ type: 'SAVE_FOLDER', payload: { path, files } });
+  });
+}
+
+/**
+ * Copy a model folder into OPFS, replacing an earlier copy with the same name.
+ * Browsers without createWritable() on the page (Safari) copy it from a worker.
+ */
+export async function saveLocalModelFolder(path: string, files: LocalModelFile[]): Promise<void> {
+  if (typeof FileSystemFileHandle !== 'undefined' && 'createWritable' in FileSystemFileHandle.prototype) {
+    return copyModelFolder(path, files, writeWithWritable);
+  }
+  if (typeof Worker === 'undefined') {
+    throw new Error(NO_OPFS_WRITES);
+  }
+  return copyInWorker(path, files);
+}
+
+/**
+ * Worker side of saveLocalModelFolder, writing through sync access handles
+ */
+export async function writeLocalModelFolder(path: string, files: LocalModelFile[]): Promise<void> {
+  if (typeof FileSystemFileHandle === 'undefined' || !('createSyncAccessHandle' in FileSystemFileHandle.prototype)) {
+    throw new Error(NO_OPFS_WRITES);
+  }
+  return copyModelFolder(path, files, writeWithSyncAccessHandle);
+}
+
+/**
+ * Move a stored folder to another path, replacing an earlier copy there
+ */
+export async function moveLocalModelFolder(from: string, to: string): Promise<void> {
+  const modelsDirectory = await getModelsDirectory(false);
+  const source = await modelsDirectory?.getDirectoryHandle(from).catch(() => null);
+  if (!modelsDirectory || !source) {
+    throw new Error('The copied model files are gone; choose the folder again');
+  }
+
+  // Renamed in place where the browser can; otherwise copied and the original removed
+  if (typeof (source as any).move === 'function') {
+    try {
+      await modelsDirectory.removeEntry(to, { recursive: true }).catch(() => undefined);
+      await (source as any).move(to);
+      return;
+    } catch (error) {
+      console.warn('⚠️ Could not rename the model folder, copying it instead:', error);
+    }
+  }
+
+  const files: LocalModelFile[] = [];
+  await collectFiles(source, '', files);
+  await saveLocalModelFolder(to, files);
+  await removeLocalModelFolder(from);
+}
+
+export async function removeLocalModelFolder(path: string): Promise<void> {
+  const modelsDirectory = await getModelsDirectory(false);
+  await modelsDirectory?.removeEntry(path, { recursive: true }).catch(() => undefined);
+}
+
+/**
+ * Read one file of a stored model, e.g. "my-model/config.json"
+ */
+export async function readLocalModelFile(path: string): Promise<File | null> {
+  try {
+    let directory = await getModelsDirectory(false);
+    const segments = path.split('/').filter(Boolean);
+    for (const segment of segments.slice(0, -1)) {
+      if (!directory) return null;
+      directory = await directory.getDirectoryHandle(segment);
+    }
+    if (!directory) return null;
+    const handle = await directory.getFileHandle(segments[segments.length - 1]);
+    return await handle.getFile();
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Answer fetches under LOCAL_MODEL_URL_PREFIX from OPFS (404 when a file is missing,
+ * which transformers.js treats as an optional file being absent).
+ * Returns a function that restores the original fetch.
+ */
+export function serveLocalModelFiles(scope: FetchScope): () => void {
+  const originalFetch = scope.fetch;
+
+  scope.fetch = async (input: RequestInfo | URL, init?: RequestInit) => {
+    const url = typeof input === 'string' ? input : input instanceof URL ? input.href : input.url;
+    const { origin, pathname } = new URL(url, self.location.href);
+
+    if (origin !== self.location.origin || !pathname.startsWith(LOCAL_MODEL_URL_PREFIX)) {
+      return originalFetch(input, init);
+    }
+
+    const file = await readLocalModelFile(decodeURIComponent(pathname.slice(LOCAL_MODEL_URL_PREFIX.length)));
+    if (!file) {
+      return new Response(null, { status: 404, statusText: 'Not Found' });
+    }
+    return new Response(file, {
+      headers: { 'Content-Type': 'application/octet-stream', 'Content-Length': String(file.size) }
+    });
+  };
+
+  return () => {
+    scope.fetch = originalFetch;
+  };
+}
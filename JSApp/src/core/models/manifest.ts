@@ -0,0 +1,393 @@
+/**
+ * Model manifest: the single list of every built-in model.
+ *
+ * The model selector, the model store, the CLI, the legacy registry, the
+ * compatibility list, cache size estimates and the worker's ONNX file
+ * overrides are all generated from these entries. Adding a model means
+ * adding one entry here.
+ */
+
+import type { PipelineOverrides } from './pipelineOptions';
+
+export interface ModelManifestEntry {
+  id: string;
+  /** Column name in results and exports */
+  displayName: string;
+  /** Name in the model selector, when it differs from the column name */
+  selectorLabel?: string;
+  description: string;
+  category: 'sentiment' | 'classification';
+  type: 'rule-based' | 'neural';
+  /** Hugging Face repo the weights are loaded from (the analyzer ID for rule-based models) */
+  huggingFaceId: string;
+  /** Original repo an ONNX conversion was made from */
+  sourceId?: string;
+  /** Older IDs (legacy presets, share links) that resolve to this model */
+  aliases?: string[];
+  /** Selector checkbox ID suffix ("use-<domId>") when it predates the manifest ID */
+  domId?: string;
+  /** transformers.js pipeline task */
+  task?: 'sentiment-analysis' | 'text-classification' | 'zero-shot-classification';
+  /** Human-readable names for the model's raw labels */
+  labelMap?: Record<string, string>;
+  /** ONNX file location when it differs from transformers.js' default onnx/model_quantized.onnx */
+  pipelineOverrides?: PipelineOverrides;
+  /** Download size of the quantized weights */
+  sizeMB: number;
+  license?: string;
+  /** Model card or project page */
+  url?: string;
+  languages: string[];
+  speed?: 'fast' | 'medium' | 'slow';
+  accuracy?: 'good' | 'better' | 'best';
+  parameters?: string;
+  architecture?: string;
+  trainingData?: string;
+  /** Checked when the app opens */
+  selectedByDefault?: boolean;
+  /** Known to run in the browser but not offered in the model selector */
+  hidden?: boolean;
+}
+
+export const MODEL_MANIFEST: ModelManifestEntry[] = [
+  // Rule-based
+  {
+    id: 'vader',
+    displayName: 'VADER',
+    description: 'Rule-based sentiment tuned for social media, with negation and intensity handling',
+    category: 'sentiment',
+    type: 'rule-based',
+    huggingFaceId: 'vader',
+    sizeMB: 1,
+    license: 'MIT',
+    url: 'https://github.com/vaderSentiment/vaderSentiment-js',
+    languages: ['en'],
+    selectedByDefault: true
+  },
+  {
+    id: 'afinn',
+    displayName: 'AFINN',
+    description: 'Word list sentiment scoring from -5 to +5',
+    category: 'sentiment',
+    type: 'rule-based',
+    huggingFaceId: 'afinn',
+    sizeMB: 1,
+    license: 'MIT',
+    url: 'https://github.com/thisandagain/sentiment',
+    languages: ['en']
+  },
+  {
+    id: 'custom',
+    displayName: 'Custom Lexicon',
+    description: 'Word list uploaded by the user, scored like VADER',
+    category: 'sentiment',
+    type: 'rule-based',
+    huggingFaceId: 'custom',
+    sizeMB: 0,
+    languages: []
+  },
+
+  // Sentiment neural models
+  {
+    id: 'multilingual-student',
+    displayName: 'Multilingual DistilBERT',
+    description: 'Compact multilingual sentiment model',
+    category: 'sentiment',
+    type: 'neural',
+    huggingFaceId: 'Xenova/distilbert-base-multilingual-cased-sentiments-student',
+    sourceId: 'lxyuan/distilbert-base-multilingual-cased-sentiments-student',
+    task: 'sentiment-analysis',
+    sizeMB: 132,
+    license: 'Apache 2.0',
+    url: 'https://huggingface.co/Xenova/distilbert-base-multilingual-cased-sentiments-student',
+    languages: ['en', 'es', 'fr', 'de', 'it', 'pt', 'nl', 'pl'],
+    speed: 'fast',
+    accuracy: 'good',
+    parameters: '68M',
+    architecture: 'DistilBERT',
+    trainingData: 'Multilingual sentiment data',
+    selectedByDefault: true
+  },
+  {
+    id: 'twitter-roberta',
+    displayName: 'Twitter RoBERTa',
+    description: 'RoBERTa fine-tuned on Twitter sentiment data',
+    category: 'sentiment',
+    type: 'neural',
+    huggingFaceId: 'Xenova/twitter-roberta-base-sentiment-latest',
+    sourceId: 'cardiffnlp/twitter-roberta-base-sentiment-latest',
+    task: 'sentiment-analysis',
+    sizeMB: 122,
+    license: 'MIT',
+    url: 'https://huggingface.co/Xenova/twitter-roberta-base-sentiment-latest',
+    languages: ['en'],
+    speed: 'medium',
+    accuracy: 'better',
+    parameters: '125M',
+    architecture: 'RoBERTa',
+    trainingData: 'Twitter sentiment data'
+  },
+  {
+    id: 'financial',
+    displayName: 'Financial DistilRoBERTa',
+    description: 'Specialized sentiment analysis for financial news',
+    category: 'sentiment',
+    type: 'neural',
+    huggingFaceId: 'Xenova/finbert',
+    sourceId: 'ProsusAI/finbert',
+    aliases: ['financial-sentiment'],
+    task: 'sentiment-analysis',
+    sizeMB: 106,
+    license: 'Apache 2.0',
+    url: 'https://huggingface.co/Xenova/finbert',
+    languages: ['en'],
+    speed: 'medium',
+    accuracy: 'better',
+    parameters: '82M',
+    architecture: 'DistilRoBERTa',
+    trainingData: 'Financial news sentiment data'
+  },
+  {
+    id: 'distilbert',
+    displayName: 'DistilBERT SST-2',
+    description: 'Fast and accurate sentiment analysis model',
+    category: 'sentiment',
+    type: 'neural',
+    huggingFaceId: 'Xenova/distilbert-base-uncased-finetuned-sst-2-english',
+    sourceId: 'distilbert-base-uncased-finetuned-sst-2-english',
+    aliases: ['distilbert-sst2'],
+    task: 'sentiment-analysis',
+    sizeMB: 65,
+    license: 'Apache 2.0',
+    url: 'https://huggingface.co/Xenova/distilbert-base-uncased-finetuned-sst-2-english',
+    languages: ['en'],
+    speed: 'fast',
+    accuracy: 'good',
+    parameters: '66M',
+    architecture: 'DistilBERT',
+    trainingData: 'Stanford Sentiment Treebank v2'
+  },
+  {
+    id: 'multilingual-sentiment',
+    displayName: 'Multilingual BERT',
+    description: 'Sentiment analysis for multiple languages',
+    category: 'sentiment',
+    type: 'neural',
+    huggingFaceId: 'Xenova/bert-base-multilingual-uncased-sentiment',
+    sourceId: 'nlptown/bert-base-multilingual-uncased-sentiment',
+    task: 'sentiment-analysis',
+    sizeMB: 170,
+    license: 'MIT',
+    url: 'https://huggingface.co/Xenova/bert-base-multilingual-uncased-sentiment',
+    languages: ['en', 'es', 'fr', 'de', 'it', 'nl'],
+    speed: 'slow',
+    accuracy: 'best',
+    parameters: '110M',
+    architecture: 'BERT',
+    trainingData: 'Multilingual product reviews',
+    hidden: true
+  },
+  {
+    id: 'financial-news',
+    displayName: 'Financial News DistilRoBERTa',
+    description: 'Sentiment analysis for financial news',
+    category: 'sentiment',
+    type: 'neural',
+    huggingFaceId: 'Xenova/distilroberta-finetuned-financial-news-sentiment-analysis',
+    sourceId: 'mrm8488/distilroberta-finetuned-financial-news-sentiment-analysis',
+    task: 'sentiment-analysis',
+    sizeMB: 82,
+    license: 'Apache 2.0',
+    url: 'https://huggingface.co/Xenova/distilroberta-finetuned-financial-news-sentiment-analysis',
+    languages: ['en'],
+    architecture: 'DistilRoBERTa',
+    trainingData: 'Financial PhraseBank',
+    hidden: true
+  },
+
+  // Classification models
+  {
+    id: 'go-emotions',
+    displayName: 'GoEmotions',
+    description: '28 emotions from Reddit comments',
+    category: 'classification',
+    type: 'neural',
+    huggingFaceId: 'SamLowe/roberta-base-go_emotions-onnx',
+    sourceId: 'SamLowe/roberta-base-go_emotions',
+    aliases: ['goemotions'],
+    domId: 'goemotions',
+    task: 'text-classification',
+    sizeMB: 122,
+    license: 'MIT',
+    url: 'https://huggingface.co/SamLowe/roberta-base-go_emotions-onnx',
+    languages: ['en'],
+    architecture: 'RoBERTa',
+    trainingData: 'GoEmotions (Reddit comments)',
+    selectedByDefault: true
+  },
+  {
+    id: 'jigsaw-toxicity',
+    displayName: 'Jigsaw Toxicity MiniLMv2',
+    description: 'Small multi-label toxicity classifier',
+    category: 'classification',
+    type: 'neural',
+    huggingFaceId: 'minuva/MiniLMv2-toxic-jigsaw-onnx',
+    sourceId: 'minuva/MiniLMv2-toxic-jigsaw',
+    task: 'text-classification',
+    // The only ONNX file is model_optimized_quantized.onnx, at the repo root
+    pipelineOverrides: { subfolder: '', model_file_name: 'model_optimized', dtype: 'q8' },
+    sizeMB: 22,
+    url: 'https://huggingface.co/minuva/MiniLMv2-toxic-jigsaw-onnx',
+    languages: ['en'],
+    architecture: 'MiniLMv2',
+    trainingData: 'Jigsaw toxic comments',
+    selectedByDefault: true
+  },
+  {
+    id: 'text-moderation',
+    displayName: 'KoalaAI Moderation',
+    selectorLabel: 'KoalaAI Content Moderation',
+    description: 'Content moderation categories (hate, harassment, violence, ...)',
+    category: 'classification',
+    type: 'neural',
+    huggingFaceId: 'KoalaAI/Text-Moderation',
+    aliases: ['koala-moderation'],
+    domId: 'koala-moderation',
+    task: 'text-classification',
+    labelMap: {
+      'S': 'Sexual',
+      'H': 'Hate',
+      'V': 'Violence',
+      'HR': 'Harassment',
+      'SH': 'Self-harm',
+      'S3': 'Sexual/minors',
+      'H2': 'Hate/threatening',
+      'V2': 'Violence/graphic',
+      'OK': 'Safe'
+    },
+    sizeMB: 140,
+    license: 'CodeML OpenRAIL-M 0.1',
+    url: 'https://huggingface.co/KoalaAI/Text-Moderation',
+    languages: ['en'],
+    architecture: 'DeBERTa-v3'
+  },
+  {
+    id: 'toxic-bert',
+    displayName: 'Toxic BERT',
+    description: 'Detects toxic/offensive content',
+    category: 'classification',
+    type: 'neural',
+    huggingFaceId: 'Xenova/toxic-bert',
+    sourceId: 'unitary/toxic-bert',
+    task: 'text-classification',
+    sizeMB: 106,
+    license: 'Apache 2.0',
+    url: 'https://huggingface.co/Xenova/toxic-bert',
+    languages: ['en'],
+    architecture: 'BERT',
+    trainingData: 'Jigsaw toxic comments'
+  },
+  {
+    id: 'iptc-news',
+    displayName: 'IPTC News',
+    selectorLabel: 'IPTC News Topics',
+    description: 'IPTC Media Topic categories for news text',
+    category: 'classification',
+    type: 'neural',
+    huggingFaceId: 'onnx-community/multilingual-IPTC-news-topic-classifier-ONNX',
+    sourceId: 'classla/multilingual-IPTC-news-topic-classifier',
+    task: 'text-classification',
+    sizeMB: 553,
+    license: 'CC BY-SA 4.0',
+    url: 'https://huggingface.co/onnx-community/multilingual-IPTC-news-topic-classifier-ONNX',
+    languages: ['en', 'sl', 'hr', 'ca', 'el'],
+    architecture: 'XLM-RoBERTa'
+  },
+  {
+    id: 'language-detection',
+    displayName: 'Language Detection',
+    description: 'Identifies 20 languages',
+    category: 'classification',
+    type: 'neural',
+    huggingFaceId: 'protectai/xlm-roberta-base-language-detection-onnx',
+    sourceId: 'papluca/xlm-roberta-base-language-detection',
+    task: 'text-classification',
+    // ONNX files are at the repo root, not in onnx/
+    pipelineOverrides: { subfolder: '', model_file_name: 'model', dtype: 'q8' },
+    sizeMB: 282,
+    url: 'https://huggingface.co/protectai/xlm-roberta-base-language-detection-onnx',
+    languages: ['ar', 'bg', 'de', 'el', 'en', 'es', 'fr', 'hi', 'it', 'ja', 'nl', 'pl', 'pt', 'ru', 'sw', 'th', 'tr', 'ur', 'vi', 'zh'],
+    architecture: 'XLM-RoBERTa'
+  },
+  {
+    id: 'industry-classification',
+    displayName: 'Industry Classification',
+    description: 'Industry sector of a business description',
+    category: 'classification',
+    type: 'neural',
+    huggingFaceId: 'sabatale/industry-classification-api-onnx',
+    task: 'text-classification',
+    sizeMB: 106,
+    url: 'https://huggingface.co/sabatale/industry-classification-api-onnx',
+    languages: ['en']
+  },
+  {
+    id: 'zero-shot',
+    displayName: 'Zero-Shot',
+    selectorLabel: 'Zero-Shot (your labels)',
+    description: 'Classifies into candidate labels you type in, using natural language inference',
+    category: 'classification',
+    type: 'neural',
+    huggingFaceId: 'Xenova/distilbert-base-uncased-mnli',
+    sourceId: 'typeform/distilbert-base-uncased-mnli',
+    task: 'zero-shot-classification',
+    sizeMB: 67,
+    url: 'https://huggingface.co/typeform/distilbert-base-uncased-mnli',
+    languages: ['en'],
+    architecture: 'DistilBERT',
+    trainingData: 'MultiNLI'
+  },
+  {
+    id: 'bert-emotion',
+    displayName: 'Emotion BERT',
+    description: 'Classifies emotions (joy, sadness, anger, etc.)',
+    category: 'classification',
+    type: 'neural',
+    huggingFaceId: 'Xenova/bert-base-uncased-emotion',
+    sourceId: 'bhadresh-savani/bert-base-uncased-emotion',
+    task: 'text-classification',
+    sizeMB: 110,
+    license: 'Apache 2.0',
+    url: 'https://huggingface.co/Xenova/bert-base-uncased-emotion',
+    languages: ['en'],
+    architecture: 'BERT',
+    hidden: true
+  },
+  {
+    id: 'distilbert-emotion',
+    displayName: 'DistilBERT Emotion',
+    description: 'Fast emotion classification',
+    category: 'classification',
+    type: 'neural',
+    huggingFaceId: 'Xenova/distilbert-base-uncased-emotion',
+    sourceId: 'bhadresh-savani/distilbert-base-uncased-emotion',
+    task: 'text-classification',
+    sizeMB: 67,
+    license: 'Apache 2.0',
+    url: 'https://huggingface.co/Xenova/distilbert-base-uncased-emotion',
+    languages: ['en'],
+    architecture: 'DistilBERT',
+    hidden: true
+  }
+];
+
+/**
+ * Look a model up by ID or one of its older aliases
+ */
+export function getManifestEntry(id: string): ModelManifestEntry | undefined {
+  return MODEL_MANIFEST.find(model => model.id === id || model.aliases?.includes(id));
+}
+
+export function getManifestEntryByHuggingFaceId(huggingFaceId: string): ModelManifestEntry | undefined {
+  return MODEL_MANIFEST.find(model => model.huggingFaceId === huggingFaceId);
+}
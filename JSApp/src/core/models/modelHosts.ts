@@ -0,0 +1,119 @@
+/**
+ * Where model files and the transformers.js runtime are downloaded from.
+ *
+ * Defaults to the Hugging Face Hub and jsDelivr. A deployment can point both at a
+ * mirror at build time (VITE_MODEL_HOST, VITE_RUNTIME_HOST) and users can override
+ * that in the model selector. Workers have no localStorage, so the page resolves
+ * the hosts and sends them along with each model load.
+ */
+
+export interface ModelHosts {
+  /** Serves "<repo>/resolve/main/<file>", like huggingface.co */
+  modelHost: string;
+  /** npm CDN layout: "<package>@<version>/dist/<file>", like cdn.jsdelivr.net/npm */
+  runtimeHost: string;
+}
+
+export const DEFAULT_MODEL_HOSTS: ModelHosts = {
+  modelHost: 'https://huggingface.co',
+  runtimeHost: 'https://cdn.jsdelivr.net/npm'
+};
+
+const STORAGE_KEY = 'sentimentomatic_model_hosts';
+
+// import.meta.env only exists in the Vite build, not under the Node CLI
+const buildEnv = (import.meta as { env?: Record<string, string | undefined> }).env;
+
+function normalizeHost(host: string | undefined): string {
+  return (host ?? '').trim().replace(/\/+$/, '');
+}
+
+/**
+ * Hosts the deployment was built with, before any user setting
+ */
+export function getBuildModelHosts(): ModelHosts {
+  return {
+    modelHost: normalizeHost(buildEnv?.VITE_MODEL_HOST) || DEFAULT_MODEL_HOSTS.modelHost,
+    runtimeHost: normalizeHost(buildEnv?.VITE_RUNTIME_HOST) || DEFAULT_MODEL_HOSTS.runtimeHost
+  };
+}
+
+function loadStoredHosts(): Partial<ModelHosts> {
+  if (typeof localStorage === 'undefined') return {};
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? JSON.parse(stored) as Partial<ModelHosts> : {};
+  } catch (error) {
+    console.warn('⚠️ Failed to read model hosts:', error);
+    return {};
+  }
+}
+
+export function getModelHosts(): ModelHosts {
+  const stored = loadStoredHosts();
+  const build = getBuildModelHosts();
+  return {
+    modelHost: normalizeHost(stored.modelHost) || build.modelHost,
+    runtimeHost: normalizeHost(stored.runtimeHost) || build.runtimeHost
+  };
+}
+
+/**
+ * Save the user's hosts; empty values fall back to the build-time defaults
+ */
+export function setModelHosts(hosts: Partial<ModelHosts>): ModelHosts {
+  const build = getBuildModelHosts();
+  const modelHost = normalizeHost(hosts.modelHost);
+  const runtimeHost = normalizeHost(hosts.runtimeHost);
+
+  for (const host of [modelHost, runtimeHost]) {
+    if (host && !/^https?:\/\//.test(host) && !host.startsWith('/')) {
+      throw new Error(`"${host}" is not an http(s) URL or a path on this site`);
+    }
+  }
+
+  const stored: Partial<ModelHosts> = {};
+  if (modelHost && modelHost !== build.modelHost) stored.modelHost = modelHost;
+  if (runtimeHost && runtimeHost !== build.runtimeHost) stored.runtimeHost = runtimeHost;
+
+  if (typeof localStorage !== 'undefined') {
+    if (Object.keys(stored).length > 0) {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(stored));
+    } else {
+      localStorage.removeItem(STORAGE_KEY);
+    }
+  }
+  return getModelHosts();
+}
+
+export function getModelHost(): string {
+  return getModelHosts().modelHost;
+}
+
+/**
+ * URL of a file in a model repo, e.g. ".../Xenova/distilbert.../resolve/main/config.json".
+ * transformers.js caches downloads under this URL, so cache checks must build it the same way.
+ */
+export function modelFileUrl(huggingFaceId: string, path: string, modelHost: string = getModelHost()): string {
+  return `${absoluteHost(modelHost)}/${huggingFaceId}/resolve/main/${path}`;
+}
+
+/**
+ * Host as an absolute URL; a path like "/models" is resolved against this site
+ */
+export function absoluteHost(host: string): string {
+  if (/^https?:\/\//.test(host) || typeof self === 'undefined' || !self.location) return host;
+  return new URL(host, self.location.origin).href.replace(/\/+$/, '');
+}
+
+/**
+ * transformers.js and onnxruntime-web URLs on a runtime host, used when the
+ * copies vendored into the build are missing
+ */
+export function runtimeUrls(runtimeHost: string, transformersVersion: string, ortVersion: string): { transformersUrl: string; ortBase: string } {
+  const base = absoluteHost(runtimeHost);
+  return {
+    transformersUrl: `${base}/@huggingface/transformers@${transformersVersion}/dist/transformers.min.js`,
+    ortBase: `${base}/onnxruntime-web@${ortVersion}/dist/`
+  };
+}
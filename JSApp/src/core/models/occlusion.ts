@@ -0,0 +1,97 @@
+/**
+ * Leave-one-token-out attributions for transformer predictions
+ *
+ * Each word or punctuation mark of a text is left out in turn and the shortened
+ * text is classified again. A token's attribution is how much the explained
+ * label's score drops without it: positive tokens pushed the model towards the
+ * label, negative ones pulled it away.
+ *
+ * Shared by the browser worker and the CLI's NodeModelRunner.
+ */
+
+import { runChunkedInference } from './textChunking';
+
+export interface TokenAttribution {
+  text: string;
+  /** Character offsets of the token in the explained text */
+  start: number;
+  end: number;
+  /** Label score on the full text minus the score without this token; null past the token limit */
+  attribution: number | null;
+}
+
+export interface TokenAttributions {
+  /** Label the attributions explain, as the model names it */
+  label: string;
+  /** Score of that label on the full text */
+  baseline: number;
+  tokens: TokenAttribution[];
+  /** Tokens past MAX_OCCLUDED_TOKENS that were not left out */
+  skipped: number;
+}
+
+// Every occluded token costs one more pass through the model
+export const MAX_OCCLUDED_TOKENS = 200;
+
+// Words (keeping inner apostrophes, as in "didn't") and single punctuation marks
+const TOKEN_PATTERN = /[\p{L}\p{N}]+(?:['’][\p{L}\p{N}]+)*|[^\s\p{L}\p{N}]/gu;
+
+/**
+ * Tokens that are left out one at a time, with their character offsets
+ */
+export function splitOcclusionTokens(text: string): Array<{ text: string; start: number; end: number }> {
+  return Array.from(text.matchAll(TOKEN_PATTERN), match => ({
+    text: match[0],
+    start: match.index ?? 0,
+    end: (match.index ?? 0) + match[0].length
+  }));
+}
+
+function withoutToken(text: string, start: number, end: number): string {
+  return (text.slice(0, start) + ' ' + text.slice(end)).replace(/\s+/g, ' ').trim();
+}
+
+function labelScore(labels: any[], label: string): number {
+  return labels.find(item => item.label === label)?.score ?? 0;
+}
+
+/**
+ * Attribute a classifier's score for one label to the tokens of a text.
+ * Explains the top label unless another one is given.
+ */
+export async function computeOcclusionAttributions(
+  classifier: any,
+  text: string,
+  label: string | undefined,
+  batchSize: number,
+  options: Record<string, any>
+): Promise<TokenAttributions> {
+  const tokens = splitOcclusionTokens(text);
+  const occluded = tokens.slice(0, MAX_OCCLUDED_TOKENS);
+
+  const [full, ...variants] = await runChunkedInference(
+    classifier,
+    [text, ...occluded.map(token => withoutToken(text, token.start, token.end))],
+    batchSize,
+    options
+  );
+
+  const target = label ?? full.labels.reduce(
+    (best: any, item: any) => (best === null || item.score > best.score ? item : best),
+    null
+  )?.label;
+  if (target === undefined) {
+    throw new Error('The model returned no labels to explain');
+  }
+
+  const baseline = labelScore(full.labels, target);
+  return {
+    label: target,
+    baseline,
+    tokens: tokens.map((token, index) => ({
+      ...token,
+      attribution: index < variants.length ? baseline - labelScore(variants[index].labels, target) : null
+    })),
+    skipped: tokens.length - occluded.length
+  };
+}
@@ -0,0 +1,40 @@
+/**
+ * Pipeline option overrides for models with non-standard ONNX file layouts.
+ * Shared by the browser worker and the Node CLI runner; built-in models
+ * declare theirs in the model manifest.
+ */
+
+import { getManifestEntryByHuggingFaceId } from './manifest';
+
+export interface PipelineOverrides {
+  subfolder?: string;
+  model_file_name?: string;
+  dtype?: string;
+}
+
+// transformers.js dtype suffixes: model_quantized.onnx is dtype q8, model_fp16.onnx is fp16, ...
+export const DTYPE_SUFFIXES: Array<[string, string]> = [
+  ['_quantized', 'q8'],
+  ['_int8', 'int8'],
+  ['_uint8', 'uint8'],
+  ['_fp16', 'fp16'],
+  ['_q4f16', 'q4f16'],
+  ['_q4', 'q4'],
+  ['_bnb4', 'bnb4']
+];
+
+export function getPipelineOverrides(huggingFaceId: string): PipelineOverrides | null {
+  return getManifestEntryByHuggingFaceId(huggingFaceId)?.pipelineOverrides ?? null;
+}
+
+/**
+ * Repo path of the ONNX file transformers.js loads with these overrides,
+ * e.g. "onnx/model_quantized.onnx" when there are none
+ */
+export function onnxFilePath(overrides?: PipelineOverrides | null): string {
+  const subfolder = overrides?.subfolder ?? 'onnx';
+  const fileName = overrides?.model_file_name ?? 'model';
+  const dtype = overrides?.dtype ?? 'q8';
+  const suffix = DTYPE_SUFFIXES.find(([, suffixDtype]) => suffixDtype === dtype)?.[0] ?? '';
+  return `${subfolder ? `${subfolder}/` : ''}${fileName}${suffix}.onnx`;
+}
@@ -1,96 +1,32 @@
 import type { ModelConfig, AnalyzerPreset } from './types';
+import { MODEL_MANIFEST, getManifestEntry, type ModelManifestEntry } from './manifest';
+import { getCustomModels } from './customModels';
 
-export const MODEL_REGISTRY: Record<string, ModelConfig> = {
-  'distilbert-sst2': {
-    id: 'distilbert-sst2',
-    name: 'DistilBERT SST-2',
-    description: 'Fast and accurate sentiment analysis model',
+function toModelConfig(model: ModelManifestEntry): ModelConfig {
+  return {
+    id: model.id,
+    name: model.displayName,
+    description: model.description,
     provider: 'transformers',
-    size: '250MB',
-    speed: 'fast',
-    accuracy: 'good',
-    languages: ['en'],
-    huggingFaceId: 'Xenova/distilbert-base-uncased-finetuned-sst-2-english',
-    metadata: {
-      parameters: '66M',
-      architecture: 'DistilBERT',
-      trainingData: 'Stanford Sentiment Treebank v2',
-      license: 'Apache 2.0'
-    }
-  },
-  
-  'twitter-roberta': {
-    id: 'twitter-roberta',
-    name: 'Twitter RoBERTa',
-    description: 'RoBERTa fine-tuned on Twitter sentiment data',
-    provider: 'transformers',
-    size: '500MB',
-    speed: 'medium',
-    accuracy: 'better',
-    languages: ['en'],
-    huggingFaceId: 'Xenova/twitter-roberta-base-sentiment-latest',
-    metadata: {
-      parameters: '125M',
-      architecture: 'RoBERTa',
-      trainingData: 'Twitter sentiment data',
-      license: 'MIT'
-    }
-  },
-  
-  'financial-sentiment': {
-    id: 'financial-sentiment',
-    name: 'Financial DistilRoBERTa',
-    description: 'Specialized sentiment analysis for financial news',
-    provider: 'transformers',
-    size: '350MB',
-    speed: 'medium',
-    accuracy: 'better',
-    languages: ['en'],
-    huggingFaceId: 'Xenova/finbert',
-    metadata: {
-      parameters: '82M',
-      architecture: 'DistilRoBERTa',
-      trainingData: 'Financial news sentiment data',
-      license: 'Apache 2.0'
-    }
-  },
-  
-  'multilingual-sentiment': {
-    id: 'multilingual-sentiment',
-    name: 'Multilingual BERT',
-    description: 'Sentiment analysis for multiple languages',
-    provider: 'transformers',
-    size: '680MB',
-    speed: 'slow',
-    accuracy: 'best',
-    languages: ['en', 'es', 'fr', 'de', 'it', 'pt'],
-    huggingFaceId: 'Xenova/bert-base-multilingual-uncased-sentiment',
-    metadata: {
-      parameters: '110M',
-      architecture: 'BERT',
-      trainingData: 'Multilingual product reviews',
-      license: 'Apache 2.0'
-    }
-  },
-  
-  'multilingual-student': {
-    id: 'multilingual-student',
-    name: 'Multilingual DistilBERT',
-    description: 'Compact multilingual sentiment model',
-    provider: 'transformers',
-    size: '280MB',
-    speed: 'fast',
-    accuracy: 'good',
-    languages: ['en', 'es', 'fr', 'de', 'it', 'pt', 'nl', 'pl'],
-    huggingFaceId: 'Xenova/distilbert-base-multilingual-cased-sentiments-student',
+    size: `${model.sizeMB}MB`,
+    speed: model.speed ?? (model.sizeMB < 100 ? 'fast' : model.sizeMB < 300 ? 'medium' : 'slow'),
+    accuracy: model.accuracy ?? 'good',
+    languages: model.languages,
+    huggingFaceId: model.huggingFaceId,
     metadata: {
-      parameters: '68M',
-      architecture: 'DistilBERT',
-      trainingData: 'Multilingual sentiment data',
-      license: 'Apache 2.0'
+      parameters: model.parameters,
+      architecture: model.architecture,
+      trainingData: model.trainingData,
+      license: model.license
     }
-  }
-};
+  };
+}
+
+export const MODEL_REGISTRY: Record<string, ModelConfig> = Object.fromEntries(
+  MODEL_MANIFEST
+    .filter(model => model.type === 'neural')
+    .map(model => [model.id, toModelConfig(model)])
+);
 
 export const ANALYZER_PRESETS: Record<string, AnalyzerPreset> = {
   'fast': {
@@ -98,7 +34,7 @@ export const ANALYZER_PRESETS: Record<string, AnalyzerPreset> = {
     name: 'Fast & Light',
     description: 'Quick analysis with minimal resource usage',
     models: {
-      transformers: 'distilbert-sst2'
+      transformers: 'distilbert'
     },
     performance: {
       speed: 'fast',
@@ -112,7 +48,7 @@ export const ANALYZER_PRESETS: Record<string, AnalyzerPreset> = {
     name: 'Specialized',
     description: 'Financial domain specialized model',
     models: {
-      transformers: 'financial-sentiment'
+      transformers: 'financial'
     },
     performance: {
       speed: 'medium',
@@ -137,7 +73,28 @@ export const ANALYZER_PRESETS: Record<string, AnalyzerPreset> = {
 };
 
 export function getModelConfig(modelId: string): ModelConfig | undefined {
-  return MODEL_REGISTRY[modelId];
+  const model = getManifestEntry(modelId);
+  if (model) {
+    return MODEL_REGISTRY[model.id];
+  }
+
+  // Models added in this browser: Hugging Face repos, or folders loaded from disk
+  const custom = getCustomModels().find(customModel => customModel.id === modelId);
+  return custom && {
+    id: custom.id,
+    name: custom.displayName,
+    description: custom.localPath ? 'Model loaded from a local folder' : 'Custom Hugging Face model',
+    provider: custom.localPath ? 'local' : 'transformers',
+    size: custom.sizeMB ? `${custom.sizeMB}MB` : 'unknown',
+    speed: 'medium',
+    accuracy: 'good',
+    languages: [],
+    huggingFaceId: custom.huggingFaceId,
+    localPath: custom.localPath,
+    task: custom.task,
+    pipelineOverrides: custom.pipelineOverrides,
+    metadata: {}
+  };
 }
 
 export function getPreset(presetId: string): AnalyzerPreset | undefined {
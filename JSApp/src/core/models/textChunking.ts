@@ -0,0 +1,158 @@
+/**
+ * Token-aware chunking for texts longer than a model's input limit
+ *
+ * Transformer pipelines silently truncate at the model's maximum sequence
+ * length (usually 512 tokens). Long texts are instead split into overlapping
+ * token windows, each window is classified, and the label scores are averaged
+ * back together weighted by window length.
+ *
+ * Shared by the browser worker and the CLI's NodeModelRunner.
+ */
+
+export interface ChunkingInfo {
+  /** Windows the text was split into (1 = fitted in a single pass) */
+  chunkCount: number;
+  /** Tokens in the text without special tokens; null if the pipeline has no tokenizer */
+  tokenCount: number | null;
+  /** Usable tokens per window after the model's special tokens and any reserved ones */
+  maxTokens: number;
+  /** True when a single pass would have cut the text off */
+  wouldTruncate: boolean;
+}
+
+export interface InferenceOutput {
+  /** Label scores for the whole text, aggregated across chunks */
+  labels: any[];
+  chunking: ChunkingInfo;
+}
+
+export interface ChunkedInferenceOptions {
+  /** Tokens the pipeline adds to every input itself; defaults to the pipeline's reservedTokens */
+  reservedTokens?: number;
+  /** Called after each pipeline batch of windows */
+  onBatch?: (doneWindows: number, totalWindows: number) => void;
+}
+
+// Used when the tokenizer reports no limit (or the "unlimited" sentinel)
+const DEFAULT_MODEL_MAX_LENGTH = 512;
+const MAX_SANE_MODEL_LENGTH = 100000;
+
+// Tokens shared by neighbouring windows so sentences cut at a boundary keep context
+const WINDOW_OVERLAP_TOKENS = 64;
+
+interface TokenWindows {
+  chunks: string[];
+  weights: number[];
+  chunking: ChunkingInfo;
+}
+
+/**
+ * Split one text into overlapping windows that each fit the model.
+ * reservedTokens are kept free in every window for input the pipeline adds
+ * itself, such as a zero-shot hypothesis.
+ */
+export function splitIntoTokenWindows(tokenizer: any, text: string, reservedTokens: number = 0): TokenWindows {
+  if (!tokenizer || typeof tokenizer.encode !== 'function') {
+    return {
+      chunks: [text],
+      weights: [1],
+      chunking: { chunkCount: 1, tokenCount: null, maxTokens: DEFAULT_MODEL_MAX_LENGTH, wouldTruncate: false }
+    };
+  }
+
+  const reportedMax = Number(tokenizer.model_max_length);
+  const modelMaxLength = reportedMax > 0 && reportedMax < MAX_SANE_MODEL_LENGTH ? reportedMax : DEFAULT_MODEL_MAX_LENGTH;
+  // [CLS]/[SEP], <s>/</s> etc. are added to every window by the pipeline
+  const specialTokens = tokenizer.encode('').length;
+  const maxTokens = Math.max(1, modelMaxLength - specialTokens - reservedTokens);
+
+  const ids: number[] = tokenizer.encode(text, { add_special_tokens: false });
+  const tokenCount = ids.length;
+
+  if (tokenCount <= maxTokens) {
+    return {
+      chunks: [text],
+      weights: [Math.max(tokenCount, 1)],
+      chunking: { chunkCount: 1, tokenCount, maxTokens, wouldTruncate: false }
+    };
+  }
+
+  const overlap = Math.min(WINDOW_OVERLAP_TOKENS, Math.floor(maxTokens / 4));
+  const chunks: string[] = [];
+  const weights: number[] = [];
+
+  for (let start = 0; start < tokenCount; start = start + maxTokens - overlap) {
+    const end = Math.min(tokenCount, start + maxTokens);
+    chunks.push(tokenizer.decode(ids.slice(start, end), { skip_special_tokens: true }));
+    weights.push(end - start);
+    if (end === tokenCount) break;
+  }
+
+  return {
+    chunks,
+    weights,
+    chunking: { chunkCount: chunks.length, tokenCount, maxTokens, wouldTruncate: true }
+  };
+}
+
+/**
+ * Weighted mean of each label's score across chunk outputs, highest first
+ */
+export function aggregateChunkScores(outputs: any[][], weights: number[]): any[] {
+  if (outputs.length === 1) {
+    return outputs[0];
+  }
+
+  const totals = new Map<string, number>();
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0) || 1;
+
+  outputs.forEach((labels, index) => {
+    for (const { label, score } of labels) {
+      totals.set(label, (totals.get(label) ?? 0) + score * weights[index]);
+    }
+  });
+
+  return Array.from(totals, ([label, total]) => ({ label, score: total / totalWeight }))
+    .sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Classify texts of any length with a loaded text-classification pipeline.
+ * Chunks of all texts are batched together, then regrouped per text.
+ * Pipelines that add tokens to every input say how many in reservedTokens.
+ */
+export async function runChunkedInference(
+  pipeline: any,
+  texts: string[],
+  batchSize: number,
+  options: Record<string, any>,
+  { reservedTokens = pipeline.reservedTokens ?? 0, onBatch }: ChunkedInferenceOptions = {}
+): Promise<InferenceOutput[]> {
+  const windows = texts.map(text => splitIntoTokenWindows(pipeline.tokenizer, text, reservedTokens));
+  const allChunks = windows.flatMap(window => window.chunks);
+
+  const size = Math.max(1, Math.floor(batchSize));
+  const chunkOutputs: any[][] = [];
+
+  for (let start = 0; start < allChunks.length; start += size) {
+    const batch = allChunks.slice(start, start + size);
+    const output = await pipeline(batch, options);
+
+    // Normally one label list per text; older builds unwrap a single-text batch
+    const perText: any[] = Array.isArray(output?.[0])
+      ? output
+      : batch.length === 1 ? [output] : output.map((textOutput: any) => [textOutput]);
+    chunkOutputs.push(...perText);
+    onBatch?.(Math.min(start + size, allChunks.length), allChunks.length);
+  }
+
+  let offset = 0;
+  return windows.map(window => {
+    const outputs = chunkOutputs.slice(offset, offset + window.chunks.length);
+    offset += window.chunks.length;
+    return {
+      labels: aggregateChunkScores(outputs, window.weights),
+      chunking: window.chunking
+    };
+  });
+}
@@ -1,3 +1,5 @@
+import type { PipelineOverrides } from './pipelineOptions';
+
 export interface ModelConfig {
   id: string;
   name: string;
@@ -9,7 +11,10 @@ export interface ModelConfig {
   languages: string[];
   huggingFaceId?: string;
   apiEndpoint?: string;
+  /** Model folder in the origin private file system (provider 'local') */
   localPath?: string;
+  task?: string;
+  pipelineOverrides?: PipelineOverrides;
   metadata: {
     parameters?: string;
     architecture?: string;
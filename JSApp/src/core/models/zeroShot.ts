@@ -0,0 +1,94 @@
+/**
+ * Zero-shot classification with candidate labels the user types in
+ *
+ * An NLI model scores "This example is {label}." against each text, so any
+ * label set works without training. The zero-shot pipeline's
+ * { labels, scores } output is reshaped into the [{ label, score }] list a
+ * text-classification pipeline returns, which lets chunking, batching and the
+ * classification columns treat it like any other classifier.
+ *
+ * Shared by the browser worker and the CLI's NodeModelRunner.
+ */
+
+export interface ZeroShotConfig {
+  candidateLabels: string[];
+  /** Score each label independently instead of one softmax across all labels */
+  multiLabel: boolean;
+  /** "{}" is replaced by each label */
+  hypothesisTemplate?: string;
+}
+
+export const DEFAULT_HYPOTHESIS_TEMPLATE = 'This example is {}.';
+
+const STORAGE_KEY = 'sentimentomatic_zero_shot';
+
+/**
+ * Labels from "billing, shipping, product quality" or one per line, without duplicates
+ */
+export function parseCandidateLabels(input: string): string[] {
+  const labels = input.split(/[,\n]/).map(label => label.trim().replace(/\s+/g, ' ')).filter(Boolean);
+  return Array.from(new Set(labels));
+}
+
+export function loadZeroShotConfig(): ZeroShotConfig {
+  const empty: ZeroShotConfig = { candidateLabels: [], multiLabel: false };
+  if (typeof localStorage === 'undefined') return empty;
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? { ...empty, ...JSON.parse(stored) as ZeroShotConfig } : empty;
+  } catch (error) {
+    console.warn('⚠️ Failed to read zero-shot labels:', error);
+    return empty;
+  }
+}
+
+export function saveZeroShotConfig(config: ZeroShotConfig): void {
+  if (typeof localStorage === 'undefined') return;
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(config));
+  } catch (error) {
+    console.warn('⚠️ Failed to save zero-shot labels:', error);
+  }
+}
+
+/**
+ * Checked when the model loads, so a missing label set fails the whole column with a clear message
+ */
+export function checkZeroShotConfig(config: ZeroShotConfig): void {
+  if (config.candidateLabels.length === 0) {
+    throw new Error('Zero-shot classification needs at least one candidate label');
+  }
+}
+
+/**
+ * Tokens the longest hypothesis adds to every input, pair separators included
+ */
+export function hypothesisTokenCount(tokenizer: any, config: ZeroShotConfig): number {
+  if (!tokenizer || typeof tokenizer.encode !== 'function') return 0;
+  const template = config.hypothesisTemplate || DEFAULT_HYPOTHESIS_TEMPLATE;
+  const specialTokens = tokenizer.encode('').length;
+  return Math.max(0, ...config.candidateLabels.map(label =>
+    tokenizer.encode('', { text_pair: template.replace('{}', label) }).length - specialTokens
+  ));
+}
+
+/**
+ * Wrap a loaded zero-shot-classification pipeline so it can be called like a
+ * text-classification one: (texts) → one [{ label, score }] list per text
+ */
+export function asTextClassifier(pipeline: any, config: ZeroShotConfig): any {
+  const classify = async (texts: string[]) => {
+    const output = await pipeline(texts, config.candidateLabels, {
+      multi_label: config.multiLabel,
+      hypothesis_template: config.hypothesisTemplate || DEFAULT_HYPOTHESIS_TEMPLATE
+    });
+    const perText: Array<{ labels: string[]; scores: number[] }> = Array.isArray(output) ? output : [output];
+    return perText.map(({ labels, scores }) => labels.map((label, index) => ({ label, score: scores[index] })));
+  };
+
+  // Token windows are sized with the NLI model's tokenizer, leaving room for the hypothesis
+  return Object.assign(classify, {
+    tokenizer: pipeline.tokenizer,
+    reservedTokens: hypothesisTokenCount(pipeline.tokenizer, config)
+  });
+}
@@ -0,0 +1,24 @@
+/// <reference lib="webworker" />
+
+// Local model writer - copies a model folder into OPFS from a worker
+// Safari only lets workers write OPFS files (through sync access handles)
+
+import { writeLocalModelFolder, type LocalModelFile } from '../models/localModels';
+
+self.addEventListener('message', async (event) => {
+  const { type, payload } = event.data;
+
+  try {
+    if (type !== 'SAVE_FOLDER') {
+      throw new Error(`Unknown message type: ${type}`);
+    }
+    const { path, files } = payload as { path: string; files: LocalModelFile[] };
+    await writeLocalModelFolder(path, files);
+    self.postMessage({ type: 'FOLDER_SAVED' });
+  } catch (error) {
+    self.postMessage({
+      type: 'ERROR',
+      error: error instanceof Error ? error.message : String(error)
+    });
+  }
+});
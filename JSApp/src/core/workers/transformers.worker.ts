@@ -3,9 +3,18 @@
 // Transformers.js Worker - runs models in isolated context
 // Terminating this worker completely frees all memory
 
+import { getPipelineOverrides, onnxFilePath, type PipelineOverrides } from '../models/pipelineOptions';
+import { runChunkedInference } from '../models/textChunking';
+import { computeOcclusionAttributions } from '../models/occlusion';
+import { LOCAL_MODEL_URL_PREFIX, serveLocalModelFiles } from '../models/localModels';
+import { asTextClassifier, checkZeroShotConfig, type ZeroShotConfig } from '../models/zeroShot';
+import { getModelHosts, modelFileUrl, absoluteHost, runtimeUrls, type ModelHosts } from '../models/modelHosts';
+
 let transformersModule: any = null;
 let onWebKit = false;
 const loadedPipelines = new Map<string, any>();
+// Candidate labels of zero-shot models, replaced on every load so label edits apply to cached pipelines
+const zeroShotConfigs = new Map<string, ZeroShotConfig>();
 
 // Detect WebKit Safari (macOS, iPadOS, iOS).
 // iPadOS 13+ mimics a Mac UA, so we can't distinguish it from macOS Safari —
@@ -32,6 +41,14 @@ self.addEventListener('message', async (event) => {
         await handleRunInference(payload);
         break;
 
+      case 'RUN_INFERENCE_BATCH':
+        await handleRunInferenceBatch(payload);
+        break;
+
+      case 'EXPLAIN':
+        await handleExplain(payload);
+        break;
+
       case 'DISPOSE_MODEL':
         await handleDisposeModel(payload);
         break;
@@ -58,8 +75,18 @@ async function handleLoadModel(payload: {
   modelId: string;
   huggingFaceId: string;
   task?: string;
+  overrides?: PipelineOverrides;
+  localPath?: string;
+  hosts?: ModelHosts;
+  zeroShot?: ZeroShotConfig;
 }) {
-  const { modelId, huggingFaceId, task = 'text-classification' } = payload;
+  const { modelId, huggingFaceId, task = 'text-classification', localPath, zeroShot } = payload;
+  const hosts = payload.hosts ?? getModelHosts();
+
+  if (zeroShot) {
+    checkZeroShotConfig(zeroShot);
+    zeroShotConfigs.set(modelId, zeroShot);
+  }
 
   // Load transformers.js if not already loaded
   if (!transformersModule) {
@@ -80,12 +107,9 @@ async function handleLoadModel(payload: {
     const vendorTransformersUrl = onWebKit
       ? `${vendorBase}transformers/3.1.1/transformers.min.js`
       : `${vendorBase}transformers/3.7.3/transformers.min.js`;
-    const cdnTransformersUrl = onWebKit
-      ? 'https://cdn.jsdelivr.net/npm/@huggingface/transformers@3.1.1/dist/transformers.min.js'
-      : 'https://cdn.jsdelivr.net/npm/@huggingface/transformers@3.7.3/dist/transformers.min.js';
     const ortVersion = onWebKit ? '1.20.1' : '1.22.0-dev.20250409-89f8206ba4';
     const vendorOrtBase = `${vendorBase}onnxruntime-web/${ortVersion}/dist/`;
-    const cdnOrtBase = `https://cdn.jsdelivr.net/npm/onnxruntime-web@${ortVersion}/dist/`;
+    const cdn = runtimeUrls(hosts.runtimeHost, onWebKit ? '3.1.1' : '3.7.3', ortVersion);
 
     let transformersUrl = vendorTransformersUrl;
     let ortBase = vendorOrtBase;
@@ -93,9 +117,9 @@ async function handleLoadModel(payload: {
       console.log(`[Worker] Loading transformers.js from vendor (${onWebKit ? 'v3.1.1 ORT-1.20.1 WebKit-safe' : 'v3.7.3'})...`);
       transformersModule = await import(/* @vite-ignore */ transformersUrl);
     } catch (error) {
-      transformersUrl = cdnTransformersUrl;
-      ortBase = cdnOrtBase;
-      console.warn('[Worker] Vendor transformers.js not found, falling back to CDN:', error);
+      transformersUrl = cdn.transformersUrl;
+      ortBase = cdn.ortBase;
+      console.warn(`[Worker] Vendor transformers.js not found, falling back to ${hosts.runtimeHost}:`, error);
       transformersModule = await import(/* @vite-ignore */ transformersUrl);
     }
 
@@ -125,12 +149,15 @@ async function handleLoadModel(payload: {
   }
 
   // Load the model
-  const { pipeline } = transformersModule;
+  const { pipeline, env } = transformersModule;
+
+  // The host can change between loads from the model selector settings
+  env.remoteHost = `${absoluteHost(hosts.modelHost)}/`;
 
   console.log(`[Worker] Loading model ${modelId} (${huggingFaceId})...`);
 
   // Special handling for models with non-standard file structures
-  let modelPath = huggingFaceId;
+  let modelPath = localPath ?? huggingFaceId;
   let options: any = {
     quantized: true,
     progress_callback: (data: any) => {
@@ -147,57 +174,53 @@ async function handleLoadModel(payload: {
     }
   };
 
-  // Handle models with non-standard ONNX file locations
-  // These models have their ONNX files in root directory, not in /onnx/ subdirectory
-  if (huggingFaceId === 'protectai/xlm-roberta-base-language-detection-onnx') {
-    // This model has files in root, not in /onnx/
-    // File is model_quantized.onnx
-    options.subfolder = '';  // Override the default 'onnx' subfolder
-    options.model_file_name = 'model';  // Base name without _quantized
-    options.dtype = 'q8';  // This will add _quantized suffix to make model_quantized.onnx
-    console.log(`[Worker] Overriding subfolder to root for ${huggingFaceId}`);
-  } else if (huggingFaceId === 'minuva/MiniLMv2-toxic-jigsaw-onnx') {
-    // This model has files in root with different naming
-    // File is actually model_optimized_quantized.onnx (not model_quantized.onnx)
-    options.subfolder = '';  // Override the default 'onnx' subfolder
-    options.model_file_name = 'model_optimized';  // Base name without _quantized
-    options.dtype = 'q8';  // This will add _quantized suffix to make model_optimized_quantized.onnx
-    console.log(`[Worker] Overriding subfolder and filename for ${huggingFaceId}`);
+  // Handle models with non-standard ONNX file locations (user-added models bring their own)
+  const overrides = payload.overrides ?? getPipelineOverrides(huggingFaceId);
+  if (overrides) {
+    options = { ...options, ...overrides };
+    console.log(`[Worker] Overriding ONNX file location for ${huggingFaceId}`);
   }
 
-  // Safety-net fetch redirects for non-standard ONNX file layouts on WebKit.
-  // v3.1.1 should handle subfolder/dtype natively; these are a no-op if it does.
-  const needsFetchRedirect = onWebKit && (
-    huggingFaceId === 'minuva/MiniLMv2-toxic-jigsaw-onnx' ||
-    huggingFaceId === 'protectai/xlm-roberta-base-language-detection-onnx'
-  );
-  const origFetch = needsFetchRedirect ? self.fetch : null;
+  // Safety-net fetch redirect for non-standard ONNX file layouts on WebKit.
+  // v3.1.1 should handle subfolder/dtype natively; this is a no-op if it does.
+  const origFetch = onWebKit && overrides && !localPath ? self.fetch : null;
   if (origFetch) {
+    const actualFile = modelFileUrl(huggingFaceId, onnxFilePath(overrides), hosts.modelHost);
     (self as any).fetch = (input: any, init?: any) => {
       const url = typeof input === 'string' ? input : '';
 
-      // Jigsaw: actual file is model_optimized_quantized.onnx at root level
-      if (url.includes('minuva/MiniLMv2-toxic-jigsaw-onnx') && url.includes('.onnx')) {
-        console.log('[Worker] Redirecting Jigsaw ONNX → model_optimized_quantized.onnx');
-        return origFetch('https://huggingface.co/minuva/MiniLMv2-toxic-jigsaw-onnx/resolve/main/model_optimized_quantized.onnx', init);
-      }
-
-      // protectai: ONNX files are at root, not in /onnx/ subdirectory
-      if (url.includes('protectai/xlm-roberta-base-language-detection-onnx') && url.includes('/onnx/')) {
-        const newUrl = url.replace('/onnx/', '/');
-        console.log(`[Worker] Redirecting protectai ONNX: /onnx/ → root`);
-        return origFetch(newUrl, init);
+      if (url.includes(`${huggingFaceId}/`) && url.endsWith('.onnx') && url !== actualFile) {
+        console.log(`[Worker] Redirecting ONNX request → ${actualFile}`);
+        return origFetch(actualFile, init);
       }
 
       return origFetch(input, init);
     };
   }
 
+  // Models loaded from a local folder are read from OPFS and never touch the network
+  let restoreFetch: (() => void) | null = null;
+  if (localPath) {
+    env.allowLocalModels = true;
+    env.allowRemoteModels = false;
+    env.localModelPath = LOCAL_MODEL_URL_PREFIX;
+    env.useBrowserCache = false;
+    options = { ...options, local_files_only: true };
+    restoreFetch = serveLocalModelFiles(self);
+    console.log(`[Worker] Loading ${modelId} from local folder ${localPath}`);
+  }
+
   let pipelineInstance: any;
   try {
     pipelineInstance = await pipeline(task, modelPath, options);
   } finally {
     if (origFetch) (self as any).fetch = origFetch;
+    if (restoreFetch) {
+      restoreFetch();
+      env.allowLocalModels = false;
+      env.allowRemoteModels = true;
+      env.useBrowserCache = true;
+    }
   }
 
   loadedPipelines.set(modelId, pipelineInstance);
@@ -208,19 +231,28 @@ async function handleLoadModel(payload: {
   });
 }
 
+/**
+ * Loaded pipeline, wrapped to return text-classification output for zero-shot models
+ */
+function classifierFor(modelId: string): any {
+  const pipeline = loadedPipelines.get(modelId);
+  if (!pipeline) {
+    throw new Error(`Model ${modelId} not loaded`);
+  }
+  const zeroShot = zeroShotConfigs.get(modelId);
+  return zeroShot ? asTextClassifier(pipeline, zeroShot) : pipeline;
+}
+
 async function handleRunInference(payload: {
   modelId: string;
   text: string;
 }) {
   const { modelId, text } = payload;
 
-  const pipeline = loadedPipelines.get(modelId);
-  if (!pipeline) {
-    throw new Error(`Model ${modelId} not loaded`);
-  }
+  const pipeline = classifierFor(modelId);
 
-  // Run inference
-  const result = await pipeline(text, {
+  // Run inference, in token windows if the text is longer than the model accepts
+  const [output] = await runChunkedInference(pipeline, [text], 1, {
     top_k: null,  // Return all classes
     return_all_scores: true
   });
@@ -229,7 +261,67 @@ async function handleRunInference(payload: {
     type: 'INFERENCE_RESULT',
     payload: {
       modelId,
-      result: Array.isArray(result) ? result : [result]
+      result: output.labels,
+      chunking: output.chunking
+    }
+  });
+}
+
+async function handleRunInferenceBatch(payload: {
+  requestId: string;
+  modelId: string;
+  texts: string[];
+  batchSize?: number;
+}) {
+  const { requestId, modelId, texts, batchSize = 8 } = payload;
+
+  const pipeline = classifierFor(modelId);
+
+  // Long texts become several token windows; batches are filled with windows, not texts
+  const results = await runChunkedInference(pipeline, texts, batchSize, {
+    top_k: null,  // Return all classes
+    return_all_scores: true
+  }, {
+    // Lets the main thread's timeout follow the windows rather than the texts
+    onBatch: (done, total) => self.postMessage({
+      type: 'INFERENCE_BATCH_PROGRESS',
+      payload: { requestId, modelId, done, total }
+    })
+  });
+
+  self.postMessage({
+    type: 'INFERENCE_BATCH_RESULT',
+    payload: {
+      requestId,
+      modelId,
+      results
+    }
+  });
+}
+
+async function handleExplain(payload: {
+  requestId: string;
+  modelId: string;
+  text: string;
+  label?: string;
+  batchSize?: number;
+}) {
+  const { requestId, modelId, text, label, batchSize = 8 } = payload;
+
+  const pipeline = classifierFor(modelId);
+
+  // One pass for the full text plus one per left-out token
+  const explanation = await computeOcclusionAttributions(pipeline, text, label, batchSize, {
+    top_k: null,  // Return all classes
+    return_all_scores: true
+  });
+
+  self.postMessage({
+    type: 'EXPLANATION_RESULT',
+    payload: {
+      requestId,
+      modelId,
+      explanation
     }
   });
 }
@@ -246,6 +338,7 @@ async function handleDisposeModel(payload: { modelId: string }) {
 
     // Clear references
     loadedPipelines.delete(modelId);
+    zeroShotConfigs.delete(modelId);
 
     console.log(`[Worker] Disposed model ${modelId}`);
 
@@ -266,6 +359,7 @@ async function handleDisposeAll() {
   }
 
   loadedPipelines.clear();
+  zeroShotConfigs.clear();
   transformersModule = null;
 
   console.log('[Worker] All models disposed');
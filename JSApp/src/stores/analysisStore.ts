@@ -1,8 +1,26 @@
 import { defineStore } from 'pinia'
 import { ref, computed, onUnmounted } from 'vue'
 import type { MultiModalAnalysisResult } from '../core/analysis/AnalysisStrategy'
-import { AnalyzerRegistry } from '../core/analyzers'
+import { AfinnAnalyzer, AnalyzerRegistry, CustomLexiconAnalyzer, VaderAnalyzer } from '../core/analyzers'
 import { MultiModelAnalyzer } from '../core/analyzers/MultiModelAnalyzer'
+import { AnalysisEngine, type AnalysisProgressEvent } from '../core/analysis/AnalysisEngine'
+import { segmentDocuments, type AnalysisUnit } from '../core/analysis/DocumentAggregator'
+import { getDefaultWorkerPoolOptions, supportsParallelWorkers } from '../core/models/WorkerPool'
+import { extractAspectWindows, loadAspectConfig, saveAspectConfig, type AspectConfig } from '../core/analysis/AspectAnalysis'
+import { loadConsensusWeights, saveConsensusWeights, type ConsensusWeights } from '../core/analysis/Consensus'
+import { loadGoldLabels, saveGoldLabels, type GoldLabels } from '../core/analysis/GoldEvaluation'
+import { loadTimestamps, saveTimestamps, type Timestamps } from '../core/analysis/Timeline'
+import { loadPassthroughColumns, matchPassthrough, savePassthroughColumns, type PassthroughColumns } from '../core/analysis/Passthrough'
+import type { TokenAttributions } from '../core/models/occlusion'
+import { isDefaultSentimentThresholds, isThresholdAnalyzer } from '../core/analyzers/scoreThresholds'
+import {
+  CheckpointStore,
+  computeRunKey,
+  type CheckpointRun,
+  type CompletedCell,
+  type ModelScoringSettings,
+  type ScoringSettings
+} from '../core/analysis/CheckpointStore'
 import { useThemeStore } from './themeStore'
 
 export const useAnalysisStore = defineStore('analysis', () => {
@@ -11,18 +29,48 @@ export const useAnalysisStore = defineStore('analysis', () => {
   const text = ref('')
   const lines = computed(() => text.value.split('\n').filter(line => line.trim()))
   const isAnalyzing = ref(false)
+  const isPaused = ref(false)
+  const wasCancelled = ref(false)
   const progress = ref(0)
   const progressStatus = ref('')
   const currentResult = ref<MultiModalAnalysisResult | null>(null)
 
+  // Texts per worker inference message for neural models
+  const savedBatchSize = parseInt(localStorage.getItem('sentimentomatic_inference_batch_size') || '', 10)
+  const inferenceBatchSize = ref<number>(savedBatchSize > 0 ? savedBatchSize : 8)
+
+  // Unit of analysis: each line, or each sentence of each line rolled up per document
+  const analysisUnit = ref<AnalysisUnit>(
+    localStorage.getItem('sentimentomatic_analysis_unit') === 'sentence' ? 'sentence' : 'line'
+  )
+
+  // Aspect mode: terms whose surrounding words are scored in their own sub-columns
+  const aspectConfig = ref<AspectConfig>(loadAspectConfig())
+
+  // How much each sentiment column counts in the consensus column
+  const consensusWeights = ref<ConsensusWeights>(loadConsensusWeights())
+
+  // Human labels from an imported file that model columns are evaluated against
+  const goldLabels = ref<GoldLabels | null>(loadGoldLabels())
+
+  // Dates from an imported file that results are charted over
+  const timestamps = ref<Timestamps | null>(loadTimestamps())
+
+  // Other columns of an imported file (IDs, authors...) carried through to the results and exports
+  const passthroughColumns = ref<PassthroughColumns | null>(loadPassthroughColumns())
+
+  // Opt-in: run neural models side by side in a pool of workers (never on Safari/WebKit)
+  const canRunModelsInParallel = supportsParallelWorkers()
+  const parallelModels = ref<boolean>(
+    canRunModelsInParallel && localStorage.getItem('sentimentomatic_parallel_models') === 'true'
+  )
+
   // Timing state for tqdm-style progress
   const overallStartTime = ref<number>(0)
   const currentModelStartTime = ref<number>(0)
   const currentModelName = ref<string>('')
   const totalModels = ref<number>(0)
   const completedModels = ref<number>(0)
-  const totalUnits = ref<number>(0)
-  const completedUnits = ref<number>(0)
   const currentModelTotalLines = ref<number>(0)
   const currentModelProcessedLines = ref<number>(0)
   const now = ref<number>(Date.now()) // Reactive timestamp for computed properties
@@ -40,11 +88,17 @@ export const useAnalysisStore = defineStore('analysis', () => {
   let lastUpdateTime = 0
   const UPDATE_INTERVAL = 300 // Update every 300ms even with RAF
 
+  // Engine for the run in progress, so cancel/pause can reach it
+  let activeEngine: AnalysisEngine | null = null
+  let cancelRequested = false
+  let statusBeforePause = ''
+
   // Core analysis components (initialized once)
   const analyzerRegistry = new AnalyzerRegistry()
   const multiModelAnalyzer = new MultiModelAnalyzer(
     analyzerRegistry.getModelManager()
   )
+  const checkpointStore = new CheckpointStore()
   // Remove DOM-based controller - using Vue reactive state instead
 
   // Helper: Format milliseconds to MM:SS or HH:MM:SS
@@ -138,6 +192,47 @@ export const useAnalysisStore = defineStore('analysis', () => {
     text.value = newText
   }
 
+  function setInferenceBatchSize(size: number) {
+    const clamped = Math.min(64, Math.max(1, Math.floor(size) || 1))
+    inferenceBatchSize.value = clamped
+    localStorage.setItem('sentimentomatic_inference_batch_size', String(clamped))
+  }
+
+  function setAnalysisUnit(unit: AnalysisUnit) {
+    analysisUnit.value = unit
+    localStorage.setItem('sentimentomatic_analysis_unit', unit)
+  }
+
+  function setAspectConfig(config: AspectConfig) {
+    aspectConfig.value = config
+    saveAspectConfig(config)
+  }
+
+  function setConsensusWeights(weights: ConsensusWeights) {
+    consensusWeights.value = weights
+    saveConsensusWeights(weights)
+  }
+
+  function setGoldLabels(gold: GoldLabels | null) {
+    goldLabels.value = gold
+    saveGoldLabels(gold)
+  }
+
+  function setTimestamps(imported: Timestamps | null) {
+    timestamps.value = imported
+    saveTimestamps(imported)
+  }
+
+  function setPassthroughColumns(imported: PassthroughColumns | null) {
+    passthroughColumns.value = imported
+    savePassthroughColumns(imported)
+  }
+
+  function setParallelModels(enabled: boolean) {
+    parallelModels.value = enabled && canRunModelsInParallel
+    localStorage.setItem('sentimentomatic_parallel_models', String(parallelModels.value))
+  }
+
   function clearText() {
     text.value = ''
     currentResult.value = null
@@ -154,6 +249,9 @@ export const useAnalysisStore = defineStore('analysis', () => {
     }
 
     isAnalyzing.value = true
+    isPaused.value = false
+    wasCancelled.value = false
+    cancelRequested = false
     progress.value = 0
     progressStatus.value = themeStore.performanceMode
       ? 'The curtain rises... (Initializing analysis)'
@@ -162,18 +260,68 @@ export const useAnalysisStore = defineStore('analysis', () => {
     // 2.5 second theatrical delay before first model (to match slower curtain animation)
     await new Promise(resolve => setTimeout(resolve, 2500))
 
+    if (cancelRequested) {
+      isAnalyzing.value = false
+      isPaused.value = false
+      wasCancelled.value = true
+      progress.value = 0
+      progressStatus.value = 'Analysis cancelled before it started'
+      return currentResult.value
+    }
+
+    // Rows actually analyzed: the lines, or every sentence of every line
+    const unit = analysisUnit.value
+    const rows = unit === 'sentence' ? segmentDocuments(lines.value).sentences : lines.value
+    const rowCount = rows.length
+
+    // Aspect windows are analyzed by every model on top of the rows
+    const aspects = activeAspects()
+    const itemsPerModel = rowCount + (aspects ? extractAspectWindows(rows, aspects).length : 0)
+
+    // Pick up finished cells from an interrupted run of the same lines + models + settings
+    const scoring = scoringSettings(selectedRuleBasedAnalyzers, selectedHuggingFaceModels)
+    const runKey = computeRunKey(
+      lines.value,
+      [...selectedRuleBasedAnalyzers, ...selectedHuggingFaceModels],
+      unit,
+      aspects,
+      scoring
+    )
+    let completedCells: CompletedCell[] = []
+    let checkpointing = checkpointStore.isAvailable()
+    if (checkpointing) {
+      try {
+        completedCells = await checkpointStore.loadCells(runKey)
+        await checkpointStore.startRun({
+          runKey,
+          lines: [...lines.value],
+          ruleBasedAnalyzers: [...selectedRuleBasedAnalyzers],
+          huggingFaceModels: [...selectedHuggingFaceModels],
+          analysisUnit: unit,
+          aspects: aspects ?? { terms: [], windowWords: aspectConfig.value.windowWords },
+          scoring,
+          totalCells: itemsPerModel * (selectedRuleBasedAnalyzers.length + selectedHuggingFaceModels.length)
+        })
+        if (completedCells.length > 0) {
+          console.log(`♻️ Resuming from checkpoint: ${completedCells.length} results already done`)
+        }
+      } catch (error) {
+        console.warn('⚠️ Checkpoints unavailable, running without them:', error)
+        checkpointing = false
+        completedCells = []
+      }
+    }
+
     // Initialize timing
     overallStartTime.value = Date.now()
     now.value = Date.now()
     totalModels.value = selectedRuleBasedAnalyzers.length + selectedHuggingFaceModels.length
     completedModels.value = 0
-    totalUnits.value = totalModels.value * 3 // Each model has 3 units
-    completedUnits.value = 0
-    totalWorkItems.value = lines.value.length * totalModels.value // Total lines to process across all models
+    totalWorkItems.value = itemsPerModel * totalModels.value - completedCells.length // Lines left to process across all models
     completedWorkItems.value = 0
     currentModelStartTime.value = 0
     currentModelName.value = ''
-    currentModelTotalLines.value = lines.value.length
+    currentModelTotalLines.value = itemsPerModel
     currentModelProcessedLines.value = 0
     currentModelRate.value = 0
     overallRate.value = 0
@@ -183,330 +331,276 @@ export const useAnalysisStore = defineStore('analysis', () => {
     // Start RAF timing loop
     startTimingLoop()
 
-    // Initialize table structure with all lines upfront (like original)
-    const unifiedResults: any[] = []
-    for (let i = 0; i < lines.value.length; i++) {
-      unifiedResults.push({
-        lineIndex: i,
-        text: lines.value[i],
-        results: []
-      })
-    }
+    const engine = new AnalysisEngine(analyzerRegistry, multiModelAnalyzer)
+    activeEngine = engine
+    // Pause pressed during the opening delay
+    if (isPaused.value) engine.pause()
 
-    // CRITICAL: Create ALL columns upfront before analysis starts
-    const columns: Array<{name: string, type: 'sentiment' | 'classification', modelId?: string}> = []
+    engine.on('tableReady', ({ result }) => {
+      // All rows and columns exist before the first cell is analyzed
+      currentResult.value = result
+      onTableReady?.() // Signal table is ready for incremental updates
+    })
 
-    // Add rule-based analyzers to columns (always sentiment type)
-    for (const analyzer of selectedRuleBasedAnalyzers) {
-      columns.push({ name: analyzer.toUpperCase(), type: 'sentiment' })
-    }
+    // Models currently running; more than one when the worker pool is in use
+    const activeModelNames = new Map<string, string>()
 
-    // Add ML models to columns (with proper type based on model)
-    const CLASSIFICATION_MODELS = [
-      'GoEmotions',
-      'Jigsaw Toxicity MiniLMv2',
-      'KoalaAI Moderation',
-      'IPTC News',
-      'Language Detection',
-      'Toxic BERT',
-      'Industry Classification'
-    ]
-
-    for (const modelId of selectedHuggingFaceModels) {
-      const modelInfo = multiModelAnalyzer.getEnabledModels().get(modelId)
-      if (modelInfo) {
-        // Determine if this is a classification or sentiment model
-        const isClassification = CLASSIFICATION_MODELS.includes(modelInfo.displayName)
-        columns.push({
-          name: modelInfo.displayName,
-          type: isClassification ? 'classification' : 'sentiment',
-          modelId
-        })
+    engine.on('modelStarted', ({ modelId, modelName, lineCount }) => {
+      if (activeModelNames.size === 0) {
+        currentModelStartTime.value = Date.now()
+        currentModelTotalLines.value = lineCount
+        currentModelProcessedLines.value = 0
+      } else {
+        currentModelTotalLines.value += lineCount
       }
-    }
+      activeModelNames.set(modelId, modelName)
+      currentModelName.value = Array.from(activeModelNames.values()).join(' + ')
+    })
+
+    engine.on('cellResult', ({ lineIndex, column, cell }) => {
+      // Trigger reactivity for incremental update (cell appears immediately)
+      currentResult.value = { ...currentResult.value! }
+      currentModelProcessedLines.value++
+      completedWorkItems.value++
+
+      // Error cells are left out so a resumed run retries them
+      if (checkpointing && !cell.metadata?.error) {
+        checkpointStore.saveCell(runKey, { lineIndex, column: column.name, cell })
+      }
+    })
 
-    // Create result structure with ALL columns visible immediately
-    currentResult.value = {
-      type: 'multimodal' as const,
-      data: unifiedResults,
-      lines: lines.value, // Add lines array for export compatibility
-      columns // All columns created upfront
-    }
+    engine.on('modelFinished', ({ modelId, success }) => {
+      if (success) completedModels.value++
+      if (activeModelNames.delete(modelId) && activeModelNames.size > 0) {
+        currentModelName.value = Array.from(activeModelNames.values()).join(' + ')
+      }
+    })
 
-    onTableReady?.() // Signal table is ready for incremental updates
+    engine.on('progress', (event) => {
+      if (event.totalUnits > 0) {
+        progress.value = (event.completedUnits / event.totalUnits) * 100
+      }
+      const status = getProgressStatus(event)
+      if (status && !cancelRequested) {
+        // While paused, keep the pause message and show this one on resume
+        if (isPaused.value) {
+          statusBeforePause = status
+        } else {
+          progressStatus.value = status
+        }
+      }
+    })
 
     try {
-      // Simple progress: 3 units per model (download, load, process)
-      const totalModels = selectedRuleBasedAnalyzers.length + selectedHuggingFaceModels.length
-      const totalUnits = totalModels * 3
-      let localCompletedUnits = 0
-
-      // CRITICAL: Model type detection logic (EXACTLY like original)
-      const isClassificationResult = (metadata: any): boolean => {
-        // Check model type in metadata
-        if (metadata?.modelType) {
-          return metadata.modelType !== 'sentiment'
-        }
-        // Fallback: if there are multiple classes in fullRawOutput, it's classification
-        if (metadata?.fullRawOutput && Array.isArray(metadata.fullRawOutput)) {
-          return metadata.fullRawOutput.length > 3 // More than 3 classes = classification
+      return await engine.run(lines.value, {
+        selectedRuleBasedAnalyzers,
+        selectedHuggingFaceModels,
+        inferenceBatchSize: inferenceBatchSize.value,
+        clearCacheAfterEachModel: !keepModelsCached,
+        analysisUnit: unit,
+        aspects,
+        passthrough: passthroughColumns.value ? matchPassthrough(lines.value, passthroughColumns.value) : undefined,
+        workerPool: parallelModels.value ? getDefaultWorkerPoolOptions() : undefined,
+        completedCells
+      })
+    } finally {
+      if (checkpointing) {
+        await checkpointStore.flush()
+        // A finished run has nothing left to resume; cancelled runs keep their checkpoint
+        if (!engine.isCancelled()) {
+          await checkpointStore.deleteRun(runKey).catch(error => {
+            console.warn('⚠️ Failed to delete analysis checkpoint:', error)
+          })
         }
-        return false
       }
 
-      // Process ANALYZER BY ANALYZER (column-by-column, like original)
+      // Stop the RAF timing loop
+      stopTimingLoop()
 
-      // Initialize rule-based analyzers
-      for (const analyzer of selectedRuleBasedAnalyzers) {
-        await analyzerRegistry.initializeAnalyzer(analyzer)
+      activeEngine = null
+      isAnalyzing.value = false
+      isPaused.value = false
+
+      if (engine.isCancelled()) {
+        // Partial results stay in currentResult so they can still be exported
+        wasCancelled.value = true
+        progressStatus.value = themeStore.performanceMode
+          ? `The show was stopped early! (Analysis cancelled - ${completedWorkItems.value} of ${totalWorkItems.value} results kept)`
+          : `Analysis cancelled - ${completedWorkItems.value} of ${totalWorkItems.value} results kept`
+      } else {
+        progress.value = 100
+        progressStatus.value = themeStore.performanceMode
+          ? `Final curtain! All performers have taken their bow. (Analysis complete - ${lines.value.length} lines processed)`
+          : unit === 'sentence'
+            ? `Analysis complete - ${rowCount} sentences in ${lines.value.length} documents processed by ${totalModels.value} models`
+            : `Analysis complete - ${lines.value.length} lines processed by ${totalModels.value} models`
       }
+    }
+  }
 
-      // Process rule-based analyzers - ONE ANALYZER FOR ALL LINES
-      for (const analyzerName of selectedRuleBasedAnalyzers) {
-        const analyzerInstance = analyzerRegistry.getAnalyzer(analyzerName)
-        if (!analyzerInstance?.isReady()) continue
+  function pauseAnalysis() {
+    if (!isAnalyzing.value || isPaused.value || cancelRequested) return
 
-        // Start timing for this model
-        currentModelName.value = analyzerName.toUpperCase()
-        currentModelStartTime.value = Date.now()
-        currentModelProcessedLines.value = 0
+    isPaused.value = true
+    statusBeforePause = progressStatus.value
+    activeEngine?.pause()
+    stopTimingLoop()
+    progressStatus.value = themeStore.performanceMode
+      ? 'Intermission! (Paused - finishing the current text)'
+      : 'Paused - finishing the current text'
+  }
 
-        // Unit 1: Model "downloaded" (rule-based are instant)
-        localCompletedUnits++
-        completedUnits.value++
-        progress.value = (localCompletedUnits / totalUnits) * 100
-        progressStatus.value = themeStore.performanceMode
-          ? `${analyzerName.toUpperCase()} enters the stage (Loaded from cache)`
-          : `${analyzerName.toUpperCase()} loaded from cache`
+  function resumeAnalysis() {
+    if (!isPaused.value) return
 
-        // Unit 2: Model "loaded" (rule-based are instant)
-        localCompletedUnits++
-        completedUnits.value++
-        progress.value = (localCompletedUnits / totalUnits) * 100
-        progressStatus.value = themeStore.performanceMode
-          ? `${analyzerName.toUpperCase()} enters the stage (Loaded from cache)`
-          : `${analyzerName.toUpperCase()} loaded from cache`
+    isPaused.value = false
+    activeEngine?.resume()
+    progressStatus.value = statusBeforePause
+    if (activeEngine) startTimingLoop()
+  }
 
-        // Unit 3: Process all lines
-        progressStatus.value = themeStore.performanceMode
-          ? `NOW PERFORMING: ${analyzerName.toUpperCase()} (Processing ${lines.value.length} texts)`
-          : `Running ${analyzerName.toUpperCase()} on ${lines.value.length} texts...`
-
-        // Process this analyzer on ALL lines (fills column incrementally)
-        for (let lineIndex = 0; lineIndex < lines.value.length; lineIndex++) {
-          const text = lines.value[lineIndex]
-
-          try {
-            const result = await analyzerInstance.analyze(text)
-            const processedResult = Array.isArray(result) ? result[0] : result
-
-            const cellResult = {
-              analyzer: analyzerName.toUpperCase(),
-              type: 'sentiment' as const,
-              score: processedResult.score,
-              sentiment: processedResult.sentiment,
-              metadata: processedResult.metadata,
-              rawOutput: processedResult
-            }
-
-            // Add to unified results for this line
-            unifiedResults[lineIndex].results.push(cellResult)
-
-            // Trigger reactivity for incremental update (cell appears immediately)
-            currentResult.value = { ...currentResult.value }
-
-            // Small delay for visual effect of results streaming in
-            await new Promise(resolve => setTimeout(resolve, 15))
-
-          } catch (error) {
-            console.warn(`Failed to analyze with ${analyzerName} on line ${lineIndex + 1}:`, error)
-            const errorResult = {
-              analyzer: analyzerName.toUpperCase(),
-              type: 'sentiment' as const,
-              score: 0,
-              sentiment: 'neutral' as const,
-              metadata: { error: true },
-              rawOutput: { error: error instanceof Error ? error.message : 'Unknown error' }
-            }
-
-            unifiedResults[lineIndex].results.push(errorResult)
-            currentResult.value = { ...currentResult.value }
-          }
-
-          // Update line counter for timing
-          currentModelProcessedLines.value++
-          completedWorkItems.value++ // Increment overall work items
-        }
+  function cancelAnalysis() {
+    if (!isAnalyzing.value || cancelRequested) return
 
-        // Unit 3 complete - model finished
-        localCompletedUnits++
-        completedUnits.value++
-        completedModels.value++
-        progress.value = (localCompletedUnits / totalUnits) * 100
-      }
+    cancelRequested = true
+    isPaused.value = false
+    // Terminates the model worker; an in-flight inference is dropped
+    activeEngine?.cancel()
+    progressStatus.value = themeStore.performanceMode
+      ? 'Bringing down the curtain early... (Cancelling analysis)'
+      : 'Cancelling analysis...'
+  }
 
-      // Process ML models - ONE MODEL AT A TIME FOR ALL LINES
-      for (const modelId of selectedHuggingFaceModels) {
-        const modelInfo = multiModelAnalyzer.getEnabledModels().get(modelId)
-        if (!modelInfo) continue
-
-        try {
-          // Start timing for this model
-          currentModelName.value = modelInfo.displayName
-          currentModelStartTime.value = Date.now()
-          currentModelProcessedLines.value = 0
-
-          // Unit 1: Download/Create worker
-          progressStatus.value = themeStore.performanceMode
-            ? `${modelInfo.displayName} is arriving at the theater... (Creating web worker)`
-            : `Initializing ${modelInfo.displayName} worker...`
-          await multiModelAnalyzer.initializeWorker()
-          localCompletedUnits++
-          completedUnits.value++
-          progress.value = (localCompletedUnits / totalUnits) * 100
-
-          // Unit 2: Load model
-          progressStatus.value = themeStore.performanceMode
-            ? `${modelInfo.displayName} is getting into costume... (Downloading model)`
-            : `Loading ${modelInfo.displayName} model...`
-          await multiModelAnalyzer.initializeSingleModel(modelId)
-          localCompletedUnits++
-          completedUnits.value++
-          progress.value = (localCompletedUnits / totalUnits) * 100
-
-          // Unit 3: Process all lines
-          progressStatus.value = themeStore.performanceMode
-            ? `NOW PERFORMING: ${modelInfo.displayName} (Processing ${lines.value.length} texts)`
-            : `Running ${modelInfo.displayName} inference on ${lines.value.length} texts...`
-
-          for (let lineIndex = 0; lineIndex < lines.value.length; lineIndex++) {
-            const text = lines.value[lineIndex]
-
-            try {
-              const result = await multiModelAnalyzer.analyzeWithModel(text, modelId)
-              if (result) {
-                // CRITICAL: Determine if this is classification or sentiment (EXACTLY like original)
-                const isClassification = isClassificationResult(result.metadata)
-
-                if (isClassification) {
-                  // Update column type to classification if this is the first time we've seen this model
-                  const columnToUpdate = columns.find(col => col.modelId === modelId)
-                  if (columnToUpdate && columnToUpdate.type === 'sentiment') {
-                    columnToUpdate.type = 'classification'
-                    console.log(`📊 Updated column type for ${modelInfo.displayName} to 'classification'`)
-                  }
-
-                  // Handle as classification model (EXACTLY like original)
-                  const cellResult = {
-                    analyzer: result.analyzer,
-                    type: 'classification' as const,
-                    topClass: result.metadata?.topLabel || result.metadata?.rawPrediction?.label || 'Unknown',
-                    confidence: result.score, // Already 0-1 from our fix
-                    allClasses: result.metadata?.fullRawOutput?.reduce((acc: any, pred: any) => {
-                      acc[pred.label] = pred.score
-                      return acc
-                    }, {}) || {},
-                    metadata: result.metadata,
-                    rawOutput: result
-                  }
-
-                  // Add to unified results for this line
-                  unifiedResults[lineIndex].results.push(cellResult)
-                } else {
-                  // Handle as sentiment model (EXACTLY like original)
-                  const cellResult = {
-                    analyzer: result.analyzer,
-                    type: 'sentiment' as const,
-                    score: result.score,
-                    sentiment: result.sentiment,
-                    metadata: result.metadata,
-                    rawOutput: result
-                  }
-
-                  // Add to unified results for this line
-                  unifiedResults[lineIndex].results.push(cellResult)
-                }
-
-                // Trigger reactivity for incremental update (cell appears immediately)
-                currentResult.value = { ...currentResult.value }
-              }
-
-              // Small delay for visual effect of results streaming in
-              await new Promise(resolve => setTimeout(resolve, 15))
-            } catch (error) {
-              console.warn(`Model ${modelInfo.displayName} failed on line ${lineIndex + 1}:`, error)
-              const errorResult = {
-                analyzer: modelInfo.displayName,
-                type: 'classification' as const,
-                score: 0,
-                sentiment: 'neutral' as const,
-                topClass: 'ERROR',
-                confidence: 0,
-                metadata: { error: true, errorMessage: String(error) },
-                rawOutput: { error: error instanceof Error ? error.message : 'Unknown error' }
-              }
-
-              unifiedResults[lineIndex].results.push(errorResult)
-              currentResult.value = { ...currentResult.value }
-            }
-
-            // Update line counter for timing
-            currentModelProcessedLines.value++
-            completedWorkItems.value++ // Increment overall work items
-          }
-
-          // Unit 3 complete
-          localCompletedUnits++
-          completedUnits.value++
-          completedModels.value++
-          progress.value = (localCompletedUnits / totalUnits) * 100
-
-          // Cleanup: TERMINATE WORKER to completely free ALL memory for this model
-          progressStatus.value = themeStore.performanceMode
-            ? `Round of applause for ${modelInfo.displayName}! (Terminating worker to free memory)`
-            : `Cleaning up ${modelInfo.displayName} worker...`
-          await multiModelAnalyzer.terminateWorker()
-          console.log(`✅ Worker terminated - ALL memory freed for ${modelInfo.displayName}`)
-
-          // Clear browser cache if not keeping cached (optional)
-          if (!keepModelsCached) {
-            console.log(`🗑️ Clearing browser cache for ${modelInfo.displayName}...`)
-            // Cache clearing would go here if implemented
-          }
-
-        } catch (error) {
-          console.error(`❌ Failed to process model ${modelInfo.displayName}:`, error)
-          // ALWAYS terminate worker on error to free memory
-          try {
-            await multiModelAnalyzer.terminateWorker()
-            console.log(`🗑️ Terminated worker after error for ${modelInfo.displayName}`)
-          } catch (terminateError) {
-            console.warn(`⚠️ Failed to terminate worker for ${modelInfo.displayName}:`, terminateError)
-          }
-
-          // Still increment progress for failed model
-          localCompletedUnits++
-          completedUnits.value++
-          progress.value = (localCompletedUnits / totalUnits) * 100
-        }
-      }
+  // Status line for each engine phase, in plain or performance-mode wording
+  function getProgressStatus(event: AnalysisProgressEvent): string | null {
+    const name = event.modelName
+    const performance = themeStore.performanceMode
+
+    switch (event.phase) {
+      case 'loaded':
+        return performance
+          ? `${name} enters the stage (Loaded from cache)`
+          : `${name} loaded from cache`
+      case 'loading-worker':
+        return performance
+          ? `${name} is arriving at the theater... (Creating web worker)`
+          : `Initializing ${name} worker...`
+      case 'loading-model':
+        return performance
+          ? `${name} is getting into costume... (Downloading model)`
+          : `Loading ${name} model...`
+      case 'running':
+        return performance
+          ? `NOW PERFORMING: ${name} (Processing ${event.lineCount} texts)`
+          : `Running ${name} on ${event.lineCount} texts...`
+      case 'cleanup':
+        return performance
+          ? `Round of applause for ${name}! (Terminating worker to free memory)`
+          : `Cleaning up ${name} worker...`
+      default:
+        return null
+    }
+  }
 
-      // Return the final result (columns already set upfront)
-      return currentResult.value
+  // Most recent interrupted run that can be resumed, if any
+  async function getResumableCheckpoint(): Promise<CheckpointRun | null> {
+    if (!checkpointStore.isAvailable()) return null
+    try {
+      return await checkpointStore.getLatestRun()
     } catch (error) {
-      // Stop the RAF timing loop on error
-      stopTimingLoop()
-      throw error
+      console.warn('⚠️ Failed to read analysis checkpoints:', error)
+      return null
+    }
+  }
+
+  // Whether the current text, models and settings are those of a checkpointed run,
+  // i.e. resuming it would pick up its finished cells
+  function matchesCheckpoint(
+    checkpoint: CheckpointRun,
+    selectedRuleBasedAnalyzers: string[],
+    selectedHuggingFaceModels: string[]
+  ): boolean {
+    const runKey = computeRunKey(
+      lines.value,
+      [...selectedRuleBasedAnalyzers, ...selectedHuggingFaceModels],
+      analysisUnit.value,
+      activeAspects(),
+      scoringSettings(selectedRuleBasedAnalyzers, selectedHuggingFaceModels)
+    )
+    return runKey === checkpoint.runKey
+  }
+
+  async function discardCheckpoint(runKey: string) {
+    try {
+      await checkpointStore.deleteRun(runKey)
+    } catch (error) {
+      console.warn('⚠️ Failed to delete analysis checkpoint:', error)
+    }
+  }
+
+  // Per-token attributions for one text and neural model, in a worker of its own
+  // so the run's worker (and any cached models) are left alone
+  async function explainPrediction(modelId: string, text: string, label?: string): Promise<TokenAttributions> {
+    if (!multiModelAnalyzer.getEnabledModels().has(modelId)) {
+      throw new Error(`Select ${modelId} in the model list to explain its predictions`)
+    }
+
+    const analyzer = multiModelAnalyzer.forkForModel(modelId)
+    try {
+      await analyzer.initializeWorker()
+      return await analyzer.explainWithModel(text, modelId, label)
     } finally {
-      // Stop the RAF timing loop
-      stopTimingLoop()
+      await analyzer.terminateWorker()
+    }
+  }
 
-      isAnalyzing.value = false
-      progress.value = 100
-      progressStatus.value = themeStore.performanceMode
-        ? `Final curtain! All performers have taken their bow. (Analysis complete - ${lines.value.length} lines processed)`
-        : `Analysis complete - ${lines.value.length} lines processed by ${totalModels.value} models`
+  // Aspect terms to score, copied out of the reactive config; undefined when none are listed
+  function activeAspects(): AspectConfig | undefined {
+    return aspectConfig.value.terms.length > 0
+      ? { terms: [...aspectConfig.value.terms], windowWords: aspectConfig.value.windowWords }
+      : undefined
+  }
+
+  // Settings the selected models score with, left out while at their defaults;
+  // cells saved under other settings must not be mixed into a resumed run
+  function scoringSettings(ruleBasedAnalyzers: string[], huggingFaceModels: string[]): ScoringSettings {
+    const settings: ScoringSettings = {}
+
+    for (const id of ruleBasedAnalyzers) {
+      const analyzer = analyzerRegistry.getAnalyzer(id)
+      const analyzerSettings: ModelScoringSettings = {}
+      if (analyzer instanceof AfinnAnalyzer || analyzer instanceof VaderAnalyzer) {
+        const overrides = analyzer.getOverrides()
+        if (Object.keys(overrides).length > 0) analyzerSettings.overrides = overrides
+      } else if (analyzer instanceof CustomLexiconAnalyzer) {
+        analyzerSettings.lexicon = analyzer.getLexicon()
+      }
+      if (isThresholdAnalyzer(id)) {
+        const thresholds = (analyzer as AfinnAnalyzer | VaderAnalyzer | CustomLexiconAnalyzer).getThresholds()
+        if (!isDefaultSentimentThresholds(id, thresholds)) analyzerSettings.thresholds = thresholds
+      }
+      if (Object.keys(analyzerSettings).length > 0) settings[id] = analyzerSettings
+    }
+
+    const enabledModels = multiModelAnalyzer.getEnabledModels()
+    for (const id of huggingFaceModels) {
+      const model = enabledModels.get(id)
+      if (!model) continue
+      const modelSettings: ModelScoringSettings = {
+        // User-added models: the same ID can be re-added pointing elsewhere
+        ...(model.genericClassification && {
+          huggingFaceId: model.huggingFaceId,
+          task: model.task,
+          pipelineOverrides: model.pipelineOverrides,
+          localPath: model.localPath
+        }),
+        ...(model.zeroShot && { zeroShot: model.zeroShot }),
+        ...(model.multiLabelThreshold !== undefined && { multiLabelThreshold: model.multiLabelThreshold })
+      }
+      if (Object.keys(modelSettings).length > 0) settings[id] = modelSettings
     }
+
+    return settings
   }
 
   function getAnalyzerRegistry() {
@@ -527,9 +621,20 @@ export const useAnalysisStore = defineStore('analysis', () => {
     text,
     lines,
     isAnalyzing,
+    isPaused,
+    wasCancelled,
     progress,
     progressStatus,
     currentResult,
+    inferenceBatchSize,
+    analysisUnit,
+    aspectConfig,
+    consensusWeights,
+    goldLabels,
+    timestamps,
+    passthroughColumns,
+    parallelModels,
+    canRunModelsInParallel,
 
     // Timing state
     currentModelName,
@@ -545,8 +650,23 @@ export const useAnalysisStore = defineStore('analysis', () => {
 
     // Actions
     updateText,
+    setInferenceBatchSize,
+    setAnalysisUnit,
+    setAspectConfig,
+    setConsensusWeights,
+    setGoldLabels,
+    setTimestamps,
+    setPassthroughColumns,
+    setParallelModels,
     clearText,
     runAnalysis,
+    pauseAnalysis,
+    resumeAnalysis,
+    cancelAnalysis,
+    getResumableCheckpoint,
+    matchesCheckpoint,
+    discardCheckpoint,
+    explainPrediction,
     getAnalyzerRegistry,
     getMultiModelAnalyzer
   }
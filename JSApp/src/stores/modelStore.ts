@@ -1,38 +1,65 @@
 import { defineStore } from 'pinia'
 import { ref, computed } from 'vue'
 import { CacheManager } from '../core/models/CacheManager'
+import { MODEL_CATALOG, getCatalogModel } from '../core/models/catalog'
+import {
+  getCustomModels,
+  addCustomModel as saveCustomModel,
+  removeCustomModel as deleteCustomModel,
+  type CustomModel
+} from '../core/models/customModels'
+import { removeLocalModelFolder } from '../core/models/localModels'
+import type { PipelineOverrides } from '../core/models/pipelineOptions'
+import { loadZeroShotConfig, saveZeroShotConfig, type ZeroShotConfig } from '../core/models/zeroShot'
+import { getModelHosts, setModelHosts as saveModelHosts, type ModelHosts } from '../core/models/modelHosts'
+import { loadStoredLexicon, type CustomLexicon, type CustomLexiconAnalyzer } from '../core/analyzers/CustomLexiconAnalyzer'
+import { loadLexiconOverrides, type LexiconOverrideAnalyzer, type LexiconOverrides } from '../core/analyzers/lexiconOverrides'
+import {
+  DEFAULT_SENTIMENT_THRESHOLDS,
+  THRESHOLD_ANALYZERS,
+  isThresholdAnalyzer,
+  loadMultiLabelThresholds,
+  loadSentimentThresholds,
+  saveMultiLabelThresholds,
+  type SentimentThresholds,
+  type ThresholdAnalyzer
+} from '../core/analyzers/scoreThresholds'
+import type { AfinnAnalyzer, VaderAnalyzer } from '../core/analyzers'
+import type { ScoringSettings } from '../core/analysis/CheckpointStore'
 import { useAnalysisStore } from './analysisStore'
 
-interface ModelConfig {
-  id: string
-  huggingFaceId: string
-  displayName: string
-  category: 'sentiment' | 'classification'
-  type: 'rule-based' | 'neural'
-}
-
 export const useModelStore = defineStore('models', () => {
   // State
   const cacheManager = new CacheManager()
 
-  // Rule-based models
-  const useAfinn = ref(false)
-  const useVader = ref(false)
-
-  // Sentiment models
-  const useDistilbert = ref(false)
-  const useTwitterRoberta = ref(false)
-  const useFinancial = ref(false)
-  const useMultilingualStudent = ref(true)
-
-  // Classification models
-  const useGoEmotions = ref(false)
-  const useKoalaModeration = ref(false)
-  const useIptcNews = ref(false)
-  const useLanguageDetection = ref(false)
-  const useToxicBert = ref(false)
-  const useJigsawToxicity = ref(false)
-  const useIndustryClassification = ref(false)
+  // Checked models: built-in IDs from the manifest plus custom model IDs
+  const selectedModelIds = ref<string[]>(
+    MODEL_CATALOG.filter(model => model.selectedByDefault).map(model => model.id)
+  )
+
+  // User-supplied lexicon (the analyzer itself lives in the analysis store's registry)
+  const customLexicon = ref<CustomLexicon | null>(loadStoredLexicon())
+
+  // Word score overrides for the built-in AFINN and VADER lexicons
+  const lexiconOverrides = ref<Record<LexiconOverrideAnalyzer, LexiconOverrides>>({
+    afinn: loadLexiconOverrides('afinn'),
+    vader: loadLexiconOverrides('vader')
+  })
+
+  // Score cutoffs per rule-based analyzer, and per multi-label model ID
+  const sentimentThresholds = ref<Record<ThresholdAnalyzer, SentimentThresholds>>(
+    Object.fromEntries(THRESHOLD_ANALYZERS.map(id => [id, loadSentimentThresholds(id)])) as Record<ThresholdAnalyzer, SentimentThresholds>
+  )
+  const multiLabelThresholds = ref<Record<string, number>>(loadMultiLabelThresholds())
+
+  // Candidate labels for the zero-shot classifier
+  const zeroShotConfig = ref<ZeroShotConfig>(loadZeroShotConfig())
+
+  // Hugging Face models added in this browser
+  const customModels = ref<CustomModel[]>(getCustomModels())
+
+  // Where model files and the transformers.js runtime are downloaded from
+  const modelHosts = ref<ModelHosts>(getModelHosts())
 
   // Settings
   const keepModelsCached = ref(false)
@@ -40,33 +67,14 @@ export const useModelStore = defineStore('models', () => {
   const cacheModelCount = ref(0)
 
   // All available models
-  const availableModels: ModelConfig[] = [
-    // Rule-based
-    { id: 'afinn', huggingFaceId: 'afinn', displayName: 'AFINN', category: 'sentiment', type: 'rule-based' },
-    { id: 'vader', huggingFaceId: 'vader', displayName: 'VADER', category: 'sentiment', type: 'rule-based' },
-
-    // Sentiment neural models
-    { id: 'twitter-roberta', huggingFaceId: 'Xenova/twitter-roberta-base-sentiment-latest', displayName: 'Twitter RoBERTa', category: 'sentiment', type: 'neural' },
-    { id: 'financial', huggingFaceId: 'Xenova/finbert', displayName: 'Financial DistilRoBERTa', category: 'sentiment', type: 'neural' },
-    { id: 'multilingual-student', huggingFaceId: 'Xenova/distilbert-base-multilingual-cased-sentiments-student', displayName: 'Multilingual DistilBERT', category: 'sentiment', type: 'neural' },
-    { id: 'distilbert', huggingFaceId: 'Xenova/distilbert-base-uncased-finetuned-sst-2-english', displayName: 'DistilBERT SST-2', category: 'sentiment', type: 'neural' },
-
-    // Classification models
-    { id: 'go-emotions', huggingFaceId: 'SamLowe/roberta-base-go_emotions-onnx', displayName: 'GoEmotions', category: 'classification', type: 'neural' },
-    { id: 'text-moderation', huggingFaceId: 'KoalaAI/Text-Moderation', displayName: 'KoalaAI Moderation', category: 'classification', type: 'neural' },
-    { id: 'iptc-news', huggingFaceId: 'onnx-community/multilingual-IPTC-news-topic-classifier-ONNX', displayName: 'IPTC News', category: 'classification', type: 'neural' },
-    { id: 'language-detection', huggingFaceId: 'protectai/xlm-roberta-base-language-detection-onnx', displayName: 'Language Detection', category: 'classification', type: 'neural' },
-    { id: 'toxic-bert', huggingFaceId: 'Xenova/toxic-bert', displayName: 'Toxic BERT', category: 'classification', type: 'neural' },
-    { id: 'jigsaw-toxicity', huggingFaceId: 'minuva/MiniLMv2-toxic-jigsaw-onnx', displayName: 'Jigsaw Toxicity MiniLMv2', category: 'classification', type: 'neural' },
-    { id: 'industry-classification', huggingFaceId: 'sabatale/industry-classification-api-onnx', displayName: 'Industry Classification', category: 'classification', type: 'neural' }
-  ]
+  const availableModels = MODEL_CATALOG
 
   // Computed
   const selectedRuleBasedAnalyzers = computed(() => {
-    const selected: string[] = []
-    if (useVader.value) selected.push('vader')
-    if (useAfinn.value) selected.push('afinn')
-    return selected
+    return availableModels
+      .filter(model => model.type === 'rule-based' && selectedModelIds.value.includes(model.id))
+      .filter(model => model.id !== 'custom' || customLexicon.value !== null)
+      .map(model => model.id)
   })
 
   const selectedNeuralModels = computed(() => {
@@ -76,24 +84,32 @@ export const useModelStore = defineStore('models', () => {
     // Clear and re-add models based on current selection
     multiModel.clearAllModels()
 
-    const modelMappings = [
-      { checkbox: useDistilbert, model: availableModels.find(m => m.id === 'distilbert')! },
-      { checkbox: useTwitterRoberta, model: availableModels.find(m => m.id === 'twitter-roberta')! },
-      { checkbox: useFinancial, model: availableModels.find(m => m.id === 'financial')! },
-      { checkbox: useMultilingualStudent, model: availableModels.find(m => m.id === 'multilingual-student')! },
-      { checkbox: useGoEmotions, model: availableModels.find(m => m.id === 'go-emotions')! },
-      { checkbox: useKoalaModeration, model: availableModels.find(m => m.id === 'text-moderation')! },
-      { checkbox: useIptcNews, model: availableModels.find(m => m.id === 'iptc-news')! },
-      { checkbox: useLanguageDetection, model: availableModels.find(m => m.id === 'language-detection')! },
-      { checkbox: useToxicBert, model: availableModels.find(m => m.id === 'toxic-bert')! },
-      { checkbox: useJigsawToxicity, model: availableModels.find(m => m.id === 'jigsaw-toxicity')! },
-      { checkbox: useIndustryClassification, model: availableModels.find(m => m.id === 'industry-classification')! }
-    ]
-
     const selected: string[] = []
-    modelMappings.forEach(({ checkbox, model }) => {
-      if (checkbox.value) {
-        multiModel.addModel(model.id, model.huggingFaceId, model.displayName)
+    availableModels.forEach(model => {
+      if (model.type === 'neural' && selectedModelIds.value.includes(model.id)) {
+        multiModel.addModel(model.id, model.huggingFaceId, model.displayName, {
+          task: model.task,
+          pipelineOverrides: model.pipelineOverrides,
+          labelMap: model.labelMap,
+          // Plain copy: the config is posted to the worker, which can't clone reactive proxies
+          zeroShot: model.task === 'zero-shot-classification'
+            ? { ...zeroShotConfig.value, candidateLabels: [...zeroShotConfig.value.candidateLabels] }
+            : undefined,
+          multiLabelThreshold: multiLabelThresholds.value[model.id]
+        })
+        selected.push(model.id)
+      }
+    })
+
+    customModels.value.forEach(model => {
+      if (selectedModelIds.value.includes(model.id)) {
+        multiModel.addModel(model.id, model.huggingFaceId, model.displayName, {
+          task: model.task,
+          pipelineOverrides: model.pipelineOverrides,
+          localPath: model.localPath,
+          genericClassification: true,
+          multiLabelThreshold: multiLabelThresholds.value[model.id]
+        })
         selected.push(model.id)
       }
     })
@@ -102,9 +118,7 @@ export const useModelStore = defineStore('models', () => {
   })
 
   const hasClassificationModels = computed(() => {
-    return useGoEmotions.value || useKoalaModeration.value || useIptcNews.value ||
-           useLanguageDetection.value || useToxicBert.value || useJigsawToxicity.value ||
-           useIndustryClassification.value
+    return selectedModelIds.value.some(id => getCatalogModel(id)?.category === 'classification')
   })
 
   const totalSelectedModels = computed(() => {
@@ -113,45 +127,119 @@ export const useModelStore = defineStore('models', () => {
 
   // Actions
   function selectAllModels() {
-    // Rule-based
-    useAfinn.value = true
-    useVader.value = true
-
-    // Sentiment
-    useDistilbert.value = true
-    useTwitterRoberta.value = true
-    useFinancial.value = true
-    useMultilingualStudent.value = true
-
-    // Classification
-    useGoEmotions.value = true
-    useKoalaModeration.value = true
-    useIptcNews.value = true
-    useLanguageDetection.value = true
-    useToxicBert.value = true
-    useJigsawToxicity.value = true
-    useIndustryClassification.value = true
+    selectedModelIds.value = [
+      ...availableModels
+        .filter(model => model.id !== 'custom' || customLexicon.value !== null)
+        .map(model => model.id),
+      ...customModels.value.map(model => model.id)
+    ]
   }
 
   function clearAllModels() {
-    // Rule-based
-    useAfinn.value = false
-    useVader.value = false
-
-    // Sentiment
-    useDistilbert.value = false
-    useTwitterRoberta.value = false
-    useFinancial.value = false
-    useMultilingualStudent.value = false
-
-    // Classification
-    useGoEmotions.value = false
-    useKoalaModeration.value = false
-    useIptcNews.value = false
-    useLanguageDetection.value = false
-    useToxicBert.value = false
-    useJigsawToxicity.value = false
-    useIndustryClassification.value = false
+    selectedModelIds.value = []
+  }
+
+  // Select exactly the given model IDs or aliases (e.g. when resuming a saved run or opening a share link)
+  function selectModels(modelIds: string[]) {
+    selectedModelIds.value = [...new Set(
+      modelIds
+        .map(modelId => getCatalogModel(modelId)?.id)
+        .filter((modelId): modelId is string => modelId !== undefined)
+    )]
+  }
+
+  // Keep a tested Hugging Face model and select it
+  function addCustomModel(model: CustomModel) {
+    saveCustomModel(model)
+    customModels.value = getCustomModels()
+    if (!selectedModelIds.value.includes(model.id)) {
+      selectedModelIds.value = [...selectedModelIds.value, model.id]
+    }
+  }
+
+  function removeCustomModel(id: string) {
+    const localPath = customModels.value.find(model => model.id === id)?.localPath
+    if (localPath) {
+      removeLocalModelFolder(localPath).catch(error => console.warn('⚠️ Failed to delete local model files:', error))
+    }
+    deleteCustomModel(id)
+    customModels.value = getCustomModels()
+    selectedModelIds.value = selectedModelIds.value.filter(selectedId => selectedId !== id)
+  }
+
+  // Save (or with null, remove) the custom lexicon and select it when one is set
+  function setCustomLexicon(lexicon: CustomLexicon | null) {
+    const analysisStore = useAnalysisStore()
+    const analyzer = analysisStore.getAnalyzerRegistry().getAnalyzer('custom') as CustomLexiconAnalyzer | undefined
+
+    if (lexicon) {
+      analyzer?.setLexicon(lexicon)
+    } else {
+      analyzer?.clearLexicon()
+    }
+
+    customLexicon.value = lexicon
+    const others = selectedModelIds.value.filter(id => id !== 'custom')
+    selectedModelIds.value = lexicon ? [...others, 'custom'] : others
+  }
+
+  function setLexiconOverrides(analyzerId: LexiconOverrideAnalyzer, overrides: LexiconOverrides) {
+    const analysisStore = useAnalysisStore()
+    const analyzer = analysisStore.getAnalyzerRegistry().getAnalyzer(analyzerId) as AfinnAnalyzer | VaderAnalyzer | undefined
+    analyzer?.setOverrides(overrides)
+
+    lexiconOverrides.value = { ...lexiconOverrides.value, [analyzerId]: { ...overrides } }
+  }
+
+  function setSentimentThresholds(analyzerId: ThresholdAnalyzer, thresholds: SentimentThresholds) {
+    const analysisStore = useAnalysisStore()
+    const analyzer = analysisStore.getAnalyzerRegistry().getAnalyzer(analyzerId) as AfinnAnalyzer | VaderAnalyzer | CustomLexiconAnalyzer | undefined
+    analyzer?.setThresholds(thresholds)
+
+    sentimentThresholds.value = { ...sentimentThresholds.value, [analyzerId]: { ...thresholds } }
+  }
+
+  // undefined goes back to the default cutoff
+  function setMultiLabelThreshold(modelId: string, threshold: number | undefined) {
+    const thresholds = { ...multiLabelThresholds.value }
+    if (threshold === undefined) {
+      delete thresholds[modelId]
+    } else {
+      thresholds[modelId] = threshold
+    }
+    saveMultiLabelThresholds(thresholds)
+    multiLabelThresholds.value = thresholds
+  }
+
+  function setZeroShotConfig(config: ZeroShotConfig) {
+    saveZeroShotConfig(config)
+    zeroShotConfig.value = { ...config }
+  }
+
+  // Put back the settings a checkpointed run's models scored with; models left out of
+  // scoring were at their defaults. Where a user-added model points can't be changed here.
+  function restoreScoringSettings(scoring: ScoringSettings, modelIds: string[]) {
+    for (const id of modelIds) {
+      const settings = scoring[id] ?? {}
+      if (id === 'afinn' || id === 'vader') {
+        setLexiconOverrides(id, settings.overrides ?? {})
+      }
+      if (id === 'custom' && settings.lexicon) {
+        setCustomLexicon(settings.lexicon)
+      }
+      if (isThresholdAnalyzer(id)) {
+        setSentimentThresholds(id, settings.thresholds ?? { ...DEFAULT_SENTIMENT_THRESHOLDS[id] })
+      } else if (getCatalogModel(id)?.type === 'neural') {
+        setMultiLabelThreshold(id, settings.multiLabelThreshold)
+      }
+      if (settings.zeroShot) {
+        setZeroShotConfig(settings.zeroShot)
+      }
+    }
+  }
+
+  function setModelHosts(hosts: Partial<ModelHosts>) {
+    modelHosts.value = saveModelHosts(hosts)
   }
 
   async function updateCacheStats() {
@@ -194,22 +282,27 @@ export const useModelStore = defineStore('models', () => {
     // Collect neural model IDs for batch checking
     const neuralModelInfos = []
     const huggingFaceIds = []
+    // Where each model's ONNX file is; the cache check can't look user-added models up in the manifest
+    const pipelineOverrides: Record<string, PipelineOverrides | undefined> = {}
 
     for (const modelId of selectedNeuralModels.value) {
-      const modelInfo = availableModels.find(m => m.id === modelId)
+      const modelInfo = getCatalogModel(modelId)
       if (modelInfo) {
         neuralModelInfos.push(modelInfo)
         huggingFaceIds.push(modelInfo.huggingFaceId)
+        pipelineOverrides[modelInfo.huggingFaceId] = modelInfo.pipelineOverrides
       }
     }
 
     // BATCH CHECK all models at once (opens cache ONCE, checks in parallel)
-    const cacheStatusMap = await cacheManager.batchCheckModelsInCache(huggingFaceIds)
+    const cacheStatusMap = await cacheManager.batchCheckModelsInCache(huggingFaceIds, pipelineOverrides)
 
     // Build result using batch check results
     for (const modelInfo of neuralModelInfos) {
-      const estimatedSizeMB = cacheManager.estimateModelSize(modelInfo.huggingFaceId)
-      const isCached = cacheStatusMap.get(modelInfo.huggingFaceId) || false
+      const customSizeMB = (modelInfo as CustomModel).sizeMB
+      const estimatedSizeMB = customSizeMB ?? cacheManager.estimateModelSize(modelInfo.huggingFaceId)
+      // Models loaded from a local folder never need downloading
+      const isCached = (modelInfo as CustomModel).localPath !== undefined || cacheStatusMap.get(modelInfo.huggingFaceId) || false
 
       models.push({
         name: modelInfo.displayName,
@@ -233,19 +326,14 @@ export const useModelStore = defineStore('models', () => {
 
   return {
     // State
-    useAfinn,
-    useVader,
-    useDistilbert,
-    useTwitterRoberta,
-    useFinancial,
-    useMultilingualStudent,
-    useGoEmotions,
-    useKoalaModeration,
-    useIptcNews,
-    useLanguageDetection,
-    useToxicBert,
-    useJigsawToxicity,
-    useIndustryClassification,
+    selectedModelIds,
+    customLexicon,
+    lexiconOverrides,
+    sentimentThresholds,
+    multiLabelThresholds,
+    zeroShotConfig,
+    customModels,
+    modelHosts,
     keepModelsCached,
     cacheSize,
     cacheModelCount,
@@ -260,6 +348,16 @@ export const useModelStore = defineStore('models', () => {
     // Actions
     selectAllModels,
     clearAllModels,
+    selectModels,
+    setCustomLexicon,
+    setLexiconOverrides,
+    setSentimentThresholds,
+    setMultiLabelThreshold,
+    setZeroShotConfig,
+    restoreScoringSettings,
+    addCustomModel,
+    removeCustomModel,
+    setModelHosts,
     updateCacheStats,
     clearCache,
     getModelDownloadInfo
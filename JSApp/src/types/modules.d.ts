@@ -13,7 +13,7 @@ declare module 'sentiment' {
 
   export default class Sentiment {
     constructor();
-    analyze(text: string): SentimentResult;
+    analyze(text: string, options?: { language?: string; extras?: Record<string, number> }): SentimentResult;
   }
 }
 
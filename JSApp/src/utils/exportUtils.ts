@@ -1,31 +1,19 @@
 import type { AnalysisResult, SentimentResult, MultiModalAnalysisResult } from '../core/analysis/AnalysisStrategy';
 import * as XLSX from 'xlsx';
-
-// KoalaAI label mapping for moderation model
-const koalaLabelMap: Record<string, string> = {
-  'S': 'Sexual',
-  'H': 'Hate',
-  'V': 'Violence',
-  'HR': 'Harassment',
-  'SH': 'Self-harm',
-  'S3': 'Sexual/minors',
-  'H2': 'Hate/threatening',
-  'V2': 'Violence/graphic',
-  'OK': 'Safe'
-};
-
-// Helper function to check if a model is KoalaAI
-function isKoalaAI(modelName: string): boolean {
-  return modelName.includes('KoalaAI') || modelName.includes('Moderation');
-}
-
-// Helper function to map KoalaAI labels
-function mapKoalaLabel(modelName: string, label: string): string {
-  if (isKoalaAI(modelName)) {
-    return koalaLabelMap[label] || label;
-  }
-  return label;
-}
+import { aggregateDocuments } from '../core/analysis/DocumentAggregator';
+import { formatLexiconOverrides, type LexiconOverrides } from '../core/analyzers/lexiconOverrides';
+import {
+  formatSentimentThresholds,
+  isDefaultSentimentThresholds,
+  isThresholdAnalyzer,
+  type SentimentThresholds
+} from '../core/analyzers/scoreThresholds';
+import { getColumnModel, mapModelLabel } from '../core/models/catalog';
+import type { AgreementReport } from '../core/analysis/AgreementReport';
+import type { GoldEvaluation } from '../core/analysis/GoldEvaluation';
+import { formatBucket, type Timeline } from '../core/analysis/Timeline';
+import { rowPassthrough } from '../core/analysis/Passthrough';
+import { computeConsensus, hasConsensus, type ConsensusResult, type ConsensusWeights } from '../core/analysis/Consensus';
 
 // Helper function to properly escape CSV values
 function escapeCSV(value: string): string {
@@ -37,12 +25,130 @@ function escapeCSV(value: string): string {
   return value;
 }
 
-export function exportToCSV(result: AnalysisResult | MultiModalAnalysisResult, expandMulticlass: boolean = false): void {
-  if (!result || !result.data || result.data.length === 0) {
-    alert('No results to export');
-    return;
+// Sentence mode: 1-based document number for each sentence row
+function documentNumbers(result: MultiModalAnalysisResult): number[] | null {
+  if (!result.documents) return null;
+  const numbers: number[] = [];
+  result.documents.forEach(document => {
+    document.sentenceIndices.forEach(sentenceIndex => {
+      numbers[sentenceIndex] = document.documentIndex + 1;
+    });
+  });
+  return numbers;
+}
+
+// Headers of the imported columns carried through; names the export already uses get a suffix
+function passthroughHeaders(result: MultiModalAnalysisResult): string[] {
+  const reserved = ['Line', 'Document', 'Text', 'Sentences'];
+  return (result.passthroughColumns ?? []).map(name => reserved.includes(name) ? `${name}_Source` : name);
+}
+
+// Imported values of a sentence-mode document: those of its first sentence
+function documentPassthrough(result: MultiModalAnalysisResult, sentenceIndices: number[]): string[] {
+  return rowPassthrough(result, sentenceIndices[0] ?? -1);
+}
+
+// AFINN/VADER word overrides a column was scored with, if any
+function columnLexiconOverrides(result: MultiModalAnalysisResult, columnName: string): LexiconOverrides | null {
+  for (const item of result.data) {
+    const cell = item.results.find(r => r.analyzer === columnName);
+    if (cell) return cell.metadata?.lexiconOverrides || null;
+  }
+  return null;
+}
+
+// Score cutoffs a rule-based column was labelled with (results from older versions have none)
+function columnThresholds(result: MultiModalAnalysisResult, columnName: string): SentimentThresholds | null {
+  for (const item of result.data) {
+    const cell = item.results.find(r => r.analyzer === columnName);
+    const thresholds = cell?.metadata?.thresholds;
+    if (cell) return typeof thresholds?.positive === 'number' ? thresholds : null;
+  }
+  return null;
+}
+
+// Minimum likelihood for active classes of a multi-label column
+function columnMultiLabelThreshold(result: MultiModalAnalysisResult, columnName: string): number | null {
+  for (const item of result.data) {
+    const cell = item.results.find(r => r.analyzer === columnName);
+    if (typeof cell?.metadata?.multiLabelThreshold === 'number') return cell.metadata.multiLabelThreshold;
+  }
+  return null;
+}
+
+// Score header, noting active lexicon overrides and changed cutoffs so the run can be reproduced
+function sentimentScoreHeader(result: MultiModalAnalysisResult, columnName: string): string {
+  let header = `${columnName}_Score`;
+  const overrides = columnLexiconOverrides(result, columnName);
+  if (overrides) {
+    header += ` (overrides: ${formatLexiconOverrides(overrides)})`;
+  }
+
+  const thresholds = columnThresholds(result, columnName);
+  const analyzerId = getColumnModel(columnName)?.id;
+  if (thresholds && analyzerId && isThresholdAnalyzer(analyzerId) && !isDefaultSentimentThresholds(analyzerId, thresholds)) {
+    header += ` (thresholds: ${formatSentimentThresholds(thresholds)})`;
+  }
+  return header;
+}
+
+// Consensus across sentiment models, when at least two were run
+function exportConsensus(result: MultiModalAnalysisResult, weights: ConsensusWeights): ConsensusResult | null {
+  return hasConsensus(result) ? computeConsensus(result, weights) : null;
+}
+
+const CONSENSUS_HEADER = ['Consensus_Sentiment', 'Consensus_Mean_Polarity', 'Consensus_Agreement'];
+
+// Cells a column spans in the CSV/Excel table
+function exportColumnWidth(col: any, classificationClassNames: Map<string, Set<string>>, expandMulticlass: boolean): number {
+  if (col.type === 'classification' && expandMulticlass && classificationClassNames.has(col.name)) {
+    return 2 + classificationClassNames.get(col.name)!.size;
   }
+  return 2;
+}
+
+/**
+ * Document-level aggregate table for sentence-mode results (header row first)
+ */
+function buildDocumentTable(result: MultiModalAnalysisResult): any[][] {
+  const header = ['Document', ...passthroughHeaders(result), 'Text', 'Sentences'];
+  result.columns.forEach(col => {
+    if (col.type === 'sentiment') {
+      header.push(`${col.name}_Sentiment`, `${col.name}_Mean`, `${col.name}_Min`, `${col.name}_Max`, `${col.name}_Negative_Share`);
+    } else {
+      header.push(`${col.name}_Prediction`, `${col.name}_Mean_Likelihood`);
+    }
+  });
+
+  const round = (value: number | null) => value != null ? parseFloat(value.toFixed(3)) : '';
+  const rows = aggregateDocuments(result).map(document => {
+    const row: any[] = [
+      document.documentIndex + 1,
+      ...documentPassthrough(result, document.sentenceIndices),
+      document.text,
+      document.sentenceIndices.length
+    ];
+    document.columns.forEach(aggregate => {
+      if (aggregate.type === 'sentiment') {
+        row.push(aggregate.sentiment || 'neutral', round(aggregate.mean), round(aggregate.min), round(aggregate.max), round(aggregate.negativeShare));
+      } else {
+        row.push(mapModelLabel(aggregate.analyzer, aggregate.topClass || 'N/A'), round(aggregate.mean));
+      }
+    });
+    return row;
+  });
+
+  return [header, ...rows];
+}
 
+/**
+ * Build the CSV export text for a result (null if the result type is unsupported)
+ */
+export function buildCSVContent(
+  result: AnalysisResult | MultiModalAnalysisResult,
+  expandMulticlass: boolean = false,
+  consensusWeights: ConsensusWeights = {}
+): string | null {
   let csvContent = '';
 
   if (result.type === 'multimodal') {
@@ -65,7 +171,7 @@ export function exportToCSV(result: AnalysisResult | MultiModalAnalysisResult, e
               Object.keys(result.allClasses).forEach(className => {
                 classNames.add(className);
                 // Store both raw and mapped names
-                mappedNames.set(className, mapKoalaLabel(col.name, className));
+                mappedNames.set(className, mapModelLabel(col.name, className));
               });
             }
           });
@@ -76,10 +182,11 @@ export function exportToCSV(result: AnalysisResult | MultiModalAnalysisResult, e
     }
 
     // Create header
-    const header = ['Line', 'Text'];
+    const documentNumber = documentNumbers(multimodalResult);
+    const header = [...(documentNumber ? ['Line', 'Document'] : ['Line']), ...passthroughHeaders(multimodalResult), 'Text'];
     columns.forEach((col: any) => {
       if (col.type === 'sentiment') {
-        header.push(`${col.name}_Score`, `${col.name}_Sentiment`);
+        header.push(sentimentScoreHeader(multimodalResult, col.name), `${col.name}_Sentiment`);
       } else if (col.type === 'classification') {
         if (expandMulticlass && classificationClassNames.has(col.name)) {
           // Add majority class columns first
@@ -97,12 +204,16 @@ export function exportToCSV(result: AnalysisResult | MultiModalAnalysisResult, e
         }
       }
     });
-    csvContent = header.join(',') + '\n';
+    const consensus = exportConsensus(multimodalResult, consensusWeights);
+    if (consensus) header.push(...CONSENSUS_HEADER);
+    csvContent = header.map(escapeCSV).join(',') + '\n';
 
     // Add data rows
-    unifiedData.forEach((item) => {
+    unifiedData.forEach((item, index) => {
       const row = [
         (item.lineIndex + 1).toString(),
+        ...(documentNumber ? [String(documentNumber[item.lineIndex])] : []),
+        ...rowPassthrough(multimodalResult, index).map(escapeCSV),
         escapeCSV(item.text)
       ];
 
@@ -129,6 +240,9 @@ export function exportToCSV(result: AnalysisResult | MultiModalAnalysisResult, e
               row.push(escapeCSV(result.metadata?.exportLabel || result.topClass || 'N/A'), result.confidence != null ? result.confidence.toFixed(3) : '0.000');
             }
           }
+        } else if (col.aspect) {
+          // The line doesn't mention this aspect
+          row.push(...Array(exportColumnWidth(col, classificationClassNames, expandMulticlass)).fill(''));
         } else {
           // Missing result for this column
           if (col.type === 'sentiment') {
@@ -148,6 +262,11 @@ export function exportToCSV(result: AnalysisResult | MultiModalAnalysisResult, e
         }
       });
 
+      if (consensus) {
+        const { sentiment, meanPolarity, agreement } = consensus.rows[index];
+        row.push(sentiment ?? '', meanPolarity != null ? meanPolarity.toFixed(3) : '', agreement != null ? agreement.toFixed(3) : '');
+      }
+
       csvContent += row.join(',') + '\n';
     });
   } else if (result.type === 'sentiment') {
@@ -180,6 +299,24 @@ export function exportToCSV(result: AnalysisResult | MultiModalAnalysisResult, e
       csvContent += row.join(',') + '\n';
     });
   } else {
+    return null;
+  }
+
+  return csvContent;
+}
+
+export function exportToCSV(
+  result: AnalysisResult | MultiModalAnalysisResult,
+  expandMulticlass: boolean = false,
+  consensusWeights: ConsensusWeights = {}
+): void {
+  if (!result || !result.data || result.data.length === 0) {
+    alert('No results to export');
+    return;
+  }
+
+  const csvContent = buildCSVContent(result, expandMulticlass, consensusWeights);
+  if (csvContent === null) {
     alert('Unsupported export format');
     return;
   }
@@ -202,12 +339,209 @@ export function exportToCSV(result: AnalysisResult | MultiModalAnalysisResult, e
   document.body.removeChild(link);
 }
 
-export function exportToJSON(result: AnalysisResult | MultiModalAnalysisResult, expandMulticlass: boolean = false): void {
-  if (!result || !result.data || result.data.length === 0) {
-    alert('No results to export');
-    return;
+/**
+ * Inter-model agreement report as CSV: the pairwise table, then the most contested lines
+ */
+export function buildAgreementCSV(report: AgreementReport): string {
+  const format = (value: number | null) => value != null ? value.toFixed(3) : '';
+  const rows: string[][] = [
+    ['Model_A', 'Model_B', 'Lines', 'Percent_Agreement', 'Cohens_Kappa', 'Pearson_R'],
+    ...report.pairs.map(pair => [
+      pair.modelA,
+      pair.modelB,
+      String(pair.count),
+      format(pair.percentAgreement),
+      format(pair.cohensKappa),
+      format(pair.pearson)
+    ]),
+    [],
+    [
+      'Line',
+      'Text',
+      'Disagreement',
+      ...report.models.flatMap(model => [`${model}_Polarity`, `${model}_Sentiment`])
+    ],
+    ...report.topDisagreements.map(line => [
+      String(line.lineIndex + 1),
+      line.text,
+      format(line.disagreement),
+      ...report.models.flatMap(model => {
+        const rating = line.ratings.find(r => r.model === model);
+        return rating ? [format(rating.polarity), rating.sentiment] : ['', ''];
+      })
+    ])
+  ];
+
+  return rows.map(row => row.map(escapeCSV).join(',')).join('\n') + '\n';
+}
+
+export function exportAgreementToCSV(report: AgreementReport): void {
+  downloadReportCSV(buildAgreementCSV(report), 'agreement');
+}
+
+/**
+ * Gold-label evaluation as CSV: a summary per model, per-class metrics, then one confusion matrix per model
+ */
+export function buildEvaluationCSV(evaluation: GoldEvaluation): string {
+  const format = (value: number | null) => value != null ? value.toFixed(3) : '';
+  const rows: string[][] = [
+    ['Model', 'Rows', 'Accuracy', 'Macro_F1'],
+    ...evaluation.models.map(model => [model.model, String(model.count), format(model.accuracy), format(model.macroF1)]),
+    [],
+    ['Model', 'Class', 'Precision', 'Recall', 'F1', 'Support'],
+    ...evaluation.models.flatMap(model => model.classes.map(metrics => [
+      model.model,
+      metrics.label,
+      format(metrics.precision),
+      format(metrics.recall),
+      format(metrics.f1),
+      String(metrics.support)
+    ]))
+  ];
+
+  for (const model of evaluation.models) {
+    rows.push([], [`${model.model}: gold (rows) vs predicted (columns)`, ...model.labels]);
+    model.labels.forEach((label, index) => {
+      rows.push([label, ...model.confusion[index].map(String)]);
+    });
+  }
+
+  return rows.map(row => row.map(escapeCSV).join(',')).join('\n') + '\n';
+}
+
+export function exportEvaluationToCSV(evaluation: GoldEvaluation): void {
+  downloadReportCSV(buildEvaluationCSV(evaluation), 'evaluation');
+}
+
+/**
+ * Timeline as CSV: one row per bucket with the row count and each model's mean, rolling average and spikes
+ */
+export function buildTimelineCSV(timeline: Timeline): string {
+  const format = (value: number | null) => value != null ? value.toFixed(3) : '';
+  const rows: string[][] = [
+    [
+      'Bucket_Start',
+      'Rows',
+      `Rows_Rolling_${timeline.window}`,
+      'Rows_Spike',
+      ...timeline.series.flatMap(series => [
+        `${series.column}_Rows`,
+        `${series.column}_Mean_Polarity`,
+        `${series.column}_Rolling_${timeline.window}`,
+        `${series.column}_Spike`
+      ])
+    ],
+    ...timeline.volume.points.map((point, index) => [
+      formatBucket(point.start, timeline.bucket),
+      String(point.count),
+      format(point.rolling),
+      point.spike ?? '',
+      ...timeline.series.flatMap(series => {
+        const modelPoint = series.points[index];
+        return [String(modelPoint.count), format(modelPoint.value), format(modelPoint.rolling), modelPoint.spike ?? ''];
+      })
+    ])
+  ];
+
+  return rows.map(row => row.map(escapeCSV).join(',')).join('\n') + '\n';
+}
+
+export function exportTimelineToCSV(timeline: Timeline): void {
+  downloadReportCSV(buildTimelineCSV(timeline), `timeline_${timeline.bucket}`);
+}
+
+function downloadReportCSV(content: string, report: string): void {
+  const blob = new Blob([content], { type: 'text/csv;charset=utf-8;' });
+  const link = document.createElement('a');
+  const url = URL.createObjectURL(blob);
+
+  // Create timestamp in YYYY-MM-DD_HH-MM-SS format
+  const now = new Date();
+  const timestamp = now.toISOString().slice(0, 19).replace('T', '_').replace(/:/g, '-');
+  const filename = `sentimentomatic_${report}_${timestamp}.csv`;
+
+  link.setAttribute('href', url);
+  link.setAttribute('download', filename);
+  link.style.visibility = 'hidden';
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+}
+
+function chartFilename(chart: string, extension: string): string {
+  // Create timestamp in YYYY-MM-DD_HH-MM-SS format
+  const timestamp = new Date().toISOString().slice(0, 19).replace('T', '_').replace(/:/g, '-');
+  const slug = chart.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'chart';
+  return `sentimentomatic_${slug}_${timestamp}.${extension}`;
+}
+
+function downloadBlob(blob: Blob, filename: string): void {
+  const link = document.createElement('a');
+  const url = URL.createObjectURL(blob);
+  link.setAttribute('href', url);
+  link.setAttribute('download', filename);
+  link.style.visibility = 'hidden';
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Standalone SVG markup of a dashboard chart; charts style themselves with
+ * attributes rather than CSS classes so the file looks the same outside the app
+ */
+export function serializeChart(svg: SVGSVGElement): string {
+  const clone = svg.cloneNode(true) as SVGSVGElement;
+  const viewBox = svg.viewBox.baseVal;
+  clone.setAttribute('xmlns', 'http://www.w3.org/2000/svg');
+  clone.setAttribute('width', String(viewBox.width));
+  clone.setAttribute('height', String(viewBox.height));
+  return new XMLSerializer().serializeToString(clone);
+}
+
+export function exportChartToSVG(svg: SVGSVGElement, chart: string): void {
+  downloadBlob(new Blob([serializeChart(svg)], { type: 'image/svg+xml;charset=utf-8' }), chartFilename(chart, 'svg'));
+}
+
+/**
+ * Rasterize a dashboard chart at `scale` times its drawn size
+ */
+export async function exportChartToPNG(svg: SVGSVGElement, chart: string, scale: number = 2): Promise<void> {
+  const viewBox = svg.viewBox.baseVal;
+  const image = new Image();
+  await new Promise<void>((resolve, reject) => {
+    image.onload = () => resolve();
+    image.onerror = () => reject(new Error('Failed to render chart'));
+    image.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(serializeChart(svg))}`;
+  });
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(viewBox.width * scale);
+  canvas.height = Math.round(viewBox.height * scale);
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error('Canvas is not available');
+  }
+  context.fillStyle = 'white';
+  context.fillRect(0, 0, canvas.width, canvas.height);
+  context.drawImage(image, 0, 0, canvas.width, canvas.height);
+
+  const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'));
+  if (!blob) {
+    throw new Error('Failed to encode chart as PNG');
   }
+  downloadBlob(blob, chartFilename(chart, 'png'));
+}
 
+/**
+ * Build the JSON export structure for a result
+ */
+export function buildJSONExport(
+  result: AnalysisResult | MultiModalAnalysisResult,
+  expandMulticlass: boolean = false,
+  consensusWeights: ConsensusWeights = {}
+): any {
   let exportData: any;
 
   if (result.type === 'multimodal') {
@@ -216,9 +550,16 @@ export function exportToJSON(result: AnalysisResult | MultiModalAnalysisResult,
     const unifiedData = multimodalResult.data;
     const columns = multimodalResult.columns;
 
-    const structuredResults = unifiedData.map((item) => {
+    const documentNumber = documentNumbers(multimodalResult);
+    const consensus = exportConsensus(multimodalResult, consensusWeights);
+    // Imported columns as { header: value }, keyed by their original headers
+    const passthroughColumns = multimodalResult.passthroughColumns ?? [];
+    const passthroughObject = (values: string[]) => Object.fromEntries(passthroughColumns.map((column, index) => [column, values[index]]));
+    const structuredResults = unifiedData.map((item, index) => {
       const lineData: any = {
         line: item.lineIndex + 1,
+        ...(documentNumber ? { document: documentNumber[item.lineIndex] } : {}),
+        ...(passthroughColumns.length > 0 && { passthrough: passthroughObject(rowPassthrough(multimodalResult, index)) }),
         text: item.text,
         analysis: {}
       };
@@ -246,8 +587,18 @@ export function exportToJSON(result: AnalysisResult | MultiModalAnalysisResult,
 
           lineData.analysis[res.analyzer] = analysisData;
         }
+
+        // Aspect cells: the words around the mention that were scored
+        if (column?.aspect && res.metadata?.aspect) {
+          lineData.analysis[res.analyzer].window = res.metadata.aspect.window;
+        }
       });
 
+      if (consensus) {
+        const { sentiment, meanPolarity, agreement, votes } = consensus.rows[index];
+        lineData.consensus = { sentiment, meanPolarity, agreement, votes };
+      }
+
       return lineData;
     });
 
@@ -256,13 +607,43 @@ export function exportToJSON(result: AnalysisResult | MultiModalAnalysisResult,
         timestamp: new Date().toISOString(),
         analysisType: 'multimodal',
         totalLines: result.lines.length,
-        analyzers: columns.map((col: any) => ({
-          name: col.name,
-          type: col.type
-        }))
+        analyzers: columns.map((col: any) => {
+          const lexiconOverrides = columnLexiconOverrides(multimodalResult, col.name);
+          const thresholds = columnThresholds(multimodalResult, col.name);
+          const multiLabelThreshold = columnMultiLabelThreshold(multimodalResult, col.name);
+          return {
+            name: col.name,
+            type: col.type,
+            ...(col.aspect && { aspect: col.aspect }),
+            ...(lexiconOverrides && { lexiconOverrides }),
+            ...(thresholds && { thresholds }),
+            ...(multiLabelThreshold !== null && { multiLabelThreshold })
+          };
+        }),
+        ...(multimodalResult.aspects && { aspects: multimodalResult.aspects }),
+        ...(passthroughColumns.length > 0 && { passthroughColumns }),
+        ...(consensus && { consensus: { models: consensus.models, fleissKappa: consensus.fleissKappa } })
       },
       results: structuredResults
     };
+
+    // Sentence mode: results are sentences, rolled up per document here
+    if (multimodalResult.documents) {
+      exportData.metadata.analysisUnit = 'sentence';
+      exportData.metadata.totalDocuments = multimodalResult.documents.length;
+      exportData.documents = aggregateDocuments(multimodalResult).map(document => ({
+        document: document.documentIndex + 1,
+        ...(passthroughColumns.length > 0 && { passthrough: passthroughObject(documentPassthrough(multimodalResult, document.sentenceIndices)) }),
+        text: document.text,
+        sentences: document.sentenceIndices.map(sentenceIndex => sentenceIndex + 1),
+        aggregates: Object.fromEntries(document.columns.map(aggregate => [aggregate.analyzer, {
+          type: aggregate.type,
+          ...(aggregate.type === 'sentiment'
+            ? { sentiment: aggregate.sentiment, mean: aggregate.mean, min: aggregate.min, max: aggregate.max, negativeShare: aggregate.negativeShare }
+            : { prediction: aggregate.topClass, meanLikelihood: aggregate.mean, minLikelihood: aggregate.min, maxLikelihood: aggregate.max })
+        }]))
+      }));
+    }
   } else {
     // Legacy formats
     exportData = {
@@ -276,6 +657,20 @@ export function exportToJSON(result: AnalysisResult | MultiModalAnalysisResult,
     };
   }
 
+  return exportData;
+}
+
+export function exportToJSON(
+  result: AnalysisResult | MultiModalAnalysisResult,
+  expandMulticlass: boolean = false,
+  consensusWeights: ConsensusWeights = {}
+): void {
+  if (!result || !result.data || result.data.length === 0) {
+    alert('No results to export');
+    return;
+  }
+
+  const exportData = buildJSONExport(result, expandMulticlass, consensusWeights);
   const jsonContent = JSON.stringify(exportData, null, 2);
 
   const blob = new Blob([jsonContent], { type: 'application/json;charset=utf-8;' });
@@ -295,7 +690,11 @@ export function exportToJSON(result: AnalysisResult | MultiModalAnalysisResult,
   document.body.removeChild(link);
 }
 
-export function exportToExcel(result: AnalysisResult | MultiModalAnalysisResult, expandMulticlass: boolean = false): void {
+export function exportToExcel(
+  result: AnalysisResult | MultiModalAnalysisResult,
+  expandMulticlass: boolean = false,
+  consensusWeights: ConsensusWeights = {}
+): void {
   if (!result || !result.data || result.data.length === 0) {
     alert('No results to export');
     return;
@@ -325,7 +724,7 @@ export function exportToExcel(result: AnalysisResult | MultiModalAnalysisResult,
               Object.keys(result.allClasses).forEach(className => {
                 classNames.add(className);
                 // Store both raw and mapped names
-                mappedNames.set(className, mapKoalaLabel(col.name, className));
+                mappedNames.set(className, mapModelLabel(col.name, className));
               });
             }
           });
@@ -336,10 +735,11 @@ export function exportToExcel(result: AnalysisResult | MultiModalAnalysisResult,
     }
 
     // Create header row
-    const header = ['Line', 'Text'];
+    const documentNumber = documentNumbers(multimodalResult);
+    const header = [...(documentNumber ? ['Line', 'Document'] : ['Line']), ...passthroughHeaders(multimodalResult), 'Text'];
     columns.forEach((col: any) => {
       if (col.type === 'sentiment') {
-        header.push(`${col.name}_Score`, `${col.name}_Sentiment`);
+        header.push(sentimentScoreHeader(multimodalResult, col.name), `${col.name}_Sentiment`);
       } else if (col.type === 'classification') {
         if (expandMulticlass && classificationClassNames.has(col.name)) {
           // Add majority class columns first
@@ -357,12 +757,16 @@ export function exportToExcel(result: AnalysisResult | MultiModalAnalysisResult,
         }
       }
     });
+    const consensus = exportConsensus(multimodalResult, consensusWeights);
+    if (consensus) header.push(...CONSENSUS_HEADER);
     wsData.push(header);
 
     // Add data rows
-    unifiedData.forEach((item) => {
+    unifiedData.forEach((item, index) => {
       const row: any[] = [
         item.lineIndex + 1,
+        ...(documentNumber ? [documentNumber[item.lineIndex]] : []),
+        ...rowPassthrough(multimodalResult, index),
         item.text
       ];
 
@@ -398,6 +802,9 @@ export function exportToExcel(result: AnalysisResult | MultiModalAnalysisResult,
               );
             }
           }
+        } else if (col.aspect) {
+          // The line doesn't mention this aspect
+          row.push(...Array(exportColumnWidth(col, classificationClassNames, expandMulticlass)).fill(''));
         } else {
           // Missing result for this column
           if (col.type === 'sentiment') {
@@ -417,6 +824,15 @@ export function exportToExcel(result: AnalysisResult | MultiModalAnalysisResult,
         }
       });
 
+      if (consensus) {
+        const { sentiment, meanPolarity, agreement } = consensus.rows[index];
+        row.push(
+          sentiment ?? '',
+          meanPolarity != null ? parseFloat(meanPolarity.toFixed(3)) : '',
+          agreement != null ? parseFloat(agreement.toFixed(3)) : ''
+        );
+      }
+
       wsData.push(row);
     });
   } else if (result.type === 'sentiment') {
@@ -470,6 +886,12 @@ export function exportToExcel(result: AnalysisResult | MultiModalAnalysisResult,
   // Add worksheet to workbook
   XLSX.utils.book_append_sheet(wb, ws, 'Sentiment Analysis');
 
+  // Sentence mode: document aggregates on their own sheet
+  if (result.type === 'multimodal' && (result as MultiModalAnalysisResult).documents) {
+    const documentsSheet = XLSX.utils.aoa_to_sheet(buildDocumentTable(result as MultiModalAnalysisResult));
+    XLSX.utils.book_append_sheet(wb, documentsSheet, 'Documents');
+  }
+
   // Create timestamp in YYYY-MM-DD_HH-MM-SS format
   const now = new Date();
   const timestamp = now.toISOString().slice(0, 19).replace('T', '_').replace(/:/g, '-');
@@ -0,0 +1,39 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { computeAgreementReport, findPair, pearson } from '../../src/core/analysis/AgreementReport';
+import { AFINN, DISTILBERT, VADER, buildResult, labelCell, scoreCell } from './fixtures';
+
+describe('AgreementReport', () => {
+  it('correlates paired polarities', () => {
+    assert.equal(pearson([[1, 2], [2, 4], [3, 6]]), 1);
+    assert.equal(pearson([[1, 3], [2, 2], [3, 1]]), -1);
+    assert.equal(pearson([[1, 1], [2, 1], [3, 1]]), null);
+    assert.equal(pearson([[1, 1]]), null);
+  });
+
+  it('compares every pair of sentiment models and ranks contested lines', () => {
+    const result = buildResult([VADER, AFINN, DISTILBERT], [
+      ['love it', [scoreCell(VADER, 0.8), scoreCell(AFINN, 3), labelCell(DISTILBERT, 'positive', 0.9)]],
+      ['hate it', [scoreCell(VADER, -0.7), scoreCell(AFINN, -3), labelCell(DISTILBERT, 'negative', 0.9)]],
+      ['sick!', [scoreCell(VADER, -0.5), scoreCell(AFINN, -2), labelCell(DISTILBERT, 'positive', 0.95)]],
+      ['ok', [scoreCell(VADER, 0.1)]]
+    ]);
+
+    const report = computeAgreementReport(result);
+    assert.deepEqual(report.models, ['VADER', 'AFINN', 'DistilBERT SST-2']);
+    assert.equal(report.pairs.length, 3);
+
+    const rules = findPair(report, 'AFINN', 'VADER')!;
+    assert.equal(rules.count, 3);
+    assert.equal(rules.percentAgreement, 1);
+    assert.equal(rules.cohensKappa, 1);
+    assert.ok(rules.pearson! > 0.9);
+
+    const mixed = findPair(report, 'VADER', 'DistilBERT SST-2')!;
+    assert.equal(mixed.percentAgreement, 2 / 3);
+
+    // Lines rated by a single model can't be contested
+    assert.equal(report.topDisagreements[0].text, 'sick!');
+    assert.ok(report.topDisagreements.every(line => line.text !== 'ok'));
+  });
+});
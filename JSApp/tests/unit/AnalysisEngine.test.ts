@@ -0,0 +1,262 @@
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { AnalyzerRegistry } from '../../src/core/analyzers';
+import { MultiModelAnalyzer } from '../../src/core/analyzers/MultiModelAnalyzer';
+import { AnalysisEngine, type AnalysisEngineEvents, type AnalysisPhase } from '../../src/core/analysis/AnalysisEngine';
+import type { ModelWorker } from '../../src/core/models/WorkerModelManager';
+import type { InferenceOutput } from '../../src/core/models/textChunking';
+
+const LINES = ['I love this product', 'This is terrible', 'It arrived on Tuesday'];
+
+/** Stands in for the web worker: every text is 90% positive */
+class FakeModelWorker implements ModelWorker {
+  active = false;
+  loaded: string[] = [];
+  batches: string[][] = [];
+
+  async initializeWorker() { this.active = true; }
+  async terminateWorker() { this.active = false; }
+  async loadModel(modelId: string) { this.loaded.push(modelId); }
+  async runInference(modelId: string, text: string): Promise<InferenceOutput> {
+    return (await this.runInferenceBatch(modelId, [text]))[0];
+  }
+  async runInferenceBatch(_modelId: string, texts: string[]): Promise<InferenceOutput[]> {
+    this.batches.push(texts);
+    return texts.map(() => ({
+      labels: [{ label: 'POSITIVE', score: 0.9 }, { label: 'NEGATIVE', score: 0.1 }],
+      chunking: { chunkCount: 1, tokenCount: 4, maxTokens: 510, wouldTruncate: false }
+    }));
+  }
+  async disposeModel() {}
+  async disposeAll() {}
+  isWorkerActive() { return this.active; }
+}
+
+function createEngine() {
+  const registry = new AnalyzerRegistry();
+  const worker = new FakeModelWorker();
+  const multiModel = new MultiModelAnalyzer(registry.getModelManager(), () => worker, () => worker);
+  multiModel.addModel('distilbert', 'Xenova/distilbert-base-uncased-finetuned-sst-2-english', 'DistilBERT SST-2');
+  return { engine: new AnalysisEngine(registry, multiModel), worker };
+}
+
+interface RecordedEvent {
+  event: keyof AnalysisEngineEvents;
+  payload: any;
+}
+
+/** Every event in the order it was emitted */
+function recordEvents(engine: AnalysisEngine): RecordedEvent[] {
+  const events: RecordedEvent[] = [];
+  const names: Array<keyof AnalysisEngineEvents> = ['tableReady', 'modelStarted', 'cellResult', 'modelFinished', 'progress', 'error'];
+  for (const event of names) {
+    engine.on(event, payload => events.push({ event, payload }));
+  }
+  return events;
+}
+
+function phases(events: RecordedEvent[]): AnalysisPhase[] {
+  return events.filter(entry => entry.event === 'progress').map(entry => entry.payload.phase);
+}
+
+describe('AnalysisEngine', () => {
+  beforeEach(() => {
+    // The engine and analyzers log every step
+    mock.method(console, 'log', () => {});
+  });
+
+  afterEach(() => {
+    mock.restoreAll();
+  });
+
+  it('fills the table column by column and reports each step', async () => {
+    const { engine, worker } = createEngine();
+    const events = recordEvents(engine);
+
+    const result = await engine.run(LINES, {
+      selectedRuleBasedAnalyzers: ['afinn', 'vader'],
+      selectedHuggingFaceModels: ['distilbert'],
+      inferenceBatchSize: 2
+    });
+
+    assert.deepEqual(result.columns.map(column => column.name), ['AFINN', 'VADER', 'DistilBERT SST-2']);
+    assert.equal(events[0].event, 'tableReady');
+    assert.deepEqual(
+      events.filter(entry => entry.event === 'modelStarted').map(entry => entry.payload),
+      [
+        { modelId: 'afinn', modelName: 'AFINN', kind: 'rule-based', lineCount: 3 },
+        { modelId: 'vader', modelName: 'VADER', kind: 'rule-based', lineCount: 3 },
+        { modelId: 'distilbert', modelName: 'DistilBERT SST-2', kind: 'neural', lineCount: 3 }
+      ]
+    );
+    assert.equal(events.filter(entry => entry.event === 'cellResult').length, 9);
+    assert.deepEqual(
+      events.filter(entry => entry.event === 'modelFinished').map(entry => entry.payload.success),
+      [true, true, true]
+    );
+    assert.equal(events.some(entry => entry.event === 'error'), false);
+
+    const finalProgress: AnalysisEngineEvents['progress'] = events.filter(entry => entry.event === 'progress').at(-1)!.payload;
+    assert.equal(finalProgress.phase, 'complete');
+    assert.equal(finalProgress.completedUnits, finalProgress.totalUnits);
+
+    // Batches of two texts, and every row scored by every model
+    assert.deepEqual(worker.batches, [LINES.slice(0, 2), LINES.slice(2)]);
+    assert.deepEqual(worker.loaded, ['distilbert']);
+    assert.equal(worker.isWorkerActive(), false);
+    for (const row of result.data) {
+      assert.deepEqual(row.results.map(cell => cell.analyzer), ['AFINN', 'VADER', 'DistilBERT SST-2']);
+    }
+    assert.equal(result.data[0].results[0].sentiment, 'positive');
+    assert.equal(result.data[1].results[1].sentiment, 'negative');
+    assert.equal(result.data[2].results[2].sentiment, 'positive');
+  });
+
+  it('reports a model that fails to load and carries on with the others', async () => {
+    const { engine, worker } = createEngine();
+    const events = recordEvents(engine);
+    worker.loadModel = async () => { throw new Error('download failed'); };
+    mock.method(console, 'error', () => {});
+
+    const result = await engine.run(LINES, {
+      selectedRuleBasedAnalyzers: ['afinn'],
+      selectedHuggingFaceModels: ['distilbert']
+    });
+
+    assert.deepEqual(
+      events.filter(entry => entry.event === 'modelFinished').map(entry => entry.payload),
+      [
+        { modelId: 'afinn', modelName: 'AFINN', success: true },
+        { modelId: 'distilbert', modelName: 'DistilBERT SST-2', success: false }
+      ]
+    );
+    const errors = events.filter(entry => entry.event === 'error').map(entry => entry.payload);
+    assert.equal(errors.length, 1);
+    assert.equal(errors[0].modelId, 'distilbert');
+    assert.equal(worker.isWorkerActive(), false);
+    assert.ok(result.data.every(row => row.results[0].analyzer === 'AFINN'));
+  });
+
+  it('holds the run while paused and carries on after resume', async () => {
+    const { engine } = createEngine();
+    const events = recordEvents(engine);
+    let cells = 0;
+    engine.on('cellResult', () => {
+      if (++cells === 1) engine.pause();
+    });
+
+    const running = engine.run(LINES, { selectedRuleBasedAnalyzers: ['afinn'] });
+    await new Promise(resolve => setTimeout(resolve, 20));
+
+    assert.equal(engine.isPaused(), true);
+    assert.equal(cells, 1);
+    assert.equal(phases(events).at(-1), 'paused');
+
+    engine.resume();
+    const result = await running;
+
+    assert.equal(engine.isPaused(), false);
+    assert.equal(cells, 3);
+    assert.equal(phases(events).at(-1), 'complete');
+    assert.ok(result.data.every(row => row.results.length === 1));
+  });
+
+  it('stops after the current cell when cancelled and keeps the results so far', async () => {
+    const { engine, worker } = createEngine();
+    const events = recordEvents(engine);
+    engine.on('cellResult', ({ lineIndex }) => {
+      if (lineIndex === 1) engine.cancel();
+    });
+
+    const result = await engine.run(LINES, {
+      selectedRuleBasedAnalyzers: ['afinn', 'vader'],
+      selectedHuggingFaceModels: ['distilbert']
+    });
+
+    assert.equal(engine.isCancelled(), true);
+    assert.deepEqual(result.data.map(row => row.results.length), [1, 1, 0]);
+    assert.equal(events.some(entry => entry.event === 'modelFinished'), false);
+    assert.equal(phases(events).at(-1), 'cancelled');
+    assert.deepEqual(worker.batches, []);
+  });
+
+  it('releases a paused run when it is cancelled', async () => {
+    const { engine } = createEngine();
+    const events = recordEvents(engine);
+    engine.on('cellResult', () => engine.pause());
+
+    const running = engine.run(LINES, { selectedRuleBasedAnalyzers: ['afinn'] });
+    await new Promise(resolve => setTimeout(resolve, 20));
+    engine.cancel();
+    const result = await running;
+
+    assert.deepEqual(result.data.map(row => row.results.length), [1, 0, 0]);
+    assert.equal(phases(events).at(-1), 'cancelled');
+  });
+
+  it('skips cells restored from a checkpoint', async () => {
+    const { engine, worker } = createEngine();
+    const events = recordEvents(engine);
+    const restored = { analyzer: 'DistilBERT SST-2', type: 'sentiment' as const, sentiment: 'negative', score: 0.8, confidence: 0.8 };
+
+    const result = await engine.run(LINES, {
+      selectedHuggingFaceModels: ['distilbert'],
+      completedCells: [{ lineIndex: 1, column: 'DistilBERT SST-2', cell: restored }]
+    });
+
+    assert.deepEqual(worker.batches, [[LINES[0], LINES[2]]]);
+    assert.deepEqual(
+      events.filter(entry => entry.event === 'cellResult').map(entry => entry.payload.lineIndex),
+      [0, 2]
+    );
+    assert.equal(result.data[1].results[0], restored);
+  });
+
+  it('runs several models side by side in workers of their own', async () => {
+    const registry = new AnalyzerRegistry();
+    const workers: FakeModelWorker[] = [];
+    const isolatedWorker = () => {
+      const worker = new FakeModelWorker();
+      workers.push(worker);
+      return worker;
+    };
+    const multiModel = new MultiModelAnalyzer(registry.getModelManager(), isolatedWorker, isolatedWorker);
+    multiModel.addModel('distilbert', 'Xenova/distilbert-base-uncased-finetuned-sst-2-english', 'DistilBERT SST-2');
+    multiModel.addModel('twitter', 'Xenova/twitter-roberta-base-sentiment-latest', 'Twitter RoBERTa');
+    const engine = new AnalysisEngine(registry, multiModel);
+    const events = recordEvents(engine);
+
+    const result = await engine.run(LINES, {
+      selectedHuggingFaceModels: ['distilbert', 'twitter'],
+      workerPool: { maxWorkers: 2, memoryBudgetMB: 100000 }
+    });
+
+    assert.deepEqual(workers.map(worker => worker.loaded), [['distilbert'], ['twitter']]);
+    assert.ok(workers.every(worker => !worker.isWorkerActive()));
+    assert.deepEqual(
+      events.filter(entry => entry.event === 'modelFinished').map(entry => entry.payload.success),
+      [true, true]
+    );
+    assert.ok(result.data.every(row => row.results.length === 2));
+  });
+
+  it('also scores the words around each aspect mention', async () => {
+    const { engine, worker } = createEngine();
+
+    const result = await engine.run(['The battery died fast', 'Lovely screen'], {
+      selectedRuleBasedAnalyzers: ['afinn'],
+      selectedHuggingFaceModels: ['distilbert'],
+      aspects: { terms: ['battery'], windowWords: 1 }
+    });
+
+    assert.deepEqual(result.columns.map(column => column.name), ['AFINN', 'AFINN [battery]', 'DistilBERT SST-2', 'DistilBERT SST-2 [battery]']);
+    assert.deepEqual(result.aspects, { terms: ['battery'], windowWords: 1 });
+    assert.deepEqual(worker.batches.flat(), ['The battery died fast', 'Lovely screen', 'The battery died']);
+
+    const [mentioned, unmentioned] = result.data;
+    const aspectCell = mentioned.results.find(cell => cell.analyzer === 'DistilBERT SST-2 [battery]');
+    assert.deepEqual(aspectCell?.metadata?.aspect, { term: 'battery', window: 'The battery died' });
+    assert.equal(mentioned.results.find(cell => cell.analyzer === 'AFINN [battery]')?.sentiment, 'negative');
+    assert.equal(unmentioned.results.some(cell => cell.analyzer.endsWith('[battery]')), false);
+  });
+});
@@ -0,0 +1,65 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  aspectBaseColumnName,
+  aspectColumnName,
+  extractAspectWindow,
+  extractAspectWindows,
+  mentionsAspect,
+  parseAspectTerms,
+  withAspectColumns
+} from '../../src/core/analysis/AspectAnalysis';
+import { DISTILBERT, VADER } from './fixtures';
+
+describe('AspectAnalysis', () => {
+  it('parses terms lowercase without duplicates', () => {
+    assert.deepEqual(parseAspectTerms('Battery, customer   service\nbattery\n'), ['battery', 'customer service']);
+  });
+
+  it('matches whole words, plurals and multi-word terms', () => {
+    assert.equal(mentionsAspect('The Battery died', 'battery'), true);
+    assert.equal(mentionsAspect('Great screens', 'screen'), true);
+    assert.equal(mentionsAspect('touchscreen only', 'screen'), false);
+    assert.equal(mentionsAspect('Customer\nservice was slow', 'customer service'), true);
+  });
+
+  it('keeps the words around each mention and joins separate mentions', () => {
+    const text = 'The battery is awful but the screen is bright and sharp and the battery charges fast';
+    assert.equal(extractAspectWindow(text, 'screen', 2), 'but the screen is bright');
+    assert.equal(extractAspectWindow(text, 'battery', 1), 'The battery is … the battery charges');
+    assert.equal(extractAspectWindow(text, 'keyboard', 3), null);
+  });
+
+  it('merges mentions whose windows touch', () => {
+    assert.equal(extractAspectWindow('battery good battery bad', 'battery', 1), 'battery good battery bad');
+  });
+
+  it('lists one window per line and term that mention it', () => {
+    const windows = extractAspectWindows(['Love the screen', 'Battery died', 'Screen and battery fine'], {
+      terms: ['battery', 'screen'],
+      windowWords: 1
+    });
+    assert.deepEqual(windows, [
+      { lineIndex: 1, term: 'battery', text: 'Battery died' },
+      { lineIndex: 2, term: 'battery', text: 'and battery fine' },
+      { lineIndex: 0, term: 'screen', text: 'the screen' },
+      { lineIndex: 2, term: 'screen', text: 'Screen and' }
+    ]);
+  });
+
+  it('adds a sub-column per term right after each analyzer column', () => {
+    const columns = withAspectColumns([VADER, DISTILBERT], ['battery', 'screen']);
+
+    assert.deepEqual(columns.map(column => column.name), [
+      'VADER',
+      'VADER [battery]',
+      'VADER [screen]',
+      'DistilBERT SST-2',
+      'DistilBERT SST-2 [battery]',
+      'DistilBERT SST-2 [screen]'
+    ]);
+    assert.deepEqual(columns[4].aspect, { term: 'battery', baseColumn: 'DistilBERT SST-2' });
+    assert.equal(columns[4].modelId, 'distilbert');
+    assert.equal(aspectBaseColumnName(aspectColumnName('DistilBERT SST-2', 'customer service')), 'DistilBERT SST-2');
+  });
+});
@@ -0,0 +1,41 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { computeRunKey } from '../../src/core/analysis/CheckpointStore';
+
+const LINES = ['I love this', 'I hate this'];
+const MODELS = ['vader', 'distilbert'];
+
+describe('computeRunKey', () => {
+  it('is stable for the same lines and models', () => {
+    const key = computeRunKey(LINES, MODELS);
+    assert.match(key, /^2-[0-9a-f]{14}$/);
+    assert.equal(computeRunKey([...LINES], [...MODELS]), key);
+  });
+
+  it('changes with the lines, the models or their order', () => {
+    const key = computeRunKey(LINES, MODELS);
+    assert.notEqual(computeRunKey([LINES[0], 'I hate that'], MODELS), key);
+    assert.notEqual(computeRunKey(LINES, ['vader']), key);
+    assert.notEqual(computeRunKey(LINES, [...MODELS].reverse()), key);
+  });
+
+  it('matches keys saved before sentence mode, aspects and scoring settings', () => {
+    const key = computeRunKey(LINES, MODELS);
+    assert.equal(computeRunKey(LINES, MODELS, 'line', { terms: [], windowWords: 5 }, {}), key);
+    assert.notEqual(computeRunKey(LINES, MODELS, 'sentence'), key);
+    assert.notEqual(computeRunKey(LINES, MODELS, 'line', { terms: ['battery'], windowWords: 5 }), key);
+  });
+
+  it('changes with the settings the models score with', () => {
+    const key = computeRunKey(LINES, MODELS, 'line', undefined, { vader: { overrides: { sick: 3 } } });
+    assert.notEqual(computeRunKey(LINES, MODELS), key);
+    assert.notEqual(computeRunKey(LINES, MODELS, 'line', undefined, { vader: { overrides: { sick: 2 } } }), key);
+    assert.notEqual(
+      computeRunKey(LINES, MODELS, 'line', undefined, {
+        vader: { overrides: { sick: 3 }, thresholds: { positive: 0.3, negative: -0.3 } }
+      }),
+      key
+    );
+    assert.equal(computeRunKey(LINES, MODELS, 'line', undefined, { vader: { overrides: { sick: 3 } } }), key);
+  });
+});
@@ -0,0 +1,65 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { computeConsensus, hasConsensus, normalizedPolarity } from '../../src/core/analysis/Consensus';
+import { AFINN, DISTILBERT, EMOTIONS, VADER, buildResult, classCell, labelCell, scoreCell } from './fixtures';
+
+describe('Consensus', () => {
+  it('puts every sentiment column on a −1..+1 scale', () => {
+    assert.equal(normalizedPolarity(scoreCell(VADER, 0.6), VADER), 0.6);
+    assert.equal(normalizedPolarity(scoreCell(AFINN, 2.5), AFINN), 0.5);
+    assert.equal(normalizedPolarity(scoreCell(AFINN, -7), AFINN), -1);
+    assert.equal(normalizedPolarity(labelCell(DISTILBERT, 'negative', 0.8), DISTILBERT), -0.8);
+    assert.equal(normalizedPolarity({ ...scoreCell(VADER, 0.6), metadata: { error: 'failed' } }, VADER), null);
+  });
+
+  it('takes the weighted majority and measures agreement per line', () => {
+    const result = buildResult([VADER, AFINN, DISTILBERT, EMOTIONS], [
+      ['great', [scoreCell(VADER, 0.5), scoreCell(AFINN, 3), labelCell(DISTILBERT, 'positive', 0.9), classCell(EMOTIONS, 'joy', { joy: 0.9 })]],
+      ['meh', [scoreCell(VADER, 0.2), scoreCell(AFINN, -1), labelCell(DISTILBERT, 'negative', 0.6)]],
+      ['pending', []]
+    ]);
+
+    const consensus = computeConsensus(result);
+    assert.deepEqual(consensus.models.map(model => model.name), ['VADER', 'AFINN', 'DistilBERT SST-2']);
+
+    const [great, meh, pending] = consensus.rows;
+    assert.equal(great.sentiment, 'positive');
+    assert.equal(great.agreement, 1);
+    assert.equal(meh.sentiment, 'negative');
+    assert.ok(meh.agreement! < 1);
+    assert.equal(pending.count, 0);
+    assert.equal(pending.sentiment, null);
+
+    // Weighing VADER up turns the second line around; weight 0 leaves a model out
+    const weighted = computeConsensus(result, { VADER: 3, AFINN: 0 });
+    assert.deepEqual(weighted.models.map(model => model.name), ['VADER', 'DistilBERT SST-2']);
+    assert.equal(weighted.rows[1].sentiment, 'positive');
+    assert.deepEqual(weighted.rows[1].votes, { positive: 3, neutral: 0, negative: 1 });
+  });
+
+  it('breaks a tie with the sign of the mean polarity', () => {
+    const result = buildResult([VADER, DISTILBERT], [
+      ['split', [scoreCell(VADER, 0.1), labelCell(DISTILBERT, 'negative', 0.9)]]
+    ]);
+    assert.equal(computeConsensus(result).rows[0].sentiment, 'negative');
+  });
+
+  it('computes Fleiss\' kappa over the fully rated lines', () => {
+    const agreeing = buildResult([VADER, DISTILBERT], [
+      ['good', [scoreCell(VADER, 0.5), labelCell(DISTILBERT, 'positive', 0.9)]],
+      ['bad', [scoreCell(VADER, -0.5), labelCell(DISTILBERT, 'negative', 0.9)]]
+    ]);
+    assert.equal(computeConsensus(agreeing).fleissKappa, 1);
+
+    const opposed = buildResult([VADER, DISTILBERT], [
+      ['good', [scoreCell(VADER, 0.5), labelCell(DISTILBERT, 'negative', 0.9)]],
+      ['bad', [scoreCell(VADER, -0.5), labelCell(DISTILBERT, 'positive', 0.9)]]
+    ]);
+    assert.ok(computeConsensus(opposed).fleissKappa! < 0);
+  });
+
+  it('needs two sentiment columns', () => {
+    assert.equal(hasConsensus(buildResult([VADER, EMOTIONS], [])), false);
+    assert.equal(hasConsensus(buildResult([VADER, AFINN], [])), true);
+  });
+});
@@ -0,0 +1,79 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { CustomLexiconAnalyzer, parseLexicon } from '../../src/core/analyzers/CustomLexiconAnalyzer';
+
+function analyzerWith(entries: Record<string, number>): CustomLexiconAnalyzer {
+  const analyzer = new CustomLexiconAnalyzer();
+  analyzer.setLexicon({ name: 'Finance', entries, updatedAt: 0 }, false);
+  return analyzer;
+}
+
+describe('parseLexicon', () => {
+  it('reads CSV, TSV and space-separated lines and skips a header', () => {
+    const { entries, skippedLines } = parseLexicon('word,score\nbullish,2.5\nbearish\t-2\nsell-off -3\n');
+    assert.deepEqual(entries, { bullish: 2.5, bearish: -2, 'sell off': -3 });
+    assert.deepEqual(skippedLines, []);
+  });
+
+  it('keeps separators inside quoted words and ignores comments and blank lines', () => {
+    const { entries } = parseLexicon('# market terms\n\n"Rate cut, finally",1.5\n"Say ""yes""";1\n');
+    assert.deepEqual(entries, { 'rate cut finally': 1.5, 'say yes': 1 });
+  });
+
+  it('reports the lines it could not read', () => {
+    const { entries, skippedLines } = parseLexicon('bullish,2\nno score here\nbearish,-2\n');
+    assert.deepEqual(entries, { bullish: 2, bearish: -2 });
+    assert.deepEqual(skippedLines, [2]);
+  });
+});
+
+describe('CustomLexiconAnalyzer', () => {
+  it('is not ready until a lexicon is set', async () => {
+    const analyzer = new CustomLexiconAnalyzer();
+    assert.equal(analyzer.isReady(), false);
+    await assert.rejects(analyzer.analyze('anything'), /no lexicon loaded/);
+  });
+
+  it('scores matched words on the VADER compound scale', async () => {
+    const analyzer = analyzerWith({ bullish: 2, bearish: -2 });
+
+    const positive = await analyzer.analyze('Analysts are bullish');
+    assert.equal(positive.sentiment, 'positive');
+    assert.ok(Math.abs(positive.score - 2 / Math.sqrt(4 + 15)) < 1e-9);
+    assert.equal(positive.metadata?.lexiconName, 'Finance');
+
+    const neutral = await analyzer.analyze('Nothing from the list');
+    assert.equal(neutral.sentiment, 'neutral');
+    assert.equal(neutral.score, 0);
+  });
+
+  it('flips negated words and strengthens boosted ones', async () => {
+    const analyzer = analyzerWith({ bullish: 2 });
+
+    const negated = await analyzer.analyze('We are not bullish');
+    assert.equal(negated.sentiment, 'negative');
+    assert.equal(negated.metadata?.matches[0].negated, true);
+    assert.ok(Math.abs(negated.metadata?.rawSum - 2 * -0.74) < 1e-9);
+
+    const boosted = await analyzer.analyze('We are very bullish');
+    assert.equal(boosted.metadata?.matches[0].booster, 'very');
+    assert.ok(Math.abs(boosted.metadata?.rawSum - 2.293) < 1e-9);
+  });
+
+  it('prefers the longest matching phrase', async () => {
+    const analyzer = analyzerWith({ cut: -1, 'rate cut': 2, 'emergency rate cut': -3 });
+
+    const phrase = await analyzer.analyze('An emergency rate cut was announced');
+    assert.deepEqual(phrase.metadata?.matches.map((match: any) => match.term), ['emergency rate cut']);
+
+    const shorter = await analyzer.analyze('The rate cut helped');
+    assert.deepEqual(shorter.metadata?.matches.map((match: any) => match.term), ['rate cut']);
+  });
+
+  it('matches phrases of any length', async () => {
+    const analyzer = analyzerWith({ 'better than expected earnings beat': 3, beat: -1 });
+
+    const result = await analyzer.analyze('A better than expected earnings beat');
+    assert.deepEqual(result.metadata?.matches.map((match: any) => match.term), ['better than expected earnings beat']);
+  });
+});
@@ -0,0 +1,79 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { OTHER_LABEL, labelDistributions, polarityHistograms, sentimentScatter, topLabels } from '../../src/core/analysis/Dashboard';
+import { DISTILBERT, EMOTIONS, VADER, buildResult, classCell, labelCell, scoreCell } from './fixtures';
+
+const RESULT = buildResult([VADER, DISTILBERT, EMOTIONS], [
+  ['Great food', [scoreCell(VADER, 0.5), labelCell(DISTILBERT, 'positive', 0.9), classCell(EMOTIONS, 'joy', { joy: 0.8 })]],
+  ['Slow service', [scoreCell(VADER, -0.3), labelCell(DISTILBERT, 'negative', 0.6), classCell(EMOTIONS, 'anger+', { anger: 0.6 })]],
+  ['It was fine', [scoreCell(VADER, 0.1), labelCell(DISTILBERT, 'negative', 0.7), classCell(EMOTIONS, 'joy', { joy: 0.5 })]],
+  ['Broken', [{ ...scoreCell(VADER, 0), metadata: { error: 'failed' } }]]
+]);
+
+describe('Dashboard', () => {
+  it('bins each sentiment column on the common polarity scale', () => {
+    const [vader, distilbert, ...rest] = polarityHistograms(RESULT, 4);
+
+    assert.equal(rest.length, 0);
+    assert.equal(vader.column, 'VADER');
+    // The failed row has no polarity
+    assert.equal(vader.count, 3);
+    assert.deepEqual(vader.bins.map(bin => bin.total), [0, 1, 1, 1]);
+    assert.deepEqual(vader.bins[3].counts, { positive: 1 });
+
+    assert.equal(distilbert.count, 3);
+    assert.deepEqual(distilbert.bins.map(bin => bin.total), [2, 0, 0, 1]);
+    assert.ok(Math.abs(distilbert.mean! - (0.9 - 0.6 - 0.7) / 3) < 1e-9);
+  });
+
+  it('counts predicted labels, sentiment in natural order and classes by frequency', () => {
+    const [vader, distilbert, emotions] = labelDistributions(RESULT);
+
+    assert.deepEqual(vader.labels, [
+      { label: 'positive', count: 2 },
+      { label: 'negative', count: 1 }
+    ]);
+    assert.equal(vader.total, 3);
+    assert.deepEqual(distilbert.labels.map(label => label.label), ['positive', 'negative']);
+    assert.equal(emotions.type, 'classification');
+    assert.deepEqual(emotions.labels, [
+      { label: 'joy', count: 2 },
+      { label: 'anger', count: 1 }
+    ]);
+  });
+
+  it('folds rare labels into Other', () => {
+    const distribution = {
+      column: 'Topics',
+      type: 'classification' as const,
+      total: 10,
+      labels: [
+        { label: 'billing', count: 5 },
+        { label: 'shipping', count: 3 },
+        { label: 'returns', count: 1 },
+        { label: 'other topic', count: 1 }
+      ]
+    };
+
+    assert.deepEqual(topLabels(distribution, 2), [
+      { label: 'billing', count: 5 },
+      { label: 'shipping', count: 3 },
+      { label: OTHER_LABEL, count: 2 }
+    ]);
+    assert.equal(topLabels(distribution, 4).length, 4);
+  });
+
+  it('pairs the polarities of two models on the rows both scored', () => {
+    const scatter = sentimentScatter(RESULT, 'VADER', 'DistilBERT SST-2');
+
+    assert.deepEqual(scatter.points.map(point => [point.lineIndex, point.agree]), [
+      [0, true],
+      [1, true],
+      [2, false]
+    ]);
+    assert.deepEqual(scatter.points[1], { lineIndex: 1, x: -0.3, y: -0.6, agree: true });
+    assert.ok(scatter.pearson! > 0);
+
+    assert.deepEqual(sentimentScatter(RESULT, 'VADER', 'GoEmotions').points, []);
+  });
+});
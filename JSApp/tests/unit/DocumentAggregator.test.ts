@@ -0,0 +1,52 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { aggregateDocuments, segmentDocuments, splitIntoSentences } from '../../src/core/analysis/DocumentAggregator';
+import { DISTILBERT, EMOTIONS, VADER, buildResult, classCell, labelCell, scoreCell } from './fixtures';
+
+describe('DocumentAggregator', () => {
+  it('splits documents into sentences', () => {
+    assert.deepEqual(splitIntoSentences('Great food. Terrible service! Would I return?'), [
+      'Great food.',
+      'Terrible service!',
+      'Would I return?'
+    ]);
+    assert.deepEqual(splitIntoSentences('No full stop'), ['No full stop']);
+  });
+
+  it('numbers sentences across documents', () => {
+    const { sentences, documents } = segmentDocuments(['Loved it. Will be back.', 'Meh.']);
+    assert.deepEqual(sentences, ['Loved it.', 'Will be back.', 'Meh.']);
+    assert.deepEqual(documents.map(document => document.sentenceIndices), [[0, 1], [2]]);
+  });
+
+  it('rolls sentence results up to each document', () => {
+    const { sentences, documents } = segmentDocuments(['Great food. Terrible service.', 'Fine.']);
+    const result = buildResult([VADER, DISTILBERT, EMOTIONS], [
+      [sentences[0], [scoreCell(VADER, 0.5), labelCell(DISTILBERT, 'positive', 0.9), classCell(EMOTIONS, 'joy', { joy: 0.8 })]],
+      [sentences[1], [scoreCell(VADER, -0.3), labelCell(DISTILBERT, 'negative', 0.6), classCell(EMOTIONS, 'anger', { anger: 0.6 })]],
+      [sentences[2], [{ ...scoreCell(VADER, 0), metadata: { error: 'failed' } }]]
+    ]);
+    result.documents = documents;
+
+    const [mixed, failed] = aggregateDocuments(result);
+    const [vader, distilbert, emotions] = mixed.columns;
+
+    assert.equal(vader.count, 2);
+    assert.ok(Math.abs(vader.mean! - 0.1) < 1e-9);
+    assert.equal(vader.max, 0.5);
+    assert.equal(vader.min, -0.3);
+    assert.equal(vader.negativeShare, 0.5);
+    // One sentence each way: the sign of the mean decides
+    assert.equal(vader.sentiment, 'positive');
+    assert.equal(distilbert.sentiment, 'positive');
+    assert.equal(emotions.type, 'classification');
+    assert.equal(emotions.mean, 0.7);
+
+    assert.equal(failed.columns[0].count, 0);
+    assert.equal(failed.columns[0].mean, null);
+  });
+
+  it('has no documents in line mode', () => {
+    assert.deepEqual(aggregateDocuments(buildResult([VADER], [['a', []]])), []);
+  });
+});
@@ -0,0 +1,61 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { buildGoldLabels, evaluateAgainstGold, matchGoldLabels, suggestGoldMapping } from '../../src/core/analysis/GoldEvaluation';
+import { DISTILBERT, EMOTIONS, VADER, buildResult, classCell, labelCell, scoreCell } from './fixtures';
+
+describe('GoldEvaluation', () => {
+  it('maps common spellings onto the sentiment labels', () => {
+    assert.deepEqual(suggestGoldMapping(['POS', '-', 'Neutral', 'Joy']), {
+      POS: 'positive',
+      '-': 'negative',
+      Neutral: 'neutral',
+      Joy: 'joy'
+    });
+  });
+
+  it('matches labels to lines by text, duplicates in import order', () => {
+    const gold = buildGoldLabels('label', ['same', 'other', 'same', 'unlabelled'], ['pos', 'neg', 'neu', ''], { neu: '' });
+    assert.equal(gold.entries.length, 3);
+    assert.deepEqual(matchGoldLabels([' same ', 'same', 'other', 'missing'], gold), ['positive', null, 'negative', null]);
+
+    const result = buildResult([VADER], [
+      [' same ', [scoreCell(VADER, 0.5)]],
+      ['same', [scoreCell(VADER, -0.5)]],
+      ['other', [scoreCell(VADER, 0.5)]],
+      ['missing', [scoreCell(VADER, 0.5)]]
+    ]);
+    const evaluation = evaluateAgainstGold(result, gold);
+    assert.equal(evaluation.matched, 2);
+    assert.deepEqual(evaluation.models[0].confusion, [[1, 0], [1, 0]]);
+  });
+
+  it('scores each column with accuracy, macro-F1 and a confusion matrix', () => {
+    const result = buildResult([VADER, DISTILBERT, EMOTIONS], [
+      ['a', [scoreCell(VADER, 0.5), labelCell(DISTILBERT, 'positive', 0.9), classCell(EMOTIONS, 'joy', { joy: 0.9 })]],
+      ['b', [scoreCell(VADER, -0.5), labelCell(DISTILBERT, 'positive', 0.7), classCell(EMOTIONS, 'anger', { anger: 0.8 })]],
+      ['c', [scoreCell(VADER, -0.2), labelCell(DISTILBERT, 'negative', 0.9), classCell(EMOTIONS, 'anger', { anger: 0.6 })]],
+      ['d', [scoreCell(VADER, 0.3)]]
+    ]);
+    const gold = buildGoldLabels('label', ['a', 'b', 'c'], ['positive', 'negative', 'negative']);
+
+    const evaluation = evaluateAgainstGold(result, gold);
+    assert.equal(evaluation.unit, 'line');
+    assert.equal(evaluation.matched, 3);
+    assert.equal(evaluation.total, 4);
+
+    const [vader, distilbert] = evaluation.models;
+    assert.equal(vader.accuracy, 1);
+    assert.equal(vader.macroF1, 1);
+
+    assert.equal(distilbert.count, 3);
+    assert.equal(distilbert.accuracy, 2 / 3);
+    assert.deepEqual(distilbert.labels, ['positive', 'negative']);
+    assert.deepEqual(distilbert.confusion, [[1, 0], [1, 1]]);
+    const positive = distilbert.classes.find(metrics => metrics.label === 'positive')!;
+    assert.equal(positive.precision, 0.5);
+    assert.equal(positive.recall, 1);
+
+    // Classification columns predict their top class, which never matches a sentiment label
+    assert.equal(evaluation.models[2].accuracy, 0);
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  attachPassthrough,
+  buildPassthroughColumns,
+  matchPassthrough,
+  mergePassthroughColumns,
+  rowPassthrough
+} from '../../src/core/analysis/Passthrough';
+import { buildCSVContent, buildJSONExport } from '../../src/utils/exportUtils';
+import { VADER, buildResult, scoreCell } from './fixtures';
+
+describe('Passthrough', () => {
+  it('pairs imported texts with their values and skips empty texts', () => {
+    const passthrough = buildPassthroughColumns(['id', 'author'], ['Good', '', 'Bad'], [['1', ' ann '], ['2', 'bo'], ['3']]);
+
+    assert.deepEqual(passthrough, {
+      columns: ['id', 'author'],
+      entries: [
+        { text: 'Good', values: ['1', 'ann'] },
+        { text: 'Bad', values: ['3', ''] }
+      ]
+    });
+  });
+
+  it('merges appended rows under the union of both column sets', () => {
+    const merged = mergePassthroughColumns(
+      { columns: ['id', 'author'], entries: [{ text: 'Good', values: ['1', 'ann'] }] },
+      { columns: ['rating', 'id'], entries: [{ text: 'Bad', values: ['2', '7'] }] }
+    );
+
+    assert.deepEqual(merged.columns, ['id', 'author', 'rating']);
+    assert.deepEqual(merged.entries.map(entry => entry.values), [['1', 'ann', ''], ['7', '', '2']]);
+  });
+
+  it('matches lines by text, repeated texts in import order', () => {
+    const passthrough = buildPassthroughColumns(['id'], ['Same', 'Other', 'Same'], [['1'], ['2'], ['3']]);
+
+    assert.deepEqual(matchPassthrough([' Same', 'Same', 'Typed in', 'Other'], passthrough).rows, [['1'], ['3'], [''], ['2']]);
+  });
+
+  it('gives every sentence its document values', () => {
+    const result = buildResult([VADER], [
+      ['First sentence.', [scoreCell(VADER, 0.5)]],
+      ['Second sentence.', [scoreCell(VADER, -0.2)]],
+      ['Another document.', [scoreCell(VADER, 0)]]
+    ]);
+    result.documents = [
+      { documentIndex: 0, text: 'First sentence. Second sentence.', sentenceIndices: [0, 1] },
+      { documentIndex: 1, text: 'Another document.', sentenceIndices: [2] }
+    ];
+
+    attachPassthrough(result, { columns: ['id'], rows: [['a'], ['b']] });
+
+    assert.deepEqual(result.passthroughColumns, ['id']);
+    assert.deepEqual([0, 1, 2].map(index => rowPassthrough(result, index)), [['a'], ['a'], ['b']]);
+  });
+
+  it('adds the kept columns to CSV and JSON exports', () => {
+    const result = buildResult([VADER], [['Great', [scoreCell(VADER, 0.5)]]]);
+    attachPassthrough(result, { columns: ['Text', 'author'], rows: [['original', 'ann']] });
+
+    const [header, row] = buildCSVContent(result)!.trim().split('\n');
+    assert.match(header, /^Line,Text_Source,author,Text,/);
+    assert.match(row, /^1,original,ann,Great,/);
+
+    const exported = buildJSONExport(result);
+    assert.deepEqual(exported.results[0].passthrough, { Text: 'original', author: 'ann' });
+  });
+});
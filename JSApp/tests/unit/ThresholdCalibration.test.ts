@@ -0,0 +1,93 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  calibrationTargets,
+  classScoreSamples,
+  scoreHistogram,
+  sentimentFit,
+  sentimentScoreSamples,
+  suggestMultiLabelThreshold,
+  suggestSentimentThresholds
+} from '../../src/core/analysis/ThresholdCalibration';
+import { buildGoldLabels } from '../../src/core/analysis/GoldEvaluation';
+import { DISTILBERT, EMOTIONS, VADER, buildResult, classCell, scoreCell } from './fixtures';
+
+describe('ThresholdCalibration', () => {
+  it('offers the rule-based columns and multi-label classifiers', () => {
+    const emotion = { ...classCell(EMOTIONS, 'joy', { joy: 0.7 }), metadata: { modelType: 'multi-label' } };
+    const result = buildResult([VADER, DISTILBERT, EMOTIONS], [['a', [emotion]]]);
+    assert.deepEqual(calibrationTargets(result), [
+      { kind: 'sentiment', column: 'VADER', analyzer: 'vader' },
+      { kind: 'multi-label', column: 'GoEmotions', modelId: 'go-emotions' }
+    ]);
+  });
+
+  it('suggests the sentiment cutoffs that best fit the gold labels', () => {
+    const rows: Array<[string, number, string]> = [
+      ['p1', 0.6, 'positive'], ['p2', 0.4, 'positive'], ['p3', 0.3, 'positive'],
+      ['n1', 0.1, 'neutral'], ['n2', 0.05, 'neutral'], ['n3', -0.05, 'neutral'],
+      ['g1', -0.4, 'negative'], ['g2', -0.5, 'negative']
+    ];
+    const result = buildResult([VADER], rows.map(([text, score]) => [text, [scoreCell(VADER, score)]]));
+    const gold = buildGoldLabels('label', rows.map(([text]) => text), rows.map(([, , label]) => label));
+    const samples = sentimentScoreSamples(result, 'VADER', gold);
+
+    // VADER's defaults call most of the neutral rows positive or negative
+    const defaults = sentimentFit(samples, { positive: 0.05, negative: -0.05 });
+    assert.equal(defaults.accuracy, 5 / 8);
+
+    const suggested = suggestSentimentThresholds(samples)!;
+    assert.deepEqual(suggested.thresholds, { positive: 0.3, negative: -0.4 });
+    assert.equal(suggested.accuracy, 1);
+    assert.deepEqual(suggested.counts, { positive: 3, neutral: 3, negative: 2 });
+  });
+
+  it('gives each sentence its document\'s gold label in sentence mode', () => {
+    const result = buildResult([VADER], [
+      ['Loved it.', [scoreCell(VADER, 0.6)]],
+      ['Would buy again.', [scoreCell(VADER, 0.2)]],
+      ['Broke in a day.', [scoreCell(VADER, -0.5)]]
+    ]);
+    result.documents = [
+      { documentIndex: 0, text: 'Loved it. Would buy again.', sentenceIndices: [0, 1] },
+      { documentIndex: 1, text: 'Broke in a day.', sentenceIndices: [2] }
+    ];
+    const gold = buildGoldLabels('label', ['Loved it. Would buy again.', 'Broke in a day.'], ['positive', 'negative']);
+
+    assert.deepEqual(sentimentScoreSamples(result, 'VADER', gold), [
+      { score: 0.6, gold: 'positive' },
+      { score: 0.2, gold: 'positive' },
+      { score: -0.5, gold: 'negative' }
+    ]);
+  });
+
+  it('needs two different gold labels to suggest anything', () => {
+    assert.equal(suggestSentimentThresholds([{ score: 0.5, gold: 'positive' }, { score: 0.2, gold: null }]), null);
+  });
+
+  it('suggests the multi-label minimum that separates the gold classes', () => {
+    const result = buildResult([EMOTIONS], [
+      ['a', [classCell(EMOTIONS, 'joy', { joy: 0.7, anger: 0.2 })]],
+      ['b', [classCell(EMOTIONS, 'joy', { joy: 0.3, anger: 0.4 })]]
+    ]);
+    const gold = buildGoldLabels('label', ['a', 'b'], ['Joy', 'Anger']);
+
+    const suggested = suggestMultiLabelThreshold(classScoreSamples(result, 'GoEmotions', gold))!;
+    assert.equal(suggested.threshold, 0.4);
+    assert.equal(suggested.f1, 1);
+    assert.equal(suggested.activeCount, 2);
+  });
+
+  it('bins scores, clamping the ones outside the range', () => {
+    const bins = scoreHistogram([
+      { score: -1, group: 'negative' },
+      { score: 0.2, group: 'positive' },
+      { score: 0.3, group: 'neutral' },
+      { score: 5, group: 'positive' }
+    ], -1, 1, 4);
+
+    assert.deepEqual(bins.map(bin => bin.total), [1, 0, 2, 1]);
+    assert.deepEqual(bins[2].counts, { positive: 1, neutral: 1 });
+    assert.deepEqual(bins[3].counts, { positive: 1 });
+  });
+});
@@ -0,0 +1,67 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { bucketStart, buildTimestamps, computeTimeline, formatBucket, parseTimestamp, suggestBucket } from '../../src/core/analysis/Timeline';
+import { VADER, buildResult, scoreCell } from './fixtures';
+
+// Local-time dates, like the ones the timeline buckets by
+const day = (date: number, hour = 12) => new Date(2024, 2, date, hour).getTime();
+
+describe('Timeline', () => {
+  it('reads dates, date-times and Unix times', () => {
+    assert.equal(parseTimestamp('1700000000'), 1700000000000);
+    assert.equal(parseTimestamp('1700000000123'), 1700000000123);
+    assert.equal(parseTimestamp('2024-03-05'), new Date(2024, 2, 5).getTime());
+    assert.equal(parseTimestamp('2024-03-05T10:00:00Z'), Date.UTC(2024, 2, 5, 10));
+    assert.equal(parseTimestamp('not a date'), null);
+    assert.equal(parseTimestamp(' '), null);
+  });
+
+  it('keeps the rows with a readable date and counts the others', () => {
+    const timestamps = buildTimestamps('created', ['a', 'b', 'c', ''], ['2024-03-05', 'yesterday-ish', '', '2024-03-06']);
+    assert.deepEqual(timestamps.entries.map(entry => entry.text), ['a']);
+    assert.equal(timestamps.unparsed, 1);
+  });
+
+  it('starts weeks on Monday and formats buckets in local time', () => {
+    // Wednesday 6 March 2024
+    assert.equal(bucketStart(day(6, 15), 'week'), new Date(2024, 2, 4).getTime());
+    assert.equal(formatBucket(bucketStart(day(6, 15), 'hour'), 'hour'), '2024-03-06 15:00');
+    assert.equal(formatBucket(bucketStart(day(6, 15), 'day'), 'day'), '2024-03-06');
+  });
+
+  it('averages polarity per bucket, keeps empty buckets and flags spikes', () => {
+    const rows: Array<[string, number, number]> = [];
+    for (let date = 1; date <= 4; date++) {
+      for (let i = 0; i < 3; i++) rows.push([`day ${date} #${i}`, date, 0.1]);
+    }
+    for (let i = 0; i < 3; i++) rows.push([`day 6 #${i}`, 6, -0.9]);
+
+    const result = buildResult([VADER], rows.map(([text, , score]) => [text, [scoreCell(VADER, score)]]));
+    const timestamps = buildTimestamps('created', rows.map(([text]) => text), rows.map(([, date]) => String(day(date))));
+    const timeline = computeTimeline(result, timestamps, 'day');
+
+    assert.equal(timeline.matched, 15);
+    assert.deepEqual(timeline.volume.points.map(point => point.count), [3, 3, 3, 3, 0, 3]);
+
+    const [vader] = timeline.series;
+    assert.equal(vader.column, 'VADER');
+    assert.equal(vader.points[4].value, null);
+    assert.ok(Math.abs(vader.points[5].value! + 0.9) < 1e-9);
+    assert.deepEqual(vader.points.map(point => point.spike), [null, null, null, null, null, 'down']);
+    // Rolling mean weighs the buckets by their rows
+    assert.ok(Math.abs(vader.points[5].rolling! - (12 * 0.1 - 3 * 0.9) / 15) < 1e-9);
+  });
+
+  it('refuses spans that need too many buckets', () => {
+    const result = buildResult([VADER], [['a', []], ['b', []]]);
+    const timestamps = buildTimestamps('created', ['a', 'b'], ['2020-01-01', '2024-01-01']);
+    assert.throws(() => computeTimeline(result, timestamps, 'hour'), RangeError);
+    assert.equal(suggestBucket(timestamps.entries.map(entry => entry.time)), 'week');
+  });
+
+  it('suggests the finest bucket with enough rows for spikes', () => {
+    const times = Array.from({ length: 30 }, (_, index) => day(1 + index % 5, index % 24));
+    assert.equal(suggestBucket(times), 'day');
+    assert.equal(suggestBucket(times.slice(0, 2)), 'week');
+  });
+});
@@ -0,0 +1,131 @@
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { WorkerModelManager, type WorkerMessage } from '../../src/core/models/WorkerModelManager';
+
+/** Stands in for the browser Worker; tests answer its messages by hand */
+class FakeWorker {
+  static instances: FakeWorker[] = [];
+  onmessage: ((event: { data: WorkerMessage }) => void) | null = null;
+  onerror: ((error: unknown) => void) | null = null;
+  posted: WorkerMessage[] = [];
+  terminated = false;
+
+  constructor() {
+    FakeWorker.instances.push(this);
+  }
+
+  postMessage(message: WorkerMessage) {
+    this.posted.push(message);
+  }
+
+  terminate() {
+    this.terminated = true;
+  }
+
+  reply(message: WorkerMessage) {
+    this.onmessage?.({ data: message });
+  }
+}
+
+async function startManager(): Promise<{ manager: WorkerModelManager; worker: FakeWorker }> {
+  const manager = new WorkerModelManager();
+  await manager.initializeWorker();
+  return { manager, worker: FakeWorker.instances.at(-1)! };
+}
+
+const POSITIVE = [{ label: 'POSITIVE', score: 0.9 }];
+const NEGATIVE = [{ label: 'NEGATIVE', score: 0.8 }];
+
+describe('WorkerModelManager.runInferenceBatch', () => {
+  beforeEach(() => {
+    mock.method(console, 'log', () => {});
+    // Every request arms a timeout of two minutes or more; fake timers keep those from holding the run open
+    mock.timers.enable({ apis: ['setTimeout'] });
+    (globalThis as any).Worker = FakeWorker;
+    FakeWorker.instances = [];
+  });
+
+  afterEach(() => {
+    mock.restoreAll();
+    mock.timers.reset();
+    delete (globalThis as any).Worker;
+  });
+
+  it('sends every text in one message and resolves with one label list per text', async () => {
+    const { manager, worker } = await startManager();
+
+    const pending = manager.runInferenceBatch('distilbert', ['good', 'bad', 'fine'], 2);
+    const [request] = worker.posted;
+    assert.equal(request.type, 'RUN_INFERENCE_BATCH');
+    assert.deepEqual(request.payload.texts, ['good', 'bad', 'fine']);
+    assert.equal(request.payload.batchSize, 2);
+
+    worker.reply({
+      type: 'INFERENCE_BATCH_RESULT',
+      payload: { requestId: request.payload.requestId, modelId: 'distilbert', results: [POSITIVE, NEGATIVE, POSITIVE] }
+    });
+    assert.deepEqual(await pending, [POSITIVE, NEGATIVE, POSITIVE]);
+  });
+
+  it('matches results to their request rather than to the model', async () => {
+    const { manager, worker } = await startManager();
+
+    const first = manager.runInferenceBatch('distilbert', ['first']);
+    const second = manager.runInferenceBatch('distilbert', ['second']);
+    const [firstRequest, secondRequest] = worker.posted;
+
+    worker.reply({
+      type: 'INFERENCE_BATCH_RESULT',
+      payload: { requestId: secondRequest.payload.requestId, modelId: 'distilbert', results: [NEGATIVE] }
+    });
+    worker.reply({
+      type: 'INFERENCE_BATCH_RESULT',
+      payload: { requestId: firstRequest.payload.requestId, modelId: 'distilbert', results: [POSITIVE] }
+    });
+
+    assert.deepEqual(await first, [POSITIVE]);
+    assert.deepEqual(await second, [NEGATIVE]);
+  });
+
+  it('answers an empty batch without messaging the worker', async () => {
+    const { manager, worker } = await startManager();
+
+    assert.deepEqual(await manager.runInferenceBatch('distilbert', []), []);
+    assert.deepEqual(worker.posted, []);
+  });
+
+  it('rejects when the worker is terminated mid-batch', async () => {
+    const { manager, worker } = await startManager();
+
+    const pending = manager.runInferenceBatch('distilbert', ['good']);
+    await manager.terminateWorker();
+
+    await assert.rejects(pending, /Worker terminated/);
+    assert.equal(worker.terminated, true);
+  });
+
+  it('times out 120 seconds after the last batch of windows the worker finished', async () => {
+    const { manager, worker } = await startManager();
+
+    const pending = manager.runInferenceBatch('distilbert', ['a', 'b', 'c'], 2);
+    const [request] = worker.posted;
+    let settled = false;
+    pending.catch(() => {}).finally(() => { settled = true; });
+
+    mock.timers.tick(100000);
+    worker.reply({
+      type: 'INFERENCE_BATCH_PROGRESS',
+      payload: { requestId: request.payload.requestId, modelId: 'distilbert', done: 2, total: 5 }
+    });
+    mock.timers.tick(119999);
+    await Promise.resolve();
+    assert.equal(settled, false);
+
+    mock.timers.tick(1);
+    await assert.rejects(pending, /Batch inference timeout for distilbert/);
+  });
+
+  it('refuses to run before the worker exists', async () => {
+    await assert.rejects(new WorkerModelManager().runInferenceBatch('distilbert', ['good']), /Worker not initialized/);
+  });
+});
@@ -0,0 +1,124 @@
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { WorkerPool, estimateWorkerMemoryMB, type PoolTask } from '../../src/core/models/WorkerPool';
+
+/** A task that records when it starts and finishes only when the test says so */
+class ControlledTask implements PoolTask {
+  started = false;
+  private finish!: () => void;
+  private fail!: (error: Error) => void;
+  private done = new Promise<void>((resolve, reject) => {
+    this.finish = resolve;
+    this.fail = reject;
+  });
+
+  constructor(public id: string, public memoryMB: number) {}
+
+  run = () => {
+    this.started = true;
+    return this.done;
+  };
+
+  complete() {
+    this.finish();
+  }
+
+  reject(message: string) {
+    this.fail(new Error(message));
+  }
+}
+
+/** Let the pool react to settled tasks */
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+const startedIds = (tasks: ControlledTask[]) => tasks.filter(task => task.started).map(task => task.id);
+
+describe('WorkerPool', () => {
+  beforeEach(() => {
+    mock.method(console, 'log', () => {});
+    mock.method(console, 'error', () => {});
+  });
+
+  afterEach(() => {
+    mock.restoreAll();
+  });
+
+  it('runs no more tasks at once than the worker limit', async () => {
+    const tasks = ['a', 'b', 'c'].map(id => new ControlledTask(id, 100));
+    const running = new WorkerPool({ maxWorkers: 2, memoryBudgetMB: 1000 }).runAll(tasks);
+
+    await flush();
+    assert.deepEqual(startedIds(tasks), ['a', 'b']);
+
+    tasks[0].complete();
+    await flush();
+    assert.deepEqual(startedIds(tasks), ['a', 'b', 'c']);
+
+    tasks[1].complete();
+    tasks[2].complete();
+    await running;
+  });
+
+  it('holds back a task that would exceed the memory budget and lets a smaller one fill the gap', async () => {
+    const tasks = [new ControlledTask('large', 600), new ControlledTask('medium', 500), new ControlledTask('small', 300)];
+    const running = new WorkerPool({ maxWorkers: 3, memoryBudgetMB: 1000 }).runAll(tasks);
+
+    await flush();
+    assert.deepEqual(startedIds(tasks), ['large', 'small']);
+
+    tasks[0].complete();
+    await flush();
+    assert.deepEqual(startedIds(tasks), ['large', 'medium', 'small']);
+
+    tasks[1].complete();
+    tasks[2].complete();
+    await running;
+  });
+
+  it('runs a task bigger than the whole budget on its own', async () => {
+    const tasks = [new ControlledTask('huge', 5000), new ControlledTask('tiny', 10)];
+    const running = new WorkerPool({ maxWorkers: 4, memoryBudgetMB: 1000 }).runAll(tasks);
+
+    await flush();
+    assert.deepEqual(startedIds(tasks), ['huge']);
+
+    tasks[0].complete();
+    await flush();
+    assert.deepEqual(startedIds(tasks), ['huge', 'tiny']);
+
+    tasks[1].complete();
+    await running;
+  });
+
+  it('keeps going when a task fails', async () => {
+    const tasks = [new ControlledTask('broken', 100), new ControlledTask('next', 100)];
+    const running = new WorkerPool({ maxWorkers: 1, memoryBudgetMB: 1000 }).runAll(tasks);
+
+    await flush();
+    tasks[0].reject('model load failed');
+    await flush();
+    assert.deepEqual(startedIds(tasks), ['broken', 'next']);
+
+    tasks[1].complete();
+    await running;
+  });
+
+  it('stops scheduling once beforeStart returns false', async () => {
+    const tasks = ['a', 'b', 'c'].map(id => new ControlledTask(id, 100));
+    let allowed = 1;
+    const running = new WorkerPool({ maxWorkers: 1, memoryBudgetMB: 1000 }).runAll(tasks, async () => allowed-- > 0);
+
+    await flush();
+    tasks[0].complete();
+    await running;
+
+    assert.deepEqual(startedIds(tasks), ['a']);
+  });
+});
+
+describe('estimateWorkerMemoryMB', () => {
+  it('allows twice the download size', () => {
+    assert.equal(estimateWorkerMemoryMB(67), 134);
+    assert.equal(estimateWorkerMemoryMB(0.4), 1);
+  });
+});
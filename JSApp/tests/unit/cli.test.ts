@@ -0,0 +1,101 @@
+import { test, describe, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { execFile } from 'node:child_process';
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { promisify } from 'node:util';
+import { readInputLines, readKeptColumns } from '../../src/cli/readInput';
+
+const CLI_ENTRY = join(import.meta.dirname, '../../src/cli/sentimentomatic.ts');
+const run = promisify(execFile);
+
+let workDir: string;
+
+before(() => {
+  workDir = mkdtempSync(join(tmpdir(), 'sentimentomatic-cli-'));
+});
+
+after(() => {
+  rmSync(workDir, { recursive: true, force: true });
+});
+
+function writeInput(name: string, content: string): string {
+  const path = join(workDir, name);
+  writeFileSync(path, content);
+  return path;
+}
+
+async function runCli(args: string[]): Promise<{ code: number; stdout: string; stderr: string }> {
+  try {
+    const { stdout, stderr } = await run(process.execPath, ['--import', 'tsx', CLI_ENTRY, ...args], { timeout: 60000 });
+    return { code: 0, stdout, stderr };
+  } catch (error: any) {
+    return { code: error.code, stdout: error.stdout, stderr: error.stderr };
+  }
+}
+
+describe('readInputLines', () => {
+  test('reads one trimmed text per non-empty line of a text file', () => {
+    const path = writeInput('lines.txt', '  first line \n\nsecond line\n');
+    assert.deepEqual(readInputLines(path), ['first line', 'second line']);
+  });
+
+  test('picks the text column of a CSV by header keyword', () => {
+    const path = writeInput('keyword.csv', 'id,Comment\n1,"Great, thanks"\n2,"Two\nlines"\n3,\n');
+    assert.deepEqual(readInputLines(path), ['Great, thanks', 'Two lines']);
+  });
+
+  test('selects a column by name or 1-based index', () => {
+    const path = writeInput('columns.csv', 'a,b\nleft,right\n');
+    assert.deepEqual(readInputLines(path, 'B'), ['right']);
+    assert.deepEqual(readInputLines(path, '1'), ['left']);
+    assert.throws(() => readInputLines(path, 'missing'), /Column "missing" not found/);
+  });
+
+  test('rejects unsupported formats', () => {
+    const path = writeInput('data.json', '[]');
+    assert.throws(() => readInputLines(path), /Unsupported input format/);
+  });
+
+  test('reads kept columns lined up with the texts', () => {
+    const path = writeInput('kept.csv', 'id,author,text\n1,ann,Good\n2,bo,\n3,cy,Bad\n');
+    assert.deepEqual(readKeptColumns(path, ['1', 'AUTHOR'], 'text'), { columns: ['id', 'author'], rows: [['1', 'ann'], ['3', 'cy']] });
+    assert.throws(() => readKeptColumns(writeInput('kept.txt', 'Good\n'), ['id']), /need a CSV/);
+  });
+});
+
+describe('sentimentomatic analyze', () => {
+  test('writes the Export JSON layout for rule-based models to stdout', async () => {
+    const path = writeInput('reviews.txt', 'I love this\nThis is terrible\n');
+    const { code, stdout } = await runCli(['analyze', path, '--models', 'vader,afinn']);
+
+    assert.equal(code, 0);
+    const output = JSON.parse(stdout);
+    assert.equal(output.metadata.totalLines, 2);
+    assert.deepEqual(output.metadata.analyzers.map((analyzer: any) => analyzer.name), ['VADER', 'AFINN']);
+    assert.equal(output.results[0].analysis.VADER.sentiment, 'positive');
+    assert.equal(output.results[1].analysis.AFINN.sentiment, 'negative');
+  });
+
+  test('writes CSV when the output file ends in .csv', async () => {
+    const path = writeInput('one.txt', 'Wonderful day\n');
+    const outPath = join(workDir, 'out.csv');
+    const { code, stdout } = await runCli(['analyze', path, '-m', 'afinn', '-o', outPath]);
+
+    assert.equal(code, 0);
+    assert.equal(stdout, '');
+    const csv = readFileSync(outPath, 'utf8');
+    assert.match(csv, /AFINN/);
+    assert.match(csv, /Wonderful day/);
+  });
+
+  test('exits with a usage error for unknown models', async () => {
+    const path = writeInput('unknown.txt', 'text\n');
+    const { code, stderr } = await runCli(['analyze', path, '-m', 'nope']);
+
+    assert.equal(code, 2);
+    assert.match(stderr, /Unknown model\(s\): nope/);
+    assert.match(stderr, /Usage:/);
+  });
+});
@@ -0,0 +1,135 @@
+import { afterEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  createCustomModel,
+  customModelId,
+  inspectHuggingFaceModel,
+  isCustomModelId,
+  pipelineOverridesForFile,
+  testLoadModel,
+  type ModelInspection
+} from '../../src/core/models/customModels';
+import type { ModelWorker } from '../../src/core/models/WorkerModelManager';
+
+const REPO = 'acme/review-classifier';
+
+/** Answers the Hub API and config.json requests for one repo */
+function mockHub(info: Record<string, unknown>, config: Record<string, unknown> = {}) {
+  return mock.method(globalThis, 'fetch', async (url: string) => {
+    if (url.endsWith('/config.json')) {
+      return new Response(JSON.stringify(config));
+    }
+    return new Response(JSON.stringify(info));
+  });
+}
+
+const classifierRepo = (files: Array<{ rfilename: string; size?: number }>) => ({
+  pipeline_tag: 'text-classification',
+  siblings: [{ rfilename: 'tokenizer.json' }, ...files]
+});
+
+function fakeWorker(labels: Array<{ label: string; score: number }>) {
+  const calls: string[] = [];
+  const worker: ModelWorker = {
+    initializeWorker: async () => { calls.push('init'); },
+    terminateWorker: async () => { calls.push('terminate'); },
+    loadModel: async (_modelId, _huggingFaceId, _task, overrides) => { calls.push(`load ${JSON.stringify(overrides ?? null)}`); },
+    runInference: async () => ({ labels, chunking: { chunkCount: 1, tokenCount: 6, maxTokens: 510, wouldTruncate: false } }),
+    runInferenceBatch: async () => [],
+    disposeModel: async () => {},
+    disposeAll: async () => {},
+    isWorkerActive: () => true
+  };
+  return { worker, calls };
+}
+
+describe('customModels', () => {
+  afterEach(() => {
+    mock.restoreAll();
+  });
+
+  it('prefixes custom model IDs', () => {
+    assert.equal(customModelId(REPO), 'hf:acme/review-classifier');
+    assert.equal(isCustomModelId('hf:acme/review-classifier'), true);
+    assert.equal(isCustomModelId('distilbert'), false);
+  });
+
+  it('maps ONNX file names to pipeline overrides', () => {
+    assert.equal(pipelineOverridesForFile('onnx/model_quantized.onnx'), undefined);
+    assert.deepEqual(pipelineOverridesForFile('onnx/model.onnx'), { subfolder: 'onnx', model_file_name: 'model', dtype: 'fp32' });
+    assert.deepEqual(pipelineOverridesForFile('model_fp16.onnx'), { subfolder: '', model_file_name: 'model', dtype: 'fp16' });
+    assert.deepEqual(pipelineOverridesForFile('weights/classifier_int8.onnx'), {
+      subfolder: 'weights',
+      model_file_name: 'classifier',
+      dtype: 'int8'
+    });
+  });
+
+  it('inspects a repo and prefers quantized weights in onnx/', async () => {
+    mockHub(
+      classifierRepo([
+        { rfilename: 'model.onnx' },
+        { rfilename: 'onnx/model.onnx' },
+        { rfilename: 'onnx/model_quantized.onnx', size: 70 * 1024 * 1024 }
+      ]),
+      { id2label: { 0: 'complaint', 1: 'praise' } }
+    );
+
+    const inspection = await inspectHuggingFaceModel(`https://huggingface.co/${REPO}/`);
+
+    assert.equal(inspection.huggingFaceId, REPO);
+    assert.equal(inspection.selectedFile, 'onnx/model_quantized.onnx');
+    assert.equal(inspection.pipelineOverrides, undefined);
+    assert.deepEqual(inspection.labels, ['complaint', 'praise']);
+    assert.equal(inspection.sizeMB, 70);
+    assert.equal(inspection.onnxFiles.length, 3);
+  });
+
+  it('rejects repos transformers.js cannot run', async () => {
+    await assert.rejects(inspectHuggingFaceModel('not a repo'), /Enter a Hugging Face repo ID/);
+
+    mockHub(classifierRepo([]));
+    await assert.rejects(inspectHuggingFaceModel(REPO), /has no ONNX weights/);
+
+    mock.restoreAll();
+    mockHub({ pipeline_tag: 'text-classification', siblings: [{ rfilename: 'onnx/model.onnx' }] });
+    await assert.rejects(inspectHuggingFaceModel(REPO), /has no tokenizer\.json/);
+
+    mock.restoreAll();
+    mockHub({ ...classifierRepo([{ rfilename: 'onnx/model.onnx' }]), pipeline_tag: 'translation' });
+    await assert.rejects(inspectHuggingFaceModel(REPO), /is a "translation" model/);
+  });
+
+  it('reports repos missing from the Hub', async () => {
+    mock.method(globalThis, 'fetch', async () => new Response('', { status: 404 }));
+    await assert.rejects(inspectHuggingFaceModel(REPO), /was not found on Hugging Face/);
+  });
+
+  it('test-loads a model with its overrides and always terminates the worker', async () => {
+    const inspection: ModelInspection = {
+      huggingFaceId: REPO,
+      onnxFiles: ['onnx/model.onnx'],
+      selectedFile: 'onnx/model.onnx',
+      pipelineOverrides: { subfolder: 'onnx', model_file_name: 'model', dtype: 'fp32' },
+      task: 'text-classification',
+      labels: [],
+      sizeMB: null,
+      likelyCompatible: false
+    };
+
+    const working = fakeWorker([{ label: 'praise', score: 0.7 }]);
+    assert.deepEqual(await testLoadModel(inspection, working.worker), [{ label: 'praise', score: 0.7 }]);
+    assert.deepEqual(working.calls, ['init', `load ${JSON.stringify(inspection.pipelineOverrides)}`, 'terminate']);
+
+    const silent = fakeWorker([]);
+    await assert.rejects(testLoadModel(inspection, silent.worker), /returned no labels/);
+    assert.equal(silent.calls.at(-1), 'terminate');
+
+    // Labels from the test run stand in when config.json has none
+    const model = createCustomModel(inspection, '  ', ['praise', 'complaint']);
+    assert.equal(model.id, 'hf:acme/review-classifier');
+    assert.equal(model.displayName, 'review-classifier');
+    assert.deepEqual(model.labels, ['praise', 'complaint']);
+    assert.deepEqual(model.pipelineOverrides, inspection.pipelineOverrides);
+  });
+});
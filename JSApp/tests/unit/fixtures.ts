@@ -0,0 +1,36 @@
+import type { MultiModalAnalysisResult } from '../../src/core/analysis/AnalysisStrategy';
+import type { AnalysisCellResult, AnalysisColumn } from '../../src/core/analysis/AnalysisEngine';
+
+export const VADER: AnalysisColumn = { name: 'VADER', type: 'sentiment' };
+export const AFINN: AnalysisColumn = { name: 'AFINN', type: 'sentiment' };
+export const DISTILBERT: AnalysisColumn = { name: 'DistilBERT SST-2', type: 'sentiment', modelId: 'distilbert' };
+export const EMOTIONS: AnalysisColumn = { name: 'GoEmotions', type: 'classification', modelId: 'go-emotions' };
+
+/** A rule-based cell: signed score, label from the sign unless given */
+export function scoreCell(column: AnalysisColumn, score: number, sentiment?: string): AnalysisCellResult {
+  return {
+    analyzer: column.name,
+    type: 'sentiment',
+    score,
+    sentiment: sentiment ?? (score > 0 ? 'positive' : score < 0 ? 'negative' : 'neutral')
+  };
+}
+
+/** A neural sentiment cell: predicted label and its confidence */
+export function labelCell(column: AnalysisColumn, sentiment: string, confidence: number): AnalysisCellResult {
+  return { analyzer: column.name, type: 'sentiment', sentiment, score: confidence, confidence };
+}
+
+export function classCell(column: AnalysisColumn, topClass: string, allClasses: Record<string, number>): AnalysisCellResult {
+  return { analyzer: column.name, type: 'classification', topClass, confidence: allClasses[topClass], allClasses };
+}
+
+/** A line-mode result with one row per text */
+export function buildResult(columns: AnalysisColumn[], rows: Array<[string, AnalysisCellResult[]]>): MultiModalAnalysisResult {
+  return {
+    type: 'multimodal',
+    lines: rows.map(([text]) => text),
+    data: rows.map(([text, results], lineIndex) => ({ lineIndex, text, results })),
+    columns
+  };
+}
@@ -0,0 +1,44 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { formatLexiconOverrides, normalizeOverrideWord, validateOverrideWord } from '../../src/core/analyzers/lexiconOverrides';
+import { AfinnAnalyzer, VaderAnalyzer } from '../../src/core/analyzers';
+
+describe('lexiconOverrides', () => {
+  it('matches words lowercase', () => {
+    assert.equal(normalizeOverrideWord('  Sick '), 'sick');
+  });
+
+  it('rejects entries of more than one word', () => {
+    assert.equal(validateOverrideWord('sick'), null);
+    assert.match(validateOverrideWord(normalizeOverrideWord('  Sick   AF ')) ?? '', /more than one word/);
+    assert.match(validateOverrideWord('sick\taf') ?? '', /more than one word/);
+    assert.equal(validateOverrideWord(''), 'Enter a word');
+  });
+
+  it('formats overrides alphabetically for export headers', () => {
+    assert.equal(formatLexiconOverrides({ sick: 3, bad: 0, awesome: -2 }), 'awesome=-2; bad=0; sick=3');
+    assert.equal(formatLexiconOverrides({}), '');
+  });
+
+  it('changes how AFINN scores an overridden word', async () => {
+    const afinn = new AfinnAnalyzer();
+    await afinn.initialize();
+    assert.equal((await afinn.analyze('that game was sick')).sentiment, 'negative');
+
+    afinn.setOverrides({ sick: 3 }, false);
+    const overridden = await afinn.analyze('that game was sick');
+    assert.equal(overridden.sentiment, 'positive');
+    assert.equal(overridden.score, 0.75);
+  });
+
+  it('changes how VADER scores an overridden word', async () => {
+    const vader = new VaderAnalyzer();
+    await vader.initialize();
+    assert.equal((await vader.analyze('that game was sick')).sentiment, 'negative');
+
+    vader.setOverrides({ sick: 3 }, false);
+    const overridden = await vader.analyze('that game was sick');
+    assert.equal(overridden.sentiment, 'positive');
+    assert.deepEqual(overridden.metadata?.lexiconOverrides, { sick: 3 });
+  });
+});
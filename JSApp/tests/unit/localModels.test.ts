@@ -0,0 +1,197 @@
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  folderFromUpload,
+  localModelPath,
+  readLocalModelFile,
+  removeLocalModelFolder,
+  saveLocalModelFolder,
+  type LocalModelFolder
+} from '../../src/core/models/localModels';
+import { inspectLocalModelFolder, keepLocalModelCopy } from '../../src/core/models/customModels';
+
+/** In-memory stand-in for the origin private file system */
+class FakeDirectory {
+  kind = 'directory' as const;
+  entries = new Map<string, FakeDirectory | File>();
+
+  constructor(public name: string) {}
+
+  async getDirectoryHandle(name: string, options: { create?: boolean } = {}): Promise<FakeDirectory> {
+    const existing = this.entries.get(name);
+    if (existing instanceof FakeDirectory) return existing;
+    if (existing || !options.create) throw new DOMException(`${name} not found`, 'NotFoundError');
+    const directory = new FakeDirectory(name);
+    this.entries.set(name, directory);
+    return directory;
+  }
+
+  async getFileHandle(name: string, options: { create?: boolean } = {}): Promise<FakeFileHandle> {
+    if (!this.entries.has(name)) {
+      if (!options.create) throw new DOMException(`${name} not found`, 'NotFoundError');
+      this.entries.set(name, new File([], name));
+    }
+    return new FakeFileHandle(this, name);
+  }
+
+  async *values(): AsyncGenerator<FakeDirectory | FakeFileHandle> {
+    for (const [name, entry] of this.entries) {
+      yield entry instanceof FakeDirectory ? entry : new FakeFileHandle(this, name);
+    }
+  }
+
+  async removeEntry(name: string) {
+    if (!this.entries.delete(name)) throw new DOMException(`${name} not found`, 'NotFoundError');
+  }
+
+  /** Every file path below this directory */
+  paths(prefix = ''): string[] {
+    return [...this.entries].flatMap(([name, entry]) =>
+      entry instanceof FakeDirectory ? entry.paths(`${prefix}${name}/`) : [`${prefix}${name}`]
+    );
+  }
+}
+
+/** Writes through createWritable(), like the page side of Chromium and Firefox */
+class FakeFileHandle {
+  /** Writing a file of this name fails, as on a full disk */
+  static failingName: string | null = null;
+  kind = 'file' as const;
+
+  constructor(private directory: FakeDirectory, public name: string) {}
+
+  async getFile(): Promise<File> {
+    return this.directory.entries.get(this.name) as File;
+  }
+
+  async createWritable() {
+    const parts: Blob[] = [];
+    return {
+      write: async (data: Blob) => {
+        if (this.name === FakeFileHandle.failingName) throw new DOMException('Disk full', 'QuotaExceededError');
+        parts.push(data);
+      },
+      close: async () => { this.directory.entries.set(this.name, new File(parts, this.name)); }
+    };
+  }
+}
+
+const file = (path: string, content = 'x') => ({ path, file: new File([content], path.split('/').pop()!) });
+
+function modelFolder(name: string, config: Record<string, unknown> = { architectures: ['BertForSequenceClassification'] }): LocalModelFolder {
+  return {
+    name,
+    files: [
+      file('config.json', JSON.stringify(config)),
+      file('tokenizer.json', '{}'),
+      file('onnx/model.onnx', 'full'),
+      file('onnx/model_quantized.onnx', 'quantized')
+    ]
+  };
+}
+
+let root: FakeDirectory;
+const originalNavigator = Object.getOwnPropertyDescriptor(globalThis, 'navigator');
+
+describe('localModels', () => {
+  beforeEach(() => {
+    root = new FakeDirectory('');
+    Object.defineProperty(globalThis, 'navigator', {
+      value: { storage: { getDirectory: async () => root } },
+      configurable: true
+    });
+    (globalThis as any).FileSystemFileHandle = FakeFileHandle;
+  });
+
+  afterEach(() => {
+    FakeFileHandle.failingName = null;
+    delete (globalThis as any).FileSystemFileHandle;
+    if (originalNavigator) {
+      Object.defineProperty(globalThis, 'navigator', originalNavigator);
+    } else {
+      delete (globalThis as any).navigator;
+    }
+  });
+
+  it('turns folder names into safe path segments', () => {
+    assert.equal(localModelPath('  My Model (v2) '), 'My-Model-v2-');
+    assert.equal(localModelPath('../secret'), 'secret');
+    assert.equal(localModelPath('   '), 'local-model');
+  });
+
+  it('reads the folder name and relative paths of a directory upload', () => {
+    const upload = [
+      Object.assign(new File(['{}'], 'config.json'), { webkitRelativePath: 'my-model/config.json' }),
+      Object.assign(new File(['x'], 'model.onnx'), { webkitRelativePath: 'my-model/onnx/model.onnx' })
+    ];
+    const folder = folderFromUpload(upload as unknown as FileList);
+
+    assert.equal(folder?.name, 'my-model');
+    assert.deepEqual(folder?.files.map(entry => entry.path), ['config.json', 'onnx/model.onnx']);
+    assert.equal(folderFromUpload([] as unknown as FileList), null);
+  });
+
+  it('stores a folder, reads its files back and removes it', async () => {
+    await saveLocalModelFolder('my-model', [file('config.json', '{"a":1}'), file('onnx/model.onnx')]);
+
+    assert.equal(await (await readLocalModelFile('my-model/config.json'))?.text(), '{"a":1}');
+    assert.equal(await readLocalModelFile('my-model/missing.json'), null);
+
+    await removeLocalModelFolder('my-model');
+    assert.equal(await readLocalModelFile('my-model/config.json'), null);
+  });
+
+  it('copies only the ONNX file that will be loaded, aside until the model is added', async () => {
+    await saveLocalModelFolder('Review-Classifier', [file('config.json', 'earlier model')]);
+
+    const inspection = await inspectLocalModelFolder(modelFolder('Review Classifier', {
+      architectures: ['BertForSequenceClassification'],
+      id2label: { 0: 'complaint', 1: 'praise' }
+    }));
+
+    assert.equal(inspection.localPath, 'Review-Classifier');
+    assert.match(inspection.stagingPath!, /^\.staging-/);
+    assert.equal(inspection.selectedFile, 'onnx/model_quantized.onnx');
+    assert.deepEqual(inspection.labels, ['complaint', 'praise']);
+    const stored = await root.getDirectoryHandle('local-models');
+    assert.deepEqual(stored.paths().filter(path => path.startsWith(inspection.stagingPath!)).sort(), [
+      `${inspection.stagingPath}/config.json`,
+      `${inspection.stagingPath}/onnx/model_quantized.onnx`,
+      `${inspection.stagingPath}/tokenizer.json`
+    ]);
+    // A model added earlier from a folder of the same name keeps its files until this one is added
+    assert.equal(await (await readLocalModelFile('Review-Classifier/config.json'))?.text(), 'earlier model');
+
+    await keepLocalModelCopy(inspection);
+    assert.deepEqual(stored.paths().sort(), [
+      'Review-Classifier/config.json',
+      'Review-Classifier/onnx/model_quantized.onnx',
+      'Review-Classifier/tokenizer.json'
+    ]);
+    assert.match(await (await readLocalModelFile('Review-Classifier/config.json'))!.text(), /complaint/);
+  });
+
+  it('removes a partial copy when saving the folder fails', async () => {
+    FakeFileHandle.failingName = 'tokenizer.json';
+
+    await assert.rejects(inspectLocalModelFolder(modelFolder('my-model')), /Disk full/);
+    const stored = await root.getDirectoryHandle('local-models');
+    assert.deepEqual(stored.paths(), []);
+  });
+
+  it('rejects folders that are not text classifiers', async () => {
+    const noWeights = modelFolder('no-weights');
+    noWeights.files = noWeights.files.filter(entry => !entry.path.endsWith('.onnx'));
+    await assert.rejects(inspectLocalModelFolder(noWeights), /has no \.onnx files/);
+
+    const noTokenizer = modelFolder('no-tokenizer');
+    noTokenizer.files = noTokenizer.files.filter(entry => entry.path !== 'tokenizer.json');
+    await assert.rejects(inspectLocalModelFolder(noTokenizer), /needs config\.json and tokenizer\.json/);
+
+    await assert.rejects(
+      inspectLocalModelFolder(modelFolder('generator', { architectures: ['GPT2LMHeadModel'] })),
+      /is a GPT2LMHeadModel model/
+    );
+    assert.equal(root.entries.size, 0);
+  });
+});
@@ -0,0 +1,64 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { MODEL_MANIFEST, getManifestEntry } from '../../src/core/models/manifest';
+import { MODEL_CATALOG, getCatalogModel, getColumnModel, mapModelLabel } from '../../src/core/models/catalog';
+import { getPipelineOverrides, onnxFilePath } from '../../src/core/models/pipelineOptions';
+import { ANALYZER_PRESETS, getModelConfig } from '../../src/core/models/registry';
+import { COMPATIBLE_MODELS } from '../../src/core/models/compatibility';
+
+describe('model manifest', () => {
+  it('gives every model a unique ID, alias and selector checkbox', () => {
+    const ids = MODEL_MANIFEST.flatMap(model => [model.id, ...(model.aliases || [])]);
+    assert.equal(new Set(ids).size, ids.length);
+
+    const domIds = MODEL_MANIFEST.map(model => model.domId ?? model.id);
+    assert.equal(new Set(domIds).size, domIds.length);
+  });
+
+  it('keeps the checkbox IDs the selector used before the manifest', () => {
+    assert.equal(getManifestEntry('go-emotions')?.domId, 'goemotions');
+    assert.equal(getManifestEntry('text-moderation')?.domId, 'koala-moderation');
+    assert.equal(getManifestEntry('distilbert')?.domId, undefined);
+  });
+
+  it('resolves older IDs through aliases', () => {
+    assert.equal(getManifestEntry('distilbert-sst2')?.id, 'distilbert');
+    assert.equal(getCatalogModel('financial-sentiment')?.id, 'financial');
+    assert.equal(getModelConfig('goemotions')?.id, 'go-emotions');
+  });
+
+  it('hides models from the selector but keeps them loadable', () => {
+    const hidden = MODEL_MANIFEST.filter(model => model.hidden);
+    assert.ok(hidden.length > 0);
+    for (const model of hidden) {
+      assert.equal(MODEL_CATALOG.includes(model), false);
+      assert.equal(getCatalogModel(model.id), undefined);
+      assert.ok(COMPATIBLE_MODELS.some(compatible => compatible.id === model.huggingFaceId));
+    }
+  });
+
+  it('gives neural models a task and every preset an existing model', () => {
+    for (const model of MODEL_MANIFEST.filter(entry => entry.type === 'neural')) {
+      assert.ok(model.task, `${model.id} has no task`);
+    }
+    for (const preset of Object.values(ANALYZER_PRESETS)) {
+      assert.ok(getModelConfig(preset.models.transformers!), `${preset.id} uses an unknown model`);
+    }
+  });
+
+  it('finds the model behind a results column and maps its labels', () => {
+    assert.equal(getColumnModel('VADER')?.id, 'vader');
+    const moderation = getManifestEntry('text-moderation')!;
+    assert.equal(getColumnModel(moderation.displayName)?.id, 'text-moderation');
+    assert.equal(mapModelLabel(moderation.displayName, 'HR'), 'Harassment');
+    assert.equal(mapModelLabel(moderation.displayName, 'unknown'), 'unknown');
+  });
+
+  it('derives ONNX file locations from the manifest overrides', () => {
+    const jigsaw = getManifestEntry('jigsaw-toxicity')!;
+    assert.deepEqual(getPipelineOverrides(jigsaw.huggingFaceId), jigsaw.pipelineOverrides);
+    assert.equal(onnxFilePath(jigsaw.pipelineOverrides), 'model_optimized_quantized.onnx');
+    assert.equal(getPipelineOverrides(getManifestEntry('distilbert')!.huggingFaceId), null);
+    assert.equal(onnxFilePath(null), 'onnx/model_quantized.onnx');
+  });
+});
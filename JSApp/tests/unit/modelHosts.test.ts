@@ -0,0 +1,62 @@
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  DEFAULT_MODEL_HOSTS,
+  getModelHosts,
+  modelFileUrl,
+  runtimeUrls,
+  setModelHosts
+} from '../../src/core/models/modelHosts';
+
+/** Just enough of localStorage for the settings helpers */
+class MemoryStorage {
+  private items = new Map<string, string>();
+  getItem(key: string) { return this.items.get(key) ?? null; }
+  setItem(key: string, value: string) { this.items.set(key, value); }
+  removeItem(key: string) { this.items.delete(key); }
+  get length() { return this.items.size; }
+}
+
+describe('modelHosts', () => {
+  beforeEach(() => {
+    (globalThis as any).localStorage = new MemoryStorage();
+  });
+
+  afterEach(() => {
+    delete (globalThis as any).localStorage;
+  });
+
+  it('downloads from the Hugging Face Hub and jsDelivr by default', () => {
+    assert.deepEqual(getModelHosts(), DEFAULT_MODEL_HOSTS);
+    assert.equal(
+      modelFileUrl('Xenova/distilbert-base-uncased-finetuned-sst-2-english', 'config.json'),
+      'https://huggingface.co/Xenova/distilbert-base-uncased-finetuned-sst-2-english/resolve/main/config.json'
+    );
+  });
+
+  it('saves user hosts without trailing slashes and stores only what differs from the defaults', () => {
+    const hosts = setModelHosts({ modelHost: ' https://mirror.example.com/hf/ ', runtimeHost: DEFAULT_MODEL_HOSTS.runtimeHost });
+
+    assert.deepEqual(hosts, { modelHost: 'https://mirror.example.com/hf', runtimeHost: DEFAULT_MODEL_HOSTS.runtimeHost });
+    assert.deepEqual(JSON.parse(localStorage.getItem('sentimentomatic_model_hosts')!), { modelHost: 'https://mirror.example.com/hf' });
+    assert.equal(modelFileUrl('org/model', 'onnx/model_quantized.onnx'), 'https://mirror.example.com/hf/org/model/resolve/main/onnx/model_quantized.onnx');
+  });
+
+  it('falls back to the defaults when the hosts are cleared', () => {
+    setModelHosts({ modelHost: 'https://mirror.example.com' });
+    assert.deepEqual(setModelHosts({ modelHost: '', runtimeHost: '' }), DEFAULT_MODEL_HOSTS);
+    assert.equal(localStorage.getItem('sentimentomatic_model_hosts'), null);
+  });
+
+  it('rejects hosts that are neither URLs nor site paths', () => {
+    assert.throws(() => setModelHosts({ modelHost: 'mirror.example.com' }), /not an http\(s\) URL/);
+    assert.deepEqual(setModelHosts({ modelHost: '/models' }).modelHost, '/models');
+  });
+
+  it('builds runtime URLs in the npm CDN layout', () => {
+    assert.deepEqual(runtimeUrls('https://cdn.example.com/npm', '3.7.1', '1.22.0'), {
+      transformersUrl: 'https://cdn.example.com/npm/@huggingface/transformers@3.7.1/dist/transformers.min.js',
+      ortBase: 'https://cdn.example.com/npm/onnxruntime-web@1.22.0/dist/'
+    });
+  });
+});
@@ -0,0 +1,63 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { MAX_OCCLUDED_TOKENS, computeOcclusionAttributions, splitOcclusionTokens } from '../../src/core/models/occlusion';
+
+/** "love" makes a text positive, "not" takes a little of that away */
+async function fakeClassifier(texts: string[]) {
+  return texts.map(text => {
+    const words = text.toLowerCase().split(/\W+/);
+    const positive = (words.includes('love') ? 0.9 : 0.3) - (words.includes('not') ? 0.2 : 0);
+    return [{ label: 'POSITIVE', score: positive }, { label: 'NEGATIVE', score: 1 - positive }];
+  });
+}
+
+const close = (actual: number | null, expected: number) => actual !== null && Math.abs(actual - expected) < 1e-9;
+
+describe('occlusion', () => {
+  it('splits words, contractions and punctuation with their offsets', () => {
+    assert.deepEqual(splitOcclusionTokens("I didn't love it!"), [
+      { text: 'I', start: 0, end: 1 },
+      { text: "didn't", start: 2, end: 8 },
+      { text: 'love', start: 9, end: 13 },
+      { text: 'it', start: 14, end: 16 },
+      { text: '!', start: 16, end: 17 }
+    ]);
+  });
+
+  it('attributes the top label to the tokens that raise its score', async () => {
+    const attributions = await computeOcclusionAttributions(fakeClassifier, 'I do not love it', undefined, 4, {});
+
+    assert.equal(attributions.label, 'POSITIVE');
+    assert.ok(close(attributions.baseline, 0.7));
+    assert.equal(attributions.skipped, 0);
+    const byToken = Object.fromEntries(attributions.tokens.map(token => [token.text, token.attribution]));
+    assert.ok(close(byToken.love, 0.6));
+    assert.ok(close(byToken.not, -0.2));
+    assert.ok(close(byToken.it, 0));
+  });
+
+  it('explains another label when asked', async () => {
+    const attributions = await computeOcclusionAttributions(fakeClassifier, 'I love it', 'NEGATIVE', 8, {});
+
+    assert.equal(attributions.label, 'NEGATIVE');
+    assert.ok(close(attributions.baseline, 0.1));
+    assert.ok(close(attributions.tokens[1].attribution, -0.6));
+  });
+
+  it('leaves out only the first tokens of very long texts', async () => {
+    const text = Array.from({ length: MAX_OCCLUDED_TOKENS + 5 }, () => 'word').join(' ');
+    const attributions = await computeOcclusionAttributions(fakeClassifier, text, undefined, 64, {});
+
+    assert.equal(attributions.skipped, 5);
+    assert.equal(attributions.tokens.length, MAX_OCCLUDED_TOKENS + 5);
+    assert.equal(attributions.tokens.at(-1)!.attribution, null);
+    assert.ok(close(attributions.tokens[0].attribution, 0));
+  });
+
+  it('fails when the model returns no labels', async () => {
+    await assert.rejects(
+      computeOcclusionAttributions(async (texts: string[]) => texts.map(() => []), 'Hello', undefined, 8, {}),
+      /no labels to explain/
+    );
+  });
+});
@@ -0,0 +1,49 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  DEFAULT_SENTIMENT_THRESHOLDS,
+  formatSentimentThresholds,
+  isDefaultSentimentThresholds,
+  sentimentFromScore,
+  validateSentimentThresholds
+} from '../../src/core/analyzers/scoreThresholds';
+import { VaderAnalyzer } from '../../src/core/analyzers';
+
+describe('scoreThresholds', () => {
+  it('labels scores at or beyond the cutoffs, leaving 0 neutral', () => {
+    const vader = DEFAULT_SENTIMENT_THRESHOLDS.vader;
+    assert.equal(sentimentFromScore(0.05, vader), 'positive');
+    assert.equal(sentimentFromScore(0.04, vader), 'neutral');
+    assert.equal(sentimentFromScore(-0.05, vader), 'negative');
+
+    const afinn = DEFAULT_SENTIMENT_THRESHOLDS.afinn;
+    assert.equal(sentimentFromScore(0.01, afinn), 'positive');
+    assert.equal(sentimentFromScore(0, afinn), 'neutral');
+    assert.equal(sentimentFromScore(-0.01, afinn), 'negative');
+  });
+
+  it('rejects cutoffs on the wrong side of 0', () => {
+    assert.equal(validateSentimentThresholds({ positive: 0.2, negative: -0.2 }), null);
+    assert.equal(validateSentimentThresholds({ positive: -0.1, negative: -0.2 }), 'The positive cutoff must be 0 or more');
+    assert.equal(validateSentimentThresholds({ positive: 0.1, negative: 0.2 }), 'The negative cutoff must be 0 or less');
+    assert.equal(validateSentimentThresholds({ positive: NaN, negative: 0 }), 'Both cutoffs must be numbers');
+  });
+
+  it('describes and recognises the defaults', () => {
+    assert.equal(formatSentimentThresholds(DEFAULT_SENTIMENT_THRESHOLDS.vader), '>=0.05 / <=-0.05');
+    assert.equal(formatSentimentThresholds(DEFAULT_SENTIMENT_THRESHOLDS.afinn), '>0 / <0');
+    assert.equal(isDefaultSentimentThresholds('vader', { positive: 0.05, negative: -0.05 }), true);
+    assert.equal(isDefaultSentimentThresholds('vader', { positive: 0.5, negative: -0.05 }), false);
+  });
+
+  it('relabels VADER results with custom cutoffs', async () => {
+    const vader = new VaderAnalyzer();
+    await vader.initialize();
+    assert.equal((await vader.analyze('The food was good')).sentiment, 'positive');
+
+    vader.setThresholds({ positive: 0.9, negative: -0.9 }, false);
+    const result = await vader.analyze('The food was good');
+    assert.equal(result.sentiment, 'neutral');
+    assert.deepEqual(result.metadata?.thresholds, { positive: 0.9, negative: -0.9 });
+  });
+});
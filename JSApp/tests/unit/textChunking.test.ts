@@ -0,0 +1,84 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { aggregateChunkScores, runChunkedInference, splitIntoTokenWindows } from '../../src/core/models/textChunking';
+
+/** One token per word, with [CLS]/[SEP] around every input */
+function wordTokenizer(modelMaxLength: number) {
+  const vocab: string[] = [];
+  const id = (word: string) => {
+    if (!vocab.includes(word)) vocab.push(word);
+    return vocab.indexOf(word) + 2;
+  };
+  return {
+    model_max_length: modelMaxLength,
+    encode: (text: string, options: { add_special_tokens?: boolean } = {}) => {
+      const ids = text.split(/\s+/).filter(Boolean).map(id);
+      return options.add_special_tokens === false ? ids : [0, ...ids, 1];
+    },
+    decode: (ids: number[]) => ids.map(tokenId => vocab[tokenId - 2]).join(' ')
+  };
+}
+
+const words = (count: number) => Array.from({ length: count }, (_, i) => `w${i}`).join(' ');
+
+describe('textChunking', () => {
+  it('keeps texts that fit in one pass', () => {
+    const { chunks, chunking } = splitIntoTokenWindows(wordTokenizer(12), words(10));
+    assert.deepEqual(chunks, [words(10)]);
+    assert.deepEqual(chunking, { chunkCount: 1, tokenCount: 10, maxTokens: 10, wouldTruncate: false });
+  });
+
+  it('splits long texts into overlapping windows', () => {
+    const { chunks, weights, chunking } = splitIntoTokenWindows(wordTokenizer(12), words(25));
+
+    // 10 tokens per window, 2 shared with the next one
+    assert.equal(chunking.chunkCount, 3);
+    assert.equal(chunking.wouldTruncate, true);
+    assert.deepEqual(weights, [10, 10, 9]);
+    assert.ok(chunks[0].endsWith('w8 w9'));
+    assert.ok(chunks[1].startsWith('w8 w9'));
+    assert.ok(chunks[2].endsWith('w24'));
+  });
+
+  it('leaves room for reserved tokens in every window', () => {
+    const { chunks, chunking } = splitIntoTokenWindows(wordTokenizer(12), words(10), 4);
+    assert.equal(chunking.maxTokens, 6);
+    assert.equal(chunks.length, 2);
+  });
+
+  it('passes text through when the pipeline has no tokenizer', () => {
+    const { chunks, chunking } = splitIntoTokenWindows(undefined, words(1000));
+    assert.equal(chunks.length, 1);
+    assert.equal(chunking.tokenCount, null);
+  });
+
+  it('averages chunk scores weighted by window length', () => {
+    const scores = aggregateChunkScores([
+      [{ label: 'POSITIVE', score: 0.9 }, { label: 'NEGATIVE', score: 0.1 }],
+      [{ label: 'NEGATIVE', score: 0.6 }, { label: 'POSITIVE', score: 0.4 }]
+    ], [3, 1]);
+
+    assert.deepEqual(scores.map(score => score.label), ['POSITIVE', 'NEGATIVE']);
+    assert.ok(Math.abs(scores[0].score - 0.775) < 1e-9);
+    assert.ok(Math.abs(scores[1].score - 0.225) < 1e-9);
+  });
+
+  it('batches the windows of all texts and regroups them per text', async () => {
+    const batches: string[][] = [];
+    const pipeline = Object.assign(async (texts: string[]) => {
+      batches.push(texts);
+      return texts.map(text => [{ label: text.split(' ').length >= 5 ? 'LONG' : 'SHORT', score: 1 }]);
+    }, { tokenizer: wordTokenizer(12), reservedTokens: 4 });
+    const progress: Array<[number, number]> = [];
+
+    const outputs = await runChunkedInference(pipeline, ['one two', words(10)], 2, {}, {
+      onBatch: (done, total) => progress.push([done, total])
+    });
+
+    assert.deepEqual(batches.map(batch => batch.length), [2, 1]);
+    assert.deepEqual(progress, [[2, 3], [3, 3]]);
+    assert.deepEqual(outputs[0].labels, [{ label: 'SHORT', score: 1 }]);
+    assert.equal(outputs[1].chunking.chunkCount, 2);
+    assert.equal(outputs[1].chunking.maxTokens, 6);
+  });
+});
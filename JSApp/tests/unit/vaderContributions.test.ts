@@ -0,0 +1,93 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { AfinnAnalyzer, VaderAnalyzer } from '../../src/core/analyzers';
+import { vaderContributions } from '../../src/core/analyzers/vaderContributions';
+import { formatValence, locateWords, type WordContribution } from '../../src/core/analyzers/wordContributions';
+
+const byWord = (contributions: WordContribution[]) =>
+  Object.fromEntries(contributions.map(contribution => [contribution.word, contribution]));
+
+describe('wordContributions', () => {
+  it('locates repeated words at successive occurrences', () => {
+    assert.deepEqual(locateWords('Good, good and GOOD', ['good', 'good', 'missing', 'good'], true), [
+      { start: 0, end: 4 },
+      { start: 6, end: 10 },
+      { start: -1, end: -1 },
+      { start: 15, end: 19 }
+    ]);
+  });
+
+  it('formats valences with a sign', () => {
+    assert.equal(formatValence(1.9), '+1.9');
+    assert.equal(formatValence(-0.74), '-0.74');
+    assert.equal(formatValence(0.29300001), '+0.293');
+    assert.equal(formatValence(0), '0');
+  });
+});
+
+describe('vaderContributions', () => {
+  it('explains boosters and negation on the word they modify', async () => {
+    const vader = new VaderAnalyzer();
+    await vader.initialize();
+    const result = await vader.analyze('The food is not very good');
+    const words = byWord(result.metadata?.wordContributions);
+
+    assert.deepEqual(Object.keys(words), ['not', 'very', 'good']);
+    assert.deepEqual(words.good.rules, ['Lexicon +1.9', 'Boosted by "very" +0.293', 'Negated by "not" ×-0.74']);
+    assert.ok(words.good.score < 0);
+    assert.deepEqual(words.not.rules, ['Negates "good"']);
+    assert.equal(words.very.score, 0);
+    assert.deepEqual([words.good.start, words.good.end], [21, 25]);
+  });
+
+  it('explains ALL CAPS and the "but" shift', async () => {
+    const vader = new VaderAnalyzer();
+    await vader.initialize();
+    const result = await vader.analyze('The food was GREAT but the service was bad');
+    const words = byWord(result.metadata?.wordContributions);
+
+    assert.deepEqual(words.GREAT.rules, ['Lexicon +3.1', 'ALL CAPS +0.733', 'Before "but" ×0.5']);
+    assert.deepEqual(words.bad.rules, ['Lexicon -2.5', 'After "but" ×1.5']);
+    assert.equal(words.bad.score, -3.75);
+    assert.match(words.but.rules[0], /Halves the words before it/);
+  });
+
+  it('names overridden words and skips words with no valence', () => {
+    const lexicon: Record<string, number> = { sick: 3 };
+    const contributions = vaderContributions(
+      'that was sick',
+      ['that', 'was', 'sick'],
+      [0, 0, 3],
+      word => lexicon[word] ?? 0,
+      word => word === 'sick'
+    );
+
+    assert.deepEqual(contributions, [{ word: 'sick', start: 9, end: 13, score: 3, rules: ['Your override +3'] }]);
+  });
+});
+
+describe('AFINN word contributions', () => {
+  it('records each scored word and the negator that flipped it', async () => {
+    const afinn = new AfinnAnalyzer();
+    await afinn.initialize();
+    const result = await afinn.analyze("I don't like it");
+    const words = byWord(result.metadata?.wordContributions);
+
+    assert.deepEqual(words.like.rules, ['AFINN +2', 'Negated by "don\'t" → -2']);
+    assert.equal(words.like.score, -2);
+    assert.deepEqual(words["don't"].rules, ['Negates "like"']);
+  });
+
+  it('keeps repeated words apart', async () => {
+    const afinn = new AfinnAnalyzer();
+    await afinn.initialize();
+    const result = await afinn.analyze('good good bad');
+    const contributions: WordContribution[] = result.metadata?.wordContributions;
+
+    assert.deepEqual(contributions.map(contribution => [contribution.word, contribution.start, contribution.score]), [
+      ['good', 0, 3],
+      ['good', 5, 3],
+      ['bad', 10, -3]
+    ]);
+  });
+});
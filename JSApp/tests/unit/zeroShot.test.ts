@@ -0,0 +1,81 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  asTextClassifier,
+  checkZeroShotConfig,
+  hypothesisTokenCount,
+  parseCandidateLabels,
+  type ZeroShotConfig
+} from '../../src/core/models/zeroShot';
+
+const CONFIG: ZeroShotConfig = { candidateLabels: ['billing', 'shipping'], multiLabel: false };
+
+describe('zeroShot', () => {
+  it('parses comma- or line-separated labels without duplicates', () => {
+    assert.deepEqual(parseCandidateLabels(' billing,  shipping \nproduct   quality\nbilling,,'), [
+      'billing',
+      'shipping',
+      'product quality'
+    ]);
+    assert.deepEqual(parseCandidateLabels('  \n , '), []);
+  });
+
+  it('needs at least one candidate label', () => {
+    assert.throws(() => checkZeroShotConfig({ candidateLabels: [], multiLabel: false }), /at least one candidate label/);
+    assert.doesNotThrow(() => checkZeroShotConfig(CONFIG));
+  });
+
+  it('calls the pipeline with the labels and reshapes its output per text', async () => {
+    const calls: any[][] = [];
+    const tokenizer = { model_max_length: 512 };
+    const pipeline = Object.assign(async (...args: any[]) => {
+      calls.push(args);
+      return [
+        { labels: ['shipping', 'billing'], scores: [0.8, 0.2] },
+        { labels: ['billing', 'shipping'], scores: [0.6, 0.4] }
+      ];
+    }, { tokenizer });
+
+    const classifier = asTextClassifier(pipeline, CONFIG);
+    const output = await classifier(['Where is my parcel?', 'I was charged twice']);
+
+    assert.deepEqual(calls, [[
+      ['Where is my parcel?', 'I was charged twice'],
+      ['billing', 'shipping'],
+      { multi_label: false, hypothesis_template: 'This example is {}.' }
+    ]]);
+    assert.deepEqual(output, [
+      [{ label: 'shipping', score: 0.8 }, { label: 'billing', score: 0.2 }],
+      [{ label: 'billing', score: 0.6 }, { label: 'shipping', score: 0.4 }]
+    ]);
+    assert.equal(classifier.tokenizer, tokenizer);
+  });
+
+  it('handles a single-text output and a custom template', async () => {
+    const pipeline = async (_texts: string[], _labels: string[], options: any) => {
+      assert.equal(options.hypothesis_template, 'The topic is {}.');
+      assert.equal(options.multi_label, true);
+      return { labels: ['billing', 'shipping'], scores: [0.9, 0.1] };
+    };
+
+    const classifier = asTextClassifier(pipeline, { ...CONFIG, multiLabel: true, hypothesisTemplate: 'The topic is {}.' });
+    assert.deepEqual(await classifier(['Refund please']), [[{ label: 'billing', score: 0.9 }, { label: 'shipping', score: 0.1 }]]);
+  });
+
+  it('reserves room for the longest hypothesis and its separator', async () => {
+    // One token per word; a pair adds [SEP] between the texts
+    const tokenizer = {
+      model_max_length: 512,
+      encode: (text: string, options: { text_pair?: string } = {}) => {
+        const count = (value: string) => value.split(/\s+/).filter(Boolean).length;
+        return Array(2 + count(text) + (options.text_pair ? 1 + count(options.text_pair) : 0)).fill(0);
+      }
+    };
+    const config = { candidateLabels: ['billing', 'product quality'], multiLabel: false };
+
+    assert.equal(hypothesisTokenCount(tokenizer, config), 6);
+    assert.equal(hypothesisTokenCount(undefined, config), 0);
+    assert.equal(asTextClassifier(async () => [], config).reservedTokens, 0);
+    assert.equal(asTextClassifier(Object.assign(async () => [], { tokenizer }), config).reservedTokens, 6);
+  });
+});